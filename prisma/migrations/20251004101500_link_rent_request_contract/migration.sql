@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."rent_requests" ADD COLUMN     "contractId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rent_requests_contractId_key" ON "public"."rent_requests"("contractId");
+
+-- AddForeignKey
+ALTER TABLE "public"."rent_requests" ADD CONSTRAINT "rent_requests_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "public"."contracts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentType" AS ENUM ('PAYMENT', 'REFUND');
+
+-- CreateEnum
+CREATE TYPE "public"."PaymentMethod" AS ENUM ('CASH', 'CIB', 'EDAHABIA', 'BANK_TRANSFER', 'CHEQUE');
+
+-- CreateTable
+CREATE TABLE "public"."payments" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "adminId" TEXT,
+    "type" "public"."PaymentType" NOT NULL DEFAULT 'PAYMENT',
+    "amount" DECIMAL(10,2) NOT NULL,
+    "method" "public"."PaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "notes" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "refundOfId" TEXT,
+    "voidedAt" TIMESTAMP(3),
+    "voidedBy" TEXT,
+    "voidReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_contractId_idx" ON "public"."payments"("contractId");
+
+-- CreateIndex
+CREATE INDEX "payments_paidAt_idx" ON "public"."payments"("paidAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "public"."contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."payments" ADD CONSTRAINT "payments_refundOfId_fkey" FOREIGN KEY ("refundOfId") REFERENCES "public"."payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Backfill: existing paid amounts become an opening ledger entry so derived totals stay unchanged
+INSERT INTO "public"."payments" ("id", "contractId", "adminId", "type", "amount", "method", "notes", "paidAt", "createdAt", "updatedAt")
+SELECT 'legacy_' || "id", "id", "adminId", 'PAYMENT', "paidAmount", 'CASH', 'Opening balance imported from paidAmount', "updatedAt", CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM "public"."contracts"
+WHERE "paidAmount" > 0;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "public"."DepositStatus" AS ENUM ('HELD', 'RELEASED', 'PARTIALLY_RETAINED', 'RETAINED');
+
+-- CreateEnum
+CREATE TYPE "public"."DepositDeductionReason" AS ENUM ('DAMAGE', 'FUEL', 'LATE_RETURN', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."contract_deposits" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "adminId" TEXT,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "method" "public"."PaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "status" "public"."DepositStatus" NOT NULL DEFAULT 'HELD',
+    "heldAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "notes" TEXT,
+    "releasedAt" TIMESTAMP(3),
+    "releasedBy" TEXT,
+    "retainedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "releaseNotes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contract_deposits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."deposit_deductions" (
+    "id" TEXT NOT NULL,
+    "depositId" TEXT NOT NULL,
+    "reason" "public"."DepositDeductionReason" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "deposit_deductions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contract_deposits_contractId_key" ON "public"."contract_deposits"("contractId");
+
+-- CreateIndex
+CREATE INDEX "contract_deposits_status_idx" ON "public"."contract_deposits"("status");
+
+-- CreateIndex
+CREATE INDEX "deposit_deductions_depositId_idx" ON "public"."deposit_deductions"("depositId");
+
+-- AddForeignKey
+ALTER TABLE "public"."contract_deposits" ADD CONSTRAINT "contract_deposits_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "public"."contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contract_deposits" ADD CONSTRAINT "contract_deposits_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."deposit_deductions" ADD CONSTRAINT "deposit_deductions_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "public"."contract_deposits"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "public"."InspectionType" AS ENUM ('CHECK_OUT', 'CHECK_IN');
+
+-- CreateTable
+CREATE TABLE "public"."contract_inspections" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "adminId" TEXT,
+    "type" "public"."InspectionType" NOT NULL,
+    "mileage" INTEGER NOT NULL,
+    "fuelLevel" INTEGER NOT NULL,
+    "damages" JSONB NOT NULL DEFAULT '[]',
+    "notes" TEXT,
+    "inspectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contract_inspections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."inspection_photos" (
+    "id" TEXT NOT NULL,
+    "inspectionId" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "caption" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "inspection_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contract_inspections_contractId_type_key" ON "public"."contract_inspections"("contractId", "type");
+
+-- AddForeignKey
+ALTER TABLE "public"."contract_inspections" ADD CONSTRAINT "contract_inspections_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "public"."contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contract_inspections" ADD CONSTRAINT "contract_inspections_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."inspection_photos" ADD CONSTRAINT "inspection_photos_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "public"."contract_inspections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
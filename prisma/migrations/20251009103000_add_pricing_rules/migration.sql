@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "public"."PricingRuleType" AS ENUM ('BASE_RATE', 'DURATION', 'SEASON', 'WEEKEND');
+
+-- CreateEnum
+CREATE TYPE "public"."PriceAdjustmentType" AS ENUM ('PERCENTAGE', 'FIXED_RATE');
+
+-- AlterTable
+ALTER TABLE "public"."rent_requests" ADD COLUMN     "estimatedTotal" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "public"."pricing_rules" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" "public"."PricingRuleType" NOT NULL,
+    "adjustmentType" "public"."PriceAdjustmentType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "vehicleId" TEXT,
+    "category" "public"."VehicleCategory",
+    "serviceType" "public"."RentalServiceType",
+    "startDate" TIMESTAMP(3),
+    "endDate" TIMESTAMP(3),
+    "minDays" INTEGER,
+    "weekendDays" INTEGER[] DEFAULT ARRAY[5, 6]::INTEGER[],
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "pricing_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_type_isActive_idx" ON "public"."pricing_rules"("type", "isActive");
+
+-- CreateIndex
+CREATE INDEX "pricing_rules_vehicleId_idx" ON "public"."pricing_rules"("vehicleId");
+
+-- AddForeignKey
+ALTER TABLE "public"."pricing_rules" ADD CONSTRAINT "pricing_rules_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."PromoDiscountType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT');
+
+-- AlterTable
+ALTER TABLE "public"."contracts" ADD COLUMN     "promoCodeId" TEXT,
+ADD COLUMN     "promoDiscountAmount" DECIMAL(10,2);
+
+-- AlterTable
+ALTER TABLE "public"."rent_requests" ADD COLUMN     "promoCodeId" TEXT,
+ADD COLUMN     "promoDiscountAmount" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "public"."promo_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "description" TEXT,
+    "discountType" "public"."PromoDiscountType" NOT NULL,
+    "value" DECIMAL(10,2) NOT NULL,
+    "maxDiscount" DECIMAL(10,2),
+    "minAmount" DECIMAL(10,2),
+    "validFrom" TIMESTAMP(3),
+    "validUntil" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "maxUsesPerClient" INTEGER,
+    "categories" "public"."VehicleCategory"[],
+    "serviceTypes" "public"."RentalServiceType"[],
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "promo_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "promo_codes_code_key" ON "public"."promo_codes"("code");
+
+-- CreateIndex
+CREATE INDEX "rent_requests_promoCodeId_idx" ON "public"."rent_requests"("promoCodeId");
+
+-- AddForeignKey
+ALTER TABLE "public"."contracts" ADD CONSTRAINT "contracts_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."rent_requests" ADD CONSTRAINT "rent_requests_promoCodeId_fkey" FOREIGN KEY ("promoCodeId") REFERENCES "public"."promo_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."contracts" ADD COLUMN     "lateFeeAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "returnedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."contract_extensions" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "adminId" TEXT,
+    "previousEndDate" TIMESTAMP(3) NOT NULL,
+    "newEndDate" TIMESTAMP(3) NOT NULL,
+    "additionalDays" INTEGER NOT NULL,
+    "dailyRate" DECIMAL(10,2) NOT NULL,
+    "additionalAmount" DECIMAL(10,2) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "contract_extensions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contract_extensions_contractId_idx" ON "public"."contract_extensions"("contractId");
+
+-- AddForeignKey
+ALTER TABLE "public"."contract_extensions" ADD CONSTRAINT "contract_extensions_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "public"."contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contract_extensions" ADD CONSTRAINT "contract_extensions_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
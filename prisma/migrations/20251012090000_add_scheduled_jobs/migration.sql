@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "public"."JobTrigger" AS ENUM ('SCHEDULE', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "public"."JobRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."scheduled_jobs" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "isPaused" BOOLEAN NOT NULL DEFAULT false,
+    "nextRunAt" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "lockedUntil" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."job_runs" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "trigger" "public"."JobTrigger" NOT NULL,
+    "status" "public"."JobRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "instanceId" TEXT NOT NULL,
+    "triggeredBy" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "durationMs" INTEGER,
+    "result" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_jobs_name_key" ON "public"."scheduled_jobs"("name");
+
+-- CreateIndex
+CREATE INDEX "job_runs_jobId_startedAt_idx" ON "public"."job_runs"("jobId", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."job_runs" ADD CONSTRAINT "job_runs_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "public"."scheduled_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."AuditEntityType" AS ENUM ('VEHICLE', 'CLIENT', 'CONTRACT', 'RENT_REQUEST', 'REVIEW');
+
+-- CreateTable
+CREATE TABLE "public"."audit_logs" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT,
+    "action" TEXT NOT NULL,
+    "entityType" "public"."AuditEntityType" NOT NULL,
+    "entityId" TEXT,
+    "changes" JSONB,
+    "metadata" JSONB,
+    "method" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "audit_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "audit_logs_entityType_entityId_createdAt_idx" ON "public"."audit_logs"("entityType", "entityId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_adminId_createdAt_idx" ON "public"."audit_logs"("adminId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "audit_logs_createdAt_idx" ON "public"."audit_logs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."audit_logs" ADD CONSTRAINT "audit_logs_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
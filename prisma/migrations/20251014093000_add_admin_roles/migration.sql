@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "public"."AdminRole" AS ENUM ('OWNER', 'MANAGER', 'AGENT', 'ACCOUNTANT');
+
+-- AlterTable
+ALTER TABLE "public"."admins" ADD COLUMN     "role" "public"."AdminRole" NOT NULL DEFAULT 'AGENT';
+
+-- Existing admins keep full access
+UPDATE "public"."admins" SET "role" = 'OWNER';
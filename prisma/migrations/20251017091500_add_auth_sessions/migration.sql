@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "public"."SessionRevokeReason" AS ENUM ('LOGOUT', 'REVOKED_BY_ADMIN', 'TOKEN_REUSE', 'PASSWORD_RESET', 'ACCOUNT_CHANGE');
+
+-- AlterTable
+ALTER TABLE "public"."refresh_tokens" ADD COLUMN     "rotatedAt" TIMESTAMP(3),
+ADD COLUMN     "sessionId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."auth_sessions" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "userAgent" TEXT,
+    "ipAddress" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "revokedAt" TIMESTAMP(3),
+    "revokedReason" "public"."SessionRevokeReason",
+
+    CONSTRAINT "auth_sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refresh_tokens_sessionId_idx" ON "public"."refresh_tokens"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "auth_sessions_adminId_revokedAt_idx" ON "public"."auth_sessions"("adminId", "revokedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."refresh_tokens" ADD CONSTRAINT "refresh_tokens_sessionId_fkey" FOREIGN KEY ("sessionId") REFERENCES "public"."auth_sessions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."auth_sessions" ADD CONSTRAINT "auth_sessions_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
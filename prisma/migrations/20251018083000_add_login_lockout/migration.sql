@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "public"."LoginFailureReason" AS ENUM ('UNKNOWN_EMAIL', 'INVALID_PASSWORD', 'INVALID_TWO_FACTOR', 'ACCOUNT_LOCKED', 'ACCOUNT_DEACTIVATED');
+
+-- AlterTable
+ALTER TABLE "public"."admins" ADD COLUMN     "failedLoginAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastLoginAt" TIMESTAMP(3),
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "lockoutCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."login_attempts" (
+    "id" TEXT NOT NULL,
+    "adminId" TEXT,
+    "email" TEXT NOT NULL,
+    "success" BOOLEAN NOT NULL,
+    "failureReason" "public"."LoginFailureReason",
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_attempts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_attempts_adminId_createdAt_idx" ON "public"."login_attempts"("adminId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "login_attempts_email_createdAt_idx" ON "public"."login_attempts"("email", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."login_attempts" ADD CONSTRAINT "login_attempts_adminId_fkey" FOREIGN KEY ("adminId") REFERENCES "public"."admins"("id") ON DELETE CASCADE ON UPDATE CASCADE;
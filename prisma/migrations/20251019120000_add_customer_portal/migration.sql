@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "public"."customer_login_tokens" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "tokenHash" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "requestedIp" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "customer_login_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "customer_login_tokens_tokenHash_key" ON "public"."customer_login_tokens"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "customer_login_tokens_email_createdAt_idx" ON "public"."customer_login_tokens"("email", "createdAt");
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."RentRequestStatus" ADD VALUE 'CANCELLED';
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "public"."MaintenanceType" AS ENUM ('SERVICE', 'REPAIR', 'TIRES', 'TECHNICAL_INSPECTION', 'BODYWORK', 'CLEANING', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "public"."MaintenanceStatus" AS ENUM ('PLANNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."maintenance_records" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "type" "public"."MaintenanceType" NOT NULL,
+    "status" "public"."MaintenanceStatus" NOT NULL DEFAULT 'PLANNED',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "garage" TEXT,
+    "cost" DECIMAL(10,2),
+    "description" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "maintenance_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "maintenance_records_vehicleId_startDate_endDate_idx" ON "public"."maintenance_records"("vehicleId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "maintenance_records_status_idx" ON "public"."maintenance_records"("status");
+
+-- CreateIndex
+CREATE INDEX "maintenance_records_createdById_idx" ON "public"."maintenance_records"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "public"."maintenance_records" ADD CONSTRAINT "maintenance_records_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."maintenance_records" ADD CONSTRAINT "maintenance_records_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."vehicle_blackouts" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicle_blackouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicle_blackouts_vehicleId_startDate_endDate_idx" ON "public"."vehicle_blackouts"("vehicleId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "vehicle_blackouts_createdById_idx" ON "public"."vehicle_blackouts"("createdById");
+
+-- AddForeignKey
+ALTER TABLE "public"."vehicle_blackouts" ADD CONSTRAINT "vehicle_blackouts_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."vehicle_blackouts" ADD CONSTRAINT "vehicle_blackouts_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
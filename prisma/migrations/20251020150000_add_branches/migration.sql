@@ -0,0 +1,72 @@
+-- AlterTable
+ALTER TABLE "public"."vehicles" ADD COLUMN     "currentBranchId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."contracts" ADD COLUMN     "dropoffBranchId" TEXT,
+ADD COLUMN     "oneWayFee" DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "pickupBranchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."branches" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "postalCode" TEXT,
+    "latitude" DOUBLE PRECISION,
+    "longitude" DOUBLE PRECISION,
+    "phone" TEXT,
+    "email" TEXT,
+    "openingHours" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "branches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."branch_one_way_fees" (
+    "id" TEXT NOT NULL,
+    "fromBranchId" TEXT NOT NULL,
+    "toBranchId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "branch_one_way_fees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicles_currentBranchId_idx" ON "public"."vehicles"("currentBranchId");
+
+-- CreateIndex
+CREATE INDEX "contracts_pickupBranchId_idx" ON "public"."contracts"("pickupBranchId");
+
+-- CreateIndex
+CREATE INDEX "contracts_dropoffBranchId_idx" ON "public"."contracts"("dropoffBranchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "branches_code_key" ON "public"."branches"("code");
+
+-- CreateIndex
+CREATE INDEX "branch_one_way_fees_toBranchId_idx" ON "public"."branch_one_way_fees"("toBranchId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "branch_one_way_fees_fromBranchId_toBranchId_key" ON "public"."branch_one_way_fees"("fromBranchId", "toBranchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."vehicles" ADD CONSTRAINT "vehicles_currentBranchId_fkey" FOREIGN KEY ("currentBranchId") REFERENCES "public"."branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contracts" ADD CONSTRAINT "contracts_pickupBranchId_fkey" FOREIGN KEY ("pickupBranchId") REFERENCES "public"."branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."contracts" ADD CONSTRAINT "contracts_dropoffBranchId_fkey" FOREIGN KEY ("dropoffBranchId") REFERENCES "public"."branches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."branch_one_way_fees" ADD CONSTRAINT "branch_one_way_fees_fromBranchId_fkey" FOREIGN KEY ("fromBranchId") REFERENCES "public"."branches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."branch_one_way_fees" ADD CONSTRAINT "branch_one_way_fees_toBranchId_fkey" FOREIGN KEY ("toBranchId") REFERENCES "public"."branches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
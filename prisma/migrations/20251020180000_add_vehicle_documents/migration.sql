@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."VehicleDocumentType" AS ENUM ('INSURANCE', 'TECHNICAL_INSPECTION', 'VIGNETTE', 'REGISTRATION');
+
+-- CreateTable
+CREATE TABLE "public"."vehicle_documents" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "type" "public"."VehicleDocumentType" NOT NULL,
+    "number" TEXT,
+    "issuer" TEXT,
+    "issueDate" TIMESTAMP(3),
+    "expiryDate" TIMESTAMP(3) NOT NULL,
+    "filePath" TEXT,
+    "fileName" TEXT,
+    "fileMimeType" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vehicle_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vehicle_documents_vehicleId_type_idx" ON "public"."vehicle_documents"("vehicleId", "type");
+
+-- CreateIndex
+CREATE INDEX "vehicle_documents_expiryDate_idx" ON "public"."vehicle_documents"("expiryDate");
+
+-- AddForeignKey
+ALTER TABLE "public"."vehicle_documents" ADD CONSTRAINT "vehicle_documents_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."vehicle_documents" ADD CONSTRAINT "vehicle_documents_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
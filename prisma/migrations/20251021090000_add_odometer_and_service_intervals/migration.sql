@@ -0,0 +1,62 @@
+-- CreateEnum
+CREATE TYPE "public"."OdometerSource" AS ENUM ('CHECK_OUT', 'CHECK_IN', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "public"."odometer_readings" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "mileage" INTEGER NOT NULL,
+    "readAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "source" "public"."OdometerSource" NOT NULL,
+    "contractId" TEXT,
+    "notes" TEXT,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "odometer_readings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."service_intervals" (
+    "id" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "maintenanceType" "public"."MaintenanceType" NOT NULL DEFAULT 'SERVICE',
+    "intervalKm" INTEGER,
+    "intervalMonths" INTEGER,
+    "lastServiceMileage" INTEGER,
+    "lastServiceDate" TIMESTAMP(3),
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "service_intervals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "odometer_readings_vehicleId_readAt_idx" ON "public"."odometer_readings"("vehicleId", "readAt");
+
+-- CreateIndex
+CREATE INDEX "odometer_readings_contractId_idx" ON "public"."odometer_readings"("contractId");
+
+-- CreateIndex
+CREATE INDEX "service_intervals_vehicleId_idx" ON "public"."service_intervals"("vehicleId");
+
+-- AddForeignKey
+ALTER TABLE "public"."odometer_readings" ADD CONSTRAINT "odometer_readings_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."odometer_readings" ADD CONSTRAINT "odometer_readings_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "public"."contracts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."odometer_readings" ADD CONSTRAINT "odometer_readings_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."admins"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."service_intervals" ADD CONSTRAINT "service_intervals_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "public"."vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the odometer log from the recorded handovers
+INSERT INTO "public"."odometer_readings" ("id", "vehicleId", "mileage", "readAt", "source", "contractId", "createdById", "createdAt")
+SELECT 'odo_' || ci."id", c."vehicleId", ci."mileage", ci."inspectedAt", ci."type"::text::"public"."OdometerSource", ci."contractId", ci."adminId", ci."createdAt"
+FROM "public"."contract_inspections" ci
+JOIN "public"."contracts" c ON c."id" = ci."contractId";
@@ -41,6 +41,7 @@ async function seedAdmin() {
         password: hashedPassword,
         firstName: adminFirstName,
         lastName: adminLastName,
+        role: 'OWNER',
         isActive: true,
       },
     });
@@ -52,9 +52,88 @@ export const config = {
     accessKey: process.env.MINIO_ACCESS_KEY || '',
     secretKey: process.env.MINIO_SECRET_KEY || '',
     bucketName: process.env.MINIO_BUCKET_NAME || 'vehicle-images',
+    documentsBucketName: process.env.MINIO_DOCUMENTS_BUCKET_NAME || 'vehicle-documents', // Private, served through presigned URLs
     useSSL: process.env.MINIO_USE_SSL === 'true',
     baseUrl: process.env.MINIO_BASE_URL || 'http://localhost:9000',
   },
+
+  // Printed contract documents (rental agreement PDF)
+  documents: {
+    companyName: process.env.COMPANY_NAME || 'K2A Rental',
+    companyAddress: process.env.COMPANY_ADDRESS || '',
+    companyPhone: process.env.COMPANY_PHONE || '',
+    currency: process.env.CONTRACT_CURRENCY || 'DZD',
+    // TTF/OTF font with Arabic glyphs, required for Arabic agreements (e.g. Amiri or Noto Naskh Arabic)
+    arabicFontPath: process.env.CONTRACT_PDF_ARABIC_FONT || '',
+  },
+
+  // Fees charged when a vehicle is returned after the contract end date
+  lateReturn: {
+    mode: (process.env.LATE_FEE_MODE || 'DAILY') as 'HOURLY' | 'DAILY' | 'NONE',
+    gracePeriodMinutes: parseInt(process.env.LATE_FEE_GRACE_MINUTES || '60'),
+    hourlyFee: parseFloat(process.env.LATE_FEE_PER_HOUR || '0'),
+    dailyFee: parseFloat(process.env.LATE_FEE_PER_DAY || '0'), // 0 charges the contract's daily rate
+  },
+
+  // Vehicle legal documents (insurance, contrôle technique, vignette, carte grise)
+  vehicleDocuments: {
+    expiringWithinDays: parseInt(process.env.VEHICLE_DOCUMENTS_EXPIRING_DAYS || '30'), // Default window of the expiring list
+    downloadUrlTtlSeconds: parseInt(process.env.VEHICLE_DOCUMENTS_URL_TTL_SECONDS || '300'),
+    requireInsurance: process.env.VEHICLE_DOCUMENTS_REQUIRE_INSURANCE === 'true', // Also block vehicles with no insurance on record
+  },
+
+  // Service interval forecasting from the odometer log
+  serviceForecast: {
+    lookbackDays: parseInt(process.env.SERVICE_FORECAST_LOOKBACK_DAYS || '180'), // Rentals the average usage is computed on
+    dueSoonKm: parseInt(process.env.SERVICE_FORECAST_DUE_SOON_KM || '1000'),
+    dueSoonDays: parseInt(process.env.SERVICE_FORECAST_DUE_SOON_DAYS || '14'),
+  },
+
+  // Branches and one-way rentals
+  branches: {
+    defaultOneWayFee: parseFloat(process.env.ONE_WAY_DEFAULT_FEE || '0'), // Charged for branch pairs without a configured fee
+  },
+
+  // TOTP two-factor authentication for admins
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || process.env.COMPANY_NAME || 'K2A Rental',
+    // Key used to encrypt TOTP secrets at rest; falls back to the JWT secret
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || (process.env.JWT_SECRET as string),
+    challengeExpiresIn: process.env.TWO_FACTOR_CHALLENGE_EXPIRES_IN || '5m',
+    recoveryCodeCount: parseInt(process.env.TWO_FACTOR_RECOVERY_CODES || '10'),
+  },
+
+  // Per-account lockout after repeated failed sign-ins; each lockout doubles the previous one
+  loginLockout: {
+    maxAttempts: parseInt(process.env.LOGIN_LOCKOUT_MAX_ATTEMPTS || '5'),
+    baseLockMinutes: parseInt(process.env.LOGIN_LOCKOUT_BASE_MINUTES || '15'),
+    maxLockMinutes: parseInt(process.env.LOGIN_LOCKOUT_MAX_MINUTES || '1440'), // 24 hours
+  },
+
+  // Customer portal: passwordless sign-in through an emailed link
+  customerPortal: {
+    magicLinkTtlMinutes: parseInt(process.env.CUSTOMER_MAGIC_LINK_TTL_MINUTES || '15'),
+    resendCooldownSeconds: parseInt(process.env.CUSTOMER_MAGIC_LINK_COOLDOWN_SECONDS || '60'),
+    sessionExpiresIn: process.env.CUSTOMER_SESSION_EXPIRES_IN || '12h',
+  },
+
+  // Partner API keys; the rate limit applies per key and can be set on each key
+  apiKeys: {
+    defaultRateLimitPerMinute: parseInt(process.env.API_KEY_DEFAULT_RATE_LIMIT || '60'),
+  },
+
+  // Self-service password reset links
+  passwordReset: {
+    tokenTtlMinutes: parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60'),
+    resendCooldownSeconds: parseInt(process.env.PASSWORD_RESET_COOLDOWN_SECONDS || '60'),
+  },
+
+  // In-process scheduler for recurring maintenance jobs
+  scheduler: {
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    tickIntervalMs: parseInt(process.env.SCHEDULER_TICK_INTERVAL_MS || '30000'),
+    lockTtlMs: parseInt(process.env.SCHEDULER_LOCK_TTL_MS || '600000'), // 10 minutes
+  },
 } as const;
 
 /**
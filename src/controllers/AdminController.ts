@@ -0,0 +1,172 @@
+import { Response } from 'express';
+import { AdminService } from '../services/AdminService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AdminActor } from '../types/admin';
+import {
+  adminQuerySchema,
+  inviteAdminSchema,
+  updateAdminSchema,
+  resetAdminPasswordSchema
+} from '../validators/adminValidators';
+import { loginHistoryQuerySchema } from '../validators/authValidators';
+import { logger } from '../utils/logger';
+
+export class AdminController {
+  constructor(private adminService: AdminService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`AdminController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`AdminController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      let statusCode = 400;
+      if (error.message.includes('not found')) statusCode = 404;
+      else if (error.message.startsWith('Only an owner') || error.message.startsWith('You cannot')) statusCode = 403;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  private getActor(req: AuthenticatedRequest): AdminActor {
+    return { adminId: req.admin!.adminId, role: req.admin!.role };
+  }
+
+  // List admins
+  getAdmins = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = adminQuerySchema.parse(req.query);
+      const admins = await this.adminService.getAdmins(query);
+      return this.sendSuccess(res, admins, 'Admins retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getAdmins');
+    }
+  };
+
+  // Roles and the permissions they grant
+  getRoles = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    return this.sendSuccess(res, this.adminService.getRoles(), 'Roles retrieved successfully');
+  };
+
+  // Get admin by ID
+  getAdminById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const admin = await this.adminService.getAdminById(req.params.id);
+
+      if (!admin) {
+        return this.sendError(res, 'Admin not found', 404);
+      }
+
+      return this.sendSuccess(res, admin, 'Admin retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getAdminById');
+    }
+  };
+
+  // Invite a new admin
+  inviteAdmin = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = inviteAdminSchema.parse(req.body);
+      const result = await this.adminService.inviteAdmin(input, this.getActor(req));
+      return res.status(201).json({
+        success: true,
+        message: 'Admin invited successfully',
+        data: result.admin,
+        ...(result.temporaryPassword && { temporaryPassword: result.temporaryPassword })
+      });
+    } catch (error) {
+      return this.handleError(error, res, 'inviteAdmin');
+    }
+  };
+
+  // Update admin details or role
+  updateAdmin = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateAdminSchema.parse(req.body);
+      const admin = await this.adminService.updateAdmin(req.params.id, input, this.getActor(req));
+      return this.sendSuccess(res, admin, 'Admin updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateAdmin');
+    }
+  };
+
+  // Deactivate admin and revoke their sessions
+  deactivateAdmin = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const admin = await this.adminService.deactivateAdmin(req.params.id, this.getActor(req));
+      return this.sendSuccess(res, admin, 'Admin deactivated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deactivateAdmin');
+    }
+  };
+
+  // Reactivate admin
+  reactivateAdmin = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const admin = await this.adminService.reactivateAdmin(req.params.id, this.getActor(req));
+      return this.sendSuccess(res, admin, 'Admin reactivated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'reactivateAdmin');
+    }
+  };
+
+  // Unlock an account locked after failed sign-ins
+  unlockAdmin = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const admin = await this.adminService.unlockAdmin(req.params.id, this.getActor(req));
+      return this.sendSuccess(res, admin, 'Admin unlocked successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'unlockAdmin');
+    }
+  };
+
+  // Sign-in attempts of an admin
+  getLoginHistory = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = loginHistoryQuerySchema.parse(req.query);
+      const history = await this.adminService.getLoginHistory(req.params.id, query, this.getActor(req));
+      return this.sendSuccess(res, history, 'Login history retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getLoginHistory');
+    }
+  };
+
+  // Reset admin password
+  resetPassword = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const { password } = resetAdminPasswordSchema.parse(req.body);
+      const result = await this.adminService.resetPassword(req.params.id, password, this.getActor(req));
+      return res.status(200).json({
+        success: true,
+        message: 'Admin password reset successfully',
+        data: result.admin,
+        ...(result.temporaryPassword && { temporaryPassword: result.temporaryPassword })
+      });
+    } catch (error) {
+      return this.handleError(error, res, 'resetPassword');
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import { Response } from 'express';
+import { ApiKeyService } from '../services/ApiKeyService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { API_KEY_SCOPES } from '../types/apiKey';
+import {
+  apiKeyQuerySchema,
+  createApiKeySchema,
+  updateApiKeySchema
+} from '../validators/apiKeyValidators';
+import { logger } from '../utils/logger';
+
+export class ApiKeyController {
+  constructor(private apiKeyService: ApiKeyService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`ApiKeyController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`ApiKeyController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List API keys
+  getApiKeys = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = apiKeyQuerySchema.parse(req.query);
+      const apiKeys = await this.apiKeyService.getApiKeys(query);
+      return this.sendSuccess(res, apiKeys, 'API keys retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getApiKeys');
+    }
+  };
+
+  // Scopes a key can be granted
+  getScopes = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    return this.sendSuccess(res, API_KEY_SCOPES, 'API key scopes retrieved successfully');
+  };
+
+  // Get API key by ID
+  getApiKeyById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const apiKey = await this.apiKeyService.getApiKeyById(req.params.id);
+
+      if (!apiKey) {
+        return this.sendError(res, 'API key not found', 404);
+      }
+
+      return this.sendSuccess(res, apiKey, 'API key retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getApiKeyById');
+    }
+  };
+
+  // Create an API key; the key is only returned in this response
+  createApiKey = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createApiKeySchema.parse(req.body);
+      const result = await this.apiKeyService.createApiKey(input, req.admin!.adminId);
+      return res.status(201).json({
+        success: true,
+        message: 'API key created successfully',
+        data: result.apiKey,
+        key: result.key
+      });
+    } catch (error) {
+      return this.handleError(error, res, 'createApiKey');
+    }
+  };
+
+  // Update name, scopes, rate limit or expiry
+  updateApiKey = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateApiKeySchema.parse(req.body);
+      const apiKey = await this.apiKeyService.updateApiKey(req.params.id, input);
+      return this.sendSuccess(res, apiKey, 'API key updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateApiKey');
+    }
+  };
+
+  // Revoke an API key
+  revokeApiKey = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const apiKey = await this.apiKeyService.revokeApiKey(req.params.id, req.admin!.adminId);
+      return this.sendSuccess(res, apiKey, 'API key revoked successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'revokeApiKey');
+    }
+  };
+}
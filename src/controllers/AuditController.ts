@@ -0,0 +1,65 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services/AuditService';
+import { auditLogQuerySchema, auditEntityParamsSchema } from '../validators/auditValidators';
+import { logger } from '../utils/logger';
+
+export class AuditController {
+  constructor(private auditService: AuditService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`AuditController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`AuditController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      return this.sendError(res, error.message, 400);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // Search the audit log
+  getLogs = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const query = auditLogQuerySchema.parse(req.query);
+      const logs = await this.auditService.getLogs(query);
+      return this.sendSuccess(res, logs, 'Audit log retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getLogs');
+    }
+  };
+
+  // History of one entity
+  getEntityHistory = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { entityType, entityId } = auditEntityParamsSchema.parse(req.params);
+      const query = auditLogQuerySchema.parse(req.query);
+      const history = await this.auditService.getEntityHistory(entityType, entityId, query);
+      return this.sendSuccess(res, history, 'Entity history retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getEntityHistory');
+    }
+  };
+}
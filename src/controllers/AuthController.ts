@@ -2,11 +2,17 @@ import { Response } from 'express';
 import { Logger } from 'winston';
 import { PrismaClient } from '@prisma/client';
 import { AuthService } from '@/services/AuthService';
+import { TwoFactorService } from '@/services/TwoFactorService';
 import { AuthenticatedRequest } from '@/middleware/auth';
 import { 
   LoginRequest, 
   RefreshTokenRequest,
-  CreateAdminRequest 
+  CreateAdminRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  TwoFactorVerifyRequest,
+  SessionContext,
+  LoginHistoryQuery
 } from '@/types/auth';
 import { SuccessResponse } from '@/types/api';
 import { asyncHandler } from '@/middleware/errorHandler';
@@ -17,12 +23,22 @@ import { asyncHandler } from '@/middleware/errorHandler';
  */
 export class AuthController {
   private authService: AuthService;
+  private twoFactorService: TwoFactorService;
 
   constructor(
     private prisma: PrismaClient,
     private logger: Logger
   ) {
     this.authService = new AuthService(prisma, logger);
+    this.twoFactorService = new TwoFactorService(prisma, logger);
+  }
+
+  // Device details recorded on the sign-in session
+  private getSessionContext(req: AuthenticatedRequest): SessionContext {
+    return {
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent'),
+    };
   }
 
   /**
@@ -38,7 +54,31 @@ export class AuthController {
       userAgent: req.get('User-Agent')
     });
 
-    const result = await this.authService.login(loginData);
+    const result = await this.authService.login(loginData, this.getSessionContext(req));
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'twoFactorRequired' in result ? 'Two-factor authentication code required' : 'Login successful',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * POST /api/v1/auth/2fa/verify
+   * Second login step for admins with two-factor authentication
+   */
+  verifyTwoFactor = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const verifyData: TwoFactorVerifyRequest = req.body;
+
+    this.logger.info('Two-factor verification request received', { 
+      ip: req.ip,
+      recoveryCode: Boolean(verifyData.recoveryCode)
+    });
+
+    const result = await this.authService.verifyTwoFactorLogin(verifyData, this.getSessionContext(req));
 
     const response: SuccessResponse = {
       success: true,
@@ -50,6 +90,74 @@ export class AuthController {
     res.status(200).json(response);
   });
 
+  /**
+   * POST /api/v1/auth/2fa/setup
+   * Start TOTP enrollment and return the provisioning URI for the QR code
+   */
+  setupTwoFactor = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await this.twoFactorService.setup(req.admin!.adminId);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Scan the QR code with an authenticator app, then confirm with a code',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * POST /api/v1/auth/2fa/enable
+   * Confirm enrollment with a first code; recovery codes are returned once
+   */
+  enableTwoFactor = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await this.twoFactorService.enable(req.admin!.adminId, req.body.code);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Two-factor authentication enabled. Store the recovery codes somewhere safe',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * POST /api/v1/auth/2fa/disable
+   * Turn off two-factor authentication
+   */
+  disableTwoFactor = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { password, code, recoveryCode } = req.body;
+    await this.twoFactorService.disable(req.admin!.adminId, password, code, recoveryCode);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Two-factor authentication disabled',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * POST /api/v1/auth/2fa/recovery-codes
+   * Replace the recovery codes
+   */
+  regenerateRecoveryCodes = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const result = await this.twoFactorService.regenerateRecoveryCodes(req.admin!.adminId, req.body.code);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work',
+      data: result,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
   /**
    * POST /api/v1/auth/refresh
    * Refresh access token endpoint
@@ -61,7 +169,7 @@ export class AuthController {
       ip: req.ip 
     });
 
-    const result = await this.authService.refreshToken(refreshToken);
+    const result = await this.authService.refreshToken(refreshToken, this.getSessionContext(req));
 
     const response: SuccessResponse = {
       success: true,
@@ -106,6 +214,67 @@ export class AuthController {
     res.status(200).json(response);
   });
 
+  /**
+   * GET /api/v1/auth/sessions
+   * List the admin's active sessions
+   */
+  getSessions = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const sessions = await this.authService.getSessions(req.admin!.adminId, req.admin!.sessionId);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Sessions retrieved successfully',
+      data: sessions,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * DELETE /api/v1/auth/sessions/:id
+   * Revoke a session, e.g. on a lost device
+   */
+  revokeSession = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const adminId = req.admin!.adminId;
+
+    this.logger.info('Session revocation request received', { 
+      adminId,
+      sessionId: req.params.id,
+      ip: req.ip 
+    });
+
+    await this.authService.revokeSession(adminId, req.params.id);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Session revoked successfully',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * GET /api/v1/auth/login-history
+   * List the admin's own sign-in attempts
+   */
+  getLoginHistory = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const history = await this.authService.getLoginHistory(
+      req.admin!.adminId,
+      req.query as LoginHistoryQuery
+    );
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Login history retrieved successfully',
+      data: history,
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
   /**
    * GET /api/v1/auth/profile
    * Get admin profile endpoint
@@ -136,6 +305,49 @@ export class AuthController {
     res.status(200).json(response);
   });
 
+  /**
+   * POST /api/v1/auth/forgot-password
+   * Email a password reset link; the response is the same whether or not the account exists
+   */
+  forgotPassword = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { email }: ForgotPasswordRequest = req.body;
+
+    this.logger.info('Password reset request received', { 
+      email,
+      ip: req.ip 
+    });
+
+    await this.authService.requestPasswordReset(email, req.ip);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
+  /**
+   * POST /api/v1/auth/reset-password
+   * Set a new password with a reset link token
+   */
+  resetPassword = asyncHandler(async (req: AuthenticatedRequest, res: Response) => {
+    const { token, password }: ResetPasswordRequest = req.body;
+
+    this.logger.info('Password reset received', { ip: req.ip });
+
+    await this.authService.resetPassword(token, password);
+
+    const response: SuccessResponse = {
+      success: true,
+      message: 'Password reset successfully, please sign in again',
+      timestamp: new Date().toISOString(),
+    };
+
+    res.status(200).json(response);
+  });
+
   /**
    * POST /api/v1/auth/setup
    * Create first admin (setup endpoint)
@@ -166,7 +378,8 @@ export class AuthController {
       ip: req.ip 
     });
 
-    const admin = await this.authService.createAdmin(adminData);
+    // The first admin owns the agency account
+    const admin = await this.authService.createAdmin({ ...adminData, role: 'OWNER' });
 
     const response: SuccessResponse = {
       success: true,
@@ -176,6 +389,7 @@ export class AuthController {
         email: admin.email,
         firstName: admin.firstName,
         lastName: admin.lastName,
+        role: admin.role,
         createdAt: admin.createdAt,
       },
       timestamp: new Date().toISOString(),
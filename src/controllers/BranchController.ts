@@ -0,0 +1,154 @@
+import { Response } from 'express';
+import { BranchService } from '../services/BranchService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  branchQuerySchema,
+  createBranchSchema,
+  oneWayFeeQuoteSchema,
+  setOneWayFeeSchema,
+  updateBranchSchema
+} from '../validators/branchValidators';
+import { logger } from '../utils/logger';
+
+export class BranchController {
+  constructor(private branchService: BranchService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`BranchController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`BranchController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List branches; visitors only see active ones
+  getBranches = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = branchQuerySchema.parse(req.query);
+      const branches = await this.branchService.getBranches({
+        ...query,
+        ...(!req.admin && { isActive: true })
+      });
+      return this.sendSuccess(res, branches, 'Branches retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getBranches');
+    }
+  };
+
+  // Get branch by ID
+  getBranchById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const branch = await this.branchService.getBranchById(req.params.id);
+
+      if (!branch || (!branch.isActive && !req.admin)) {
+        return this.sendError(res, 'Branch not found', 404);
+      }
+
+      return this.sendSuccess(res, branch, 'Branch retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getBranchById');
+    }
+  };
+
+  // Create a branch
+  createBranch = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createBranchSchema.parse(req.body);
+      const branch = await this.branchService.createBranch(input);
+      return this.sendSuccess(res, branch, 'Branch created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createBranch');
+    }
+  };
+
+  // Update a branch, including its opening hours
+  updateBranch = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateBranchSchema.parse(req.body);
+      const branch = await this.branchService.updateBranch(req.params.id, input);
+      return this.sendSuccess(res, branch, 'Branch updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateBranch');
+    }
+  };
+
+  // Delete a branch that no contract uses
+  deleteBranch = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      await this.branchService.deleteBranch(req.params.id);
+      return this.sendSuccess(res, null, 'Branch deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteBranch');
+    }
+  };
+
+  // Fee for a one-way rental between two branches
+  getOneWayFee = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = oneWayFeeQuoteSchema.parse(req.query);
+      const fee = await this.branchService.getOneWayFee(query.pickupBranchId, query.dropoffBranchId);
+      return this.sendSuccess(res, fee, 'One-way fee retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getOneWayFee');
+    }
+  };
+
+  // List configured one-way fees, optionally for one branch
+  getOneWayFees = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const branchId = typeof req.query.branchId === 'string' ? req.query.branchId : undefined;
+      const fees = await this.branchService.getOneWayFees(branchId);
+      return this.sendSuccess(res, fees, 'One-way fees retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getOneWayFees');
+    }
+  };
+
+  // Set the fee from one branch to another
+  setOneWayFee = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = setOneWayFeeSchema.parse(req.body);
+      const fee = await this.branchService.setOneWayFee(input);
+      return this.sendSuccess(res, fee, 'One-way fee saved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'setOneWayFee');
+    }
+  };
+
+  // Remove a configured fee; the pair falls back to the default one-way fee
+  deleteOneWayFee = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      await this.branchService.deleteOneWayFee(req.params.feeId);
+      return this.sendSuccess(res, null, 'One-way fee deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteOneWayFee');
+    }
+  };
+}
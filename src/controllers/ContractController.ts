@@ -5,8 +5,16 @@ import {
   UpdateContractRequest, 
   ContractQuery,
   VehicleAvailabilityRequest,
-  BulkContractStatusUpdate
+  BulkContractStatusUpdate,
+  ExtendContractRequest,
+  CompleteContractRequest
 } from '../types/contract';
+import { CreatePaymentRequest, RefundPaymentRequest, VoidPaymentRequest } from '../types/payment';
+import { CollectDepositRequest, UpdateDepositRequest, ReleaseDepositRequest } from '../types/deposit';
+import { CreateInspectionRequest, DamageMark } from '../types/inspection';
+import { InspectionType } from '@prisma/client';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
 import { logger } from '../utils/logger';
 
 export class ContractController {
@@ -35,6 +43,10 @@ export class ContractController {
   private handleError(error: any, res: Response, operation: string): Response {
     logger.error(`ContractController.${operation} Error:`, error);
     
+    if (error instanceof AppError) {
+      return this.sendError(res, error.message, error.statusCode);
+    }
+
     if (error.message) {
       return this.sendError(res, error.message, 400);
     }
@@ -115,6 +127,35 @@ export class ContractController {
     }
   };
 
+  // Download the rental agreement PDF
+  getContractDocument = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const language = (req.query.lang as string) || 'fr';
+
+      if (language !== 'fr' && language !== 'ar') {
+        return this.sendError(res, 'Invalid language. Supported values: fr, ar', 400);
+      }
+
+      const document = await this.contractService.generateContractDocument(id, language);
+
+      if (!document) {
+        return this.sendError(res, 'Contract not found', 404);
+      }
+
+      const filename = `contrat_${document.contractNumber}${language === 'ar' ? '_ar' : ''}.pdf`;
+      const disposition = req.query.download === 'true' ? 'attachment' : 'inline';
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${disposition}; filename="${filename}"`);
+      res.setHeader('Content-Length', document.buffer.length.toString());
+
+      return res.send(document.buffer);
+    } catch (error) {
+      return this.handleError(error, res, 'getContractDocument');
+    }
+  };
+
   // Update contract
   updateContract = async (req: Request, res: Response): Promise<Response> => {
     try {
@@ -186,14 +227,63 @@ export class ContractController {
     try {
       const { id } = req.params;
       const adminId = (req as any).admin?.id;
+      const requestData: CompleteContractRequest = req.body || {};
+      const overrideDeposit = requestData.overrideDeposit === true;
 
-      const contract = await this.contractService.completeContract(id, adminId);
+      const contract = await this.contractService.completeContract(id, adminId, overrideDeposit, {
+        returnedAt: requestData.returnedAt ? new Date(requestData.returnedAt) : undefined,
+        waiveLateFee: requestData.waiveLateFee === true
+      });
       return this.sendSuccess(res, contract, 'Contract completed successfully');
     } catch (error) {
       return this.handleError(error, res, 'completeContract');
     }
   };
 
+  // Get the extension history of a contract
+  getExtensions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const extensions = await this.contractService.getExtensions(id);
+
+      if (!extensions) {
+        return this.sendError(res, 'Contract not found', 404);
+      }
+
+      return this.sendSuccess(res, extensions, 'Extensions retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getExtensions');
+    }
+  };
+
+  // Extend the rental period
+  extendContract = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const requestData: ExtendContractRequest = req.body;
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+
+      if (!requestData.endDate) {
+        return this.sendError(res, 'New end date is required', 400);
+      }
+
+      if (requestData.dailyRate !== undefined && typeof requestData.dailyRate !== 'number') {
+        return this.sendError(res, 'Daily rate must be a number', 400);
+      }
+
+      const result = await this.contractService.extendContract({
+        contractId: id,
+        adminId,
+        endDate: new Date(requestData.endDate),
+        dailyRate: requestData.dailyRate,
+        reason: requestData.reason
+      });
+      return this.sendSuccess(res, result, 'Contract extended successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'extendContract');
+    }
+  };
+
   // Update payment
   updatePayment = async (req: Request, res: Response): Promise<Response> => {
     try {
@@ -212,6 +302,244 @@ export class ContractController {
     }
   };
 
+  // Get the payment ledger of a contract
+  getPayments = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const ledger = await this.contractService.getPaymentLedger(id);
+
+      if (!ledger) {
+        return this.sendError(res, 'Contract not found', 404);
+      }
+
+      return this.sendSuccess(res, ledger, 'Payments retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getPayments');
+    }
+  };
+
+  // Record a payment
+  addPayment = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const requestData: CreatePaymentRequest = req.body;
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+
+      if (typeof requestData.amount !== 'number') {
+        return this.sendError(res, 'Amount must be a number', 400);
+      }
+
+      if (!requestData.method) {
+        return this.sendError(res, 'Payment method is required', 400);
+      }
+
+      const payment = await this.contractService.addPayment({
+        ...requestData,
+        contractId: id,
+        adminId,
+        paidAt: requestData.paidAt ? new Date(requestData.paidAt) : undefined
+      });
+      return this.sendSuccess(res, payment, 'Payment recorded successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'addPayment');
+    }
+  };
+
+  // Refund a payment
+  refundPayment = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id, paymentId } = req.params;
+      const requestData: RefundPaymentRequest = req.body || {};
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+
+      if (requestData.amount !== undefined && typeof requestData.amount !== 'number') {
+        return this.sendError(res, 'Amount must be a number', 400);
+      }
+
+      const refund = await this.contractService.refundPayment({
+        ...requestData,
+        contractId: id,
+        paymentId,
+        adminId
+      });
+      return this.sendSuccess(res, refund, 'Payment refunded successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'refundPayment');
+    }
+  };
+
+  // Void a payment or refund recorded by mistake
+  voidPayment = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id, paymentId } = req.params;
+      const { reason }: VoidPaymentRequest = req.body || {};
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+
+      const payment = await this.contractService.voidPayment({
+        contractId: id,
+        paymentId,
+        adminId,
+        reason
+      });
+      return this.sendSuccess(res, payment, 'Payment voided successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'voidPayment');
+    }
+  };
+
+  // Get the security deposit of a contract
+  getDeposit = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const deposit = await this.contractService.getDeposit(id);
+
+      if (!deposit) {
+        return this.sendError(res, 'No deposit recorded for this contract', 404);
+      }
+
+      return this.sendSuccess(res, deposit, 'Deposit retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getDeposit');
+    }
+  };
+
+  // Record the security deposit collected
+  collectDeposit = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const requestData: CollectDepositRequest = req.body;
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+
+      if (typeof requestData.amount !== 'number') {
+        return this.sendError(res, 'Amount must be a number', 400);
+      }
+
+      if (!requestData.method) {
+        return this.sendError(res, 'Payment method is required', 400);
+      }
+
+      const deposit = await this.contractService.collectDeposit({
+        ...requestData,
+        contractId: id,
+        adminId,
+        heldAt: requestData.heldAt ? new Date(requestData.heldAt) : undefined
+      });
+      return this.sendSuccess(res, deposit, 'Deposit recorded successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'collectDeposit');
+    }
+  };
+
+  // Correct the details of a held deposit
+  updateDeposit = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const requestData: UpdateDepositRequest = req.body;
+
+      if (requestData.amount !== undefined && typeof requestData.amount !== 'number') {
+        return this.sendError(res, 'Amount must be a number', 400);
+      }
+
+      const deposit = await this.contractService.updateDeposit(id, requestData);
+      return this.sendSuccess(res, deposit, 'Deposit updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateDeposit');
+    }
+  };
+
+  // Release the deposit, optionally retaining part of it
+  releaseDeposit = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const { deductions = [], notes }: ReleaseDepositRequest = req.body || {};
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+
+      if (!Array.isArray(deductions)) {
+        return this.sendError(res, 'Deductions must be an array', 400);
+      }
+
+      const deposit = await this.contractService.releaseDeposit({
+        contractId: id,
+        adminId,
+        deductions,
+        notes
+      });
+      return this.sendSuccess(res, deposit, 'Deposit released successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'releaseDeposit');
+    }
+  };
+
+  // Get the handover inspections of a contract
+  getInspections = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const { id } = req.params;
+      const handover = await this.contractService.getInspections(id);
+
+      if (!handover) {
+        return this.sendError(res, 'Contract not found', 404);
+      }
+
+      return this.sendSuccess(res, handover, 'Inspections retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getInspections');
+    }
+  };
+
+  // Record the vehicle condition at pickup
+  recordCheckOut = async (req: Request, res: Response): Promise<Response> => {
+    return this.recordInspection(req, res, 'CHECK_OUT');
+  };
+
+  // Record the vehicle condition at return
+  recordCheckIn = async (req: Request, res: Response): Promise<Response> => {
+    return this.recordInspection(req, res, 'CHECK_IN');
+  };
+
+  private async recordInspection(req: Request, res: Response, type: InspectionType): Promise<Response> {
+    const operation = type === 'CHECK_OUT' ? 'recordCheckOut' : 'recordCheckIn';
+
+    try {
+      const { id } = req.params;
+      const requestData: CreateInspectionRequest = req.body;
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+      const photos = (req.files as Express.Multer.File[]) || [];
+
+      if (requestData.mileage === undefined || requestData.fuelLevel === undefined) {
+        return this.sendError(res, 'Mileage and fuel level are required', 400);
+      }
+
+      // Multipart forms send the damage marks as a JSON string
+      let damages: DamageMark[] = [];
+      if (typeof requestData.damages === 'string') {
+        try {
+          damages = JSON.parse(requestData.damages);
+        } catch {
+          return this.sendError(res, 'Damages must be a valid JSON array', 400);
+        }
+      } else if (requestData.damages) {
+        damages = requestData.damages;
+      }
+
+      const inspection = await this.contractService.recordInspection({
+        contractId: id,
+        type,
+        adminId,
+        mileage: Number(requestData.mileage),
+        fuelLevel: Number(requestData.fuelLevel),
+        damages,
+        notes: requestData.notes,
+        inspectedAt: requestData.inspectedAt ? new Date(requestData.inspectedAt) : undefined,
+        photos
+      });
+
+      const message = type === 'CHECK_OUT' ? 'Check-out recorded successfully' : 'Check-in recorded successfully';
+      return this.sendSuccess(res, inspection, message, 201);
+    } catch (error) {
+      return this.handleError(error, res, operation);
+    }
+  }
+
   // Check vehicle availability
   checkVehicleAvailability = async (req: Request, res: Response): Promise<Response> => {
     try {
@@ -403,8 +731,8 @@ export class ContractController {
   // Auto-update contract statuses (admin endpoint)
   autoUpdateStatuses = async (req: Request, res: Response): Promise<Response> => {
     try {
-      await this.contractService.autoUpdateContractStatuses();
-      return this.sendSuccess(res, null, 'Contract statuses updated successfully');
+      const result = await this.contractService.autoUpdateContractStatuses();
+      return this.sendSuccess(res, result, 'Contract statuses updated successfully');
     } catch (error) {
       return this.handleError(error, res, 'autoUpdateStatuses');
     }
@@ -0,0 +1,106 @@
+import { Response } from 'express';
+import { MaintenanceService } from '../services/MaintenanceService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createMaintenanceSchema,
+  maintenanceQuerySchema,
+  updateMaintenanceSchema
+} from '../validators/maintenanceValidators';
+import { logger } from '../utils/logger';
+
+export class MaintenanceController {
+  constructor(private maintenanceService: MaintenanceService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`MaintenanceController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`MaintenanceController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List maintenance records
+  getRecords = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = maintenanceQuerySchema.parse(req.query);
+      const records = await this.maintenanceService.getRecords(query);
+      return this.sendSuccess(res, records, 'Maintenance records retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getRecords');
+    }
+  };
+
+  // Get maintenance record by ID
+  getRecordById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const record = await this.maintenanceService.getRecordById(req.params.id);
+
+      if (!record) {
+        return this.sendError(res, 'Maintenance record not found', 404);
+      }
+
+      return this.sendSuccess(res, record, 'Maintenance record retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getRecordById');
+    }
+  };
+
+  // Plan a maintenance
+  createRecord = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createMaintenanceSchema.parse(req.body);
+      const record = await this.maintenanceService.createRecord(input, req.admin?.adminId);
+      return this.sendSuccess(res, record, 'Maintenance record created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createRecord');
+    }
+  };
+
+  // Update a maintenance record, including its status
+  updateRecord = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateMaintenanceSchema.parse(req.body);
+      const record = await this.maintenanceService.updateRecord(req.params.id, input);
+      return this.sendSuccess(res, record, 'Maintenance record updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateRecord');
+    }
+  };
+
+  // Delete a maintenance record
+  deleteRecord = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      await this.maintenanceService.deleteRecord(req.params.id);
+      return this.sendSuccess(res, null, 'Maintenance record deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteRecord');
+    }
+  };
+}
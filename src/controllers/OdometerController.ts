@@ -0,0 +1,66 @@
+import { Response } from 'express';
+import { OdometerService } from '../services/OdometerService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { createOdometerReadingSchema, odometerQuerySchema } from '../validators/vehicleValidators';
+import { logger } from '../utils/logger';
+
+export class OdometerController {
+  constructor(private odometerService: OdometerService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`OdometerController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`OdometerController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List the odometer log of a vehicle
+  getReadings = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = odometerQuerySchema.parse(req.query);
+      const readings = await this.odometerService.getReadings(req.params.id, query);
+      return this.sendSuccess(res, readings, 'Odometer readings retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getReadings');
+    }
+  };
+
+  // Log a manual odometer reading
+  createReading = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createOdometerReadingSchema.parse(req.body);
+      const reading = await this.odometerService.createReading(req.params.id, input, req.admin?.adminId);
+      return this.sendSuccess(res, reading, 'Odometer reading created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createReading');
+    }
+  };
+}
@@ -0,0 +1,139 @@
+import { Response } from 'express';
+import { PortalService } from '../services/PortalService';
+import { CustomerRequest } from '../middleware/customerAuth';
+import {
+  portalDocumentQuerySchema,
+  requestMagicLinkSchema,
+  verifyMagicLinkSchema
+} from '../validators/portalValidators';
+import { logger } from '../utils/logger';
+
+export class PortalController {
+  constructor(private portalService: PortalService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`PortalController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`PortalController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      let statusCode = 400;
+      if (error.message.includes('not found')) statusCode = 404;
+      else if (error.message.startsWith('Invalid or expired')) statusCode = 401;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // Email a sign-in link; answers the same whether the email is known or not
+  requestMagicLink = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const { email } = requestMagicLinkSchema.parse(req.body);
+      await this.portalService.requestMagicLink(email, req.ip);
+      return this.sendSuccess(res, null, 'If this email is on file, a sign-in link has been sent');
+    } catch (error) {
+      return this.handleError(error, res, 'requestMagicLink');
+    }
+  };
+
+  // Exchange the link token for a portal session
+  verifyMagicLink = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const { token } = verifyMagicLinkSchema.parse(req.body);
+      const result = await this.portalService.verifyMagicLink(token);
+      return this.sendSuccess(res, result, 'Signed in successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'verifyMagicLink');
+    }
+  };
+
+  // Signed-in customer
+  getProfile = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const profile = await this.portalService.getProfile(req.customer!.email);
+      return this.sendSuccess(res, profile, 'Profile retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getProfile');
+    }
+  };
+
+  // Customer's rent requests
+  getRentRequests = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const rentRequests = await this.portalService.getRentRequests(req.customer!.email);
+      return this.sendSuccess(res, rentRequests, 'Rent requests retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getRentRequests');
+    }
+  };
+
+  // Customer's contracts with their payment status
+  getContracts = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const contracts = await this.portalService.getContracts(req.customer!.email);
+      return this.sendSuccess(res, contracts, 'Contracts retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getContracts');
+    }
+  };
+
+  // Contract with its payments and deposit
+  getContractById = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const contract = await this.portalService.getContract(req.customer!.email, req.params.id);
+
+      if (!contract) {
+        return this.sendError(res, 'Contract not found', 404);
+      }
+
+      return this.sendSuccess(res, contract, 'Contract retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getContractById');
+    }
+  };
+
+  // Download the rental agreement PDF
+  getContractDocument = async (req: CustomerRequest, res: Response): Promise<Response> => {
+    try {
+      const { lang, download } = portalDocumentQuerySchema.parse(req.query);
+      const document = await this.portalService.getContractDocument(req.customer!.email, req.params.id, lang);
+
+      if (!document) {
+        return this.sendError(res, 'Contract not found', 404);
+      }
+
+      const filename = `contrat_${document.contractNumber}${lang === 'ar' ? '_ar' : ''}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `${download ? 'attachment' : 'inline'}; filename="${filename}"`);
+      res.setHeader('Content-Length', document.buffer.length.toString());
+
+      return res.send(document.buffer);
+    } catch (error) {
+      return this.handleError(error, res, 'getContractDocument');
+    }
+  };
+}
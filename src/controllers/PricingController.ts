@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { PricingService } from '../services/PricingService';
+import {
+  createPricingRuleSchema,
+  updatePricingRuleSchema,
+  pricingRuleQuerySchema,
+  priceQuoteSchema
+} from '../validators/pricingValidators';
+import { logger } from '../utils/logger';
+
+export class PricingController {
+  constructor(private pricingService: PricingService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`PricingController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`PricingController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // Price a rental with the active pricing rules
+  getQuote = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const input = priceQuoteSchema.parse(req.body);
+      const quote = await this.pricingService.getQuote(input);
+      return this.sendSuccess(res, quote, 'Quote calculated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getQuote');
+    }
+  };
+
+  // Get pricing rules
+  getRules = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const query = pricingRuleQuerySchema.parse(req.query);
+      const rules = await this.pricingService.getRules(query);
+      return this.sendSuccess(res, rules, 'Pricing rules retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getRules');
+    }
+  };
+
+  // Get pricing rule by ID
+  getRuleById = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const rule = await this.pricingService.getRuleById(req.params.id);
+
+      if (!rule) {
+        return this.sendError(res, 'Pricing rule not found', 404);
+      }
+
+      return this.sendSuccess(res, rule, 'Pricing rule retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getRuleById');
+    }
+  };
+
+  // Create pricing rule
+  createRule = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const input = createPricingRuleSchema.parse(req.body);
+      const rule = await this.pricingService.createRule(input);
+      return this.sendSuccess(res, rule, 'Pricing rule created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createRule');
+    }
+  };
+
+  // Update pricing rule
+  updateRule = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const input = updatePricingRuleSchema.parse(req.body);
+      const rule = await this.pricingService.updateRule(req.params.id, input);
+      return this.sendSuccess(res, rule, 'Pricing rule updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateRule');
+    }
+  };
+
+  // Delete pricing rule
+  deleteRule = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      await this.pricingService.deleteRule(req.params.id);
+      return this.sendSuccess(res, null, 'Pricing rule deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteRule');
+    }
+  };
+}
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { PromoCodeService } from '../services/PromoCodeService';
+import {
+  createPromoCodeSchema,
+  updatePromoCodeSchema,
+  promoCodeQuerySchema,
+  promoCodeReportQuerySchema
+} from '../validators/promoCodeValidators';
+import { logger } from '../utils/logger';
+
+export class PromoCodeController {
+  constructor(private promoCodeService: PromoCodeService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`PromoCodeController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`PromoCodeController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // Get promo codes
+  getPromoCodes = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const query = promoCodeQuerySchema.parse(req.query);
+      const promoCodes = await this.promoCodeService.getPromoCodes(query);
+      return this.sendSuccess(res, promoCodes, 'Promo codes retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getPromoCodes');
+    }
+  };
+
+  // Redemptions and revenue impact report
+  getReport = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const query = promoCodeReportQuerySchema.parse(req.query);
+      const report = await this.promoCodeService.getReport(query);
+      return this.sendSuccess(res, report, 'Promo code report generated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getReport');
+    }
+  };
+
+  // Get promo code by ID
+  getPromoCodeById = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const promoCode = await this.promoCodeService.getPromoCodeById(req.params.id);
+
+      if (!promoCode) {
+        return this.sendError(res, 'Promo code not found', 404);
+      }
+
+      return this.sendSuccess(res, promoCode, 'Promo code retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getPromoCodeById');
+    }
+  };
+
+  // Get the contracts a promo code was redeemed on
+  getRedemptions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const redemptions = await this.promoCodeService.getRedemptions(req.params.id);
+
+      if (!redemptions) {
+        return this.sendError(res, 'Promo code not found', 404);
+      }
+
+      return this.sendSuccess(res, redemptions, 'Redemptions retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getRedemptions');
+    }
+  };
+
+  // Create promo code
+  createPromoCode = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const input = createPromoCodeSchema.parse(req.body);
+      const promoCode = await this.promoCodeService.createPromoCode(input);
+      return this.sendSuccess(res, promoCode, 'Promo code created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createPromoCode');
+    }
+  };
+
+  // Update promo code
+  updatePromoCode = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const input = updatePromoCodeSchema.parse(req.body);
+      const promoCode = await this.promoCodeService.updatePromoCode(req.params.id, input);
+      return this.sendSuccess(res, promoCode, 'Promo code updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updatePromoCode');
+    }
+  };
+
+  // Delete promo code (only if never redeemed)
+  deletePromoCode = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      await this.promoCodeService.deletePromoCode(req.params.id);
+      return this.sendSuccess(res, null, 'Promo code deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deletePromoCode');
+    }
+  };
+}
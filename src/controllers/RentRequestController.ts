@@ -3,10 +3,13 @@ import { rentRequestService } from '@/services/RentRequestService';
 import {
   validateCreateRentRequest,
   validateUpdateRentRequest,
+  validateConvertRentRequest,
   validateRentRequestFilters,
 } from '@/validators/rentRequestValidators';
 import { logger } from '@/utils/logger';
 import { AuthenticatedRequest } from '@/middleware/auth';
+import { AppError } from '@/middleware/errorHandler';
+import { PartnerRentRequestResponse, RentRequestWithVehicle } from '@/types/rentRequest';
 
 /**
  * Controller for Rent Request operations
@@ -16,13 +19,14 @@ export class RentRequestController {
 
   /**
    * POST /api/rent-requests
-   * Create a new rent request (Public endpoint with rate limiting)
+   * Create a new rent request (Public endpoint with rate limiting, or partner API key)
    */
-  async createRentRequest(req: Request, res: Response): Promise<void> {
+  async createRentRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       logger.info('Rent request creation attempt', {
         ip: req.ip,
         userAgent: req.get('User-Agent'),
+        apiKeyId: req.apiKey?.id,
       });
 
       // Validate request data
@@ -33,6 +37,7 @@ export class RentRequestController {
         ...validatedData,
         startDate: new Date(validatedData.startDate),
         endDate: new Date(validatedData.endDate),
+        apiKeyId: req.apiKey?.id,
       };
 
       // Create rent request
@@ -55,6 +60,10 @@ export class RentRequestController {
           vehicleModel: rentRequest.vehicleModel,
           startDate: rentRequest.startDate,
           endDate: rentRequest.endDate,
+          estimatedTotal: rentRequest.estimatedTotal,
+          promoDiscountAmount: rentRequest.promoDiscountAmount,
+          currency: rentRequest.currency,
+          trackingToken: rentRequest.trackingToken,
           createdAt: rentRequest.createdAt,
         },
         timestamp: new Date().toISOString(),
@@ -66,7 +75,8 @@ export class RentRequestController {
         ip: req.ip,
       });
 
-      const statusCode = error instanceof Error && error.message.includes('validation') ? 400 : 500;
+      const statusCode = error instanceof Error &&
+        (error.message.includes('validation') || error.message.includes('Code promo')) ? 400 : 500;
       const message = error instanceof Error ? error.message : 'Erreur interne du serveur';
 
       res.status(statusCode).json({
@@ -99,12 +109,17 @@ export class RentRequestController {
         filters.endDate = new Date(filters.endDate);
       }
 
-      // Get rent requests
-      const result = await rentRequestService.getRentRequests(filters);
+      // Get rent requests; partners only see the ones they submitted
+      const result = await rentRequestService.getRentRequests({
+        ...filters,
+        ...(req.apiKey && { apiKeyId: req.apiKey.id }),
+      });
 
       res.json({
         success: true,
-        data: result,
+        data: req.apiKey
+          ? { ...result, requests: result.requests.map(request => this.toPartnerResponse(request)) }
+          : result,
         message: 'Demandes de location récupérées avec succès',
         timestamp: new Date().toISOString(),
       });
@@ -141,9 +156,13 @@ export class RentRequestController {
 
       const rentRequest = await rentRequestService.getRentRequestById(id);
 
+      if (req.apiKey && rentRequest.apiKeyId !== req.apiKey.id) {
+        throw new Error('Demande de location non trouvée');
+      }
+
       res.json({
         success: true,
-        data: rentRequest,
+        data: req.apiKey ? this.toPartnerResponse(rentRequest) : rentRequest,
         message: 'Demande de location récupérée avec succès',
         timestamp: new Date().toISOString(),
       });
@@ -224,6 +243,66 @@ export class RentRequestController {
     }
   }
 
+  /**
+   * POST /api/rent-requests/:id/convert
+   * Convert an approved rent request into a contract (Admin only)
+   */
+  async convertRentRequest(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const adminId = req.admin?.adminId;
+
+      logger.info('Converting rent request to contract', {
+        id,
+        adminId,
+      });
+
+      // Validate conversion data
+      const validatedData = validateConvertRentRequest(req.body);
+
+      const result = await rentRequestService.convertRentRequest(id, validatedData, adminId);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: 'Demande de location convertie en contrat avec succès',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error converting rent request', {
+        id: req.params.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        adminId: req.admin?.adminId,
+      });
+
+      const statusCode = (() => {
+        if (error instanceof AppError) return error.statusCode;
+        if (error instanceof Error) {
+          if (error.message.includes('non trouvée')) return 404;
+          if (error.message.includes('Conflit') || error.message.includes('conflict') || error.message.includes('déjà été convertie')) return 409;
+          if (
+            error.message.includes('validation') ||
+            error.message.includes('Transition') ||
+            error.message.includes('requises') ||
+            error.message.includes('service') ||
+            error.message.includes('pas actif') ||
+            error.message.includes('code promo') ||
+            error.message.includes('Promo code')
+          ) return 400;
+        }
+        return 500;
+      })();
+
+      const message = error instanceof Error ? error.message : 'Erreur interne du serveur';
+
+      res.status(statusCode).json({
+        success: false,
+        message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * DELETE /api/rent-requests/:id
    * Delete a rent request (Admin only)
@@ -307,6 +386,75 @@ export class RentRequestController {
     }
   }
 
+  /**
+   * GET /api/rent-requests/track/:token
+   * Status of a request from the link sent to the client (Public endpoint)
+   */
+  async trackRentRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const tracking = await rentRequestService.getTrackedRentRequest(req.params.token);
+
+      res.json({
+        success: true,
+        data: tracking,
+        message: 'Demande de location récupérée avec succès',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      const statusCode = error instanceof Error && error.message.includes('non trouvée') ? 404 : 500;
+      if (statusCode === 500) {
+        logger.error('Error tracking rent request', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          ip: req.ip,
+        });
+      }
+
+      res.status(statusCode).json({
+        success: false,
+        message: statusCode === 404 ? 'Demande de location non trouvée' : 'Erreur lors de la récupération de la demande',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * POST /api/rent-requests/track/:token/cancel
+   * Cancel a pending request from the tracking link (Public endpoint)
+   */
+  async cancelTrackedRentRequest(req: Request, res: Response): Promise<void> {
+    try {
+      const tracking = await rentRequestService.cancelTrackedRentRequest(req.params.token);
+
+      res.json({
+        success: true,
+        data: tracking,
+        message: 'Demande de location annulée avec succès',
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      logger.error('Error cancelling tracked rent request', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ip: req.ip,
+      });
+
+      const statusCode = (() => {
+        if (error instanceof Error) {
+          if (error.message.includes('non trouvée')) return 404;
+          if (error.message.includes('en attente')) return 409;
+        }
+        return 500;
+      })();
+
+      res.status(statusCode).json({
+        success: false,
+        message: error instanceof Error && statusCode !== 500
+          ? error.message
+          : 'Erreur lors de l\'annulation de la demande',
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * GET /api/rent-requests/check-availability
    * Check vehicle availability for given dates (Public endpoint)
@@ -358,6 +506,30 @@ export class RentRequestController {
       });
     }
   }
+
+  /**
+   * Partner-safe view of a request: status, dates, vehicle summary and estimate
+   * Conflicts with other bookings, admin notes and the status history are left out
+   */
+  private toPartnerResponse(rentRequest: RentRequestWithVehicle): PartnerRentRequestResponse {
+    return {
+      id: rentRequest.id,
+      requestId: rentRequest.requestId,
+      status: rentRequest.status,
+      startDate: rentRequest.startDate,
+      endDate: rentRequest.endDate,
+      vehicle: {
+        id: rentRequest.vehicleId,
+        make: rentRequest.vehicleMake,
+        model: rentRequest.vehicleModel,
+        year: rentRequest.vehicleYear,
+      },
+      estimatedTotal: rentRequest.estimatedTotal,
+      promoDiscountAmount: rentRequest.promoDiscountAmount,
+      currency: rentRequest.currency,
+      createdAt: rentRequest.createdAt,
+    };
+  }
 }
 
 // Export singleton instance
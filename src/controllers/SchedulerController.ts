@@ -0,0 +1,96 @@
+import { Request, Response } from 'express';
+import { SchedulerService } from '../services/SchedulerService';
+import { jobRunQuerySchema } from '../validators/schedulerValidators';
+import { AuthenticatedRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+
+export class SchedulerController {
+  constructor(private schedulerService: SchedulerService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`SchedulerController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`SchedulerController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      let statusCode = 400;
+      if (error.message.includes('not found')) statusCode = 404;
+      if (error.message.includes('already running')) statusCode = 409;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List jobs with their schedule, state and last run
+  getJobs = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const jobs = await this.schedulerService.getJobs();
+      return this.sendSuccess(res, jobs, 'Jobs retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getJobs');
+    }
+  };
+
+  // Run history of a job
+  getJobRuns = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const query = jobRunQuerySchema.parse(req.query);
+      const runs = await this.schedulerService.getJobRuns(req.params.name, query);
+      return this.sendSuccess(res, runs, 'Job runs retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getJobRuns');
+    }
+  };
+
+  // Run a job now and return the recorded run
+  triggerJob = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const adminId = (req as AuthenticatedRequest).admin?.adminId;
+      const run = await this.schedulerService.triggerJob(req.params.name, adminId);
+      return this.sendSuccess(res, run, `Job ${run.status === 'FAILED' ? 'failed' : 'completed'}`, 201);
+    } catch (error) {
+      return this.handleError(error, res, 'triggerJob');
+    }
+  };
+
+  pauseJob = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const job = await this.schedulerService.pauseJob(req.params.name);
+      return this.sendSuccess(res, job, 'Job paused successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'pauseJob');
+    }
+  };
+
+  resumeJob = async (req: Request, res: Response): Promise<Response> => {
+    try {
+      const job = await this.schedulerService.resumeJob(req.params.name);
+      return this.sendSuccess(res, job, 'Job resumed successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'resumeJob');
+    }
+  };
+}
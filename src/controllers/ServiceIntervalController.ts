@@ -0,0 +1,130 @@
+import { Response } from 'express';
+import { ServiceIntervalService } from '../services/ServiceIntervalService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createServiceIntervalSchema,
+  markServicedSchema,
+  serviceForecastQuerySchema,
+  serviceIntervalQuerySchema,
+  updateServiceIntervalSchema
+} from '../validators/serviceIntervalValidators';
+import { logger } from '../utils/logger';
+
+export class ServiceIntervalController {
+  constructor(private serviceIntervalService: ServiceIntervalService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`ServiceIntervalController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`ServiceIntervalController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List service intervals
+  getIntervals = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = serviceIntervalQuerySchema.parse(req.query);
+      const intervals = await this.serviceIntervalService.getIntervals(query);
+      return this.sendSuccess(res, intervals, 'Service intervals retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getIntervals');
+    }
+  };
+
+  // Predict when the active intervals fall due
+  getForecast = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = serviceForecastQuerySchema.parse(req.query);
+      const forecast = await this.serviceIntervalService.getForecast(query);
+      return this.sendSuccess(res, forecast, 'Service forecast retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getForecast');
+    }
+  };
+
+  // Get service interval by ID
+  getIntervalById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const interval = await this.serviceIntervalService.getIntervalById(req.params.id);
+
+      if (!interval) {
+        return this.sendError(res, 'Service interval not found', 404);
+      }
+
+      return this.sendSuccess(res, interval, 'Service interval retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getIntervalById');
+    }
+  };
+
+  // Create a service interval
+  createInterval = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createServiceIntervalSchema.parse(req.body);
+      const interval = await this.serviceIntervalService.createInterval(input);
+      return this.sendSuccess(res, interval, 'Service interval created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createInterval');
+    }
+  };
+
+  // Update a service interval
+  updateInterval = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateServiceIntervalSchema.parse(req.body);
+      const interval = await this.serviceIntervalService.updateInterval(req.params.id, input);
+      return this.sendSuccess(res, interval, 'Service interval updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateInterval');
+    }
+  };
+
+  // Record that the service was done
+  markServiced = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = markServicedSchema.parse(req.body);
+      const interval = await this.serviceIntervalService.markServiced(req.params.id, input);
+      return this.sendSuccess(res, interval, 'Service recorded successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'markServiced');
+    }
+  };
+
+  // Delete a service interval
+  deleteInterval = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      await this.serviceIntervalService.deleteInterval(req.params.id);
+      return this.sendSuccess(res, null, 'Service interval deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteInterval');
+    }
+  };
+}
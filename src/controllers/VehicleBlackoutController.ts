@@ -0,0 +1,101 @@
+import { Response } from 'express';
+import { VehicleBlackoutService } from '../services/VehicleBlackoutService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createVehicleBlackoutSchema,
+  updateVehicleBlackoutSchema,
+  vehicleBlackoutQuerySchema
+} from '../validators/vehicleValidators';
+import { logger } from '../utils/logger';
+
+export class VehicleBlackoutController {
+  constructor(private vehicleBlackoutService: VehicleBlackoutService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`VehicleBlackoutController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`VehicleBlackoutController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List the blackout periods of a vehicle
+  getBlackouts = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = vehicleBlackoutQuerySchema.parse(req.query);
+      const blackouts = await this.vehicleBlackoutService.getBlackouts(req.params.id, query);
+      return this.sendSuccess(res, blackouts, 'Vehicle blackouts retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getBlackouts');
+    }
+  };
+
+  // Get a blackout period
+  getBlackoutById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const blackout = await this.vehicleBlackoutService.getBlackoutById(req.params.id, req.params.blackoutId);
+      return this.sendSuccess(res, blackout, 'Vehicle blackout retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getBlackoutById');
+    }
+  };
+
+  // Block a vehicle for a period
+  createBlackout = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createVehicleBlackoutSchema.parse(req.body);
+      const blackout = await this.vehicleBlackoutService.createBlackout(req.params.id, input, req.admin?.adminId);
+      return this.sendSuccess(res, blackout, 'Vehicle blackout created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createBlackout');
+    }
+  };
+
+  // Update a blackout period
+  updateBlackout = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateVehicleBlackoutSchema.parse(req.body);
+      const blackout = await this.vehicleBlackoutService.updateBlackout(req.params.id, req.params.blackoutId, input);
+      return this.sendSuccess(res, blackout, 'Vehicle blackout updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateBlackout');
+    }
+  };
+
+  // Delete a blackout period
+  deleteBlackout = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      await this.vehicleBlackoutService.deleteBlackout(req.params.id, req.params.blackoutId);
+      return this.sendSuccess(res, null, 'Vehicle blackout deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteBlackout');
+    }
+  };
+}
@@ -18,6 +18,7 @@ import {
 import { VehicleService } from '../services/VehicleService';
 import { ImageService } from '../services/ImageService';
 import { AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
 import { VehicleCategory, RentalServiceType } from '@prisma/client';
@@ -55,6 +56,10 @@ export class VehicleController {
     if (error.name === 'ZodError') {
       return this.sendError(res, 'Validation failed', 400, error.errors);
     }
+
+    if (error instanceof AppError) {
+      return this.sendError(res, error.message, error.statusCode);
+    }
     
     logger.error(`Error in ${operation}:`, error);
     return this.sendError(res, `Failed to ${operation}`, 500);
@@ -0,0 +1,128 @@
+import { Response } from 'express';
+import { VehicleDocumentService } from '../services/VehicleDocumentService';
+import { AuthenticatedRequest } from '../middleware/auth';
+import {
+  createVehicleDocumentSchema,
+  expiringVehicleDocumentsQuerySchema,
+  updateVehicleDocumentSchema,
+  vehicleDocumentQuerySchema
+} from '../validators/vehicleDocumentValidators';
+import { logger } from '../utils/logger';
+
+export class VehicleDocumentController {
+  constructor(private vehicleDocumentService: VehicleDocumentService) {}
+
+  // Helper method for consistent error responses
+  private sendError(res: Response, message: string, statusCode: number = 500, details?: any): Response {
+    logger.error(`VehicleDocumentController Error: ${message}`, { statusCode, details });
+    return res.status(statusCode).json({
+      success: false,
+      message,
+      ...(details && { details })
+    });
+  }
+
+  // Helper method for consistent success responses
+  private sendSuccess(res: Response, data: any, message: string = 'Success', statusCode: number = 200): Response {
+    return res.status(statusCode).json({
+      success: true,
+      message,
+      data
+    });
+  }
+
+  // Helper method for error handling
+  private handleError(error: any, res: Response, operation: string): Response {
+    logger.error(`VehicleDocumentController.${operation} Error:`, error);
+
+    if (error.name === 'ZodError') {
+      return this.sendError(res, 'Validation failed', 400, error.errors);
+    }
+
+    if (error.message) {
+      const statusCode = error.message.includes('not found') ? 404 : 400;
+      return this.sendError(res, error.message, statusCode);
+    }
+
+    return this.sendError(res, 'An unexpected error occurred', 500);
+  }
+
+  // List vehicle documents
+  getDocuments = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = vehicleDocumentQuerySchema.parse(req.query);
+      const documents = await this.vehicleDocumentService.getDocuments(query);
+      return this.sendSuccess(res, documents, 'Vehicle documents retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getDocuments');
+    }
+  };
+
+  // Documents expiring within N days
+  getExpiringDocuments = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const query = expiringVehicleDocumentsQuerySchema.parse(req.query);
+      const result = await this.vehicleDocumentService.getExpiringDocuments(query.days, query.type);
+      return this.sendSuccess(res, result, 'Expiring vehicle documents retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getExpiringDocuments');
+    }
+  };
+
+  // Get vehicle document by ID
+  getDocumentById = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const document = await this.vehicleDocumentService.getDocumentById(req.params.id);
+
+      if (!document) {
+        return this.sendError(res, 'Vehicle document not found', 404);
+      }
+
+      return this.sendSuccess(res, document, 'Vehicle document retrieved successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getDocumentById');
+    }
+  };
+
+  // Temporary link to the scanned file
+  getDocumentFile = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const file = await this.vehicleDocumentService.getDocumentFile(req.params.id);
+      return this.sendSuccess(res, file, 'Document file link generated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'getDocumentFile');
+    }
+  };
+
+  // Add a document, with an optional scan
+  createDocument = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = createVehicleDocumentSchema.parse(req.body);
+      const document = await this.vehicleDocumentService.createDocument(input, req.file, req.admin?.adminId);
+      return this.sendSuccess(res, document, 'Vehicle document created successfully', 201);
+    } catch (error) {
+      return this.handleError(error, res, 'createDocument');
+    }
+  };
+
+  // Update a document or replace its scan
+  updateDocument = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      const input = updateVehicleDocumentSchema.parse(req.body);
+      const document = await this.vehicleDocumentService.updateDocument(req.params.id, input, req.file);
+      return this.sendSuccess(res, document, 'Vehicle document updated successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'updateDocument');
+    }
+  };
+
+  // Delete a document and its scan
+  deleteDocument = async (req: AuthenticatedRequest, res: Response): Promise<Response> => {
+    try {
+      await this.vehicleDocumentService.deleteDocument(req.params.id);
+      return this.sendSuccess(res, null, 'Vehicle document deleted successfully');
+    } catch (error) {
+      return this.handleError(error, res, 'deleteDocument');
+    }
+  };
+}
@@ -0,0 +1,53 @@
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { SchedulerService } from '../services/SchedulerService';
+import { ContractService } from '../services/ContractService';
+import { AuthService } from '../services/AuthService';
+import { rentRequestService } from '../services/RentRequestService';
+import { portalService } from '../services/PortalService';
+import { ContractRepository } from '../repositories/ContractRepository';
+import { VehicleRepository } from '../repositories/VehicleRepository';
+import { ClientRepository } from '../repositories/ClientRepository';
+import { PaymentRepository } from '../repositories/PaymentRepository';
+import { DepositRepository } from '../repositories/DepositRepository';
+import { InspectionRepository } from '../repositories/InspectionRepository';
+
+/**
+ * Recurring maintenance jobs
+ * Each used to run only when an admin called its HTTP route
+ */
+export const registerMaintenanceJobs = (scheduler: SchedulerService): void => {
+  const contractService = new ContractService(
+    new ContractRepository(prisma),
+    new VehicleRepository(prisma),
+    new ClientRepository(prisma),
+    new PaymentRepository(prisma),
+    new DepositRepository(prisma),
+    new InspectionRepository(prisma)
+  );
+  const authService = new AuthService(prisma, logger);
+
+  scheduler.register({
+    name: 'contract-status-update',
+    description: 'Activate confirmed contracts that have started and complete active contracts that have ended',
+    schedule: '*/15 * * * *',
+    handler: () => contractService.autoUpdateContractStatuses()
+  });
+
+  scheduler.register({
+    name: 'rent-request-expiry',
+    description: 'Expire rent requests left pending for more than 7 days',
+    schedule: '0 * * * *',
+    handler: async () => ({ expired: await rentRequestService.expirePendingRequests() })
+  });
+
+  scheduler.register({
+    name: 'expired-token-cleanup',
+    description: 'Delete expired refresh tokens and expired or used password reset and portal sign-in tokens',
+    schedule: '30 3 * * *',
+    handler: async () => ({
+      deleted: await authService.cleanupExpiredTokens(),
+      portalLoginTokens: await portalService.cleanupExpiredLoginTokens()
+    })
+  });
+};
@@ -0,0 +1,98 @@
+import { Request, Response, NextFunction } from 'express';
+import rateLimit from 'express-rate-limit';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { apiKeyService } from '@/services/ApiKeyService';
+import { ApiKeyScope } from '@/types/apiKey';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+
+/**
+ * API Key Middleware
+ * Authenticates partner systems sending their key in the X-API-Key header
+ */
+
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Per-key rate limiter, using the limit set on each key
+ */
+const apiKeyLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: (req: Request) =>
+    (req as AuthenticatedRequest).apiKey?.rateLimitPerMinute || config.apiKeys.defaultRateLimitPerMinute,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => `api-key:${(req as AuthenticatedRequest).apiKey?.id}`,
+  handler: (req: Request, res: Response) => {
+    logger.warn('API key rate limit exceeded', {
+      apiKeyId: (req as AuthenticatedRequest).apiKey?.id,
+      url: req.url,
+      method: req.method,
+    });
+
+    res.status(429).json({
+      success: false,
+      message: 'Rate limit exceeded for this API key, please try again later',
+      timestamp: new Date().toISOString(),
+    });
+  },
+});
+
+/**
+ * Requests without a key go through untouched, so the middleware can sit in front of
+ * public routes and before authenticateAdmin on admin routes. A request with a key must
+ * present a valid key holding every listed scope; authenticateAdmin and requirePermission
+ * then let it through.
+ */
+export const authenticateApiKey = (...scopes: ApiKeyScope[]) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get(API_KEY_HEADER);
+
+    if (!key) {
+      next();
+      return;
+    }
+
+    try {
+      const apiKey = await apiKeyService.authenticate(key, req.ip);
+
+      if (!apiKey) {
+        logger.warn('API key authentication failed: Invalid, expired or revoked key', {
+          url: req.url,
+          method: req.method,
+          ip: req.ip,
+        });
+
+        res.status(401).json({
+          success: false,
+          message: 'Invalid or expired API key',
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const missing = scopes.filter(scope => !apiKey.scopes.includes(scope));
+      if (missing.length > 0) {
+        logger.warn('API key scope denied', {
+          apiKeyId: apiKey.id,
+          missing,
+          url: req.originalUrl,
+          method: req.method,
+        });
+
+        res.status(403).json({
+          success: false,
+          message: 'This API key is not allowed to perform this action',
+          required: scopes,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      req.apiKey = apiKey;
+      apiKeyLimiter(req, res, next);
+    } catch (error) {
+      next(error);
+    }
+  };
+};
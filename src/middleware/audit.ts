@@ -0,0 +1,78 @@
+import { Response, NextFunction } from 'express';
+import { AuditEntityType } from '@prisma/client';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { auditService } from '@/services/AuditService';
+import { describeAuditAction, diffAuditStates } from '@/utils/audit';
+import { logger } from '@/utils/logger';
+
+/**
+ * Audit Trail Middleware
+ * Records successful admin mutations of an entity type with a before/after diff
+ */
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * Add to each admin route after authenticateAdmin and requirePermission, right before the handler,
+ * so unauthenticated or rejected requests never load the entity
+ * The entity (the :id route param) is snapshotted before the handler runs and again once the
+ * response is sent; requests without an authenticated admin or with an error status are not recorded
+ */
+export const auditTrail = (entityType: AuditEntityType) => {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.admin || !MUTATING_METHODS.includes(req.method)) {
+      next();
+      return;
+    }
+
+    const candidateId: string | undefined = req.params.id;
+    let before: Record<string, unknown> | null = null;
+
+    if (candidateId) {
+      try {
+        before = await auditService.loadEntity(entityType, candidateId);
+      } catch (error) {
+        logger.warn('Audit snapshot failed', { entityType, candidateId, error });
+      }
+    }
+
+    // Keep the response body to find the id of a created entity
+    let responseBody: any;
+    const json = res.json.bind(res);
+    res.json = ((body: any) => {
+      responseBody = body;
+      return json(body);
+    }) as Response['json'];
+
+    res.on('finish', () => {
+      if (!req.admin || res.statusCode >= 400 || !req.route) {
+        return;
+      }
+
+      const entityId: string | undefined = before
+        ? candidateId
+        : req.method === 'POST' && req.route.path === '/' ? responseBody?.data?.id : undefined;
+
+      const write = async () => {
+        const after = entityId ? await auditService.loadEntity(entityType, entityId) : null;
+
+        await auditService.record({
+          adminId: req.admin?.adminId,
+          action: describeAuditAction(req.method, req.route.path),
+          entityType,
+          entityId,
+          changes: entityId ? diffAuditStates(before, after) : null,
+          metadata: entityId ? null : { body: req.body },
+          method: req.method,
+          path: `${req.baseUrl}${req.route.path}`,
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent')
+        });
+      };
+
+      write().catch(error => logger.error('Audit trail failed', { entityType, entityId, error }));
+    });
+
+    next();
+  };
+};
@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, extractTokenFromHeader } from '@/utils/jwt';
 import { logger } from '@/utils/logger';
 import { JwtPayload } from '@/types/auth';
+import { ApiKeyContext } from '@/types/apiKey';
 
 /**
  * Authentication Middleware
@@ -11,17 +12,24 @@ import { JwtPayload } from '@/types/auth';
 // Extend Request interface to include admin data
 export interface AuthenticatedRequest extends Request {
   admin?: JwtPayload;
+  apiKey?: ApiKeyContext; // Set by authenticateApiKey
 }
 
 /**
  * Middleware to authenticate admin using JWT access token
  * Verifies Bearer token in Authorization header
+ * Requests already authenticated by authenticateApiKey are let through
  */
 export const authenticateAdmin = async (
   req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
+  if (req.apiKey) {
+    next();
+    return;
+  }
+
   try {
     // Extract token from Authorization header
     const token = extractTokenFromHeader(req.headers.authorization);
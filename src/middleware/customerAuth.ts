@@ -0,0 +1,51 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyCustomerAccessToken, extractTokenFromHeader } from '@/utils/jwt';
+import { logger } from '@/utils/logger';
+import { CustomerJwtPayload } from '@/types/portal';
+
+/**
+ * Customer Authentication Middleware
+ * Protects the customer portal routes
+ */
+
+export interface CustomerRequest extends Request {
+  customer?: CustomerJwtPayload;
+}
+
+/**
+ * Middleware to authenticate a customer using the token issued for a magic link
+ * Admin access tokens are signed with another key and are rejected here
+ */
+export const authenticateCustomer = async (
+  req: CustomerRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const token = extractTokenFromHeader(req.headers.authorization);
+
+  if (!token) {
+    res.status(401).json({
+      success: false,
+      message: 'Access token is required',
+      timestamp: new Date().toISOString(),
+    });
+    return;
+  }
+
+  try {
+    req.customer = await verifyCustomerAccessToken(token);
+    next();
+  } catch (error) {
+    logger.warn('Customer authentication failed: Invalid token', {
+      url: req.url,
+      method: req.method,
+      ip: req.ip,
+    });
+
+    res.status(401).json({
+      success: false,
+      message: 'Invalid or expired session, please request a new sign-in link',
+      timestamp: new Date().toISOString(),
+    });
+  }
+};
@@ -45,6 +45,14 @@ export class ForbiddenError extends AppError {
   }
 }
 
+// Conflict error class
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super(message, 409);
+    this.name = 'ConflictError';
+  }
+}
+
 /**
  * Global error handling middleware
  * Must be the last middleware in the chain
@@ -83,7 +91,7 @@ export const errorHandler = (
     statusCode = 401;
     message = 'Token expired';
   } else if (error.name === 'AuthError') {
-    statusCode = 401;
+    statusCode = error.statusCode || 401;
     message = error.message;
   } else if (error.name === 'BadRequestError') {
     statusCode = 400;
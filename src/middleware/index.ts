@@ -1,5 +1,6 @@
 // Re-export all middleware for easy importing
 export * from './auth';
+export * from './permissions';
 export * from './validation';
 export * from './rateLimiter';
 export * from './errorHandler';
@@ -0,0 +1,63 @@
+import { Response, NextFunction } from 'express';
+import { AuthenticatedRequest } from '@/middleware/auth';
+import { rbacService } from '@/services/RBACService';
+import { Permission } from '@/types/rbac';
+import { logger } from '@/utils/logger';
+
+/**
+ * Permission Middleware
+ * Restricts routes to admins whose role grants the required permissions
+ */
+
+/**
+ * Must run after authenticateAdmin; the role is read from the access token,
+ * so a role change applies once the admin's token is refreshed.
+ * API key requests were already checked against their scopes by authenticateApiKey
+ */
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!req.admin && req.apiKey) {
+      next();
+      return;
+    }
+
+    if (!req.admin) {
+      res.status(401).json({
+        success: false,
+        message: 'Admin not authenticated',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    // Tokens issued before roles existed carry no role
+    if (!req.admin.role) {
+      res.status(401).json({
+        success: false,
+        message: 'Access token is outdated, please sign in again',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (!rbacService.hasAllPermissions(req.admin.role, permissions)) {
+      logger.warn('Permission denied', {
+        adminId: req.admin.adminId,
+        role: req.admin.role,
+        permissions,
+        url: req.originalUrl,
+        method: req.method,
+      });
+
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action',
+        required: permissions,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    next();
+  };
+};
@@ -1,6 +1,7 @@
 import multer from 'multer';
 import { Request } from 'express';
 import { imageService } from '@/services/ImageService';
+import { documentStorageService } from '@/services/DocumentStorageService';
 
 /**
  * Multer configuration for vehicle image uploads
@@ -41,6 +42,33 @@ export const uploadSingleImage = uploadVehicleImages.single('image');
 // Middleware for multiple image upload
 export const uploadMultipleImages = uploadVehicleImages.array('images', 10);
 
+// Middleware for contract inspection photos
+export const uploadInspectionPhotos = uploadVehicleImages.array('photos', 10);
+
+// Vehicle document scans (PDF or image), kept private
+const documentFileFilter = (
+  req: Request,
+  file: Express.Multer.File,
+  cb: multer.FileFilterCallback
+) => {
+  const validation = documentStorageService.validateDocumentFile(file);
+
+  if (validation.isValid) {
+    cb(null, true);
+  } else {
+    cb(new Error(validation.error || 'Invalid file'));
+  }
+};
+
+export const uploadVehicleDocumentFile = multer({
+  storage,
+  fileFilter: documentFileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+    files: 1,
+  },
+}).single('file');
+
 // Error handling middleware for multer errors
 export const handleMulterError = (error: any, req: Request, res: any, next: any) => {
   if (error instanceof multer.MulterError) {
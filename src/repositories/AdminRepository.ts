@@ -0,0 +1,137 @@
+import { PrismaClient, Prisma, AdminRole, SessionRevokeReason } from '@prisma/client';
+import { AdminQuery, AdminResponse, AdminListResponse } from '../types/admin';
+import { rbacService } from '../services/RBACService';
+
+export class AdminRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findAll(query: AdminQuery): Promise<AdminListResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const where: Prisma.AdminWhereInput = {
+      ...(query.search && {
+        OR: [
+          { email: { contains: query.search, mode: 'insensitive' } },
+          { firstName: { contains: query.search, mode: 'insensitive' } },
+          { lastName: { contains: query.search, mode: 'insensitive' } }
+        ]
+      }),
+      ...(query.role && { role: query.role }),
+      ...(query.isActive !== undefined && { isActive: query.isActive })
+    };
+
+    const [admins, total] = await Promise.all([
+      this.prisma.admin.findMany({
+        where,
+        include: this.getAdminIncludes(),
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.admin.count({ where })
+    ]);
+
+    return {
+      admins: admins.map(admin => this.mapToAdminResponse(admin)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async findById(id: string): Promise<AdminResponse | null> {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id },
+      include: this.getAdminIncludes()
+    });
+
+    return admin ? this.mapToAdminResponse(admin) : null;
+  }
+
+  async emailExists(email: string, excludeId?: string): Promise<boolean> {
+    const count = await this.prisma.admin.count({
+      where: {
+        email: { equals: email, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    });
+
+    return count > 0;
+  }
+
+  async create(data: {
+    email: string;
+    firstName?: string;
+    lastName?: string;
+    role: AdminRole;
+    password: string; // Already hashed
+  }): Promise<AdminResponse> {
+    const admin = await this.prisma.admin.create({
+      data,
+      include: this.getAdminIncludes()
+    });
+
+    return this.mapToAdminResponse(admin);
+  }
+
+  async update(id: string, data: Prisma.AdminUpdateInput): Promise<AdminResponse> {
+    const admin = await this.prisma.admin.update({
+      where: { id },
+      data,
+      include: this.getAdminIncludes()
+    });
+
+    return this.mapToAdminResponse(admin);
+  }
+
+  // Update an admin and sign them out of every session in one transaction
+  async updateAndRevokeSessions(
+    id: string,
+    data: Prisma.AdminUpdateInput,
+    reason: SessionRevokeReason = 'ACCOUNT_CHANGE'
+  ): Promise<AdminResponse> {
+    const [, , admin] = await this.prisma.$transaction([
+      this.prisma.authSession.updateMany({
+        where: { adminId: id, revokedAt: null },
+        data: { revokedAt: new Date(), revokedReason: reason }
+      }),
+      this.prisma.refreshToken.deleteMany({ where: { adminId: id } }),
+      this.prisma.admin.update({
+        where: { id },
+        data,
+        include: this.getAdminIncludes()
+      })
+    ]);
+
+    return this.mapToAdminResponse(admin);
+  }
+
+  private getAdminIncludes() {
+    return {
+      _count: {
+        select: {
+          sessions: { where: { revokedAt: null, expiresAt: { gt: new Date() } } }
+        }
+      }
+    };
+  }
+
+  private mapToAdminResponse(admin: any): AdminResponse {
+    return {
+      id: admin.id,
+      email: admin.email,
+      firstName: admin.firstName,
+      lastName: admin.lastName,
+      role: admin.role,
+      permissions: rbacService.getPermissions(admin.role),
+      isActive: admin.isActive,
+      activeSessions: admin._count?.sessions ?? 0,
+      failedLoginAttempts: admin.failedLoginAttempts,
+      lockedUntil: admin.lockedUntil,
+      lastLoginAt: admin.lastLoginAt,
+      createdAt: admin.createdAt,
+      updatedAt: admin.updatedAt
+    };
+  }
+}
@@ -0,0 +1,128 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ApiKeyQuery, ApiKeyResponse, ApiKeyScope } from '../types/apiKey';
+import { UpdateApiKeyInput } from '../validators/apiKeyValidators';
+
+export class ApiKeyRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findAll(query: ApiKeyQuery = {}): Promise<ApiKeyResponse[]> {
+    const now = new Date();
+    const activeFilter: Prisma.ApiKeyWhereInput = {
+      revokedAt: null,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }]
+    };
+
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: {
+        ...(query.search && {
+          OR: [
+            { name: { contains: query.search, mode: 'insensitive' } },
+            { keyPrefix: { startsWith: query.search } }
+          ]
+        }),
+        ...(query.isActive === true && activeFilter),
+        ...(query.isActive === false && { NOT: activeFilter })
+      },
+      include: this.getApiKeyIncludes(),
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return apiKeys.map(apiKey => this.mapToApiKeyResponse(apiKey));
+  }
+
+  async findById(id: string): Promise<ApiKeyResponse | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { id },
+      include: this.getApiKeyIncludes()
+    });
+
+    return apiKey ? this.mapToApiKeyResponse(apiKey) : null;
+  }
+
+  async findByHash(keyHash: string): Promise<ApiKeyResponse | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash },
+      include: this.getApiKeyIncludes()
+    });
+
+    return apiKey ? this.mapToApiKeyResponse(apiKey) : null;
+  }
+
+  async create(data: {
+    name: string;
+    description?: string | null;
+    keyPrefix: string;
+    keyHash: string;
+    scopes: ApiKeyScope[];
+    rateLimitPerMinute: number;
+    expiresAt?: Date | null;
+    createdById: string;
+  }): Promise<ApiKeyResponse> {
+    const apiKey = await this.prisma.apiKey.create({
+      data,
+      include: this.getApiKeyIncludes()
+    });
+
+    return this.mapToApiKeyResponse(apiKey);
+  }
+
+  async update(id: string, data: UpdateApiKeyInput | { revokedAt: Date }): Promise<ApiKeyResponse> {
+    const apiKey = await this.prisma.apiKey.update({
+      where: { id },
+      data,
+      include: this.getApiKeyIncludes()
+    });
+
+    return this.mapToApiKeyResponse(apiKey);
+  }
+
+  // Only written when the previous value is older than the threshold, to avoid a write per request
+  async touch(id: string, ipAddress: string | undefined, olderThan: Date): Promise<void> {
+    await this.prisma.apiKey.updateMany({
+      where: {
+        id,
+        OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: olderThan } }]
+      },
+      data: {
+        lastUsedAt: new Date(),
+        lastUsedIp: ipAddress
+      }
+    });
+  }
+
+  private getApiKeyIncludes() {
+    return {
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      },
+      _count: {
+        select: { rentRequests: true }
+      }
+    };
+  }
+
+  private mapToApiKeyResponse(apiKey: any): ApiKeyResponse {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      description: apiKey.description,
+      keyPrefix: apiKey.keyPrefix,
+      scopes: apiKey.scopes,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      lastUsedIp: apiKey.lastUsedIp,
+      revokedAt: apiKey.revokedAt,
+      isActive: !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > new Date()),
+      rentRequestCount: apiKey._count?.rentRequests ?? 0,
+      createdBy: apiKey.createdBy,
+      createdAt: apiKey.createdAt,
+      updatedAt: apiKey.updatedAt
+    };
+  }
+}
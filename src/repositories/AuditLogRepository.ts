@@ -0,0 +1,119 @@
+import { PrismaClient, Prisma, AuditEntityType } from '@prisma/client';
+import {
+  CreateAuditLogInput,
+  AuditLogQuery,
+  AuditLogResponse,
+  AuditLogListResponse
+} from '../types/audit';
+
+export class AuditLogRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(input: CreateAuditLogInput): Promise<AuditLogResponse> {
+    const log = await this.prisma.auditLog.create({
+      data: {
+        adminId: input.adminId,
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        changes: (input.changes ?? undefined) as Prisma.InputJsonValue | undefined,
+        metadata: (input.metadata ?? undefined) as Prisma.InputJsonValue | undefined,
+        method: input.method,
+        path: input.path,
+        ipAddress: input.ipAddress,
+        userAgent: input.userAgent
+      },
+      include: this.getAuditLogIncludes()
+    });
+
+    return this.mapToAuditLogResponse(log);
+  }
+
+  // Filtered log, most recent first
+  async findAll(query: AuditLogQuery): Promise<AuditLogListResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const where: Prisma.AuditLogWhereInput = {
+      ...(query.adminId && { adminId: query.adminId }),
+      ...(query.entityType && { entityType: query.entityType }),
+      ...(query.entityId && { entityId: query.entityId }),
+      ...(query.action && { action: query.action }),
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to })
+        }
+      })
+    };
+
+    const [logs, total] = await Promise.all([
+      this.prisma.auditLog.findMany({
+        where,
+        include: this.getAuditLogIncludes(),
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.auditLog.count({ where })
+    ]);
+
+    return {
+      logs: logs.map(log => this.mapToAuditLogResponse(log)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  // Latest entity entries matching any of the given entity type / actions pairs
+  async findRecent(
+    filters: Array<{ entityType: AuditEntityType; actions: string[] }>,
+    limit: number
+  ): Promise<AuditLogResponse[]> {
+    const logs = await this.prisma.auditLog.findMany({
+      where: {
+        entityId: { not: null },
+        OR: filters.map(filter => ({
+          entityType: filter.entityType,
+          action: { in: filter.actions }
+        }))
+      },
+      include: this.getAuditLogIncludes(),
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    });
+
+    return logs.map(log => this.mapToAuditLogResponse(log));
+  }
+
+  private getAuditLogIncludes() {
+    return {
+      admin: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToAuditLogResponse(log: any): AuditLogResponse {
+    return {
+      id: log.id,
+      action: log.action,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      changes: log.changes,
+      metadata: log.metadata,
+      method: log.method,
+      path: log.path,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+      admin: log.admin,
+      createdAt: log.createdAt
+    };
+  }
+}
@@ -0,0 +1,185 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { BRANCH_SUMMARY_SELECT, BranchOneWayFeeResponse, BranchQuery, BranchResponse } from '../types/branch';
+import { CreateBranchInput, SetOneWayFeeInput, UpdateBranchInput } from '../validators/branchValidators';
+
+export class BranchRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findAll(query: BranchQuery = {}): Promise<BranchResponse[]> {
+    const where: Prisma.BranchWhereInput = {
+      ...(query.isActive !== undefined && { isActive: query.isActive }),
+      ...(query.city && { city: { equals: query.city, mode: 'insensitive' } }),
+      ...(query.search && {
+        OR: [
+          { name: { contains: query.search, mode: 'insensitive' } },
+          { code: { contains: query.search, mode: 'insensitive' } },
+          { address: { contains: query.search, mode: 'insensitive' } }
+        ]
+      })
+    };
+
+    const branches = await this.prisma.branch.findMany({
+      where,
+      include: this.getBranchIncludes(),
+      orderBy: [{ city: 'asc' }, { name: 'asc' }]
+    });
+
+    return branches.map(branch => this.mapToBranchResponse(branch));
+  }
+
+  async findById(id: string): Promise<BranchResponse | null> {
+    const branch = await this.prisma.branch.findUnique({
+      where: { id },
+      include: this.getBranchIncludes()
+    });
+
+    return branch ? this.mapToBranchResponse(branch) : null;
+  }
+
+  async findByCode(code: string): Promise<BranchResponse | null> {
+    const branch = await this.prisma.branch.findUnique({
+      where: { code },
+      include: this.getBranchIncludes()
+    });
+
+    return branch ? this.mapToBranchResponse(branch) : null;
+  }
+
+  async create(input: CreateBranchInput): Promise<BranchResponse> {
+    const branch = await this.prisma.branch.create({
+      data: {
+        ...input,
+        openingHours: this.toOpeningHoursValue(input.openingHours)
+      },
+      include: this.getBranchIncludes()
+    });
+
+    return this.mapToBranchResponse(branch);
+  }
+
+  async update(id: string, input: UpdateBranchInput): Promise<BranchResponse> {
+    const branch = await this.prisma.branch.update({
+      where: { id },
+      data: {
+        ...input,
+        openingHours: this.toOpeningHoursValue(input.openingHours)
+      },
+      include: this.getBranchIncludes()
+    });
+
+    return this.mapToBranchResponse(branch);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.branch.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async countContracts(id: string): Promise<number> {
+    return await this.prisma.contract.count({
+      where: { OR: [{ pickupBranchId: id }, { dropoffBranchId: id }] }
+    });
+  }
+
+  async findOneWayFees(branchId?: string): Promise<BranchOneWayFeeResponse[]> {
+    const fees = await this.prisma.branchOneWayFee.findMany({
+      where: branchId ? { OR: [{ fromBranchId: branchId }, { toBranchId: branchId }] } : {},
+      include: this.getOneWayFeeIncludes(),
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return fees.map(fee => this.mapToOneWayFeeResponse(fee));
+  }
+
+  async findOneWayFee(fromBranchId: string, toBranchId: string): Promise<BranchOneWayFeeResponse | null> {
+    const fee = await this.prisma.branchOneWayFee.findUnique({
+      where: { fromBranchId_toBranchId: { fromBranchId, toBranchId } },
+      include: this.getOneWayFeeIncludes()
+    });
+
+    return fee ? this.mapToOneWayFeeResponse(fee) : null;
+  }
+
+  // Fees are per direction; setting an existing pair replaces its amount
+  async upsertOneWayFee(input: SetOneWayFeeInput): Promise<BranchOneWayFeeResponse> {
+    const fee = await this.prisma.branchOneWayFee.upsert({
+      where: { fromBranchId_toBranchId: { fromBranchId: input.fromBranchId, toBranchId: input.toBranchId } },
+      create: input,
+      update: { amount: input.amount },
+      include: this.getOneWayFeeIncludes()
+    });
+
+    return this.mapToOneWayFeeResponse(fee);
+  }
+
+  async deleteOneWayFee(id: string): Promise<boolean> {
+    try {
+      await this.prisma.branchOneWayFee.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // A cleared schedule is stored as NULL rather than a JSON null
+  private toOpeningHoursValue(openingHours: CreateBranchInput['openingHours']) {
+    if (openingHours === undefined) {
+      return undefined;
+    }
+    return openingHours === null ? Prisma.DbNull : openingHours;
+  }
+
+  private getBranchIncludes() {
+    return {
+      _count: {
+        select: {
+          vehicles: { where: { isActive: true } }
+        }
+      }
+    };
+  }
+
+  private getOneWayFeeIncludes() {
+    return {
+      fromBranch: { select: BRANCH_SUMMARY_SELECT },
+      toBranch: { select: BRANCH_SUMMARY_SELECT }
+    };
+  }
+
+  private mapToBranchResponse(branch: any): BranchResponse {
+    return {
+      id: branch.id,
+      code: branch.code,
+      name: branch.name,
+      address: branch.address,
+      city: branch.city,
+      postalCode: branch.postalCode,
+      latitude: branch.latitude,
+      longitude: branch.longitude,
+      phone: branch.phone,
+      email: branch.email,
+      openingHours: Array.isArray(branch.openingHours) ? branch.openingHours : [],
+      isActive: branch.isActive,
+      vehicleCount: branch._count?.vehicles,
+      createdAt: branch.createdAt,
+      updatedAt: branch.updatedAt
+    };
+  }
+
+  private mapToOneWayFeeResponse(fee: any): BranchOneWayFeeResponse {
+    return {
+      id: fee.id,
+      fromBranchId: fee.fromBranchId,
+      toBranchId: fee.toBranchId,
+      amount: Number(fee.amount),
+      fromBranch: fee.fromBranch,
+      toBranch: fee.toBranch,
+      createdAt: fee.createdAt,
+      updatedAt: fee.updatedAt
+    };
+  }
+}
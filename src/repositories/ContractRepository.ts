@@ -1,4 +1,4 @@
-import { PrismaClient, Prisma } from '@prisma/client';
+import { PrismaClient, Prisma, ContractStatus } from '@prisma/client';
 import { 
   ContractQuery, 
   ContractResponse, 
@@ -11,11 +11,41 @@ import {
   VehicleCalendarResponse,
   VehicleCalendarDay,
   ContractDashboardData,
-  BulkContractResult
+  BulkContractResult,
+  ContractDocumentData,
+  ExtendContractInput,
+  ContractExtensionResponse,
+  ContractExtensionResult
 } from '../types/contract';
+import { BLOCKING_MAINTENANCE_STATUSES } from '../types/maintenance';
+import { BRANCH_SUMMARY_SELECT } from '../types/branch';
+import { AuditLogResponse } from '../types/audit';
+import { PromoCodeRepository } from './PromoCodeRepository';
+import { AuditLogRepository } from './AuditLogRepository';
+import { VehicleDocumentRepository } from './VehicleDocumentRepository';
+import { BadRequestError, ConflictError } from '../middleware/errorHandler';
+import { config } from '../config';
+import { roundAmount } from '../utils/payment';
+
+// Audited actions shown in the dashboard activity feed
+const CONTRACT_ACTIVITY_ACTIONS: Record<string, ContractDashboardData['recentActivity'][number]['type']> = {
+  'create': 'contract_created',
+  'confirm': 'contract_confirmed',
+  'payment': 'payment_received',
+  'payments': 'payment_received',
+  'complete': 'contract_completed'
+};
 
 export class ContractRepository {
-  constructor(private prisma: PrismaClient) {}
+  private promoCodeRepository: PromoCodeRepository;
+  private auditLogRepository: AuditLogRepository;
+  private vehicleDocumentRepository: VehicleDocumentRepository;
+
+  constructor(private prisma: PrismaClient) {
+    this.promoCodeRepository = new PromoCodeRepository(prisma);
+    this.auditLogRepository = new AuditLogRepository(prisma);
+    this.vehicleDocumentRepository = new VehicleDocumentRepository(prisma);
+  }
 
   // Generate unique contract number
   private async generateContractNumber(tx?: PrismaClient | any): Promise<string> {
@@ -62,10 +92,10 @@ export class ContractRepository {
     const endDate = new Date(input.endDate);
     const totalDays = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
     
-    const subtotal = input.dailyRate * totalDays;
+    const subtotal = input.subtotal ?? input.dailyRate * totalDays;
     const accessoriesTotal = input.accessories?.reduce((sum, acc) => sum + (acc.price * acc.quantity), 0) || 0;
     const discountAmount = input.discountAmount || 0;
-    const totalAmount = subtotal + accessoriesTotal - discountAmount;
+    const totalAmount = subtotal + accessoriesTotal - discountAmount + (input.oneWayFee || 0);
 
     return {
       totalDays,
@@ -98,6 +128,9 @@ export class ContractRepository {
         notes: input.notes,
         pickupLocation: input.pickupLocation,
         dropoffLocation: input.dropoffLocation,
+        pickupBranchId: input.pickupBranchId,
+        dropoffBranchId: input.dropoffBranchId,
+        oneWayFee: input.oneWayFee,
         accessories: {
           create: input.accessories?.map(acc => ({
             name: acc.name,
@@ -229,7 +262,15 @@ export class ContractRepository {
               email: true
             }
           },
-          accessories: true
+          accessories: true,
+          promoCode: {
+            select: {
+              id: true,
+              code: true
+            }
+          },
+          pickupBranch: { select: BRANCH_SUMMARY_SELECT },
+          dropoffBranch: { select: BRANCH_SUMMARY_SELECT }
         },
         skip,
         take: limit,
@@ -279,7 +320,15 @@ export class ContractRepository {
             email: true
           }
         },
-        accessories: true
+        accessories: true,
+        promoCode: {
+          select: {
+            id: true,
+            code: true
+          }
+        },
+        pickupBranch: { select: BRANCH_SUMMARY_SELECT },
+        dropoffBranch: { select: BRANCH_SUMMARY_SELECT }
       }
     });
 
@@ -291,7 +340,8 @@ export class ContractRepository {
     // If dates or pricing changed, recalculate totals
     let updateData: any = { ...input };
     
-    if (input.startDate || input.endDate || input.dailyRate || input.accessories) {
+    if (input.startDate || input.endDate || input.dailyRate || input.accessories ||
+        input.lateFeeAmount !== undefined || input.oneWayFee !== undefined) {
       const currentContract = await this.prisma.contract.findUnique({
         where: { id },
         include: { accessories: true }
@@ -299,6 +349,9 @@ export class ContractRepository {
 
       if (!currentContract) return null;
 
+      // Keep the stored subtotal (quoted or extended) unless the dates or rate change
+      const repriced = Boolean(input.startDate || input.endDate || input.dailyRate);
+
       const calculationInput: CreateContractInput = {
         clientId: currentContract.clientId,
         vehicleId: currentContract.vehicleId,
@@ -306,7 +359,9 @@ export class ContractRepository {
         endDate: input.endDate || currentContract.endDate,
         serviceType: currentContract.serviceType,
         dailyRate: input.dailyRate || Number(currentContract.dailyRate),
+        subtotal: repriced ? undefined : Number(currentContract.subtotal),
         discountAmount: input.discountAmount ?? Number(currentContract.discountAmount || 0),
+        oneWayFee: input.oneWayFee ?? Number(currentContract.oneWayFee),
         accessories: input.accessories || currentContract.accessories.map(acc => ({
           name: acc.name,
           price: Number(acc.price),
@@ -315,12 +370,13 @@ export class ContractRepository {
       };
 
       const calculations = this.calculateContractTotals(calculationInput);
+      const lateFeeAmount = input.lateFeeAmount ?? Number(currentContract.lateFeeAmount);
       updateData = {
         ...updateData,
         totalDays: calculations.totalDays,
         subtotal: calculations.subtotal,
         accessoriesTotal: calculations.accessoriesTotal,
-        totalAmount: calculations.totalAmount
+        totalAmount: calculations.totalAmount + lateFeeAmount
       };
 
       // Update accessories if provided
@@ -371,10 +427,16 @@ export class ContractRepository {
             email: true
           }
         },
-        accessories: true
+        accessories: true,
+        pickupBranch: { select: BRANCH_SUMMARY_SELECT },
+        dropoffBranch: { select: BRANCH_SUMMARY_SELECT }
       }
     });
 
+    if (input.status === 'COMPLETED') {
+      await this.moveVehiclesToDropoffBranch([id]);
+    }
+
     return this.mapToContractResponse(contract);
   }
 
@@ -391,40 +453,35 @@ export class ContractRepository {
   }
 
   // Check vehicle availability - CRITICAL BUSINESS LOGIC
-  // Only CONFIRMED and ACTIVE contracts should block new bookings
+  // Uses the same rules as booking: confirmed/active contracts, approved requests,
+  // maintenance and blackouts. Only the dates of the non-contract periods are returned
   async checkVehicleAvailability(request: VehicleAvailabilityRequest): Promise<VehicleAvailabilityResponse> {
-    const conflictingContracts = await this.prisma.contract.findMany({
-      where: {
-        vehicleId: request.vehicleId,
-        ...(request.excludeContractId && { NOT: { id: request.excludeContractId } }),
-        status: {
-          in: ['CONFIRMED', 'ACTIVE'] // Only confirmed/active contracts block bookings
-        },
-        OR: [
-          {
-            startDate: { lte: request.endDate },
-            endDate: { gte: request.startDate }
-          }
-        ]
-      },
-      select: {
-        id: true,
-        contractNumber: true,
-        startDate: true,
-        endDate: true,
-        status: true,
-        client: {
-          select: {
-            nom: true,
-            prenom: true
-          }
-        }
-      }
-    });
+    const { bookingConflictService } = await import('@/services/BookingConflictService');
+    const result = await bookingConflictService.isVehicleAvailableForPeriod(
+      request.vehicleId,
+      request.startDate,
+      request.endDate,
+      request.excludeContractId
+    );
+
+    const conflictingContracts = result.conflictingBookings
+      .filter(booking => booking.type === 'CONTRACT')
+      .map(booking => ({
+        id: booking.id,
+        contractNumber: booking.identifier,
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+        status: booking.status as ContractStatus,
+        client: booking.client
+      }));
+    const blockedPeriods = result.conflictingBookings
+      .filter(booking => booking.type !== 'CONTRACT')
+      .map(booking => ({ startDate: booking.startDate, endDate: booking.endDate }));
 
     return {
-      available: conflictingContracts.length === 0,
-      conflictingContracts: conflictingContracts as any
+      available: result.available,
+      conflictingContracts,
+      ...(blockedPeriods.length > 0 && { blockedPeriods })
     };
   }
 
@@ -435,8 +492,9 @@ export class ContractRepository {
     startDate: Date, 
     endDate: Date, 
     excludeContractId?: string,
-    tx?: Prisma.TransactionClient
-  ): Promise<{ available: boolean; conflictingContracts: any[] }> {
+    tx?: Prisma.TransactionClient,
+    excludeRequestId?: string
+  ): Promise<{ available: boolean; conflictingContracts: any[]; errorMessage?: string }> {
     // Use the unified booking conflict service
     const { bookingConflictService } = await import('@/services/BookingConflictService');
     const result = await bookingConflictService.isVehicleAvailableForPeriod(
@@ -444,7 +502,7 @@ export class ContractRepository {
       startDate,
       endDate,
       excludeContractId,
-      undefined, // No request to exclude
+      excludeRequestId,
       tx
     );
 
@@ -460,30 +518,64 @@ export class ContractRepository {
         client: booking.client
       }));
     
+    // The message lists every conflict, maintenance and blackout periods included
     return {
       available: result.available,
-      conflictingContracts
+      conflictingContracts,
+      ...(!result.available && {
+        errorMessage: bookingConflictService.generateConflictErrorMessage(result.conflictingBookings, 'en')
+      })
     };
   }
 
+  // A contract cannot run past the insurance of its vehicle; the insurance covers its expiry day
+  // Vehicles with no insurance on record are only blocked when the config requires it
+  async assertVehicleInsured(vehicleId: string, endDate: Date, tx?: Prisma.TransactionClient): Promise<void> {
+    const insuredUntil = await this.vehicleDocumentRepository.findLatestExpiry(vehicleId, 'INSURANCE', tx);
+
+    if (!insuredUntil) {
+      if (config.vehicleDocuments.requireInsurance) {
+        throw new BadRequestError('Vehicle has no insurance on record');
+      }
+      return;
+    }
+
+    const coveredUntil = new Date(insuredUntil);
+    coveredUntil.setHours(23, 59, 59, 999);
+
+    if (coveredUntil.getTime() < new Date(endDate).getTime()) {
+      throw new ConflictError(`Vehicle insurance expires on ${insuredUntil.toISOString().slice(0, 10)}, before the contract end date`);
+    }
+  }
+
   // ATOMIC CONTRACT CREATION WITH CONFLICT DETECTION
-  async createWithBookingValidation(input: CreateContractInput): Promise<ContractResponse> {
-    return await this.prisma.$transaction(async (tx) => {
+  // When an outer transaction is passed the contract is created as part of it;
+  // excludeRequestId lets a rent request being converted not conflict with itself
+  async createWithBookingValidation(
+    input: CreateContractInput,
+    outerTx?: Prisma.TransactionClient,
+    excludeRequestId?: string
+  ): Promise<ContractResponse> {
+    const run = async (tx: Prisma.TransactionClient) => {
       // Step 1: Check for booking conflicts within the transaction
       const validation = await this.validateBookingAvailabilityAtomic(
         input.vehicleId,
         input.startDate,
         input.endDate,
         undefined, // No exclusion for new contracts
-        tx
+        tx,
+        excludeRequestId
       );
 
       if (!validation.available) {
-        const conflictDetails = validation.conflictingContracts
-          .map(c => `${c.contractNumber} (${c.client.nom} ${c.client.prenom})`)
-          .join(', ');
-        
-        throw new Error(`Booking conflict: This vehicle is already reserved for a portion of the selected dates. Conflicting contracts: ${conflictDetails}`);
+        throw new Error(validation.errorMessage);
+      }
+
+      await this.assertVehicleInsured(input.vehicleId, input.endDate, tx);
+
+      // Redeeming a promo code must stay within its usage limits
+      if (input.promoCodeId) {
+        await this.promoCodeRepository.assertRedeemable(tx, input.promoCodeId, input.clientId);
       }
 
       // Step 2: Create the contract if no conflicts
@@ -505,9 +597,14 @@ export class ContractRepository {
           subtotal: calculations.subtotal,
           discountAmount: input.discountAmount,
           totalAmount: calculations.totalAmount,
+          promoCodeId: input.promoCodeId,
+          promoDiscountAmount: input.promoDiscountAmount,
           notes: input.notes,
           pickupLocation: input.pickupLocation,
           dropoffLocation: input.dropoffLocation,
+          pickupBranchId: input.pickupBranchId,
+          dropoffBranchId: input.dropoffBranchId,
+          oneWayFee: input.oneWayFee,
           accessories: {
             create: input.accessories?.map(acc => ({
               name: acc.name,
@@ -520,7 +617,9 @@ export class ContractRepository {
       });
 
       return this.mapToContractResponse(contract);
-    });
+    };
+
+    return outerTx ? await run(outerTx) : await this.prisma.$transaction(run);
   }
 
   // ATOMIC CONTRACT CONFIRMATION WITH CONFLICT DETECTION
@@ -550,13 +649,11 @@ export class ContractRepository {
       );
 
       if (!validation.available) {
-        const conflictDetails = validation.conflictingContracts
-          .map(c => `${c.contractNumber} (${c.client.nom} ${c.client.prenom})`)
-          .join(', ');
-        
-        throw new Error(`Booking conflict: This vehicle is already reserved for a portion of the selected dates. Conflicting contracts: ${conflictDetails}`);
+        throw new Error(validation.errorMessage);
       }
 
+      await this.assertVehicleInsured(contract.vehicleId, contract.endDate, tx);
+
       // Step 3: Confirm the contract if no conflicts
       const updatedContract = await tx.contract.update({
         where: { id: contractId },
@@ -571,6 +668,99 @@ export class ContractRepository {
     });
   }
 
+  // ATOMIC CONTRACT EXTENSION WITH CONFLICT DETECTION
+  // Moves the end date, prices the additional days and records the extension
+  async extendWithBookingValidation(input: ExtendContractInput): Promise<ContractExtensionResult> {
+    return await this.prisma.$transaction(async (tx) => {
+      // Lock the contract so concurrent extensions cannot both pass the checks
+      await tx.$queryRaw`SELECT "id" FROM "public"."contracts" WHERE "id" = ${input.contractId} FOR UPDATE`;
+
+      const contract = await tx.contract.findUnique({
+        where: { id: input.contractId }
+      });
+
+      if (!contract) {
+        throw new Error('Contract not found');
+      }
+
+      if (!['PENDING', 'CONFIRMED', 'ACTIVE'].includes(contract.status)) {
+        throw new Error('Only pending, confirmed or active contracts can be extended');
+      }
+
+      if (input.endDate.getTime() <= contract.endDate.getTime()) {
+        throw new Error('New end date must be after the current end date');
+      }
+
+      const validation = await this.validateBookingAvailabilityAtomic(
+        contract.vehicleId,
+        contract.startDate,
+        input.endDate,
+        contract.id, // Exclude this contract from conflict check
+        tx
+      );
+
+      if (!validation.available) {
+        throw new Error(validation.errorMessage);
+      }
+
+      await this.assertVehicleInsured(contract.vehicleId, input.endDate, tx);
+
+      const totalDays = Math.ceil((input.endDate.getTime() - contract.startDate.getTime()) / (1000 * 60 * 60 * 24));
+      const additionalDays = totalDays - contract.totalDays;
+      const dailyRate = input.dailyRate ?? Number(contract.dailyRate);
+      const additionalAmount = roundAmount(additionalDays * dailyRate);
+      const subtotal = roundAmount(Number(contract.subtotal) + additionalAmount);
+      const totalAmount = roundAmount(
+        subtotal +
+        Number(contract.accessoriesTotal) -
+        Number(contract.discountAmount || 0) +
+        Number(contract.lateFeeAmount) +
+        Number(contract.oneWayFee)
+      );
+
+      const extension = await tx.contractExtension.create({
+        data: {
+          contractId: contract.id,
+          adminId: input.adminId,
+          previousEndDate: contract.endDate,
+          newEndDate: input.endDate,
+          additionalDays,
+          dailyRate,
+          additionalAmount,
+          reason: input.reason
+        },
+        include: this.getExtensionIncludes()
+      });
+
+      const updatedContract = await tx.contract.update({
+        where: { id: contract.id },
+        data: {
+          endDate: input.endDate,
+          totalDays,
+          subtotal,
+          totalAmount
+        },
+        include: this.getContractIncludes()
+      });
+
+      return {
+        contract: this.mapToContractResponse(updatedContract),
+        extension: this.mapToExtensionResponse(extension)
+      };
+    });
+  }
+
+  // Extension history of a contract, oldest first
+  async findExtensions(contractId: string): Promise<ContractExtensionResponse[]> {
+    const extensions = await this.prisma.contractExtension.findMany({
+      where: { contractId },
+      include: this.getExtensionIncludes(),
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return extensions.map(extension => this.mapToExtensionResponse(extension));
+  }
+
   // UTILITY METHOD: Check if date ranges overlap
   // Formula: (startA <= endB) AND (endA >= startB)
   private static isDateRangeOverlap(
@@ -582,17 +772,6 @@ export class ContractRepository {
     return startA <= endB && endA >= startB;
   }
 
-  // UTILITY METHOD: Format conflict error message
-  private formatConflictErrorMessage(conflictingContracts: any[]): string {
-    if (conflictingContracts.length === 0) return '';
-    
-    const conflicts = conflictingContracts
-      .map(c => `${c.contractNumber} (${c.client.nom} ${c.client.prenom}, ${c.startDate.toISOString().split('T')[0]} to ${c.endDate.toISOString().split('T')[0]})`)
-      .join(', ');
-    
-    return `Booking conflict: This vehicle is already reserved for overlapping dates. Conflicting contracts: ${conflicts}`;
-  }
-
   // Enhanced method to validate booking conflicts with detailed error messages
   async validateBookingConflictWithDetails(
     vehicleId: string,
@@ -610,9 +789,7 @@ export class ContractRepository {
     return {
       available: validation.available,
       conflictingContracts: validation.conflictingContracts,
-      ...(validation.conflictingContracts.length > 0 && {
-        errorMessage: this.formatConflictErrorMessage(validation.conflictingContracts)
-      })
+      errorMessage: validation.errorMessage
     };
   }
 
@@ -641,6 +818,27 @@ export class ContractRepository {
       }
     });
 
+    // Cancelled and completed maintenance no longer block the vehicle
+    const maintenanceRecords = await this.prisma.maintenanceRecord.findMany({
+      where: {
+        vehicleId,
+        status: { in: BLOCKING_MAINTENANCE_STATUSES },
+        startDate: { lte: endOfMonth },
+        endDate: { gte: startOfMonth }
+      },
+      orderBy: { startDate: 'asc' }
+    });
+
+    const blackouts = await this.prisma.vehicleBlackout.findMany({
+      where: {
+        vehicleId,
+        startDate: { lte: endOfMonth },
+        endDate: { gte: startOfMonth }
+      },
+      select: { id: true, startDate: true, endDate: true },
+      orderBy: { startDate: 'asc' }
+    });
+
     const days: VehicleCalendarDay[] = [];
     
     for (let day = 1; day <= endOfMonth.getDate(); day++) {
@@ -653,10 +851,18 @@ export class ContractRepository {
         const contractEndPlusOne = new Date(contractEnd.getFullYear(), contractEnd.getMonth(), contractEnd.getDate() + 1);
         return currentDate >= contractStart && currentDate < contractEndPlusOne;
       });
+      const dayMaintenance = maintenanceRecords.filter(record => {
+        const recordEndPlusOne = new Date(record.endDate.getFullYear(), record.endDate.getMonth(), record.endDate.getDate() + 1);
+        return currentDate >= record.startDate && currentDate < recordEndPlusOne;
+      });
+      const dayBlackouts = blackouts.filter(blackout => {
+        const blackoutEndPlusOne = new Date(blackout.endDate.getFullYear(), blackout.endDate.getMonth(), blackout.endDate.getDate() + 1);
+        return currentDate >= blackout.startDate && currentDate < blackoutEndPlusOne;
+      });
 
       days.push({
         date: currentDate,
-        isAvailable: dayContracts.length === 0,
+        isAvailable: dayContracts.length === 0 && dayMaintenance.length === 0 && dayBlackouts.length === 0,
         contracts: dayContracts.map(contract => ({
           id: contract.id,
           contractNumber: contract.contractNumber,
@@ -665,7 +871,14 @@ export class ContractRepository {
             nom: contract.client.nom,
             prenom: contract.client.prenom
           }
-        }))
+        })),
+        maintenance: dayMaintenance.map(record => ({
+          id: record.id,
+          type: record.type,
+          status: record.status,
+          garage: record.garage
+        })),
+        blackouts: dayBlackouts
       });
     }
 
@@ -857,7 +1070,8 @@ export class ContractRepository {
       todayCheckIns,
       todayCheckOuts,
       upcomingContracts,
-      overduePayments
+      overduePayments,
+      recentActivity
     ] = await Promise.all([
       this.prisma.contract.findMany({
         where: {
@@ -891,7 +1105,8 @@ export class ContractRepository {
         },
         include: this.getContractIncludes(),
         take: 10
-      })
+      }),
+      this.getRecentActivity(10)
     ]);
 
     return {
@@ -899,10 +1114,89 @@ export class ContractRepository {
       todayCheckOuts: todayCheckOuts.map(this.mapToContractResponse),
       upcomingContracts: upcomingContracts.map(this.mapToContractResponse),
       overduePayments: overduePayments.map(this.mapToContractResponse),
-      recentActivity: [] // TODO: Implement activity tracking
+      recentActivity
     };
   }
 
+  // Latest contract events from the audit trail, rent request conversions included
+  private async getRecentActivity(limit: number): Promise<ContractDashboardData['recentActivity']> {
+    const logs = await this.auditLogRepository.findRecent([
+      { entityType: 'CONTRACT', actions: Object.keys(CONTRACT_ACTIVITY_ACTIONS) },
+      { entityType: 'RENT_REQUEST', actions: ['convert'] }
+    ], limit);
+
+    const entries = logs
+      .map(log => {
+        const contractId = log.entityType === 'RENT_REQUEST'
+          ? log.changes?.contractId?.to as string | undefined
+          : log.entityId;
+        const type = log.entityType === 'RENT_REQUEST'
+          ? 'contract_created'
+          : CONTRACT_ACTIVITY_ACTIONS[log.action];
+
+        return contractId && type ? { log, contractId, type } : null;
+      })
+      .filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+
+    const contracts = await this.prisma.contract.findMany({
+      where: { id: { in: entries.map(entry => entry.contractId) } },
+      select: { id: true, contractNumber: true }
+    });
+    const contractNumbers = new Map(contracts.map(contract => [contract.id, contract.contractNumber]));
+
+    return entries
+      .filter(entry => contractNumbers.has(entry.contractId))
+      .map(({ log, contractId, type }) => ({
+        type,
+        contractId,
+        contractNumber: contractNumbers.get(contractId)!,
+        timestamp: log.createdAt,
+        details: this.describeActivity(type, log)
+      }));
+  }
+
+  private describeActivity(
+    type: ContractDashboardData['recentActivity'][number]['type'],
+    log: AuditLogResponse
+  ): string {
+    const admin = log.admin
+      ? `${log.admin.firstName} ${log.admin.lastName}`.trim() || log.admin.email
+      : 'System';
+
+    switch (type) {
+      case 'contract_created':
+        return log.entityType === 'RENT_REQUEST'
+          ? `Converted from rent request by ${admin}`
+          : `Created by ${admin}`;
+      case 'contract_confirmed':
+        return `Confirmed by ${admin}`;
+      case 'payment_received': {
+        const paid = log.changes?.paidAmount;
+        const amount = paid ? Number(paid.to) - Number(paid.from || 0) : null;
+        return amount && amount > 0
+          ? `Payment of ${roundAmount(amount)} recorded by ${admin}`
+          : `Payment recorded by ${admin}`;
+      }
+      case 'contract_completed':
+        return `Completed by ${admin}`;
+    }
+  }
+
+  // A completed rental leaves the vehicle at its drop-off branch
+  private async moveVehiclesToDropoffBranch(contractIds: string[]): Promise<void> {
+    const contracts = await this.prisma.contract.findMany({
+      where: { id: { in: contractIds }, status: 'COMPLETED', dropoffBranchId: { not: null } },
+      select: { vehicleId: true, dropoffBranchId: true }
+    });
+
+    for (const contract of contracts) {
+      await this.prisma.vehicle.update({
+        where: { id: contract.vehicleId },
+        data: { currentBranchId: contract.dropoffBranchId }
+      });
+    }
+  }
+
   // Bulk update contract status
   async bulkUpdateStatus(contractIds: string[], status: any, adminId?: string): Promise<BulkContractResult> {
     try {
@@ -914,6 +1208,10 @@ export class ContractRepository {
         }
       });
 
+      if (status === 'COMPLETED') {
+        await this.moveVehiclesToDropoffBranch(contractIds);
+      }
+
       return {
         success: true,
         affectedCount: result.count
@@ -927,6 +1225,58 @@ export class ContractRepository {
     }
   }
 
+  // Find contract with the full client and vehicle details needed for the printed agreement
+  async findByIdForDocument(id: string): Promise<ContractDocumentData | null> {
+    const contract = await this.prisma.contract.findUnique({
+      where: { id },
+      include: {
+        ...this.getContractIncludes(),
+        client: {
+          select: {
+            id: true,
+            nom: true,
+            prenom: true,
+            telephone: true,
+            email: true,
+            dateNaissance: true,
+            lieuNaissance: true,
+            nationalite: true,
+            adresse: true,
+            numeroPermis: true,
+            datePermis: true
+          }
+        },
+        vehicle: {
+          select: {
+            id: true,
+            make: true,
+            model: true,
+            year: true,
+            licensePlate: true,
+            pricePerDay: true,
+            color: true,
+            vin: true,
+            mileage: true
+          }
+        }
+      }
+    });
+
+    if (!contract) {
+      return null;
+    }
+
+    const response = this.mapToContractResponse(contract);
+    return {
+      ...response,
+      client: contract.client,
+      vehicle: {
+        ...contract.vehicle,
+        pricePerDay: Number(contract.vehicle.pricePerDay)
+      }
+    };
+  }
+
   // Helper method for contract includes
   private getContractIncludes() {
     return {
@@ -957,7 +1307,43 @@ export class ContractRepository {
           email: true
         }
       },
-      accessories: true
+      accessories: true,
+      promoCode: {
+        select: {
+          id: true,
+          code: true
+        }
+      },
+      pickupBranch: { select: BRANCH_SUMMARY_SELECT },
+      dropoffBranch: { select: BRANCH_SUMMARY_SELECT }
+    };
+  }
+
+  private getExtensionIncludes() {
+    return {
+      admin: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToExtensionResponse(extension: any): ContractExtensionResponse {
+    return {
+      id: extension.id,
+      contractId: extension.contractId,
+      previousEndDate: extension.previousEndDate,
+      newEndDate: extension.newEndDate,
+      additionalDays: extension.additionalDays,
+      dailyRate: Number(extension.dailyRate),
+      additionalAmount: Number(extension.additionalAmount),
+      reason: extension.reason,
+      admin: extension.admin,
+      createdAt: extension.createdAt
     };
   }
 
@@ -979,11 +1365,20 @@ export class ContractRepository {
       subtotal: Number(contract.subtotal),
       discountAmount: contract.discountAmount ? Number(contract.discountAmount) : null,
       totalAmount: Number(contract.totalAmount),
+      promoCode: contract.promoCode ?? null,
+      promoDiscountAmount: contract.promoDiscountAmount ? Number(contract.promoDiscountAmount) : null,
+      lateFeeAmount: Number(contract.lateFeeAmount || 0),
+      oneWayFee: Number(contract.oneWayFee || 0),
       paymentStatus: contract.paymentStatus,
       paidAmount: Number(contract.paidAmount),
       notes: contract.notes,
       pickupLocation: contract.pickupLocation,
       dropoffLocation: contract.dropoffLocation,
+      pickupBranchId: contract.pickupBranchId,
+      dropoffBranchId: contract.dropoffBranchId,
+      pickupBranch: contract.pickupBranch ?? null,
+      dropoffBranch: contract.dropoffBranch ?? null,
+      returnedAt: contract.returnedAt,
       client: contract.client,
       vehicle: contract.vehicle,
       admin: contract.admin,
@@ -0,0 +1,156 @@
+import { PrismaClient, DepositStatus } from '@prisma/client';
+import {
+  CollectDepositInput,
+  UpdateDepositInput,
+  ReleaseDepositInput,
+  ContractDepositResponse
+} from '../types/deposit';
+import { roundAmount } from '../utils/payment';
+
+export class DepositRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Get the deposit of a contract
+  async findByContractId(contractId: string): Promise<ContractDepositResponse | null> {
+    const deposit = await this.prisma.contractDeposit.findUnique({
+      where: { contractId },
+      include: this.getDepositIncludes()
+    });
+
+    return deposit ? this.mapToDepositResponse(deposit) : null;
+  }
+
+  // Record the deposit collected for a contract
+  async create(input: CollectDepositInput): Promise<ContractDepositResponse> {
+    const deposit = await this.prisma.contractDeposit.create({
+      data: {
+        contractId: input.contractId,
+        adminId: input.adminId,
+        amount: input.amount,
+        method: input.method,
+        reference: input.reference,
+        notes: input.notes,
+        ...(input.heldAt && { heldAt: input.heldAt })
+      },
+      include: this.getDepositIncludes()
+    });
+
+    return this.mapToDepositResponse(deposit);
+  }
+
+  // Correct the details of a deposit that is still held
+  async update(contractId: string, input: UpdateDepositInput): Promise<ContractDepositResponse> {
+    const deposit = await this.prisma.contractDeposit.update({
+      where: { contractId },
+      data: {
+        ...(input.amount !== undefined && { amount: input.amount }),
+        ...(input.method && { method: input.method }),
+        ...(input.reference !== undefined && { reference: input.reference }),
+        ...(input.notes !== undefined && { notes: input.notes })
+      },
+      include: this.getDepositIncludes()
+    });
+
+    return this.mapToDepositResponse(deposit);
+  }
+
+  // Settle a held deposit, recording what is retained and why
+  async release(input: ReleaseDepositInput): Promise<ContractDepositResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      const deposit = await tx.contractDeposit.findUnique({
+        where: { contractId: input.contractId }
+      });
+
+      if (!deposit) {
+        throw new Error('No deposit recorded for this contract');
+      }
+      if (deposit.status !== 'HELD') {
+        throw new Error('Deposit has already been settled');
+      }
+
+      const amount = Number(deposit.amount);
+      const retainedAmount = roundAmount(input.deductions.reduce((sum, deduction) => sum + deduction.amount, 0));
+
+      if (retainedAmount > amount) {
+        throw new Error(`Deductions cannot exceed the deposit amount of ${amount}`);
+      }
+
+      let status: DepositStatus;
+      if (retainedAmount === 0) {
+        status = 'RELEASED';
+      } else if (retainedAmount < amount) {
+        status = 'PARTIALLY_RETAINED';
+      } else {
+        status = 'RETAINED';
+      }
+
+      const released = await tx.contractDeposit.update({
+        where: { id: deposit.id },
+        data: {
+          status,
+          retainedAmount,
+          releasedAt: new Date(),
+          releasedBy: input.adminId,
+          releaseNotes: input.notes,
+          deductions: {
+            create: input.deductions.map(deduction => ({
+              reason: deduction.reason,
+              amount: deduction.amount,
+              notes: deduction.notes
+            }))
+          }
+        },
+        include: this.getDepositIncludes()
+      });
+
+      return this.mapToDepositResponse(released);
+    });
+  }
+
+  private getDepositIncludes() {
+    return {
+      admin: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      },
+      deductions: {
+        orderBy: { createdAt: 'asc' as const }
+      }
+    };
+  }
+
+  private mapToDepositResponse(deposit: any): ContractDepositResponse {
+    const amount = Number(deposit.amount);
+    const retainedAmount = Number(deposit.retainedAmount);
+
+    return {
+      id: deposit.id,
+      contractId: deposit.contractId,
+      amount,
+      method: deposit.method,
+      reference: deposit.reference,
+      status: deposit.status,
+      heldAt: deposit.heldAt,
+      notes: deposit.notes,
+      releasedAt: deposit.releasedAt,
+      releasedBy: deposit.releasedBy,
+      retainedAmount,
+      returnedAmount: deposit.status === 'HELD' ? 0 : roundAmount(amount - retainedAmount),
+      releaseNotes: deposit.releaseNotes,
+      deductions: (deposit.deductions || []).map((deduction: any) => ({
+        id: deduction.id,
+        reason: deduction.reason,
+        amount: Number(deduction.amount),
+        notes: deduction.notes,
+        createdAt: deduction.createdAt
+      })),
+      admin: deposit.admin,
+      createdAt: deposit.createdAt,
+      updatedAt: deposit.updatedAt
+    };
+  }
+}
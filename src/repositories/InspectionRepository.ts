@@ -0,0 +1,106 @@
+import { PrismaClient, InspectionType } from '@prisma/client';
+import { ContractInspectionResponse, CreateInspectionInput } from '../types/inspection';
+import { OdometerRepository } from './OdometerRepository';
+
+export class InspectionRepository {
+  private odometerRepository: OdometerRepository;
+
+  constructor(private prisma: PrismaClient) {
+    this.odometerRepository = new OdometerRepository(prisma);
+  }
+
+  // Get the inspections of a contract
+  async findByContractId(contractId: string): Promise<ContractInspectionResponse[]> {
+    const inspections = await this.prisma.contractInspection.findMany({
+      where: { contractId },
+      include: this.getInspectionIncludes(),
+      orderBy: { inspectedAt: 'asc' }
+    });
+
+    return inspections.map(inspection => this.mapToInspectionResponse(inspection));
+  }
+
+  async findByContractAndType(contractId: string, type: InspectionType): Promise<ContractInspectionResponse | null> {
+    const inspection = await this.prisma.contractInspection.findUnique({
+      where: { contractId_type: { contractId, type } },
+      include: this.getInspectionIncludes()
+    });
+
+    return inspection ? this.mapToInspectionResponse(inspection) : null;
+  }
+
+  // Save an inspection with its uploaded photos and log its odometer reading
+  // The reading goes through the same ordering check as manual readings
+  async create(
+    input: Omit<CreateInspectionInput, 'photos'>,
+    photoPaths: string[],
+    vehicleId: string
+  ): Promise<ContractInspectionResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      const inspection = await tx.contractInspection.create({
+        data: {
+          contractId: input.contractId,
+          adminId: input.adminId,
+          type: input.type,
+          mileage: input.mileage,
+          fuelLevel: input.fuelLevel,
+          damages: input.damages as any,
+          notes: input.notes,
+          ...(input.inspectedAt && { inspectedAt: input.inspectedAt }),
+          photos: {
+            create: photoPaths.map(imageUrl => ({ imageUrl }))
+          }
+        },
+        include: this.getInspectionIncludes()
+      });
+
+      await this.odometerRepository.record(tx, {
+        vehicleId,
+        mileage: input.mileage,
+        readAt: inspection.inspectedAt,
+        source: input.type,
+        contractId: input.contractId,
+        createdById: input.adminId
+      });
+
+      return this.mapToInspectionResponse(inspection);
+    });
+  }
+
+  private getInspectionIncludes() {
+    return {
+      admin: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      },
+      photos: {
+        orderBy: { createdAt: 'asc' as const }
+      }
+    };
+  }
+
+  private mapToInspectionResponse(inspection: any): ContractInspectionResponse {
+    return {
+      id: inspection.id,
+      contractId: inspection.contractId,
+      type: inspection.type,
+      mileage: inspection.mileage,
+      fuelLevel: inspection.fuelLevel,
+      damages: Array.isArray(inspection.damages) ? inspection.damages : [],
+      notes: inspection.notes,
+      inspectedAt: inspection.inspectedAt,
+      photos: (inspection.photos || []).map((photo: any) => ({
+        id: photo.id,
+        imageUrl: photo.imageUrl,
+        caption: photo.caption,
+        createdAt: photo.createdAt
+      })),
+      admin: inspection.admin,
+      createdAt: inspection.createdAt
+    };
+  }
+}
@@ -0,0 +1,127 @@
+import { PrismaClient, Prisma, MaintenanceStatus } from '@prisma/client';
+import { MaintenanceListResponse, MaintenanceQuery, MaintenanceRecordResponse } from '../types/maintenance';
+import { CreateMaintenanceInput, UpdateMaintenanceInput } from '../validators/maintenanceValidators';
+
+export class MaintenanceRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Filtered records, latest start first
+  async findAll(query: MaintenanceQuery = {}): Promise<MaintenanceListResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const where: Prisma.MaintenanceRecordWhereInput = {
+      ...(query.vehicleId && { vehicleId: query.vehicleId }),
+      ...(query.type && { type: query.type }),
+      ...(query.status && { status: query.status }),
+      ...(query.to && { startDate: { lte: query.to } }),
+      ...(query.from && { endDate: { gte: query.from } })
+    };
+
+    const [records, total] = await Promise.all([
+      this.prisma.maintenanceRecord.findMany({
+        where,
+        include: this.getMaintenanceIncludes(),
+        orderBy: { startDate: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.maintenanceRecord.count({ where })
+    ]);
+
+    return {
+      records: records.map(record => this.mapToMaintenanceResponse(record)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  async findById(id: string): Promise<MaintenanceRecordResponse | null> {
+    const record = await this.prisma.maintenanceRecord.findUnique({
+      where: { id },
+      include: this.getMaintenanceIncludes()
+    });
+
+    return record ? this.mapToMaintenanceResponse(record) : null;
+  }
+
+  async create(input: CreateMaintenanceInput, createdById?: string): Promise<MaintenanceRecordResponse> {
+    const record = await this.prisma.maintenanceRecord.create({
+      data: {
+        ...input,
+        createdById
+      },
+      include: this.getMaintenanceIncludes()
+    });
+
+    return this.mapToMaintenanceResponse(record);
+  }
+
+  async update(
+    id: string,
+    input: UpdateMaintenanceInput & { completedAt?: Date | null }
+  ): Promise<MaintenanceRecordResponse> {
+    const record = await this.prisma.maintenanceRecord.update({
+      where: { id },
+      data: input,
+      include: this.getMaintenanceIncludes()
+    });
+
+    return this.mapToMaintenanceResponse(record);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.maintenanceRecord.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async vehicleExists(vehicleId: string): Promise<boolean> {
+    const count = await this.prisma.vehicle.count({ where: { id: vehicleId } });
+    return count > 0;
+  }
+
+  private getMaintenanceIncludes() {
+    return {
+      vehicle: {
+        select: {
+          id: true,
+          make: true,
+          model: true,
+          licensePlate: true
+        }
+      },
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToMaintenanceResponse(record: any): MaintenanceRecordResponse {
+    return {
+      id: record.id,
+      vehicleId: record.vehicleId,
+      type: record.type,
+      status: record.status as MaintenanceStatus,
+      startDate: record.startDate,
+      endDate: record.endDate,
+      garage: record.garage,
+      cost: record.cost !== null && record.cost !== undefined ? Number(record.cost) : null,
+      description: record.description,
+      completedAt: record.completedAt,
+      vehicle: record.vehicle,
+      createdBy: record.createdBy,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import { PrismaClient, Prisma, OdometerSource } from '@prisma/client';
+import { OdometerReadingResponse } from '../types/vehicle';
+import { CreateOdometerReadingInput, OdometerQueryInput } from '../validators/vehicleValidators';
+import { BadRequestError } from '../middleware/errorHandler';
+
+export class OdometerRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Readings of a vehicle taken within [from, to] when given, most recent first
+  async findByVehicleId(vehicleId: string, query: OdometerQueryInput = {}): Promise<OdometerReadingResponse[]> {
+    const readings = await this.prisma.odometerReading.findMany({
+      where: {
+        vehicleId,
+        ...((query.from || query.to) && {
+          readAt: {
+            ...(query.from && { gte: query.from }),
+            ...(query.to && { lte: query.to })
+          }
+        })
+      },
+      include: this.getReadingIncludes(),
+      orderBy: [{ readAt: 'desc' }, { createdAt: 'desc' }],
+      take: query.limit || 100
+    });
+
+    return readings.map(reading => this.mapToReadingResponse(reading));
+  }
+
+  // Log a manual reading; the latest reading also becomes the vehicle mileage
+  async createManual(
+    vehicleId: string,
+    input: CreateOdometerReadingInput,
+    createdById?: string
+  ): Promise<OdometerReadingResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      const reading = await this.record(tx, {
+        vehicleId,
+        mileage: input.mileage,
+        readAt: input.readAt || new Date(),
+        source: 'MANUAL',
+        notes: input.notes,
+        createdById
+      });
+
+      return this.mapToReadingResponse(reading);
+    });
+  }
+
+  // Log a reading from any source within the caller's transaction
+  // It must fit between the readings taken before and after it; only the latest
+  // reading moves the vehicle mileage, and never down
+  async record(
+    tx: Prisma.TransactionClient,
+    data: {
+      vehicleId: string;
+      mileage: number;
+      readAt: Date;
+      source: OdometerSource;
+      contractId?: string;
+      notes?: string | null;
+      createdById?: string;
+    }
+  ) {
+    // Serialize readings of the same vehicle so the ordering check holds
+    await tx.$queryRaw`SELECT "id" FROM "public"."vehicles" WHERE "id" = ${data.vehicleId} FOR UPDATE`;
+
+    const [previous, next] = await Promise.all([
+      tx.odometerReading.findFirst({
+        where: { vehicleId: data.vehicleId, readAt: { lte: data.readAt } },
+        orderBy: [{ readAt: 'desc' }, { mileage: 'desc' }],
+        select: { mileage: true }
+      }),
+      tx.odometerReading.findFirst({
+        where: { vehicleId: data.vehicleId, readAt: { gt: data.readAt } },
+        orderBy: [{ readAt: 'asc' }, { mileage: 'asc' }],
+        select: { mileage: true }
+      })
+    ]);
+
+    if (previous && data.mileage < previous.mileage) {
+      throw new BadRequestError(`Mileage cannot be lower than the previous reading (${previous.mileage} km)`);
+    }
+    if (next && data.mileage > next.mileage) {
+      throw new BadRequestError(`Mileage cannot be higher than the next reading (${next.mileage} km)`);
+    }
+
+    const reading = await tx.odometerReading.create({
+      data,
+      include: this.getReadingIncludes()
+    });
+
+    if (!next) {
+      await tx.vehicle.updateMany({
+        where: { id: data.vehicleId, mileage: { lte: data.mileage } },
+        data: { mileage: data.mileage }
+      });
+    }
+
+    return reading;
+  }
+
+  async vehicleExists(vehicleId: string): Promise<boolean> {
+    const count = await this.prisma.vehicle.count({ where: { id: vehicleId } });
+    return count > 0;
+  }
+
+  private getReadingIncludes() {
+    return {
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToReadingResponse(reading: any): OdometerReadingResponse {
+    return {
+      id: reading.id,
+      vehicleId: reading.vehicleId,
+      mileage: reading.mileage,
+      readAt: reading.readAt,
+      source: reading.source,
+      contractId: reading.contractId,
+      notes: reading.notes,
+      createdBy: reading.createdBy,
+      createdAt: reading.createdAt
+    };
+  }
+}
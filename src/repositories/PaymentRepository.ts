@@ -0,0 +1,258 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CreatePaymentInput,
+  RefundPaymentInput,
+  VoidPaymentInput,
+  PaymentResponse,
+  PaymentLedgerResponse
+} from '../types/payment';
+import { calculateLedgerTotals, roundAmount } from '../utils/payment';
+
+export class PaymentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Get the full ledger of a contract with derived totals
+  async getLedger(contractId: string): Promise<PaymentLedgerResponse | null> {
+    const contract = await this.prisma.contract.findUnique({
+      where: { id: contractId },
+      select: {
+        id: true,
+        contractNumber: true,
+        totalAmount: true,
+        payments: {
+          include: this.getPaymentIncludes(),
+          orderBy: { paidAt: 'asc' }
+        }
+      }
+    });
+
+    if (!contract) {
+      return null;
+    }
+
+    const payments = contract.payments.map(payment => this.mapToPaymentResponse(payment));
+    const totalAmount = Number(contract.totalAmount);
+    const totals = calculateLedgerTotals(payments, totalAmount);
+
+    return {
+      contractId: contract.id,
+      contractNumber: contract.contractNumber,
+      totalAmount,
+      paidAmount: totals.paidAmount,
+      refundedAmount: totals.refundedAmount,
+      balance: roundAmount(Math.max(totalAmount - totals.paidAmount, 0)),
+      paymentStatus: totals.paymentStatus,
+      payments
+    };
+  }
+
+  // Record a payment received for a contract
+  async create(input: CreatePaymentInput): Promise<PaymentResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      const contract = await this.lockContract(tx, input.contractId);
+
+      if (contract.status === 'CANCELLED') {
+        throw new Error('Cannot record a payment for a cancelled contract');
+      }
+
+      const totals = await this.getActiveTotals(tx, input.contractId, Number(contract.totalAmount));
+      if (roundAmount(totals.paidAmount + input.amount) > Number(contract.totalAmount)) {
+        throw new Error(`Payment exceeds the remaining balance of ${roundAmount(Number(contract.totalAmount) - totals.paidAmount)}`);
+      }
+
+      const payment = await tx.payment.create({
+        data: {
+          contractId: input.contractId,
+          adminId: input.adminId,
+          type: 'PAYMENT',
+          amount: input.amount,
+          method: input.method,
+          reference: input.reference,
+          notes: input.notes,
+          ...(input.paidAt && { paidAt: input.paidAt })
+        },
+        include: this.getPaymentIncludes()
+      });
+
+      await this.syncContractTotals(input.contractId, tx);
+
+      return this.mapToPaymentResponse(payment);
+    });
+  }
+
+  // Refund all or part of a payment
+  async refund(input: RefundPaymentInput): Promise<PaymentResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      await this.lockContract(tx, input.contractId);
+
+      const original = await tx.payment.findFirst({
+        where: { id: input.paymentId, contractId: input.contractId },
+        include: { refunds: true }
+      });
+
+      if (!original) {
+        throw new Error('Payment not found');
+      }
+      if (original.type !== 'PAYMENT') {
+        throw new Error('Only payments can be refunded');
+      }
+      if (original.voidedAt) {
+        throw new Error('Cannot refund a voided payment');
+      }
+
+      const alreadyRefunded = original.refunds
+        .filter(refund => !refund.voidedAt)
+        .reduce((sum, refund) => sum + Number(refund.amount), 0);
+      const refundable = roundAmount(Number(original.amount) - alreadyRefunded);
+      const amount = input.amount ?? refundable;
+
+      if (refundable <= 0) {
+        throw new Error('This payment has already been fully refunded');
+      }
+      if (amount <= 0) {
+        throw new Error('Refund amount must be greater than 0');
+      }
+      if (amount > refundable) {
+        throw new Error(`Refund amount cannot exceed the refundable amount of ${refundable}`);
+      }
+
+      const refund = await tx.payment.create({
+        data: {
+          contractId: input.contractId,
+          adminId: input.adminId,
+          type: 'REFUND',
+          amount,
+          method: input.method ?? original.method,
+          reference: input.reference,
+          notes: input.notes,
+          refundOfId: original.id
+        },
+        include: this.getPaymentIncludes()
+      });
+
+      await this.syncContractTotals(input.contractId, tx);
+
+      return this.mapToPaymentResponse(refund);
+    });
+  }
+
+  // Void a ledger entry recorded by mistake; it stays in the ledger but no longer counts
+  async void(input: VoidPaymentInput): Promise<PaymentResponse> {
+    return await this.prisma.$transaction(async (tx) => {
+      await this.lockContract(tx, input.contractId);
+
+      const payment = await tx.payment.findFirst({
+        where: { id: input.paymentId, contractId: input.contractId },
+        include: { refunds: true }
+      });
+
+      if (!payment) {
+        throw new Error('Payment not found');
+      }
+      if (payment.voidedAt) {
+        throw new Error('Payment is already voided');
+      }
+      if (payment.refunds.some(refund => !refund.voidedAt)) {
+        throw new Error('Void the refunds of this payment first');
+      }
+
+      const voided = await tx.payment.update({
+        where: { id: payment.id },
+        data: {
+          voidedAt: new Date(),
+          voidedBy: input.adminId,
+          voidReason: input.reason
+        },
+        include: this.getPaymentIncludes()
+      });
+
+      await this.syncContractTotals(input.contractId, tx);
+
+      return this.mapToPaymentResponse(voided);
+    });
+  }
+
+  // Recompute paidAmount and paymentStatus of a contract from its ledger
+  // Call after anything that changes the ledger or the contract total
+  async syncContractTotals(contractId: string, tx?: Prisma.TransactionClient): Promise<void> {
+    const client = tx || this.prisma;
+    const contract = await client.contract.findUnique({
+      where: { id: contractId },
+      select: { totalAmount: true }
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    const totals = await this.getActiveTotals(client, contractId, Number(contract.totalAmount));
+
+    await client.contract.update({
+      where: { id: contractId },
+      data: {
+        paidAmount: totals.paidAmount,
+        paymentStatus: totals.paymentStatus
+      }
+    });
+  }
+
+  // Serialize ledger writes per contract so concurrent payments cannot overpay
+  private async lockContract(tx: Prisma.TransactionClient, contractId: string) {
+    await tx.$queryRaw`SELECT "id" FROM "public"."contracts" WHERE "id" = ${contractId} FOR UPDATE`;
+
+    const contract = await tx.contract.findUnique({
+      where: { id: contractId },
+      select: { id: true, status: true, totalAmount: true }
+    });
+
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    return contract;
+  }
+
+  private async getActiveTotals(tx: Prisma.TransactionClient | PrismaClient, contractId: string, totalAmount: number) {
+    const entries = await tx.payment.findMany({
+      where: { contractId, voidedAt: null },
+      select: { type: true, amount: true, voidedAt: true }
+    });
+
+    return calculateLedgerTotals(
+      entries.map(entry => ({ ...entry, amount: Number(entry.amount) })),
+      totalAmount
+    );
+  }
+
+  private getPaymentIncludes() {
+    return {
+      admin: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToPaymentResponse(payment: any): PaymentResponse {
+    return {
+      id: payment.id,
+      contractId: payment.contractId,
+      type: payment.type,
+      amount: Number(payment.amount),
+      method: payment.method,
+      reference: payment.reference,
+      notes: payment.notes,
+      paidAt: payment.paidAt,
+      refundOfId: payment.refundOfId,
+      voidedAt: payment.voidedAt,
+      voidedBy: payment.voidedBy,
+      voidReason: payment.voidReason,
+      admin: payment.admin,
+      createdAt: payment.createdAt
+    };
+  }
+}
@@ -0,0 +1,200 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  CustomerProfile,
+  PortalContractDetailResponse,
+  PortalContractResponse,
+  PortalRentRequestResponse
+} from '../types/portal';
+import { roundAmount } from '../utils/payment';
+
+// Every portal query goes through these filters so a customer only ever sees their own records
+// Client emails are typed in by admins, hence the case-insensitive match
+const clientsOf = (email: string): Prisma.ClientWhereInput => ({
+  email: { equals: email, mode: 'insensitive' }
+});
+const rentRequestsOf = (email: string): Prisma.RentRequestWhereInput => ({
+  clientEmail: email
+});
+
+const VEHICLE_SUMMARY = { select: { make: true, model: true, year: true } };
+
+export class PortalRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Latest client record or rent request with this email, used to greet the customer
+  async findCustomer(email: string): Promise<CustomerProfile | null> {
+    const [client, rentRequest] = await Promise.all([
+      this.prisma.client.findFirst({
+        where: clientsOf(email),
+        orderBy: { updatedAt: 'desc' },
+        select: { prenom: true, nom: true }
+      }),
+      this.prisma.rentRequest.findFirst({
+        where: rentRequestsOf(email),
+        orderBy: { createdAt: 'desc' },
+        select: { clientName: true }
+      })
+    ]);
+
+    if (client) {
+      return { email, firstName: client.prenom, lastName: client.nom };
+    }
+
+    if (rentRequest) {
+      return { email, firstName: rentRequest.clientName, lastName: null };
+    }
+
+    return null;
+  }
+
+  async findRecentLoginToken(email: string, since: Date) {
+    return await this.prisma.customerLoginToken.findFirst({
+      where: { email, usedAt: null, createdAt: { gt: since } }
+    });
+  }
+
+  // Only the latest link stays valid
+  async replaceLoginToken(data: { email: string; tokenHash: string; expiresAt: Date; requestedIp?: string }): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.customerLoginToken.deleteMany({ where: { email: data.email, usedAt: null } }),
+      this.prisma.customerLoginToken.create({ data })
+    ]);
+  }
+
+  // Mark an unexpired link as used; the conditional update keeps it single-use under concurrent requests
+  async claimLoginToken(tokenHash: string): Promise<string | null> {
+    const token = await this.prisma.customerLoginToken.findUnique({ where: { tokenHash } });
+    if (!token) {
+      return null;
+    }
+
+    const claimed = await this.prisma.customerLoginToken.updateMany({
+      where: { id: token.id, usedAt: null, expiresAt: { gt: new Date() } },
+      data: { usedAt: new Date() }
+    });
+
+    return claimed.count === 1 ? token.email : null;
+  }
+
+  async deleteExpiredLoginTokens(): Promise<number> {
+    const result = await this.prisma.customerLoginToken.deleteMany({
+      where: {
+        OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }]
+      }
+    });
+
+    return result.count;
+  }
+
+  async findRentRequests(email: string): Promise<PortalRentRequestResponse[]> {
+    const rentRequests = await this.prisma.rentRequest.findMany({
+      where: rentRequestsOf(email),
+      include: {
+        vehicle: VEHICLE_SUMMARY,
+        contract: { select: { contractNumber: true } }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return rentRequests.map(rentRequest => ({
+      id: rentRequest.id,
+      requestId: rentRequest.requestId,
+      status: rentRequest.status,
+      vehicle: {
+        make: rentRequest.vehicleMake,
+        model: rentRequest.vehicleModel,
+        year: rentRequest.vehicleYear
+      },
+      startDate: rentRequest.startDate,
+      endDate: rentRequest.endDate,
+      estimatedTotal: rentRequest.estimatedTotal !== null ? Number(rentRequest.estimatedTotal) : null,
+      promoDiscountAmount: rentRequest.promoDiscountAmount !== null ? Number(rentRequest.promoDiscountAmount) : null,
+      currency: rentRequest.currency,
+      contractNumber: rentRequest.contract?.contractNumber,
+      createdAt: rentRequest.createdAt
+    }));
+  }
+
+  async findContracts(email: string): Promise<PortalContractResponse[]> {
+    const contracts = await this.prisma.contract.findMany({
+      where: { client: clientsOf(email) },
+      include: { vehicle: VEHICLE_SUMMARY },
+      orderBy: { startDate: 'desc' }
+    });
+
+    return contracts.map(contract => this.mapToPortalContract(contract));
+  }
+
+  async findContract(email: string, id: string): Promise<PortalContractDetailResponse | null> {
+    const contract = await this.prisma.contract.findFirst({
+      where: { id, client: clientsOf(email) },
+      include: {
+        vehicle: VEHICLE_SUMMARY,
+        accessories: true,
+        payments: {
+          where: { voidedAt: null },
+          orderBy: { paidAt: 'asc' }
+        },
+        deposit: true
+      }
+    });
+
+    if (!contract) {
+      return null;
+    }
+
+    return {
+      ...this.mapToPortalContract(contract),
+      accessories: contract.accessories.map(accessory => ({
+        name: accessory.name,
+        price: Number(accessory.price),
+        quantity: accessory.quantity
+      })),
+      payments: contract.payments.map(payment => ({
+        id: payment.id,
+        type: payment.type,
+        amount: Number(payment.amount),
+        method: payment.method,
+        paidAt: payment.paidAt
+      })),
+      deposit: contract.deposit && {
+        amount: Number(contract.deposit.amount),
+        status: contract.deposit.status,
+        retainedAmount: Number(contract.deposit.retainedAmount),
+        releasedAt: contract.deposit.releasedAt
+      }
+    };
+  }
+
+  async contractBelongsTo(email: string, id: string): Promise<boolean> {
+    const count = await this.prisma.contract.count({
+      where: { id, client: clientsOf(email) }
+    });
+
+    return count > 0;
+  }
+
+  private mapToPortalContract(contract: any): PortalContractResponse {
+    const totalAmount = Number(contract.totalAmount);
+    const paidAmount = Number(contract.paidAmount);
+
+    return {
+      id: contract.id,
+      contractNumber: contract.contractNumber,
+      status: contract.status,
+      vehicle: contract.vehicle,
+      startDate: contract.startDate,
+      endDate: contract.endDate,
+      totalDays: contract.totalDays,
+      totalAmount,
+      lateFeeAmount: Number(contract.lateFeeAmount),
+      oneWayFee: Number(contract.oneWayFee),
+      paidAmount,
+      balance: Math.max(roundAmount(totalAmount - paidAmount), 0),
+      paymentStatus: contract.paymentStatus,
+      pickupLocation: contract.pickupLocation,
+      dropoffLocation: contract.dropoffLocation,
+      createdAt: contract.createdAt
+    };
+  }
+}
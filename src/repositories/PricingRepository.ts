@@ -0,0 +1,144 @@
+import { PrismaClient, Prisma, RentalServiceType, VehicleCategory } from '@prisma/client';
+import { PricingRuleQuery, PricingRuleResponse } from '../types/pricing';
+import { PricingRuleDefinition } from '../utils/pricing';
+import { CreatePricingRuleInput, UpdatePricingRuleInput } from '../validators/pricingValidators';
+
+export class PricingRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findAll(query: PricingRuleQuery = {}): Promise<PricingRuleResponse[]> {
+    const rules = await this.prisma.pricingRule.findMany({
+      where: {
+        ...(query.type && { type: query.type }),
+        ...(query.vehicleId && { vehicleId: query.vehicleId }),
+        ...(query.category && { category: query.category }),
+        ...(query.isActive !== undefined && { isActive: query.isActive })
+      },
+      include: this.getRuleIncludes(),
+      orderBy: [{ type: 'asc' }, { priority: 'desc' }, { createdAt: 'desc' }]
+    });
+
+    return rules.map(rule => this.mapToRuleResponse(rule));
+  }
+
+  async findById(id: string): Promise<PricingRuleResponse | null> {
+    const rule = await this.prisma.pricingRule.findUnique({
+      where: { id },
+      include: this.getRuleIncludes()
+    });
+
+    return rule ? this.mapToRuleResponse(rule) : null;
+  }
+
+  async create(input: CreatePricingRuleInput): Promise<PricingRuleResponse> {
+    const rule = await this.prisma.pricingRule.create({
+      data: input as Prisma.PricingRuleUncheckedCreateInput,
+      include: this.getRuleIncludes()
+    });
+
+    return this.mapToRuleResponse(rule);
+  }
+
+  async update(id: string, input: UpdatePricingRuleInput): Promise<PricingRuleResponse> {
+    const rule = await this.prisma.pricingRule.update({
+      where: { id },
+      data: input as Prisma.PricingRuleUncheckedUpdateInput,
+      include: this.getRuleIncludes()
+    });
+
+    return this.mapToRuleResponse(rule);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.pricingRule.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Vehicle fields the pricing engine needs
+  async findVehicleForPricing(vehicleId: string) {
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      select: {
+        id: true,
+        pricePerDay: true,
+        category: true,
+        isActive: true,
+        rentalServices: {
+          where: { isActive: true },
+          select: { rentalServiceType: true }
+        }
+      }
+    });
+
+    return vehicle
+      ? {
+          ...vehicle,
+          pricePerDay: Number(vehicle.pricePerDay),
+          rentalServices: vehicle.rentalServices.map(service => service.rentalServiceType)
+        }
+      : null;
+  }
+
+  // Active rules that may apply to a vehicle; the engine resolves the remaining conditions
+  async findApplicableRules(
+    vehicleId: string,
+    category: VehicleCategory,
+    serviceType: RentalServiceType
+  ): Promise<PricingRuleDefinition[]> {
+    const rules = await this.prisma.pricingRule.findMany({
+      where: {
+        isActive: true,
+        AND: [
+          { OR: [{ vehicleId }, { vehicleId: null }] },
+          { OR: [{ category }, { category: null }] },
+          { OR: [{ serviceType }, { serviceType: null }] }
+        ]
+      }
+    });
+
+    return rules.map(rule => ({
+      ...rule,
+      value: Number(rule.value)
+    }));
+  }
+
+  private getRuleIncludes() {
+    return {
+      vehicle: {
+        select: {
+          id: true,
+          make: true,
+          model: true,
+          licensePlate: true
+        }
+      }
+    };
+  }
+
+  private mapToRuleResponse(rule: any): PricingRuleResponse {
+    return {
+      id: rule.id,
+      name: rule.name,
+      description: rule.description,
+      type: rule.type,
+      adjustmentType: rule.adjustmentType,
+      value: Number(rule.value),
+      vehicleId: rule.vehicleId,
+      category: rule.category,
+      serviceType: rule.serviceType,
+      startDate: rule.startDate,
+      endDate: rule.endDate,
+      minDays: rule.minDays,
+      weekendDays: rule.weekendDays,
+      priority: rule.priority,
+      isActive: rule.isActive,
+      vehicle: rule.vehicle,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt
+    };
+  }
+}
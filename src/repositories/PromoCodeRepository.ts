@@ -0,0 +1,261 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import {
+  PromoCodeQuery,
+  PromoCodeResponse,
+  PromoCodeRedemption,
+  PromoCodeReport,
+  PromoCodeReportQuery
+} from '../types/promoCode';
+import { CreatePromoCodeInput, UpdatePromoCodeInput } from '../validators/promoCodeValidators';
+import { roundAmount } from '../utils/payment';
+
+// A contract counts as a redemption unless it was cancelled
+const REDEEMED_CONTRACT_FILTER = { status: { not: 'CANCELLED' as const } };
+
+export class PromoCodeRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findAll(query: PromoCodeQuery = {}): Promise<PromoCodeResponse[]> {
+    const promoCodes = await this.prisma.promoCode.findMany({
+      where: {
+        ...(query.search && {
+          OR: [
+            { code: { contains: query.search, mode: 'insensitive' } },
+            { description: { contains: query.search, mode: 'insensitive' } }
+          ]
+        }),
+        ...(query.isActive !== undefined && { isActive: query.isActive })
+      },
+      include: this.getPromoCodeIncludes(),
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return promoCodes.map(promoCode => this.mapToPromoCodeResponse(promoCode));
+  }
+
+  async findById(id: string): Promise<PromoCodeResponse | null> {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { id },
+      include: this.getPromoCodeIncludes()
+    });
+
+    return promoCode ? this.mapToPromoCodeResponse(promoCode) : null;
+  }
+
+  // Code must already be normalized (uppercase)
+  async findByCode(code: string): Promise<PromoCodeResponse | null> {
+    const promoCode = await this.prisma.promoCode.findUnique({
+      where: { code },
+      include: this.getPromoCodeIncludes()
+    });
+
+    return promoCode ? this.mapToPromoCodeResponse(promoCode) : null;
+  }
+
+  async create(input: CreatePromoCodeInput): Promise<PromoCodeResponse> {
+    const promoCode = await this.prisma.promoCode.create({
+      data: input,
+      include: this.getPromoCodeIncludes()
+    });
+
+    return this.mapToPromoCodeResponse(promoCode);
+  }
+
+  async update(id: string, input: UpdatePromoCodeInput): Promise<PromoCodeResponse> {
+    const promoCode = await this.prisma.promoCode.update({
+      where: { id },
+      data: input,
+      include: this.getPromoCodeIncludes()
+    });
+
+    return this.mapToPromoCodeResponse(promoCode);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.promoCode.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  // Count redemptions of a code, overall or for one client (by id, or by email before the client exists)
+  async countRedemptions(
+    promoCodeId: string,
+    client?: { clientId?: string; clientEmail?: string },
+    tx?: Prisma.TransactionClient
+  ): Promise<number> {
+    const db = tx || this.prisma;
+
+    let clientFilter: Prisma.ContractWhereInput = {};
+    if (client?.clientId) {
+      clientFilter = { clientId: client.clientId };
+    } else if (client?.clientEmail) {
+      clientFilter = { client: { email: { equals: client.clientEmail, mode: 'insensitive' } } };
+    }
+
+    return await db.contract.count({
+      where: {
+        promoCodeId,
+        ...REDEEMED_CONTRACT_FILTER,
+        ...clientFilter
+      }
+    });
+  }
+
+  // Check the usage limits while holding a lock on the code, so concurrent contracts cannot exceed them
+  async assertRedeemable(tx: Prisma.TransactionClient, promoCodeId: string, clientId: string): Promise<void> {
+    await tx.$queryRaw`SELECT "id" FROM "public"."promo_codes" WHERE "id" = ${promoCodeId} FOR UPDATE`;
+
+    const promoCode = await tx.promoCode.findUnique({
+      where: { id: promoCodeId },
+      select: { code: true, maxUses: true, maxUsesPerClient: true }
+    });
+
+    if (!promoCode) {
+      throw new Error('Promo code not found');
+    }
+
+    if (promoCode.maxUses !== null) {
+      const used = await this.countRedemptions(promoCodeId, undefined, tx);
+      if (used >= promoCode.maxUses) {
+        throw new Error(`Promo code ${promoCode.code} has reached its usage limit`);
+      }
+    }
+
+    if (promoCode.maxUsesPerClient !== null) {
+      const usedByClient = await this.countRedemptions(promoCodeId, { clientId }, tx);
+      if (usedByClient >= promoCode.maxUsesPerClient) {
+        throw new Error(`Promo code ${promoCode.code} has already been used the maximum number of times by this client`);
+      }
+    }
+  }
+
+  // Contracts created with a code
+  async findRedemptions(promoCodeId: string): Promise<PromoCodeRedemption[]> {
+    const contracts = await this.prisma.contract.findMany({
+      where: { promoCodeId },
+      select: {
+        id: true,
+        contractNumber: true,
+        status: true,
+        subtotal: true,
+        promoDiscountAmount: true,
+        totalAmount: true,
+        createdAt: true,
+        client: {
+          select: {
+            id: true,
+            nom: true,
+            prenom: true
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return contracts.map(contract => ({
+      contractId: contract.id,
+      contractNumber: contract.contractNumber,
+      status: contract.status,
+      client: contract.client,
+      subtotal: Number(contract.subtotal),
+      discountAmount: Number(contract.promoDiscountAmount || 0),
+      totalAmount: Number(contract.totalAmount),
+      createdAt: contract.createdAt
+    }));
+  }
+
+  // Redemptions and revenue impact per code over a period
+  async getReport(query: PromoCodeReportQuery): Promise<PromoCodeReport> {
+    const where: Prisma.ContractWhereInput = {
+      promoCodeId: { not: null },
+      ...REDEEMED_CONTRACT_FILTER,
+      ...((query.from || query.to) && {
+        createdAt: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to })
+        }
+      })
+    };
+
+    const [perCode, perClient] = await Promise.all([
+      this.prisma.contract.groupBy({
+        by: ['promoCodeId'],
+        where,
+        _count: { _all: true },
+        _sum: { promoDiscountAmount: true, totalAmount: true }
+      }),
+      this.prisma.contract.groupBy({
+        by: ['promoCodeId', 'clientId'],
+        where
+      })
+    ]);
+
+    const promoCodes = await this.prisma.promoCode.findMany({
+      where: { id: { in: perCode.map(row => row.promoCodeId!) } },
+      select: { id: true, code: true }
+    });
+    const codeById = new Map(promoCodes.map(promoCode => [promoCode.id, promoCode.code]));
+
+    const codes = perCode.map(row => {
+      const discountTotal = roundAmount(Number(row._sum.promoDiscountAmount || 0));
+      const revenue = roundAmount(Number(row._sum.totalAmount || 0));
+
+      return {
+        promoCodeId: row.promoCodeId!,
+        code: codeById.get(row.promoCodeId!) || '',
+        redemptions: row._count._all,
+        uniqueClients: perClient.filter(entry => entry.promoCodeId === row.promoCodeId).length,
+        discountTotal,
+        revenue,
+        grossRevenue: roundAmount(revenue + discountTotal)
+      };
+    }).sort((a, b) => b.redemptions - a.redemptions);
+
+    return {
+      from: query.from,
+      to: query.to,
+      totals: {
+        redemptions: codes.reduce((sum, entry) => sum + entry.redemptions, 0),
+        discountTotal: roundAmount(codes.reduce((sum, entry) => sum + entry.discountTotal, 0)),
+        revenue: roundAmount(codes.reduce((sum, entry) => sum + entry.revenue, 0)),
+        grossRevenue: roundAmount(codes.reduce((sum, entry) => sum + entry.grossRevenue, 0))
+      },
+      codes
+    };
+  }
+
+  private getPromoCodeIncludes() {
+    return {
+      _count: {
+        select: {
+          contracts: { where: REDEEMED_CONTRACT_FILTER }
+        }
+      }
+    };
+  }
+
+  private mapToPromoCodeResponse(promoCode: any): PromoCodeResponse {
+    return {
+      id: promoCode.id,
+      code: promoCode.code,
+      description: promoCode.description,
+      discountType: promoCode.discountType,
+      value: Number(promoCode.value),
+      maxDiscount: promoCode.maxDiscount !== null ? Number(promoCode.maxDiscount) : null,
+      minAmount: promoCode.minAmount !== null ? Number(promoCode.minAmount) : null,
+      validFrom: promoCode.validFrom,
+      validUntil: promoCode.validUntil,
+      maxUses: promoCode.maxUses,
+      maxUsesPerClient: promoCode.maxUsesPerClient,
+      categories: promoCode.categories,
+      serviceTypes: promoCode.serviceTypes,
+      isActive: promoCode.isActive,
+      redemptionCount: promoCode._count?.contracts ?? 0,
+      createdAt: promoCode.createdAt,
+      updatedAt: promoCode.updatedAt
+    };
+  }
+}
@@ -3,14 +3,24 @@ import { logger } from '@/utils/logger';
 import {
   CreateRentRequestData,
   UpdateRentRequestData,
+  ConvertRentRequestData,
+  RentRequestConversionResult,
   RentRequestFilters,
   RentRequestWithVehicle,
   VehicleAvailability,
   RentRequestStatistics,
-  RENT_REQUEST_CONSTANTS
+  RentRequestTrackingResponse,
+  RENT_REQUEST_CONSTANTS,
+  STATUS_DISPLAY_NAMES,
+  VALID_STATUS_TRANSITIONS
 } from '@/types/rentRequest';
 import { RentRequestStatus } from '@/types/rentRequest';
 import { bookingConflictService } from '@/services/BookingConflictService';
+import { ContractRepository } from '@/repositories/ContractRepository';
+import { pricingService } from '@/services/PricingService';
+import { promoCodeService } from '@/services/PromoCodeService';
+import { roundAmount } from '@/utils/payment';
+import { ConflictError } from '@/middleware/errorHandler';
 
 /**
  * Repository layer for Rent Request operations
@@ -72,46 +82,24 @@ export class RentRequestRepository {
     excludeRequestId?: string
   ): Promise<VehicleAvailability> {
     try {
-      // Check for any active rental requests that would conflict
-      // Only CONFIRMED and APPROVED requests block availability
-      const whereClause: any = {
+      // Same rules as bookings: contracts, approved requests, maintenance and blackouts
+      const result = await bookingConflictService.isVehicleAvailableForPeriod(
         vehicleId,
-        status: {
-          in: ['CONFIRMED', 'APPROVED']
-        },
-        OR: [
-          {
-            // Request starts before our end date and ends after our start date
-            startDate: { lte: endDate },
-            endDate: { gte: startDate }
-          }
-        ]
-      };
-
-      if (excludeRequestId) {
-        whereClause.id = { not: excludeRequestId };
-      }
-
-      const conflictingRequests = await prisma.rentRequest.findMany({
-        where: whereClause,
-        select: {
-          requestId: true,
-          startDate: true,
-          endDate: true,
-          status: true,
-        }
-      });
+        startDate,
+        endDate,
+        undefined,
+        excludeRequestId
+      );
 
-      const isAvailable = conflictingRequests.length === 0;
+      // Public endpoint: who or what holds the vehicle is not disclosed
+      const blockedPeriods = result.conflictingBookings.map(booking => ({
+        startDate: booking.startDate,
+        endDate: booking.endDate,
+      }));
 
       return {
-        isAvailable,
-        conflictingRequests: !isAvailable ? conflictingRequests.map(req => ({
-          requestId: req.requestId,
-          startDate: req.startDate,
-          endDate: req.endDate,
-          status: req.status as RentRequestStatus,
-        })) : undefined,
+        isAvailable: result.available,
+        blockedPeriods: blockedPeriods.length > 0 ? blockedPeriods : undefined,
       };
     } catch (error) {
       logger.error('Error checking vehicle availability:', { vehicleId, startDate, endDate, error });
@@ -138,7 +126,7 @@ export class RentRequestRepository {
           startDate,
           endDate,
           createdAt: { gte: oneHourAgo },
-          status: { not: 'REJECTED' }
+          status: { notIn: ['REJECTED', 'CANCELLED'] }
         },
         select: { id: true }
       });
@@ -184,6 +172,29 @@ export class RentRequestRepository {
         throw new Error('Le véhicule n\'est pas disponible pour ces dates');
       }
 
+      // Price the requested dates with the pricing rules (public requests are individual rentals)
+      let quote;
+      try {
+        quote = await pricingService.getQuote({
+          vehicleId: data.vehicleId,
+          startDate: data.startDate,
+          endDate: data.endDate,
+          serviceType: 'INDIVIDUAL',
+          promoCode: data.promoCode || undefined,
+          clientEmail: data.clientEmail
+        });
+      } catch (error) {
+        if (!data.promoCode) {
+          throw error;
+        }
+        logger.warn('Promo code rejected for rent request', {
+          promoCode: data.promoCode,
+          clientEmail: data.clientEmail,
+          reason: error instanceof Error ? error.message : error
+        });
+        throw new Error('Code promo invalide ou non applicable à cette demande');
+      }
+
       // Generate unique request ID
       const requestId = this.generateRequestId();
 
@@ -201,8 +212,12 @@ export class RentRequestRepository {
           vehicleMake: vehicle.make,
           vehicleModel: vehicle.model,
           vehicleYear: vehicle.year,
-          pricePerDay: vehicle.pricePerDay,
-          currency: 'DZD',
+          pricePerDay: quote.dailyRate,
+          estimatedTotal: quote.totalAmount,
+          promoCodeId: quote.promoCode?.id,
+          promoDiscountAmount: quote.promoCode?.discountAmount,
+          apiKeyId: data.apiKeyId,
+          currency: quote.currency,
           status: 'PENDING'
         },
         include: {
@@ -226,6 +241,8 @@ export class RentRequestRepository {
       return {
         ...rentRequest,
         pricePerDay: Number(rentRequest.pricePerDay),
+        estimatedTotal: rentRequest.estimatedTotal !== null ? Number(rentRequest.estimatedTotal) : null,
+        promoDiscountAmount: rentRequest.promoDiscountAmount !== null ? Number(rentRequest.promoDiscountAmount) : null,
       };
     } catch (error) {
       logger.error('Error creating rent request:', { error, data });
@@ -280,6 +297,8 @@ export class RentRequestRepository {
       return {
         ...rentRequest,
         pricePerDay: Number(rentRequest.pricePerDay),
+        estimatedTotal: rentRequest.estimatedTotal !== null ? Number(rentRequest.estimatedTotal) : null,
+        promoDiscountAmount: rentRequest.promoDiscountAmount !== null ? Number(rentRequest.promoDiscountAmount) : null,
         vehicle_make: rentRequest.vehicle.make,
         vehicle_model: rentRequest.vehicle.model,
         vehicle_year: rentRequest.vehicle.year,
@@ -292,6 +311,98 @@ export class RentRequestRepository {
     }
   }
 
+  /**
+   * Get a rent request as shown on the public tracking page
+   * Only the requester's own details; admin notes and reviewers are left out
+   */
+  async getRentRequestForTracking(id: string): Promise<RentRequestTrackingResponse | null> {
+    try {
+      const rentRequest = await prisma.rentRequest.findUnique({
+        where: { id },
+        include: {
+          vehicle: {
+            select: {
+              images: {
+                where: { isPrimary: true },
+                take: 1,
+                select: { imageUrl: true }
+              }
+            }
+          },
+          statusHistory: {
+            orderBy: { changedAt: 'asc' },
+            select: { oldStatus: true, newStatus: true, changedAt: true }
+          }
+        }
+      });
+
+      if (!rentRequest) {
+        return null;
+      }
+
+      return {
+        requestId: rentRequest.requestId,
+        status: rentRequest.status as RentRequestStatus,
+        statusLabel: STATUS_DISPLAY_NAMES[rentRequest.status as RentRequestStatus],
+        canCancel: rentRequest.status === 'PENDING',
+        clientName: rentRequest.clientName,
+        startDate: rentRequest.startDate,
+        endDate: rentRequest.endDate,
+        vehicle: {
+          make: rentRequest.vehicleMake,
+          model: rentRequest.vehicleModel,
+          year: rentRequest.vehicleYear,
+          imageUrl: rentRequest.vehicle.images[0]?.imageUrl,
+        },
+        estimatedTotal: rentRequest.estimatedTotal !== null ? Number(rentRequest.estimatedTotal) : null,
+        currency: rentRequest.currency,
+        statusHistory: rentRequest.statusHistory.map(entry => ({
+          oldStatus: entry.oldStatus as RentRequestStatus | null,
+          newStatus: entry.newStatus as RentRequestStatus,
+          changedAt: entry.changedAt,
+        })),
+        createdAt: rentRequest.createdAt,
+      };
+    } catch (error) {
+      logger.error('Error fetching rent request for tracking:', { id, error });
+      throw new Error('Failed to fetch rent request');
+    }
+  }
+
+  /**
+   * Cancel a request on behalf of the client
+   * The status check is part of the update so a request reviewed in the meantime is left alone
+   */
+  async cancelPendingRentRequest(id: string): Promise<boolean> {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const cancelled = await tx.rentRequest.updateMany({
+          where: { id, status: 'PENDING' },
+          data: { status: 'CANCELLED' }
+        });
+
+        if (cancelled.count === 0) {
+          return false;
+        }
+
+        await tx.rentRequestStatusHistory.create({
+          data: {
+            requestId: id,
+            oldStatus: 'PENDING',
+            newStatus: 'CANCELLED',
+            changedBy: 'Client',
+            notes: 'Annulée par le client depuis la page de suivi',
+          }
+        });
+
+        return true;
+      });
+    } catch (error) {
+      logger.error('Error cancelling rent request:', { id, error });
+      throw new Error('Failed to cancel rent request');
+    }
+  }
+
   /**
    * Get rent requests with filters and pagination
    */
@@ -304,6 +415,7 @@ export class RentRequestRepository {
         status,
         clientEmail,
         vehicleId,
+        apiKeyId,
         startDate,
         endDate,
         limit = 20,
@@ -327,6 +439,9 @@ export class RentRequestRepository {
       if (vehicleId) {
         where.vehicleId = vehicleId;
       }
+      if (apiKeyId) {
+        where.apiKeyId = apiKeyId;
+      }
       if (startDate) {
         where.startDate = { gte: startDate };
       }
@@ -370,6 +485,8 @@ export class RentRequestRepository {
       const transformedRequests = requests.map(req => ({
         ...req,
         pricePerDay: Number(req.pricePerDay),
+        estimatedTotal: req.estimatedTotal !== null ? Number(req.estimatedTotal) : null,
+        promoDiscountAmount: req.promoDiscountAmount !== null ? Number(req.promoDiscountAmount) : null,
         vehicle_make: req.vehicle.make,
         vehicle_model: req.vehicle.model,
         vehicle_year: req.vehicle.year,
@@ -487,6 +604,8 @@ export class RentRequestRepository {
       return {
         ...updatedRequest,
         pricePerDay: Number(updatedRequest.pricePerDay),
+        estimatedTotal: updatedRequest.estimatedTotal !== null ? Number(updatedRequest.estimatedTotal) : null,
+        promoDiscountAmount: updatedRequest.promoDiscountAmount !== null ? Number(updatedRequest.promoDiscountAmount) : null,
         vehicle_make: updatedRequest.vehicle.make,
         vehicle_model: updatedRequest.vehicle.model,
         vehicle_year: updatedRequest.vehicle.year,
@@ -512,8 +631,8 @@ export class RentRequestRepository {
         throw new Error('Demande de location non trouvée');
       }
 
-      if (!['PENDING', 'REJECTED'].includes(existingRequest.status)) {
-        throw new Error('Seules les demandes en attente ou rejetées peuvent être supprimées');
+      if (!['PENDING', 'REJECTED', 'CANCELLED'].includes(existingRequest.status)) {
+        throw new Error('Seules les demandes en attente, rejetées ou annulées peuvent être supprimées');
       }
 
       // Delete using Prisma (will cascade delete status history)
@@ -605,6 +724,8 @@ export class RentRequestRepository {
       const transformedRecentRequests = recentRequests.map(req => ({
         ...req,
         pricePerDay: Number(req.pricePerDay),
+        estimatedTotal: req.estimatedTotal !== null ? Number(req.estimatedTotal) : null,
+        promoDiscountAmount: req.promoDiscountAmount !== null ? Number(req.promoDiscountAmount) : null,
         vehicle_make: req.vehicle.make,
         vehicle_model: req.vehicle.model,
         vehicle_year: req.vehicle.year,
@@ -654,6 +775,7 @@ export class RentRequestRepository {
         contactedRequests: statusCounts['CONTACTED'] || 0,
         reviewedRequests: statusCounts['REVIEWED'] || 0,
         confirmedRequests: statusCounts['CONFIRMED'] || 0,
+        cancelledRequests: statusCounts['CANCELLED'] || 0,
         monthlyStats: monthlyStats.map(stat => ({
           month: stat.month,
           year: stat.year,
@@ -787,6 +909,8 @@ export class RentRequestRepository {
       return {
         ...updatedRequest,
         pricePerDay: Number(updatedRequest.pricePerDay),
+        estimatedTotal: updatedRequest.estimatedTotal !== null ? Number(updatedRequest.estimatedTotal) : null,
+        promoDiscountAmount: updatedRequest.promoDiscountAmount !== null ? Number(updatedRequest.promoDiscountAmount) : null,
         vehicle_make: updatedRequest.vehicle.make,
         vehicle_model: updatedRequest.vehicle.model,
         vehicle_year: updatedRequest.vehicle.year,
@@ -795,6 +919,211 @@ export class RentRequestRepository {
       };
     });
   }
+
+  /**
+   * Convert a rent request into a contract atomically
+   * Finds or creates the client, creates the contract with booking validation,
+   * then confirms and links the request - all in a single transaction
+   */
+  async convertToContract(
+    id: string,
+    data: ConvertRentRequestData,
+    adminId?: string
+  ): Promise<RentRequestConversionResult> {
+    const contractRepository = new ContractRepository(prisma);
+
+    return await prisma.$transaction(async (tx) => {
+      // Step 1: Lock the request so concurrent conversions cannot both create a contract,
+      // then re-read it inside the transaction
+      await tx.$queryRaw`SELECT "id" FROM "public"."rent_requests" WHERE "id" = ${id} FOR UPDATE`;
+
+      const existingRequest = await tx.rentRequest.findUnique({
+        where: { id },
+        include: {
+          vehicle: {
+            include: {
+              rentalServices: { where: { isActive: true } }
+            }
+          },
+          promoCode: { select: { code: true } }
+        }
+      });
+
+      if (!existingRequest) {
+        throw new Error('Demande de location non trouvée');
+      }
+
+      if (existingRequest.contractId) {
+        throw new Error('Cette demande a déjà été convertie en contrat');
+      }
+
+      if (existingRequest.status === 'CANCELLED') {
+        throw new ConflictError('Cette demande a été annulée par le client');
+      }
+
+      const currentStatus = existingRequest.status as RentRequestStatus;
+      if (!VALID_STATUS_TRANSITIONS[currentStatus].includes(RentRequestStatus.CONFIRMED)) {
+        throw new Error(
+          `Transition de statut invalide: de ${currentStatus} vers ${RentRequestStatus.CONFIRMED}`
+        );
+      }
+
+      const supportedServices = existingRequest.vehicle.rentalServices.map(rs => rs.rentalServiceType);
+      if (!supportedServices.includes(data.serviceType)) {
+        throw new Error(`Le véhicule ne propose pas le service ${data.serviceType}`);
+      }
+
+      // Step 2: Find the matching client by email or phone, or create one
+      let client = await tx.client.findFirst({
+        where: {
+          isActive: true,
+          OR: [
+            { email: { equals: existingRequest.clientEmail, mode: 'insensitive' } },
+            { telephone: existingRequest.clientPhone }
+          ]
+        },
+        orderBy: { createdAt: 'desc' }
+      });
+
+      const clientCreated = !client;
+
+      if (!client) {
+        if (!data.dateNaissance || !data.adresse || !data.datePermis) {
+          throw new Error(
+            'Aucun client existant ne correspond à cette demande : la date de naissance, l\'adresse et la date du permis sont requises pour le créer'
+          );
+        }
+
+        // Same convention as booking conflicts: first word is the first name
+        const [prenom, ...nomParts] = existingRequest.clientName.trim().split(/\s+/);
+
+        client = await tx.client.create({
+          data: {
+            nom: nomParts.join(' ') || prenom,
+            prenom,
+            dateNaissance: data.dateNaissance,
+            telephone: existingRequest.clientPhone,
+            email: existingRequest.clientEmail,
+            adresse: data.adresse,
+            datePermis: data.datePermis,
+            numeroPermis: data.numeroPermis,
+          }
+        });
+
+        logger.info('Client created from rent request', {
+          requestId: existingRequest.requestId,
+          clientId: client.id
+        });
+      } else if (client.status !== 'ACTIF') {
+        throw new Error('Le client correspondant à cette demande n\'est pas actif');
+      }
+
+      // Step 3: Price the rental for the chosen service type and create the contract,
+      // excluding this request from the conflict check
+      const quote = await pricingService.getQuote({
+        vehicleId: existingRequest.vehicleId,
+        startDate: existingRequest.startDate,
+        endDate: existingRequest.endDate,
+        serviceType: data.serviceType
+      });
+
+      // The code entered with the request keeps the validity it had when the request was made
+      const promoCode = data.promoCode || existingRequest.promoCode?.code;
+      let promo = null;
+      if (promoCode) {
+        try {
+          promo = await promoCodeService.evaluate({
+            code: promoCode,
+            amount: quote.subtotal,
+            vehicleCategory: existingRequest.vehicle.category,
+            serviceType: data.serviceType,
+            clientId: client.id,
+            at: data.promoCode ? undefined : existingRequest.createdAt
+          });
+        } catch (error) {
+          logger.warn('Promo code rejected on rent request conversion', {
+            requestId: existingRequest.requestId,
+            promoCode,
+            reason: error instanceof Error ? error.message : error
+          });
+          throw new Error(`Le code promo ${promoCode} n'est pas applicable à ce contrat`);
+        }
+      }
+
+      const contract = await contractRepository.createWithBookingValidation(
+        {
+          clientId: client.id,
+          vehicleId: existingRequest.vehicleId,
+          adminId,
+          startDate: existingRequest.startDate,
+          endDate: existingRequest.endDate,
+          serviceType: data.serviceType,
+          dailyRate: quote.dailyRate,
+          subtotal: quote.subtotal,
+          discountAmount: roundAmount((data.discountAmount || 0) + (promo?.discountAmount || 0)),
+          promoCodeId: promo?.id,
+          promoDiscountAmount: promo?.discountAmount,
+          notes: data.notes ?? existingRequest.message ?? undefined,
+          pickupLocation: data.pickupLocation,
+          dropoffLocation: data.dropoffLocation,
+        },
+        tx,
+        id
+      );
+
+      // Step 4: Confirm the request and link it to the contract
+      const updatedRequest = await tx.rentRequest.update({
+        where: { id },
+        data: {
+          status: RentRequestStatus.CONFIRMED,
+          contractId: contract.id,
+          reviewedAt: new Date(),
+          ...(adminId && { reviewedBy: adminId }),
+        },
+        include: {
+          vehicle: {
+            select: {
+              id: true,
+              make: true,
+              model: true,
+              year: true,
+              color: true,
+              licensePlate: true
+            }
+          }
+        }
+      });
+
+      await tx.rentRequestStatusHistory.create({
+        data: {
+          requestId: id,
+          oldStatus: existingRequest.status as any,
+          newStatus: RentRequestStatus.CONFIRMED as any,
+          changedBy: adminId || 'SYSTEM',
+          notes: `Convertie en contrat ${contract.contractNumber}`,
+        }
+      });
+
+      logger.info('Rent request converted to contract', {
+        requestId: existingRequest.requestId,
+        contractNumber: contract.contractNumber,
+        clientId: client.id,
+        clientCreated,
+        adminId
+      });
+
+      return {
+        rentRequest: {
+          ...updatedRequest,
+          pricePerDay: Number(updatedRequest.pricePerDay),
+          estimatedTotal: updatedRequest.estimatedTotal !== null ? Number(updatedRequest.estimatedTotal) : null,
+          promoDiscountAmount: updatedRequest.promoDiscountAmount !== null ? Number(updatedRequest.promoDiscountAmount) : null,
+        } as any,
+        contract,
+        clientCreated,
+      };
+    });
+  }
 }
 
 // Singleton instance
@@ -0,0 +1,227 @@
+import { PrismaClient, Prisma, JobTrigger } from '@prisma/client';
+import { JobRunQuery, JobRunListResponse, JobRunResponse, ScheduledJobRecord } from '../types/scheduler';
+
+export class SchedulerRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Create the job row on first start; a changed schedule takes effect from now
+  async syncJob(name: string, schedule: string, nextRunAt: Date): Promise<void> {
+    const existing = await this.prisma.scheduledJob.findUnique({ where: { name } });
+
+    if (!existing) {
+      await this.prisma.scheduledJob.create({
+        data: { name, schedule, nextRunAt }
+      });
+      return;
+    }
+
+    if (existing.schedule !== schedule || !existing.nextRunAt) {
+      await this.prisma.scheduledJob.update({
+        where: { name },
+        data: { schedule, nextRunAt }
+      });
+    }
+  }
+
+  async findAll(): Promise<ScheduledJobRecord[]> {
+    const jobs = await this.prisma.scheduledJob.findMany({
+      include: this.getJobIncludes(),
+      orderBy: { name: 'asc' }
+    });
+
+    return jobs.map(job => this.mapToJobRecord(job));
+  }
+
+  async findByName(name: string): Promise<ScheduledJobRecord | null> {
+    const job = await this.prisma.scheduledJob.findUnique({
+      where: { name },
+      include: this.getJobIncludes()
+    });
+
+    return job ? this.mapToJobRecord(job) : null;
+  }
+
+  // Take the job lock if no live lock exists. A scheduled run also requires the job
+  // to be due and not paused, and moves nextRunAt forward in the same statement so
+  // another instance cannot pick up the same occurrence
+  async acquireLock(
+    name: string,
+    instanceId: string,
+    lockedUntil: Date,
+    scheduled?: { now: Date; nextRunAt: Date }
+  ): Promise<boolean> {
+    const now = scheduled?.now || new Date();
+
+    const result = await this.prisma.scheduledJob.updateMany({
+      where: {
+        name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(scheduled && {
+          isPaused: false,
+          nextRunAt: { lte: now }
+        })
+      },
+      data: {
+        lockedBy: instanceId,
+        lockedUntil,
+        ...(scheduled && { nextRunAt: scheduled.nextRunAt })
+      }
+    });
+
+    return result.count === 1;
+  }
+
+  // Extend a lock still held by the instance; false when another instance took it over
+  async renewLock(name: string, instanceId: string, lockedUntil: Date): Promise<boolean> {
+    const result = await this.prisma.scheduledJob.updateMany({
+      where: { name, lockedBy: instanceId },
+      data: { lockedUntil }
+    });
+
+    return result.count === 1;
+  }
+
+  async releaseLock(name: string, instanceId: string, lastRunAt: Date): Promise<void> {
+    await this.prisma.scheduledJob.updateMany({
+      where: { name, lockedBy: instanceId },
+      data: {
+        lockedBy: null,
+        lockedUntil: null,
+        lastRunAt
+      }
+    });
+  }
+
+  async setPaused(name: string, isPaused: boolean, nextRunAt?: Date): Promise<void> {
+    await this.prisma.scheduledJob.update({
+      where: { name },
+      data: {
+        isPaused,
+        ...(nextRunAt && { nextRunAt })
+      }
+    });
+  }
+
+  async createRun(data: {
+    jobName: string;
+    trigger: JobTrigger;
+    instanceId: string;
+    triggeredBy?: string;
+    startedAt: Date;
+  }): Promise<JobRunResponse> {
+    const run = await this.prisma.jobRun.create({
+      data: {
+        job: { connect: { name: data.jobName } },
+        trigger: data.trigger,
+        instanceId: data.instanceId,
+        triggeredBy: data.triggeredBy,
+        startedAt: data.startedAt
+      },
+      include: { job: { select: { name: true } } }
+    });
+
+    return this.mapToJobRunResponse(run);
+  }
+
+  async finishRun(
+    id: string,
+    data: { finishedAt: Date; durationMs: number; result?: unknown; error?: string }
+  ): Promise<JobRunResponse> {
+    const run = await this.prisma.jobRun.update({
+      where: { id },
+      data: {
+        status: data.error ? 'FAILED' : 'SUCCEEDED',
+        finishedAt: data.finishedAt,
+        durationMs: data.durationMs,
+        error: data.error,
+        ...(data.result !== undefined && { result: data.result as Prisma.InputJsonValue })
+      },
+      include: { job: { select: { name: true } } }
+    });
+
+    return this.mapToJobRunResponse(run);
+  }
+
+  // Run history of a job, most recent first
+  async findRuns(name: string, query: JobRunQuery): Promise<JobRunListResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const where: Prisma.JobRunWhereInput = {
+      job: { name },
+      ...(query.status && { status: query.status })
+    };
+
+    const [runs, total] = await Promise.all([
+      this.prisma.jobRun.findMany({
+        where,
+        include: { job: { select: { name: true } } },
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.jobRun.count({ where })
+    ]);
+
+    return {
+      runs: runs.map(run => this.mapToJobRunResponse(run)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  // Runs still marked RUNNING when the lock is taken were left by an instance that stopped mid-run
+  // Only runs started before the expired lock are failed; a running instance keeps renewing its lock
+  async failInterruptedRuns(name: string, startedBefore: Date): Promise<number> {
+    const result = await this.prisma.jobRun.updateMany({
+      where: { job: { name }, status: 'RUNNING', startedAt: { lt: startedBefore } },
+      data: {
+        status: 'FAILED',
+        finishedAt: new Date(),
+        error: 'Interrupted: the instance stopped before the run finished'
+      }
+    });
+
+    return result.count;
+  }
+
+  private getJobIncludes() {
+    return {
+      runs: {
+        include: { job: { select: { name: true } } },
+        orderBy: { startedAt: 'desc' as const },
+        take: 1
+      }
+    };
+  }
+
+  private mapToJobRecord(job: any): ScheduledJobRecord {
+    return {
+      name: job.name,
+      schedule: job.schedule,
+      isPaused: job.isPaused,
+      nextRunAt: job.nextRunAt,
+      lastRunAt: job.lastRunAt,
+      lockedBy: job.lockedBy,
+      lockedUntil: job.lockedUntil,
+      lastRun: job.runs?.[0] ? this.mapToJobRunResponse(job.runs[0]) : null
+    };
+  }
+
+  private mapToJobRunResponse(run: any): JobRunResponse {
+    return {
+      id: run.id,
+      jobName: run.job?.name,
+      trigger: run.trigger,
+      status: run.status,
+      instanceId: run.instanceId,
+      triggeredBy: run.triggeredBy,
+      startedAt: run.startedAt,
+      finishedAt: run.finishedAt,
+      durationMs: run.durationMs,
+      result: run.result,
+      error: run.error
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { PrismaClient, OdometerSource } from '@prisma/client';
+import { ServiceIntervalQuery, ServiceIntervalResponse } from '../types/serviceInterval';
+import { CreateServiceIntervalInput, UpdateServiceIntervalInput } from '../validators/serviceIntervalValidators';
+
+export type UsageContract = {
+  vehicleId: string;
+  startDate: Date;
+  endDate: Date;
+  odometerReadings: Array<{ source: OdometerSource; mileage: number; readAt: Date }>;
+};
+
+export class ServiceIntervalRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Filtered intervals, grouped by vehicle
+  async findAll(query: ServiceIntervalQuery = {}): Promise<ServiceIntervalResponse[]> {
+    const intervals = await this.prisma.serviceInterval.findMany({
+      where: {
+        ...(query.vehicleId && { vehicleId: query.vehicleId }),
+        ...(query.isActive !== undefined && { isActive: query.isActive })
+      },
+      include: this.getIntervalIncludes(),
+      orderBy: [{ vehicleId: 'asc' }, { createdAt: 'asc' }]
+    });
+
+    return intervals.map(interval => this.mapToIntervalResponse(interval));
+  }
+
+  // Active intervals of the active vehicles
+  async findForForecast(vehicleId?: string): Promise<ServiceIntervalResponse[]> {
+    const intervals = await this.prisma.serviceInterval.findMany({
+      where: {
+        isActive: true,
+        vehicle: { isActive: true },
+        ...(vehicleId && { vehicleId })
+      },
+      include: this.getIntervalIncludes(),
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return intervals.map(interval => this.mapToIntervalResponse(interval));
+  }
+
+  async findById(id: string): Promise<ServiceIntervalResponse | null> {
+    const interval = await this.prisma.serviceInterval.findUnique({
+      where: { id },
+      include: this.getIntervalIncludes()
+    });
+
+    return interval ? this.mapToIntervalResponse(interval) : null;
+  }
+
+  async create(input: CreateServiceIntervalInput): Promise<ServiceIntervalResponse> {
+    const interval = await this.prisma.serviceInterval.create({
+      data: input,
+      include: this.getIntervalIncludes()
+    });
+
+    return this.mapToIntervalResponse(interval);
+  }
+
+  async update(id: string, input: UpdateServiceIntervalInput): Promise<ServiceIntervalResponse> {
+    const interval = await this.prisma.serviceInterval.update({
+      where: { id },
+      data: input,
+      include: this.getIntervalIncludes()
+    });
+
+    return this.mapToIntervalResponse(interval);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.serviceInterval.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async findVehicleMileage(vehicleId: string): Promise<number | null> {
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      select: { mileage: true }
+    });
+
+    return vehicle ? vehicle.mileage : null;
+  }
+
+  async findVehicleCreationDates(vehicleIds: string[]): Promise<Map<string, Date>> {
+    const vehicles = await this.prisma.vehicle.findMany({
+      where: { id: { in: vehicleIds } },
+      select: { id: true, createdAt: true }
+    });
+
+    return new Map(vehicles.map(vehicle => [vehicle.id, vehicle.createdAt]));
+  }
+
+  // Rentals on the road within [since, until], with their handover odometer readings
+  async findUsageContracts(vehicleIds: string[], since: Date, until: Date): Promise<UsageContract[]> {
+    return await this.prisma.contract.findMany({
+      where: {
+        vehicleId: { in: vehicleIds },
+        status: { in: ['ACTIVE', 'COMPLETED'] },
+        startDate: { lte: until },
+        endDate: { gte: since }
+      },
+      select: {
+        vehicleId: true,
+        startDate: true,
+        endDate: true,
+        odometerReadings: {
+          where: { source: { in: ['CHECK_OUT', 'CHECK_IN'] } },
+          select: { source: true, mileage: true, readAt: true }
+        }
+      }
+    });
+  }
+
+  private getIntervalIncludes() {
+    return {
+      vehicle: {
+        select: {
+          id: true,
+          make: true,
+          model: true,
+          licensePlate: true,
+          mileage: true
+        }
+      }
+    };
+  }
+
+  private mapToIntervalResponse(interval: any): ServiceIntervalResponse {
+    return {
+      id: interval.id,
+      vehicleId: interval.vehicleId,
+      name: interval.name,
+      maintenanceType: interval.maintenanceType,
+      intervalKm: interval.intervalKm,
+      intervalMonths: interval.intervalMonths,
+      lastServiceMileage: interval.lastServiceMileage,
+      lastServiceDate: interval.lastServiceDate,
+      isActive: interval.isActive,
+      notes: interval.notes,
+      vehicle: interval.vehicle,
+      createdAt: interval.createdAt,
+      updatedAt: interval.updatedAt
+    };
+  }
+}
@@ -0,0 +1,102 @@
+import { PrismaClient } from '@prisma/client';
+import { VehicleBlackoutResponse } from '../types/vehicle';
+import {
+  CreateVehicleBlackoutInput,
+  UpdateVehicleBlackoutInput,
+  VehicleBlackoutQueryInput
+} from '../validators/vehicleValidators';
+
+export class VehicleBlackoutRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Blackouts of a vehicle overlapping [from, to] when given, earliest first
+  async findByVehicleId(vehicleId: string, query: VehicleBlackoutQueryInput = {}): Promise<VehicleBlackoutResponse[]> {
+    const blackouts = await this.prisma.vehicleBlackout.findMany({
+      where: {
+        vehicleId,
+        ...(query.to && { startDate: { lte: query.to } }),
+        ...(query.from && { endDate: { gte: query.from } })
+      },
+      include: this.getBlackoutIncludes(),
+      orderBy: { startDate: 'asc' }
+    });
+
+    return blackouts.map(blackout => this.mapToBlackoutResponse(blackout));
+  }
+
+  async findById(id: string): Promise<VehicleBlackoutResponse | null> {
+    const blackout = await this.prisma.vehicleBlackout.findUnique({
+      where: { id },
+      include: this.getBlackoutIncludes()
+    });
+
+    return blackout ? this.mapToBlackoutResponse(blackout) : null;
+  }
+
+  async create(
+    vehicleId: string,
+    input: CreateVehicleBlackoutInput,
+    createdById?: string
+  ): Promise<VehicleBlackoutResponse> {
+    const blackout = await this.prisma.vehicleBlackout.create({
+      data: {
+        ...input,
+        vehicleId,
+        createdById
+      },
+      include: this.getBlackoutIncludes()
+    });
+
+    return this.mapToBlackoutResponse(blackout);
+  }
+
+  async update(id: string, input: UpdateVehicleBlackoutInput): Promise<VehicleBlackoutResponse> {
+    const blackout = await this.prisma.vehicleBlackout.update({
+      where: { id },
+      data: input,
+      include: this.getBlackoutIncludes()
+    });
+
+    return this.mapToBlackoutResponse(blackout);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.vehicleBlackout.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async vehicleExists(vehicleId: string): Promise<boolean> {
+    const count = await this.prisma.vehicle.count({ where: { id: vehicleId } });
+    return count > 0;
+  }
+
+  private getBlackoutIncludes() {
+    return {
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToBlackoutResponse(blackout: any): VehicleBlackoutResponse {
+    return {
+      id: blackout.id,
+      vehicleId: blackout.vehicleId,
+      startDate: blackout.startDate,
+      endDate: blackout.endDate,
+      reason: blackout.reason,
+      createdBy: blackout.createdBy,
+      createdAt: blackout.createdAt,
+      updatedAt: blackout.updatedAt
+    };
+  }
+}
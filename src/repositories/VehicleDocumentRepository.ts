@@ -0,0 +1,204 @@
+import { PrismaClient, Prisma, VehicleDocumentType } from '@prisma/client';
+import {
+  VehicleDocumentListResponse,
+  VehicleDocumentQuery,
+  VehicleDocumentResponse
+} from '../types/vehicleDocument';
+import { CreateVehicleDocumentInput, UpdateVehicleDocumentInput } from '../validators/vehicleDocumentValidators';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StoredFile = {
+  filePath: string | null;
+  fileName: string | null;
+  fileMimeType: string | null;
+};
+
+export class VehicleDocumentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  // Filtered documents, latest expiry first
+  async findAll(query: VehicleDocumentQuery = {}): Promise<VehicleDocumentListResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const where: Prisma.VehicleDocumentWhereInput = {
+      ...(query.vehicleId && { vehicleId: query.vehicleId }),
+      ...(query.type && { type: query.type })
+    };
+
+    const [documents, total] = await Promise.all([
+      this.prisma.vehicleDocument.findMany({
+        where,
+        include: this.getDocumentIncludes(),
+        orderBy: { expiryDate: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      this.prisma.vehicleDocument.count({ where })
+    ]);
+
+    return {
+      documents: documents.map(document => this.mapToDocumentResponse(document)),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit)
+    };
+  }
+
+  // Documents of active vehicles expiring by the given date, already expired ones included
+  // A document renewed by a later one of the same type is left out
+  async findExpiring(until: Date, type?: VehicleDocumentType): Promise<VehicleDocumentResponse[]> {
+    const documents = await this.prisma.vehicleDocument.findMany({
+      where: {
+        expiryDate: { lte: until },
+        vehicle: { isActive: true },
+        ...(type && { type })
+      },
+      include: this.getDocumentIncludes(),
+      orderBy: { expiryDate: 'asc' }
+    });
+
+    if (documents.length === 0) {
+      return [];
+    }
+
+    const latest = await this.prisma.vehicleDocument.groupBy({
+      by: ['vehicleId', 'type'],
+      where: { vehicleId: { in: [...new Set(documents.map(document => document.vehicleId))] } },
+      _max: { expiryDate: true }
+    });
+    const latestExpiry = new Map(
+      latest.map(entry => [`${entry.vehicleId}:${entry.type}`, entry._max.expiryDate?.getTime()])
+    );
+
+    return documents
+      .filter(document => latestExpiry.get(`${document.vehicleId}:${document.type}`) === document.expiryDate.getTime())
+      .map(document => this.mapToDocumentResponse(document));
+  }
+
+  async findById(id: string): Promise<VehicleDocumentResponse | null> {
+    const document = await this.prisma.vehicleDocument.findUnique({
+      where: { id },
+      include: this.getDocumentIncludes()
+    });
+
+    return document ? this.mapToDocumentResponse(document) : null;
+  }
+
+  // Object key of the stored scan, kept out of the responses
+  async findFile(id: string): Promise<StoredFile | null> {
+    return await this.prisma.vehicleDocument.findUnique({
+      where: { id },
+      select: { filePath: true, fileName: true, fileMimeType: true }
+    });
+  }
+
+  // Latest expiry of a document type for a vehicle, null when none is on record
+  async findLatestExpiry(
+    vehicleId: string,
+    type: VehicleDocumentType,
+    tx?: Prisma.TransactionClient
+  ): Promise<Date | null> {
+    const client = tx || this.prisma;
+    const result = await client.vehicleDocument.aggregate({
+      where: { vehicleId, type },
+      _max: { expiryDate: true }
+    });
+
+    return result._max.expiryDate;
+  }
+
+  async create(
+    input: CreateVehicleDocumentInput,
+    file?: Partial<StoredFile>,
+    createdById?: string
+  ): Promise<VehicleDocumentResponse> {
+    const document = await this.prisma.vehicleDocument.create({
+      data: {
+        ...input,
+        ...file,
+        createdById
+      },
+      include: this.getDocumentIncludes()
+    });
+
+    return this.mapToDocumentResponse(document);
+  }
+
+  async update(
+    id: string,
+    input: UpdateVehicleDocumentInput,
+    file?: Partial<StoredFile>
+  ): Promise<VehicleDocumentResponse> {
+    const document = await this.prisma.vehicleDocument.update({
+      where: { id },
+      data: {
+        ...input,
+        ...file
+      },
+      include: this.getDocumentIncludes()
+    });
+
+    return this.mapToDocumentResponse(document);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await this.prisma.vehicleDocument.delete({ where: { id } });
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  async vehicleExists(vehicleId: string): Promise<boolean> {
+    const count = await this.prisma.vehicle.count({ where: { id: vehicleId } });
+    return count > 0;
+  }
+
+  private getDocumentIncludes() {
+    return {
+      vehicle: {
+        select: {
+          id: true,
+          make: true,
+          model: true,
+          licensePlate: true
+        }
+      },
+      createdBy: {
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true
+        }
+      }
+    };
+  }
+
+  private mapToDocumentResponse(document: any): VehicleDocumentResponse {
+    const daysUntilExpiry = Math.ceil((document.expiryDate.getTime() - Date.now()) / DAY_MS);
+
+    return {
+      id: document.id,
+      vehicleId: document.vehicleId,
+      type: document.type,
+      number: document.number,
+      issuer: document.issuer,
+      issueDate: document.issueDate,
+      expiryDate: document.expiryDate,
+      isExpired: document.expiryDate.getTime() < Date.now(),
+      daysUntilExpiry,
+      hasFile: Boolean(document.filePath),
+      fileName: document.fileName,
+      fileMimeType: document.fileMimeType,
+      notes: document.notes,
+      vehicle: document.vehicle,
+      createdBy: document.createdBy,
+      createdAt: document.createdAt,
+      updatedAt: document.updatedAt
+    };
+  }
+}
@@ -2,9 +2,16 @@ import { PrismaClient, Vehicle, VehicleCategory, FuelType, Transmission, RentalS
 import { VehicleQuery, CreateVehicleRequest, UpdateVehicleRequest, VehicleWithImages, VehicleStats, VehicleAccessoryRequest } from '../types/vehicle';
 import { PaginatedResponse } from '../types';
 import { imageService } from '@/services/ImageService';
+import { bookingConflictService } from '@/services/BookingConflictService';
+import { BRANCH_SUMMARY_SELECT } from '../types/branch';
+import { OdometerRepository } from './OdometerRepository';
 
 export class VehicleRepository {
-  constructor(private prisma: PrismaClient) {}
+  private odometerRepository: OdometerRepository;
+
+  constructor(private prisma: PrismaClient) {
+    this.odometerRepository = new OdometerRepository(prisma);
+  }
 
   // Standard vehicle include for consistent data fetching
   private readonly vehicleInclude = {
@@ -24,6 +31,9 @@ export class VehicleRepository {
     accessories: {
       where: { isActive: true },
       orderBy: { name: 'asc' as const }
+    },
+    currentBranch: {
+      select: BRANCH_SUMMARY_SELECT
     }
   };
 
@@ -58,6 +68,7 @@ export class VehicleRepository {
         minPrice,
         maxPrice,
         location,
+        branchId,
         seats,
         available,
         featured,
@@ -78,6 +89,7 @@ export class VehicleRepository {
         ...(minPrice && { pricePerDay: { gte: minPrice } }),
         ...(maxPrice && { pricePerDay: { lte: maxPrice } }),
         ...(location && { location: { contains: location, mode: 'insensitive' } }),
+        ...(branchId && { currentBranchId: branchId }),
         ...(seats && { seats: { gte: seats } }),
         ...(available !== undefined && { availability: available }),
         ...(featured !== undefined && { featured }),
@@ -103,23 +115,9 @@ export class VehicleRepository {
         ];
       }
 
-      // Add date range availability check
+      // Add date range availability check, part of the query so totals and pages stay accurate
       if (startDate && endDate) {
-        where.NOT = {
-          bookings: {
-            some: {
-              OR: [
-                {
-                  startDate: { lte: endDate },
-                  endDate: { gte: startDate },
-                },
-              ],
-              status: {
-                in: ['CONFIRMED', 'ACTIVE'],
-              },
-            },
-          },
-        };
+        Object.assign(where, bookingConflictService.buildAvailableVehicleFilter(startDate, endDate));
       }
 
       const [vehicles, total] = await Promise.all([
@@ -212,6 +210,10 @@ export class VehicleRepository {
             isActive: accessory.isActive ?? true,
           })),
         } : undefined,
+        // Starting point of the odometer log
+        odometerReadings: vehicleData.mileage ? {
+          create: { mileage: vehicleData.mileage, source: 'MANUAL' },
+        } : undefined,
       },
       include: this.vehicleInclude,
     });
@@ -232,10 +234,30 @@ export class VehicleRepository {
       await this.updateAccessories(id, accessories);
     }
 
-    const vehicle = await this.prisma.vehicle.update({
-      where: { id },
-      data: vehicleData,
-      include: this.vehicleInclude,
+    // A mileage edited by hand is logged as a manual odometer reading, checked
+    // against the readings already logged like any other reading
+    const vehicle = await this.prisma.$transaction(async (tx) => {
+      if (vehicleData.mileage !== undefined) {
+        const current = await tx.vehicle.findUnique({
+          where: { id },
+          select: { mileage: true },
+        });
+
+        if (current && current.mileage !== vehicleData.mileage) {
+          await this.odometerRepository.record(tx, {
+            vehicleId: id,
+            mileage: vehicleData.mileage,
+            readAt: new Date(),
+            source: 'MANUAL',
+          });
+        }
+      }
+
+      return await tx.vehicle.update({
+        where: { id },
+        data: vehicleData,
+        include: this.vehicleInclude,
+      });
     });
 
     return this.transformVehicleData(vehicle);
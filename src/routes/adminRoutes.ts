@@ -0,0 +1,132 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/AdminController';
+import { adminService } from '../services/AdminService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const adminController = new AdminController(adminService);
+
+/**
+ * @route   GET /api/v1/admins
+ * @desc    List admins (?search=&role=&isActive=&page=&limit=)
+ * @access  Admin (admin:manage)
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.getAdmins
+);
+
+/**
+ * @route   GET /api/v1/admins/roles
+ * @desc    Roles and the permissions they grant
+ * @access  Admin (admin:manage)
+ */
+router.get(
+  '/roles',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.getRoles
+);
+
+/**
+ * @route   POST /api/v1/admins
+ * @desc    Invite an admin; a temporary password is returned when none is given
+ * @access  Admin (admin:manage)
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.inviteAdmin
+);
+
+/**
+ * @route   GET /api/v1/admins/:id
+ * @desc    Get admin by ID
+ * @access  Admin (admin:manage)
+ */
+router.get(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.getAdminById
+);
+
+/**
+ * @route   PUT /api/v1/admins/:id
+ * @desc    Update admin details or role
+ * @access  Admin (admin:manage)
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.updateAdmin
+);
+
+/**
+ * @route   PUT /api/v1/admins/:id/deactivate
+ * @desc    Deactivate admin and revoke their refresh tokens
+ * @access  Admin (admin:manage)
+ */
+router.put(
+  '/:id/deactivate',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.deactivateAdmin
+);
+
+/**
+ * @route   PUT /api/v1/admins/:id/reactivate
+ * @desc    Reactivate admin
+ * @access  Admin (admin:manage)
+ */
+router.put(
+  '/:id/reactivate',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.reactivateAdmin
+);
+
+/**
+ * @route   PUT /api/v1/admins/:id/unlock
+ * @desc    Unlock an account locked after failed sign-ins
+ * @access  Admin (admin:manage)
+ */
+router.put(
+  '/:id/unlock',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.unlockAdmin
+);
+
+/**
+ * @route   GET /api/v1/admins/:id/login-history
+ * @desc    Sign-in attempts of an admin (?success=&page=&limit=)
+ * @access  Admin (admin:manage)
+ */
+router.get(
+  '/:id/login-history',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.getLoginHistory
+);
+
+/**
+ * @route   PUT /api/v1/admins/:id/password
+ * @desc    Reset admin password and revoke their refresh tokens
+ * @access  Admin (admin:manage)
+ */
+router.put(
+  '/:id/password',
+  authenticateAdmin,
+  requirePermission('admin:manage'),
+  adminController.resetPassword
+);
+
+export default router;
@@ -0,0 +1,84 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers/ApiKeyController';
+import { apiKeyService } from '../services/ApiKeyService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const apiKeyController = new ApiKeyController(apiKeyService);
+
+/**
+ * @route   GET /api/v1/api-keys
+ * @desc    List partner API keys (?search=&isActive=)
+ * @access  Admin (apiKey:manage)
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('apiKey:manage'),
+  apiKeyController.getApiKeys
+);
+
+/**
+ * @route   GET /api/v1/api-keys/scopes
+ * @desc    Scopes a key can be granted
+ * @access  Admin (apiKey:manage)
+ */
+router.get(
+  '/scopes',
+  authenticateAdmin,
+  requirePermission('apiKey:manage'),
+  apiKeyController.getScopes
+);
+
+/**
+ * @route   POST /api/v1/api-keys
+ * @desc    Create an API key; the key is returned once and only its hash is stored
+ * @access  Admin (apiKey:manage)
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('apiKey:manage'),
+  apiKeyController.createApiKey
+);
+
+/**
+ * @route   GET /api/v1/api-keys/:id
+ * @desc    Get API key by ID, with its last use
+ * @access  Admin (apiKey:manage)
+ */
+router.get(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('apiKey:manage'),
+  apiKeyController.getApiKeyById
+);
+
+/**
+ * @route   PUT /api/v1/api-keys/:id
+ * @desc    Update name, scopes, rate limit or expiry
+ * @access  Admin (apiKey:manage)
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('apiKey:manage'),
+  apiKeyController.updateApiKey
+);
+
+/**
+ * @route   PUT /api/v1/api-keys/:id/revoke
+ * @desc    Revoke an API key for good
+ * @access  Admin (apiKey:manage)
+ */
+router.put(
+  '/:id/revoke',
+  authenticateAdmin,
+  requirePermission('apiKey:manage'),
+  apiKeyController.revokeApiKey
+);
+
+export default router;
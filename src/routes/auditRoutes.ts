@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/AuditController';
+import { auditService } from '../services/AuditService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const auditController = new AuditController(auditService);
+
+/**
+ * @route   GET /api/v1/audit
+ * @desc    Search the audit log (?adminId=&entityType=&entityId=&action=&from=&to=&page=&limit=)
+ * @access  Admin
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('audit:read'),
+  auditController.getLogs
+);
+
+/**
+ * @route   GET /api/v1/audit/:entityType/:entityId
+ * @desc    History of one vehicle, client, contract, rent request or review
+ * @access  Admin
+ */
+router.get(
+  '/:entityType/:entityId',
+  authenticateAdmin,
+  requirePermission('audit:read'),
+  auditController.getEntityHistory
+);
+
+export default router;
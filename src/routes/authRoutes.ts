@@ -4,11 +4,18 @@ import { Logger } from 'winston';
 import { AuthController } from '@/controllers/AuthController';
 import { validateRequest } from '@/middleware/validation';
 import { authenticateAdmin } from '@/middleware/auth';
+import { requirePermission } from '@/middleware/permissions';
 import { authLimiter, strictLimiter } from '@/middleware/rateLimiter';
 import { 
   loginSchema, 
   refreshTokenSchema, 
-  createAdminSchema 
+  createAdminSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  twoFactorVerifySchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  loginHistoryQuerySchema
 } from '@/validators/authValidators';
 
 /**
@@ -32,9 +39,22 @@ export function createAuthRoutes(prisma: PrismaClient, logger: Logger): Router {
     authController.login
   );
 
+  /**
+   * @route   POST /api/v1/auth/2fa/verify
+   * @desc    Second login step: challenge token plus TOTP or recovery code
+   * @access  Public
+   * @rateLimit 5 requests per 15 minutes
+   */
+  router.post(
+    '/2fa/verify',
+    authLimiter, // Rate limiting for auth attempts
+    validateRequest(twoFactorVerifySchema), // Validate request body
+    authController.verifyTwoFactor
+  );
+
   /**
    * @route   POST /api/v1/auth/refresh
-   * @desc    Refresh access token
+   * @desc    Refresh access token (the refresh token is rotated; reusing an old one revokes the session)
    * @access  Public
    * @rateLimit 5 requests per 15 minutes
    */
@@ -45,6 +65,32 @@ export function createAuthRoutes(prisma: PrismaClient, logger: Logger): Router {
     authController.refreshToken
   );
 
+  /**
+   * @route   POST /api/v1/auth/forgot-password
+   * @desc    Email a single-use password reset link
+   * @access  Public
+   * @rateLimit 5 requests per 15 minutes
+   */
+  router.post(
+    '/forgot-password',
+    authLimiter, // Rate limiting for auth attempts
+    validateRequest(forgotPasswordSchema), // Validate request body
+    authController.forgotPassword
+  );
+
+  /**
+   * @route   POST /api/v1/auth/reset-password
+   * @desc    Set a new password and revoke all refresh tokens
+   * @access  Public
+   * @rateLimit 5 requests per 15 minutes
+   */
+  router.post(
+    '/reset-password',
+    authLimiter, // Rate limiting for auth attempts
+    validateRequest(resetPasswordSchema), // Validate request body
+    authController.resetPassword
+  );
+
   /**
    * @route   POST /api/v1/auth/logout
    * @desc    Admin logout
@@ -56,6 +102,40 @@ export function createAuthRoutes(prisma: PrismaClient, logger: Logger): Router {
     authController.logout
   );
 
+  /**
+   * @route   GET /api/v1/auth/sessions
+   * @desc    List active sessions (device, IP, last use)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/sessions',
+    authenticateAdmin, // Verify admin token
+    authController.getSessions
+  );
+
+  /**
+   * @route   DELETE /api/v1/auth/sessions/:id
+   * @desc    Revoke a session and its refresh tokens
+   * @access  Private (Admin)
+   */
+  router.delete(
+    '/sessions/:id',
+    authenticateAdmin, // Verify admin token
+    authController.revokeSession
+  );
+
+  /**
+   * @route   GET /api/v1/auth/login-history
+   * @desc    List own sign-in attempts (?success=&page=&limit=)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/login-history',
+    authenticateAdmin, // Verify admin token
+    validateRequest(loginHistoryQuerySchema, 'query'), // Validate query parameters
+    authController.getLoginHistory
+  );
+
   /**
    * @route   GET /api/v1/auth/profile
    * @desc    Get admin profile
@@ -67,6 +147,59 @@ export function createAuthRoutes(prisma: PrismaClient, logger: Logger): Router {
     authController.getProfile
   );
 
+  /**
+   * @route   POST /api/v1/auth/2fa/setup
+   * @desc    Start TOTP enrollment (secret and otpauth:// URI for the QR code)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/2fa/setup',
+    authenticateAdmin, // Verify admin token
+    authController.setupTwoFactor
+  );
+
+  /**
+   * @route   POST /api/v1/auth/2fa/enable
+   * @desc    Confirm enrollment with a code and get recovery codes
+   * @access  Private (Admin)
+   * @rateLimit 5 requests per 15 minutes
+   */
+  router.post(
+    '/2fa/enable',
+    authLimiter, // Rate limiting for code attempts
+    authenticateAdmin, // Verify admin token
+    validateRequest(twoFactorCodeSchema), // Validate request body
+    authController.enableTwoFactor
+  );
+
+  /**
+   * @route   POST /api/v1/auth/2fa/disable
+   * @desc    Disable two-factor authentication (password and code required)
+   * @access  Private (Admin)
+   * @rateLimit 5 requests per 15 minutes
+   */
+  router.post(
+    '/2fa/disable',
+    authLimiter, // Rate limiting for code attempts
+    authenticateAdmin, // Verify admin token
+    validateRequest(twoFactorDisableSchema), // Validate request body
+    authController.disableTwoFactor
+  );
+
+  /**
+   * @route   POST /api/v1/auth/2fa/recovery-codes
+   * @desc    Regenerate recovery codes (code required)
+   * @access  Private (Admin)
+   * @rateLimit 5 requests per 15 minutes
+   */
+  router.post(
+    '/2fa/recovery-codes',
+    authLimiter, // Rate limiting for code attempts
+    authenticateAdmin, // Verify admin token
+    validateRequest(twoFactorCodeSchema), // Validate request body
+    authController.regenerateRecoveryCodes
+  );
+
   /**
    * @route   POST /api/v1/auth/setup
    * @desc    Create first admin account (setup only)
@@ -90,6 +223,7 @@ export function createAuthRoutes(prisma: PrismaClient, logger: Logger): Router {
     '/cleanup',
     strictLimiter, // Strict rate limiting
     authenticateAdmin, // Verify admin token
+    requirePermission('scheduler:manage'), // Maintenance task
     authController.cleanupTokens
   );
 
@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { BranchController } from '../controllers/BranchController';
+import { branchService } from '../services/BranchService';
+import { authenticateAdmin, optionalAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const branchController = new BranchController(branchService);
+
+/**
+ * @route   GET /api/v1/branches
+ * @desc    List branches with address, coordinates and opening hours (?city=&search=&isActive=)
+ * @access  Public (active branches only) / Admin
+ */
+router.get(
+  '/',
+  optionalAuth,
+  branchController.getBranches
+);
+
+/**
+ * @route   POST /api/v1/branches
+ * @desc    Create a branch
+ * @access  Admin (branch:manage)
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('branch:manage'),
+  branchController.createBranch
+);
+
+/**
+ * @route   GET /api/v1/branches/one-way-fee
+ * @desc    Fee for picking up at one branch and dropping off at another (?pickupBranchId=&dropoffBranchId=)
+ * @access  Public
+ */
+router.get(
+  '/one-way-fee',
+  branchController.getOneWayFee
+);
+
+/**
+ * @route   GET /api/v1/branches/one-way-fees
+ * @desc    List configured one-way fees (?branchId=)
+ * @access  Admin (branch:manage)
+ */
+router.get(
+  '/one-way-fees',
+  authenticateAdmin,
+  requirePermission('branch:manage'),
+  branchController.getOneWayFees
+);
+
+/**
+ * @route   PUT /api/v1/branches/one-way-fees
+ * @desc    Set the one-way fee from one branch to another
+ * @access  Admin (branch:manage)
+ */
+router.put(
+  '/one-way-fees',
+  authenticateAdmin,
+  requirePermission('branch:manage'),
+  branchController.setOneWayFee
+);
+
+/**
+ * @route   DELETE /api/v1/branches/one-way-fees/:feeId
+ * @desc    Remove a one-way fee; the pair then uses the default fee
+ * @access  Admin (branch:manage)
+ */
+router.delete(
+  '/one-way-fees/:feeId',
+  authenticateAdmin,
+  requirePermission('branch:manage'),
+  branchController.deleteOneWayFee
+);
+
+/**
+ * @route   GET /api/v1/branches/:id
+ * @desc    Get branch by ID
+ * @access  Public (active branches only) / Admin
+ */
+router.get(
+  '/:id',
+  optionalAuth,
+  branchController.getBranchById
+);
+
+/**
+ * @route   PUT /api/v1/branches/:id
+ * @desc    Update a branch (details, opening hours, active state)
+ * @access  Admin (branch:manage)
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('branch:manage'),
+  branchController.updateBranch
+);
+
+/**
+ * @route   DELETE /api/v1/branches/:id
+ * @desc    Delete a branch that no contract uses
+ * @access  Admin (branch:manage)
+ */
+router.delete(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('branch:manage'),
+  branchController.deleteBranch
+);
+
+export default router;
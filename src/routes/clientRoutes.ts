@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { ClientController } from '../controllers/ClientController';
 import { validateRequest } from '../middleware/validation';
 import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { auditTrail } from '../middleware/audit';
 import { 
   createClientSchema, 
   updateClientSchema, 
@@ -14,6 +16,9 @@ import {
 const router = Router();
 const clientController = new ClientController();
 
+// Record admin changes to clients; added after authentication on each admin route
+const audit = auditTrail('CLIENT');
+
 // Admin-only routes - All client operations require admin authentication
 
 /**
@@ -24,6 +29,7 @@ const clientController = new ClientController();
 router.get(
   '/export',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.exportClients
 );
 
@@ -35,6 +41,7 @@ router.get(
 router.get(
   '/',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.getAllClients
 );
 
@@ -46,6 +53,7 @@ router.get(
 router.get(
   '/search',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.searchClients
 );
 
@@ -57,6 +65,7 @@ router.get(
 router.get(
   '/stats',
   authenticateAdmin,
+  requirePermission('report:read'),
   clientController.getClientStats
 );
 
@@ -68,6 +77,7 @@ router.get(
 router.get(
   '/stats/comparison',
   authenticateAdmin,
+  requirePermission('report:read'),
   clientController.getClientStatsComparison
 );
 
@@ -79,6 +89,7 @@ router.get(
 router.get(
   '/recent',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.getRecentClients
 );
 
@@ -90,6 +101,7 @@ router.get(
 router.get(
   '/count-by-status',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.getClientCountByStatus
 );
 
@@ -101,6 +113,7 @@ router.get(
 router.get(
   '/status/:status',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.getClientsByStatus
 );
 
@@ -112,6 +125,7 @@ router.get(
 router.get(
   '/:id',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.getClientById
 );
 
@@ -123,6 +137,7 @@ router.get(
 router.get(
   '/:id/availability',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.checkClientAvailability
 );
 
@@ -134,7 +149,9 @@ router.get(
 router.post(
   '/',
   authenticateAdmin,
+  requirePermission('client:create'),
   validateRequest(createClientSchema),
+  audit,
   clientController.createClient
 );
 
@@ -146,6 +163,7 @@ router.post(
 router.post(
   '/validate-email',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.validateUniqueEmail
 );
 
@@ -157,6 +175,7 @@ router.post(
 router.post(
   '/validate-phone',
   authenticateAdmin,
+  requirePermission('client:read'),
   clientController.validateUniquePhone
 );
 
@@ -168,7 +187,9 @@ router.post(
 router.put(
   '/:id',
   authenticateAdmin,
+  requirePermission('client:update'),
   validateRequest(updateClientSchema),
+  audit,
   clientController.updateClient
 );
 
@@ -180,7 +201,9 @@ router.put(
 router.patch(
   '/bulk/status',
   authenticateAdmin,
+  requirePermission('client:update'),
   validateRequest(bulkClientStatusSchema),
+  audit,
   clientController.bulkUpdateClientStatus
 );
 
@@ -192,7 +215,9 @@ router.patch(
 router.patch(
   '/:id/status',
   authenticateAdmin,
+  requirePermission('client:update'),
   validateRequest(clientStatusSchema),
+  audit,
   clientController.updateClientStatus
 );
 
@@ -204,6 +229,8 @@ router.patch(
 router.delete(
   '/:id',
   authenticateAdmin,
+  requirePermission('client:delete'),
+  audit,
   clientController.deleteClient
 );
 
@@ -215,6 +242,8 @@ router.delete(
 router.delete(
   '/:id/hard',
   authenticateAdmin,
+  requirePermission('client:hardDelete'),
+  audit,
   clientController.hardDeleteClient
 );
 
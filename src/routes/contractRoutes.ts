@@ -4,7 +4,14 @@ import { ContractService } from '../services/ContractService';
 import { ContractRepository } from '../repositories/ContractRepository';
 import { VehicleRepository } from '../repositories/VehicleRepository';
 import { ClientRepository } from '../repositories/ClientRepository';
+import { PaymentRepository } from '../repositories/PaymentRepository';
+import { DepositRepository } from '../repositories/DepositRepository';
+import { InspectionRepository } from '../repositories/InspectionRepository';
 import { authenticateAdmin } from '../middleware/auth';
+import { authenticateApiKey } from '../middleware/apiKey';
+import { requirePermission } from '../middleware/permissions';
+import { auditTrail } from '../middleware/audit';
+import { uploadInspectionPhotos, handleMulterError } from '../middleware/upload';
 import { prisma } from '../config/database';
 
 const router = Router();
@@ -13,9 +20,22 @@ const router = Router();
 const contractRepository = new ContractRepository(prisma);
 const vehicleRepository = new VehicleRepository(prisma);
 const clientRepository = new ClientRepository(prisma);
-const contractService = new ContractService(contractRepository, vehicleRepository, clientRepository);
+const paymentRepository = new PaymentRepository(prisma);
+const depositRepository = new DepositRepository(prisma);
+const inspectionRepository = new InspectionRepository(prisma);
+const contractService = new ContractService(
+  contractRepository,
+  vehicleRepository,
+  clientRepository,
+  paymentRepository,
+  depositRepository,
+  inspectionRepository
+);
 const contractController = new ContractController(contractService);
 
+// Record admin changes to contracts; added after authentication on each admin route
+const audit = auditTrail('CONTRACT');
+
 /**
  * @route   POST /api/v1/contracts
  * @desc    Create a new contract
@@ -24,6 +44,8 @@ const contractController = new ContractController(contractService);
 router.post(
   '/',
   authenticateAdmin,
+  requirePermission('contract:create'),
+  audit,
   contractController.createContract
 );
 
@@ -35,6 +57,7 @@ router.post(
 router.get(
   '/export',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.exportContracts
 );
 
@@ -46,6 +69,7 @@ router.get(
 router.get(
   '/',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getContracts
 );
 
@@ -57,6 +81,7 @@ router.get(
 router.get(
   '/stats',
   authenticateAdmin,
+  requirePermission('report:read'),
   contractController.getContractStats
 );
 
@@ -68,6 +93,7 @@ router.get(
 router.get(
   '/stats/comparison',
   authenticateAdmin,
+  requirePermission('report:read'),
   contractController.getContractStatsComparison
 );
 
@@ -79,6 +105,7 @@ router.get(
 router.get(
   '/dashboard',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getDashboardData
 );
 
@@ -90,6 +117,7 @@ router.get(
 router.get(
   '/today-active',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getTodayActiveContracts
 );
 
@@ -101,6 +129,7 @@ router.get(
 router.get(
   '/ending-soon',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getContractsEndingSoon
 );
 
@@ -112,6 +141,8 @@ router.get(
 router.put(
   '/bulk-status',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.bulkUpdateStatus
 );
 
@@ -123,6 +154,8 @@ router.put(
 router.post(
   '/auto-update-statuses',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.autoUpdateStatuses
 );
 
@@ -134,6 +167,7 @@ router.post(
 router.get(
   '/client/:clientId',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getContractsByClient
 );
 
@@ -145,16 +179,18 @@ router.get(
 router.get(
   '/vehicle/:vehicleId',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getContractsByVehicle
 );
 
 /**
  * @route   GET /api/v1/contracts/vehicle/:vehicleId/availability
  * @desc    Check vehicle availability for date range
- * @access  Public (for booking form)
+ * @access  Public (for booking form), or API key (availability:read)
  */
 router.get(
   '/vehicle/:vehicleId/availability',
+  authenticateApiKey('availability:read'),
   contractController.checkVehicleAvailability
 );
 
@@ -176,9 +212,22 @@ router.get(
 router.get(
   '/:id',
   authenticateAdmin,
+  requirePermission('contract:read'),
   contractController.getContractById
 );
 
+/**
+ * @route   GET /api/v1/contracts/:id/document
+ * @desc    Render the printable rental agreement PDF (?lang=fr|ar, ?download=true)
+ * @access  Admin
+ */
+router.get(
+  '/:id/document',
+  authenticateAdmin,
+  requirePermission('contract:read'),
+  contractController.getContractDocument
+);
+
 /**
  * @route   PUT /api/v1/contracts/:id
  * @desc    Update contract
@@ -187,6 +236,8 @@ router.get(
 router.put(
   '/:id',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.updateContract
 );
 
@@ -198,6 +249,8 @@ router.put(
 router.put(
   '/:id/cancel',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.cancelContract
 );
 
@@ -209,6 +262,8 @@ router.put(
 router.put(
   '/:id/confirm',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.confirmContract
 );
 
@@ -220,31 +275,207 @@ router.put(
 router.put(
   '/:id/start',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.startContract
 );
 
 /**
  * @route   PUT /api/v1/contracts/:id/complete
- * @desc    Complete contract
+ * @desc    Complete contract (body { overrideDeposit: true } to complete with the deposit still held,
+ *          { returnedAt } for the actual return time, { waiveLateFee: true } to skip the late return fee)
  * @access  Admin
  */
 router.put(
   '/:id/complete',
   authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
   contractController.completeContract
 );
 
+/**
+ * @route   GET /api/v1/contracts/:id/extensions
+ * @desc    Get the extension history of a contract
+ * @access  Admin
+ */
+router.get(
+  '/:id/extensions',
+  authenticateAdmin,
+  requirePermission('contract:read'),
+  contractController.getExtensions
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/extend
+ * @desc    Extend the rental period, pricing the additional days
+ * @access  Admin
+ */
+router.post(
+  '/:id/extend',
+  authenticateAdmin,
+  requirePermission('contract:update'),
+  audit,
+  contractController.extendContract
+);
+
 /**
  * @route   PUT /api/v1/contracts/:id/payment
- * @desc    Update payment status
+ * @desc    Set paid amount (records the difference in the payment ledger)
  * @access  Admin
  */
 router.put(
   '/:id/payment',
   authenticateAdmin,
+  requirePermission('payment:create'),
+  audit,
   contractController.updatePayment
 );
 
+/**
+ * @route   GET /api/v1/contracts/:id/payments
+ * @desc    Get contract payment ledger
+ * @access  Admin
+ */
+router.get(
+  '/:id/payments',
+  authenticateAdmin,
+  requirePermission('contract:read'),
+  contractController.getPayments
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/payments
+ * @desc    Record a payment
+ * @access  Admin
+ */
+router.post(
+  '/:id/payments',
+  authenticateAdmin,
+  requirePermission('payment:create'),
+  audit,
+  contractController.addPayment
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/payments/:paymentId/refund
+ * @desc    Refund all or part of a payment
+ * @access  Admin
+ */
+router.post(
+  '/:id/payments/:paymentId/refund',
+  authenticateAdmin,
+  requirePermission('payment:refund'),
+  audit,
+  contractController.refundPayment
+);
+
+/**
+ * @route   PUT /api/v1/contracts/:id/payments/:paymentId/void
+ * @desc    Void a payment entry recorded by mistake
+ * @access  Admin
+ */
+router.put(
+  '/:id/payments/:paymentId/void',
+  authenticateAdmin,
+  requirePermission('payment:refund'),
+  audit,
+  contractController.voidPayment
+);
+
+/**
+ * @route   GET /api/v1/contracts/:id/deposit
+ * @desc    Get contract security deposit
+ * @access  Admin
+ */
+router.get(
+  '/:id/deposit',
+  authenticateAdmin,
+  requirePermission('contract:read'),
+  contractController.getDeposit
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/deposit
+ * @desc    Record the security deposit collected
+ * @access  Admin
+ */
+router.post(
+  '/:id/deposit',
+  authenticateAdmin,
+  requirePermission('deposit:manage'),
+  audit,
+  contractController.collectDeposit
+);
+
+/**
+ * @route   PUT /api/v1/contracts/:id/deposit
+ * @desc    Correct a deposit that is still held
+ * @access  Admin
+ */
+router.put(
+  '/:id/deposit',
+  authenticateAdmin,
+  requirePermission('deposit:manage'),
+  audit,
+  contractController.updateDeposit
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/deposit/release
+ * @desc    Release the deposit, with optional deductions (damage, fuel, late return)
+ * @access  Admin
+ */
+router.post(
+  '/:id/deposit/release',
+  authenticateAdmin,
+  requirePermission('deposit:manage'),
+  audit,
+  contractController.releaseDeposit
+);
+
+/**
+ * @route   GET /api/v1/contracts/:id/inspections
+ * @desc    Get check-out and check-in inspections with their difference
+ * @access  Admin
+ */
+router.get(
+  '/:id/inspections',
+  authenticateAdmin,
+  requirePermission('contract:read'),
+  contractController.getInspections
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/inspections/check-out
+ * @desc    Record vehicle condition at pickup (multipart, photos field)
+ * @access  Admin
+ */
+router.post(
+  '/:id/inspections/check-out',
+  authenticateAdmin,
+  requirePermission('contract:update'),
+  uploadInspectionPhotos,
+  handleMulterError,
+  audit,
+  contractController.recordCheckOut
+);
+
+/**
+ * @route   POST /api/v1/contracts/:id/inspections/check-in
+ * @desc    Record vehicle condition at return and update the vehicle mileage (multipart, photos field)
+ * @access  Admin
+ */
+router.post(
+  '/:id/inspections/check-in',
+  authenticateAdmin,
+  requirePermission('contract:update'),
+  uploadInspectionPhotos,
+  handleMulterError,
+  audit,
+  contractController.recordCheckIn
+);
+
 /**
  * @route   DELETE /api/v1/contracts/:id
  * @desc    Delete contract (only pending contracts)
@@ -253,6 +484,8 @@ router.put(
 router.delete(
   '/:id',
   authenticateAdmin,
+  requirePermission('contract:delete'),
+  audit,
   contractController.deleteContract
 );
 
@@ -8,6 +8,17 @@ import clientRoutes from './clientRoutes';
 import contractRoutes from './contractRoutes';
 import reviewRoutes from './reviewRoutes';
 import rentRequestRoutes from './rentRequestRoutes';
+import pricingRoutes from './pricingRoutes';
+import promoCodeRoutes from './promoCodeRoutes';
+import schedulerRoutes from './schedulerRoutes';
+import auditRoutes from './auditRoutes';
+import adminRoutes from './adminRoutes';
+import apiKeyRoutes from './apiKeyRoutes';
+import portalRoutes from './portalRoutes';
+import maintenanceRoutes from './maintenanceRoutes';
+import branchRoutes from './branchRoutes';
+import vehicleDocumentRoutes from './vehicleDocumentRoutes';
+import serviceIntervalRoutes from './serviceIntervalRoutes';
 
 /**
  * Main Routes Configuration
@@ -58,6 +69,17 @@ export function createRoutes(prisma: PrismaClient, logger: Logger): Router {
   router.use('/contracts', contractRoutes);
   router.use('/reviews', reviewRoutes);
   router.use('/rent-requests', rentRequestRoutes);
+  router.use('/pricing', pricingRoutes);
+  router.use('/promo-codes', promoCodeRoutes);
+  router.use('/scheduler', schedulerRoutes);
+  router.use('/audit', auditRoutes);
+  router.use('/admins', adminRoutes);
+  router.use('/api-keys', apiKeyRoutes);
+  router.use('/portal', portalRoutes);
+  router.use('/maintenance', maintenanceRoutes);
+  router.use('/branches', branchRoutes);
+  router.use('/vehicle-documents', vehicleDocumentRoutes);
+  router.use('/service-intervals', serviceIntervalRoutes);
 
   return router;
 }
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { MaintenanceController } from '../controllers/MaintenanceController';
+import { maintenanceService } from '../services/MaintenanceService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const maintenanceController = new MaintenanceController(maintenanceService);
+
+/**
+ * @route   GET /api/v1/maintenance
+ * @desc    List maintenance records (?vehicleId=&type=&status=&from=&to=&page=&limit=)
+ * @access  Admin (maintenance:read)
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('maintenance:read'),
+  maintenanceController.getRecords
+);
+
+/**
+ * @route   POST /api/v1/maintenance
+ * @desc    Plan a maintenance; planned and in-progress records block bookings over their dates
+ * @access  Admin (maintenance:manage)
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  maintenanceController.createRecord
+);
+
+/**
+ * @route   GET /api/v1/maintenance/:id
+ * @desc    Get maintenance record by ID
+ * @access  Admin (maintenance:read)
+ */
+router.get(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('maintenance:read'),
+  maintenanceController.getRecordById
+);
+
+/**
+ * @route   PUT /api/v1/maintenance/:id
+ * @desc    Update a maintenance record (dates, garage, cost, status)
+ * @access  Admin (maintenance:manage)
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  maintenanceController.updateRecord
+);
+
+/**
+ * @route   DELETE /api/v1/maintenance/:id
+ * @desc    Delete a maintenance record
+ * @access  Admin (maintenance:manage)
+ */
+router.delete(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  maintenanceController.deleteRecord
+);
+
+export default router;
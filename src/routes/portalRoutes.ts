@@ -0,0 +1,94 @@
+import { Router } from 'express';
+import { PortalController } from '../controllers/PortalController';
+import { portalService } from '../services/PortalService';
+import { authenticateCustomer } from '../middleware/customerAuth';
+import { authLimiter } from '../middleware/rateLimiter';
+
+/**
+ * Customer Portal Routes
+ * Customers sign in with a magic link and only see the records matching their email
+ */
+
+const router = Router();
+
+// Initialize dependencies
+const portalController = new PortalController(portalService);
+
+/**
+ * @route   POST /api/v1/portal/auth/magic-link
+ * @desc    Email a sign-in link to a customer on file
+ * @access  Public
+ */
+router.post(
+  '/auth/magic-link',
+  authLimiter,
+  portalController.requestMagicLink
+);
+
+/**
+ * @route   POST /api/v1/portal/auth/verify
+ * @desc    Exchange a sign-in link token for a portal access token
+ * @access  Public
+ */
+router.post(
+  '/auth/verify',
+  authLimiter,
+  portalController.verifyMagicLink
+);
+
+/**
+ * @route   GET /api/v1/portal/me
+ * @desc    Signed-in customer
+ * @access  Customer
+ */
+router.get(
+  '/me',
+  authenticateCustomer,
+  portalController.getProfile
+);
+
+/**
+ * @route   GET /api/v1/portal/rent-requests
+ * @desc    Customer's rent requests
+ * @access  Customer
+ */
+router.get(
+  '/rent-requests',
+  authenticateCustomer,
+  portalController.getRentRequests
+);
+
+/**
+ * @route   GET /api/v1/portal/contracts
+ * @desc    Customer's contracts with their payment status
+ * @access  Customer
+ */
+router.get(
+  '/contracts',
+  authenticateCustomer,
+  portalController.getContracts
+);
+
+/**
+ * @route   GET /api/v1/portal/contracts/:id
+ * @desc    Contract with its payments and deposit
+ * @access  Customer
+ */
+router.get(
+  '/contracts/:id',
+  authenticateCustomer,
+  portalController.getContractById
+);
+
+/**
+ * @route   GET /api/v1/portal/contracts/:id/document
+ * @desc    Rental agreement PDF (?lang=fr|ar, ?download=true)
+ * @access  Customer
+ */
+router.get(
+  '/contracts/:id/document',
+  authenticateCustomer,
+  portalController.getContractDocument
+);
+
+export default router;
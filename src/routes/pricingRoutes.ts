@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import { PricingController } from '../controllers/PricingController';
+import { pricingService } from '../services/PricingService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const pricingController = new PricingController(pricingService);
+
+/**
+ * @route   POST /api/v1/pricing/quote
+ * @desc    Price a rental (per-day rates, applied rules and totals)
+ * @access  Public
+ */
+router.post(
+  '/quote',
+  pricingController.getQuote
+);
+
+/**
+ * @route   GET /api/v1/pricing/rules
+ * @desc    Get pricing rules
+ * @access  Admin
+ */
+router.get(
+  '/rules',
+  authenticateAdmin,
+  requirePermission('pricing:read'),
+  pricingController.getRules
+);
+
+/**
+ * @route   POST /api/v1/pricing/rules
+ * @desc    Create pricing rule
+ * @access  Admin
+ */
+router.post(
+  '/rules',
+  authenticateAdmin,
+  requirePermission('pricing:manage'),
+  pricingController.createRule
+);
+
+/**
+ * @route   GET /api/v1/pricing/rules/:id
+ * @desc    Get pricing rule by ID
+ * @access  Admin
+ */
+router.get(
+  '/rules/:id',
+  authenticateAdmin,
+  requirePermission('pricing:read'),
+  pricingController.getRuleById
+);
+
+/**
+ * @route   PUT /api/v1/pricing/rules/:id
+ * @desc    Update pricing rule
+ * @access  Admin
+ */
+router.put(
+  '/rules/:id',
+  authenticateAdmin,
+  requirePermission('pricing:manage'),
+  pricingController.updateRule
+);
+
+/**
+ * @route   DELETE /api/v1/pricing/rules/:id
+ * @desc    Delete pricing rule
+ * @access  Admin
+ */
+router.delete(
+  '/rules/:id',
+  authenticateAdmin,
+  requirePermission('pricing:manage'),
+  pricingController.deleteRule
+);
+
+export default router;
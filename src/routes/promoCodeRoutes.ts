@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { PromoCodeController } from '../controllers/PromoCodeController';
+import { promoCodeService } from '../services/PromoCodeService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const promoCodeController = new PromoCodeController(promoCodeService);
+
+/**
+ * @route   GET /api/v1/promo-codes
+ * @desc    Get promo codes
+ * @access  Admin
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('promoCode:read'),
+  promoCodeController.getPromoCodes
+);
+
+/**
+ * @route   GET /api/v1/promo-codes/report
+ * @desc    Redemptions and revenue impact per promo code (?from=&to=)
+ * @access  Admin
+ */
+router.get(
+  '/report',
+  authenticateAdmin,
+  requirePermission('report:read'),
+  promoCodeController.getReport
+);
+
+/**
+ * @route   POST /api/v1/promo-codes
+ * @desc    Create promo code
+ * @access  Admin
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('promoCode:manage'),
+  promoCodeController.createPromoCode
+);
+
+/**
+ * @route   GET /api/v1/promo-codes/:id
+ * @desc    Get promo code by ID
+ * @access  Admin
+ */
+router.get(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('promoCode:read'),
+  promoCodeController.getPromoCodeById
+);
+
+/**
+ * @route   GET /api/v1/promo-codes/:id/redemptions
+ * @desc    Get the contracts the promo code was redeemed on
+ * @access  Admin
+ */
+router.get(
+  '/:id/redemptions',
+  authenticateAdmin,
+  requirePermission('promoCode:read'),
+  promoCodeController.getRedemptions
+);
+
+/**
+ * @route   PUT /api/v1/promo-codes/:id
+ * @desc    Update promo code
+ * @access  Admin
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('promoCode:manage'),
+  promoCodeController.updatePromoCode
+);
+
+/**
+ * @route   DELETE /api/v1/promo-codes/:id
+ * @desc    Delete promo code (never redeemed codes only)
+ * @access  Admin
+ */
+router.delete(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('promoCode:manage'),
+  promoCodeController.deletePromoCode
+);
+
+export default router;
@@ -2,6 +2,9 @@ import { Router } from 'express';
 import rateLimit from 'express-rate-limit';
 import { rentRequestController } from '@/controllers/RentRequestController';
 import { authenticateAdmin } from '@/middleware/auth';
+import { authenticateApiKey } from '@/middleware/apiKey';
+import { requirePermission } from '@/middleware/permissions';
+import { auditTrail } from '@/middleware/audit';
 import { logger } from '@/utils/logger';
 
 /**
@@ -25,10 +28,10 @@ const createRentRequestLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
-  skip: (req) => {
-    // Skip rate limiting for admin requests
+  skip: (req: any) => {
+    // Skip rate limiting for admin requests and partner keys (limited per key)
     const authHeader = req.headers.authorization;
-    return !!authHeader && authHeader.startsWith('Bearer ');
+    return (!!authHeader && authHeader.startsWith('Bearer ')) || !!req.apiKey;
   },
   handler: (req, res) => {
     logger.warn('Rate limit reached for rent request creation', {
@@ -56,6 +59,22 @@ const availabilityCheckLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  skip: (req: any) => !!req.apiKey, // Partner keys are limited per key
+});
+
+/**
+ * Rate limiting for the tracking page, whose tokens do not expire
+ */
+const trackingLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 60, // 60 requests per 15 minutes per IP
+  message: {
+    success: false,
+    message: 'Trop de requêtes de suivi. Veuillez réessayer plus tard.',
+    timestamp: new Date().toISOString(),
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
 });
 
 /**
@@ -75,10 +94,15 @@ const adminRateLimiter = rateLimit({
     // Use admin ID as key for admin rate limiting
     return req.admin?.adminId || req.ip;
   },
+  skip: (req: any) => !!req.apiKey, // Partner keys are limited per key
 });
 
+// Record admin changes to rent requests; added after authentication on each admin route
+const audit = auditTrail('RENT_REQUEST');
+
 /**
  * PUBLIC ENDPOINTS
+ * Partners may send an API key instead, see authenticateApiKey
  */
 
 /**
@@ -88,6 +112,7 @@ const adminRateLimiter = rateLimit({
  */
 router.post(
   '/',
+  authenticateApiKey('rentRequests:create'),
   createRentRequestLimiter,
   rentRequestController.createRentRequest.bind(rentRequestController)
 );
@@ -99,10 +124,33 @@ router.post(
  */
 router.get(
   '/check-availability',
+  authenticateApiKey('availability:read'),
   availabilityCheckLimiter,
   rentRequestController.checkVehicleAvailability.bind(rentRequestController)
 );
 
+/**
+ * GET /api/rent-requests/track/:token
+ * Status, history and vehicle summary of a request, from the link in the confirmation email
+ * Rate limited: 60 requests per 15 minutes per IP
+ */
+router.get(
+  '/track/:token',
+  trackingLimiter,
+  rentRequestController.trackRentRequest.bind(rentRequestController)
+);
+
+/**
+ * POST /api/rent-requests/track/:token/cancel
+ * Cancel the request while it is still pending
+ * Rate limited: 60 requests per 15 minutes per IP
+ */
+router.post(
+  '/track/:token/cancel',
+  trackingLimiter,
+  rentRequestController.cancelTrackedRentRequest.bind(rentRequestController)
+);
+
 /**
  * ADMIN ENDPOINTS (Protected with authentication and rate limiting)
  */
@@ -114,6 +162,7 @@ router.get(
 router.get(
   '/statistics',
   authenticateAdmin,
+  requirePermission('report:read'),
   adminRateLimiter,
   rentRequestController.getRentRequestStatistics.bind(rentRequestController)
 );
@@ -121,10 +170,13 @@ router.get(
 /**
  * GET /api/rent-requests
  * Get all rent requests with filters and pagination
+ * With an API key, only the requests submitted with that key
  */
 router.get(
   '/',
+  authenticateApiKey('rentRequests:read'),
   authenticateAdmin,
+  requirePermission('rentRequest:read'),
   adminRateLimiter,
   rentRequestController.getRentRequests.bind(rentRequestController)
 );
@@ -132,10 +184,13 @@ router.get(
 /**
  * GET /api/rent-requests/:id
  * Get a specific rent request by ID
+ * With an API key, only a request submitted with that key
  */
 router.get(
   '/:id',
+  authenticateApiKey('rentRequests:read'),
   authenticateAdmin,
+  requirePermission('rentRequest:read'),
   adminRateLimiter,
   rentRequestController.getRentRequestById.bind(rentRequestController)
 );
@@ -147,10 +202,25 @@ router.get(
 router.patch(
   '/:id',
   authenticateAdmin,
+  requirePermission('rentRequest:update'),
   adminRateLimiter,
+  audit,
   rentRequestController.updateRentRequest.bind(rentRequestController)
 );
 
+/**
+ * POST /api/rent-requests/:id/convert
+ * Convert an approved rent request into a contract in one transaction
+ */
+router.post(
+  '/:id/convert',
+  authenticateAdmin,
+  requirePermission('rentRequest:convert'),
+  adminRateLimiter,
+  audit,
+  rentRequestController.convertRentRequest.bind(rentRequestController)
+);
+
 /**
  * DELETE /api/rent-requests/:id
  * Delete a rent request (only pending/rejected)
@@ -158,7 +228,9 @@ router.patch(
 router.delete(
   '/:id',
   authenticateAdmin,
+  requirePermission('rentRequest:delete'),
   adminRateLimiter,
+  audit,
   rentRequestController.deleteRentRequest.bind(rentRequestController)
 );
 
@@ -3,10 +3,15 @@ import ReviewController from '../controllers/ReviewController';
 import { validateRequest } from '../middleware/validation';
 import { createReviewSchema } from '../validators/reviewValidators';
 import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { auditTrail } from '../middleware/audit';
 
 const router = Router();
 const controller = new ReviewController();
 
+// Record admin changes to reviews; added after authentication on each admin route
+const audit = auditTrail('REVIEW');
+
 // Public submit endpoint
 router.post('/', validateRequest(createReviewSchema), controller.submitReview);
 
@@ -14,8 +19,8 @@ router.post('/', validateRequest(createReviewSchema), controller.submitReview);
 router.get('/public', controller.getPublicReviews);
 
 // Admin routes
-router.get('/', authenticateAdmin, controller.listReviews);
-router.get('/:id', authenticateAdmin, controller.getReview);
-router.patch('/:id', authenticateAdmin, controller.updateReview);
+router.get('/', authenticateAdmin, requirePermission('review:read'), controller.listReviews);
+router.get('/:id', authenticateAdmin, requirePermission('review:read'), controller.getReview);
+router.patch('/:id', authenticateAdmin, requirePermission('review:moderate'), audit, controller.updateReview);
 
 export default router;
@@ -0,0 +1,72 @@
+import { Router } from 'express';
+import { SchedulerController } from '../controllers/SchedulerController';
+import { schedulerService } from '../services/SchedulerService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const schedulerController = new SchedulerController(schedulerService);
+
+/**
+ * @route   GET /api/v1/scheduler/jobs
+ * @desc    List scheduled jobs with their state and last run
+ * @access  Admin
+ */
+router.get(
+  '/jobs',
+  authenticateAdmin,
+  requirePermission('scheduler:manage'),
+  schedulerController.getJobs
+);
+
+/**
+ * @route   GET /api/v1/scheduler/jobs/:name/runs
+ * @desc    Run history of a job (?status=&page=&limit=)
+ * @access  Admin
+ */
+router.get(
+  '/jobs/:name/runs',
+  authenticateAdmin,
+  requirePermission('scheduler:manage'),
+  schedulerController.getJobRuns
+);
+
+/**
+ * @route   POST /api/v1/scheduler/jobs/:name/run
+ * @desc    Run a job now, even when paused
+ * @access  Admin
+ */
+router.post(
+  '/jobs/:name/run',
+  authenticateAdmin,
+  requirePermission('scheduler:manage'),
+  schedulerController.triggerJob
+);
+
+/**
+ * @route   PUT /api/v1/scheduler/jobs/:name/pause
+ * @desc    Stop scheduled runs of a job
+ * @access  Admin
+ */
+router.put(
+  '/jobs/:name/pause',
+  authenticateAdmin,
+  requirePermission('scheduler:manage'),
+  schedulerController.pauseJob
+);
+
+/**
+ * @route   PUT /api/v1/scheduler/jobs/:name/resume
+ * @desc    Resume scheduled runs of a job
+ * @access  Admin
+ */
+router.put(
+  '/jobs/:name/resume',
+  authenticateAdmin,
+  requirePermission('scheduler:manage'),
+  schedulerController.resumeJob
+);
+
+export default router;
@@ -0,0 +1,96 @@
+import { Router } from 'express';
+import { ServiceIntervalController } from '../controllers/ServiceIntervalController';
+import { serviceIntervalService } from '../services/ServiceIntervalService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+
+const router = Router();
+
+// Initialize dependencies
+const serviceIntervalController = new ServiceIntervalController(serviceIntervalService);
+
+/**
+ * @route   GET /api/v1/service-intervals
+ * @desc    List service intervals (?vehicleId=&isActive=)
+ * @access  Admin (maintenance:read)
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('maintenance:read'),
+  serviceIntervalController.getIntervals
+);
+
+/**
+ * @route   POST /api/v1/service-intervals
+ * @desc    Add a service interval to a vehicle (every intervalKm and/or intervalMonths)
+ * @access  Admin (maintenance:manage)
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  serviceIntervalController.createInterval
+);
+
+/**
+ * @route   GET /api/v1/service-intervals/forecast
+ * @desc    Predict when each active interval falls due from the km driven per rental day (?vehicleId=&status=)
+ * @access  Admin (maintenance:read)
+ */
+router.get(
+  '/forecast',
+  authenticateAdmin,
+  requirePermission('maintenance:read'),
+  serviceIntervalController.getForecast
+);
+
+/**
+ * @route   GET /api/v1/service-intervals/:id
+ * @desc    Get service interval by ID
+ * @access  Admin (maintenance:read)
+ */
+router.get(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('maintenance:read'),
+  serviceIntervalController.getIntervalById
+);
+
+/**
+ * @route   PUT /api/v1/service-intervals/:id
+ * @desc    Update a service interval
+ * @access  Admin (maintenance:manage)
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  serviceIntervalController.updateInterval
+);
+
+/**
+ * @route   POST /api/v1/service-intervals/:id/serviced
+ * @desc    Restart the interval from a service done (mileage and date default to now)
+ * @access  Admin (maintenance:manage)
+ */
+router.post(
+  '/:id/serviced',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  serviceIntervalController.markServiced
+);
+
+/**
+ * @route   DELETE /api/v1/service-intervals/:id
+ * @desc    Delete a service interval
+ * @access  Admin (maintenance:manage)
+ */
+router.delete(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('maintenance:manage'),
+  serviceIntervalController.deleteInterval
+);
+
+export default router;
@@ -0,0 +1,101 @@
+import { Router } from 'express';
+import { VehicleDocumentController } from '../controllers/VehicleDocumentController';
+import { vehicleDocumentService } from '../services/VehicleDocumentService';
+import { authenticateAdmin } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { uploadVehicleDocumentFile, handleMulterError } from '../middleware/upload';
+
+const router = Router();
+
+// Initialize dependencies
+const vehicleDocumentController = new VehicleDocumentController(vehicleDocumentService);
+
+/**
+ * @route   GET /api/v1/vehicle-documents
+ * @desc    List vehicle documents (?vehicleId=&type=&page=&limit=)
+ * @access  Admin (vehicleDocument:read)
+ */
+router.get(
+  '/',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:read'),
+  vehicleDocumentController.getDocuments
+);
+
+/**
+ * @route   POST /api/v1/vehicle-documents
+ * @desc    Add a vehicle document (multipart, optional file field with a PDF or image scan)
+ * @access  Admin (vehicleDocument:manage)
+ */
+router.post(
+  '/',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:manage'),
+  uploadVehicleDocumentFile,
+  handleMulterError,
+  vehicleDocumentController.createDocument
+);
+
+/**
+ * @route   GET /api/v1/vehicle-documents/expiring
+ * @desc    Latest documents expiring within N days, expired ones included (?days=30&type=)
+ * @access  Admin (vehicleDocument:read)
+ */
+router.get(
+  '/expiring',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:read'),
+  vehicleDocumentController.getExpiringDocuments
+);
+
+/**
+ * @route   GET /api/v1/vehicle-documents/:id
+ * @desc    Get vehicle document by ID
+ * @access  Admin (vehicleDocument:read)
+ */
+router.get(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:read'),
+  vehicleDocumentController.getDocumentById
+);
+
+/**
+ * @route   GET /api/v1/vehicle-documents/:id/file
+ * @desc    Short-lived download link to the scanned document
+ * @access  Admin (vehicleDocument:read)
+ */
+router.get(
+  '/:id/file',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:read'),
+  vehicleDocumentController.getDocumentFile
+);
+
+/**
+ * @route   PUT /api/v1/vehicle-documents/:id
+ * @desc    Update a vehicle document; an attached file replaces the stored scan
+ * @access  Admin (vehicleDocument:manage)
+ */
+router.put(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:manage'),
+  uploadVehicleDocumentFile,
+  handleMulterError,
+  vehicleDocumentController.updateDocument
+);
+
+/**
+ * @route   DELETE /api/v1/vehicle-documents/:id
+ * @desc    Delete a vehicle document and its scan
+ * @access  Admin (vehicleDocument:manage)
+ */
+router.delete(
+  '/:id',
+  authenticateAdmin,
+  requirePermission('vehicleDocument:manage'),
+  vehicleDocumentController.deleteDocument
+);
+
+export default router;
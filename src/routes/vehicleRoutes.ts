@@ -1,7 +1,14 @@
 import { Router } from 'express';
 import { VehicleController } from '../controllers/VehicleController';
+import { VehicleBlackoutController } from '../controllers/VehicleBlackoutController';
+import { vehicleBlackoutService } from '../services/VehicleBlackoutService';
+import { OdometerController } from '../controllers/OdometerController';
+import { odometerService } from '../services/OdometerService';
 import { validateRequest } from '../middleware/validation';
 import { authenticateAdmin } from '../middleware/auth';
+import { authenticateApiKey } from '../middleware/apiKey';
+import { requirePermission } from '../middleware/permissions';
+import { auditTrail } from '../middleware/audit';
 import { 
   createVehicleSchema, 
   updateVehicleSchema, 
@@ -12,66 +19,77 @@ import { uploadMultipleImages, handleMulterError } from '../middleware/upload';
 
 const router = Router();
 const vehicleController = new VehicleController();
+const vehicleBlackoutController = new VehicleBlackoutController(vehicleBlackoutService);
+const odometerController = new OdometerController(odometerService);
+
+// Record admin changes to vehicles; added after authentication on each admin route
+const audit = auditTrail('VEHICLE');
 
 // Public routes
 
 /**
  * @route   GET /api/v1/vehicles
  * @desc    Get all vehicles with filters and pagination
- * @access  Public
+ * @access  Public, or API key (vehicles:read)
  */
 router.get(
   '/',
+  authenticateApiKey('vehicles:read'),
   vehicleController.getAllVehicles
 );
 
 /**
  * @route   GET /api/v1/vehicles/search
  * @desc    Search vehicles by term
- * @access  Public
+ * @access  Public, or API key (vehicles:read)
  */
 router.get(
   '/search',
+  authenticateApiKey('vehicles:read'),
   vehicleController.searchVehicles
 );
 
 /**
  * @route   GET /api/v1/vehicles/featured
  * @desc    Get featured vehicles
- * @access  Public
+ * @access  Public, or API key (vehicles:read)
  */
 router.get(
   '/featured',
+  authenticateApiKey('vehicles:read'),
   vehicleController.getFeaturedVehicles
 );
 
 /**
  * @route   GET /api/v1/vehicles/category/:category
  * @desc    Get vehicles by category
- * @access  Public
+ * @access  Public, or API key (vehicles:read)
  */
 router.get(
   '/category/:category',
+  authenticateApiKey('vehicles:read'),
   vehicleController.getVehiclesByCategory
 );
 
 /**
  * @route   GET /api/v1/vehicles/rental-service/:serviceType
  * @desc    Get vehicles by rental service type
- * @access  Public
+ * @access  Public, or API key (vehicles:read)
  */
 router.get(
   '/rental-service/:serviceType',
+  authenticateApiKey('vehicles:read'),
   vehicleController.getVehiclesByRentalService
 );
 
 /**
  * @route   GET /api/v1/vehicles/:id
  * @desc    Get vehicle by ID
- * @access  Public
+ * @access  Public, or API key (vehicles:read)
  */
 router.get(
   '/:id',
+  authenticateApiKey('vehicles:read'),
   vehicleController.getVehicleById
 );
 
@@ -105,6 +123,7 @@ router.get(
 router.get(
   '/admin/stats',
   authenticateAdmin,
+  requirePermission('report:read'),
   vehicleController.getVehicleStats
 );
 
@@ -116,6 +135,7 @@ router.get(
 router.get(
   '/admin/stats/comparison',
   authenticateAdmin,
+  requirePermission('report:read'),
   vehicleController.getVehicleStatsComparison
 );
 
@@ -127,7 +147,9 @@ router.get(
 router.post(
   '/',
   authenticateAdmin,
+  requirePermission('vehicle:create'),
   validateRequest(createVehicleSchema),
+  audit,
   vehicleController.createVehicle
 );
 
@@ -139,7 +161,9 @@ router.post(
 router.put(
   '/:id',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
   validateRequest(updateVehicleSchema),
+  audit,
   vehicleController.updateVehicle
 );
 
@@ -151,6 +175,8 @@ router.put(
 router.patch(
   '/bulk/availability',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.bulkUpdateVehicleAvailability
 );
 
@@ -162,6 +188,8 @@ router.patch(
 router.patch(
   '/bulk/featured',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.bulkUpdateVehicleFeaturedStatus
 );
 
@@ -173,6 +201,8 @@ router.patch(
 router.patch(
   '/:id/availability',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.updateVehicleAvailability
 );
 
@@ -184,6 +214,8 @@ router.patch(
 router.patch(
   '/:id/featured',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.updateVehicleFeaturedStatus
 );
 
@@ -195,7 +227,9 @@ router.patch(
 router.patch(
   '/:id/rental-services',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
   validateRequest(vehicleRentalServiceSchema),
+  audit,
   vehicleController.updateVehicleRentalServices
 );
 
@@ -207,6 +241,8 @@ router.patch(
 router.patch(
   '/:id/rating',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.updateVehicleRating
 );
 
@@ -218,6 +254,8 @@ router.patch(
 router.delete(
   '/:id',
   authenticateAdmin,
+  requirePermission('vehicle:delete'),
+  audit,
   vehicleController.deleteVehicle
 );
 
@@ -229,6 +267,8 @@ router.delete(
 router.delete(
   '/:id/hard',
   authenticateAdmin,
+  requirePermission('vehicle:hardDelete'),
+  audit,
   vehicleController.hardDeleteVehicle
 );
 
@@ -242,8 +282,10 @@ router.delete(
 router.post(
   '/:id/images',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
   uploadMultipleImages,
   handleMulterError,
+  audit,
   vehicleController.uploadVehicleImages
 );
 
@@ -255,6 +297,8 @@ router.post(
 router.delete(
   '/:id/images/:imageId',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.deleteVehicleImage
 );
 
@@ -266,7 +310,101 @@ router.delete(
 router.put(
   '/:id/images/:imageId/primary',
   authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
   vehicleController.setPrimaryVehicleImage
 );
 
+// Blackout period routes
+
+/**
+ * @route   GET /api/v1/vehicles/:id/blackouts
+ * @desc    List the periods the vehicle is kept out of rental (?from=&to=)
+ * @access  Private (Admin only)
+ */
+router.get(
+  '/:id/blackouts',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  vehicleBlackoutController.getBlackouts
+);
+
+/**
+ * @route   POST /api/v1/vehicles/:id/blackouts
+ * @desc    Keep the vehicle out of rental for a period, with a reason
+ * @access  Private (Admin only)
+ */
+router.post(
+  '/:id/blackouts',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
+  vehicleBlackoutController.createBlackout
+);
+
+/**
+ * @route   GET /api/v1/vehicles/:id/blackouts/:blackoutId
+ * @desc    Get a blackout period
+ * @access  Private (Admin only)
+ */
+router.get(
+  '/:id/blackouts/:blackoutId',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  vehicleBlackoutController.getBlackoutById
+);
+
+/**
+ * @route   PUT /api/v1/vehicles/:id/blackouts/:blackoutId
+ * @desc    Update a blackout period
+ * @access  Private (Admin only)
+ */
+router.put(
+  '/:id/blackouts/:blackoutId',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
+  vehicleBlackoutController.updateBlackout
+);
+
+/**
+ * @route   DELETE /api/v1/vehicles/:id/blackouts/:blackoutId
+ * @desc    Delete a blackout period
+ * @access  Private (Admin only)
+ */
+router.delete(
+  '/:id/blackouts/:blackoutId',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
+  vehicleBlackoutController.deleteBlackout
+);
+
+// Odometer log routes
+
+/**
+ * @route   GET /api/v1/vehicles/:id/odometer
+ * @desc    List the odometer readings of the vehicle, handovers included (?from=&to=&limit=)
+ * @access  Private (Admin only)
+ */
+router.get(
+  '/:id/odometer',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  odometerController.getReadings
+);
+
+/**
+ * @route   POST /api/v1/vehicles/:id/odometer
+ * @desc    Log a manual odometer reading; the latest reading updates the vehicle mileage
+ * @access  Private (Admin only)
+ */
+router.post(
+  '/:id/odometer',
+  authenticateAdmin,
+  requirePermission('vehicle:update'),
+  audit,
+  odometerController.createReading
+);
+
 export default router;
@@ -3,6 +3,8 @@ import { prisma, connectDatabase, disconnectDatabase } from '@/config/database';
 import { logger } from '@/utils/logger';
 import { config, validateConfig } from '@/config';
 import { seedAdmin } from '../scripts/seed-admin';
+import { schedulerService } from '@/services/SchedulerService';
+import { registerMaintenanceJobs } from '@/jobs/maintenanceJobs';
 
 /**
  * Server Entry Point
@@ -42,9 +44,21 @@ async function startServer(): Promise<void> {
       }
     });
 
+    // Start recurring maintenance jobs
+    try {
+      registerMaintenanceJobs(schedulerService);
+      await schedulerService.start();
+    } catch (error) {
+      logger.error('Failed to start the job scheduler:', error);
+      // Don't exit - the API works without it
+    }
+
     // Graceful shutdown handlers
     const gracefulShutdown = async (signal: string): Promise<void> => {
       logger.info(`📥 Received ${signal}. Starting graceful shutdown...`);
+
+      // Stop scheduling new job runs
+      schedulerService.stop();
       
       // Set a timeout for graceful shutdown
       const shutdownTimeout = setTimeout(() => {
@@ -0,0 +1,181 @@
+import { AdminRole } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { AdminRepository } from '../repositories/AdminRepository';
+import {
+  AdminActor,
+  AdminCredentialsResult,
+  AdminListResponse,
+  AdminQuery,
+  AdminResponse
+} from '../types/admin';
+import { RoleResponse } from '../types/rbac';
+import { LoginHistoryQuery, LoginHistoryResponse } from '../types/auth';
+import { InviteAdminInput, UpdateAdminInput } from '../validators/adminValidators';
+import { rbacService } from './RBACService';
+import { emailService } from './EmailService';
+import { LoginAttemptService } from './LoginAttemptService';
+import { generateTemporaryPassword, hashPassword } from '../utils/password';
+import { logger } from '../utils/logger';
+
+export class AdminService {
+  constructor(
+    private adminRepository: AdminRepository,
+    private loginAttemptService: LoginAttemptService
+  ) {}
+
+  async getAdmins(query: AdminQuery): Promise<AdminListResponse> {
+    return await this.adminRepository.findAll(query);
+  }
+
+  async getAdminById(id: string): Promise<AdminResponse | null> {
+    return await this.adminRepository.findById(id);
+  }
+
+  getRoles(): RoleResponse[] {
+    return rbacService.getRoles();
+  }
+
+  // Create an admin account and email them that it exists
+  async inviteAdmin(input: InviteAdminInput, actor: AdminActor): Promise<AdminCredentialsResult> {
+    this.assertCanAssignRole(actor, input.role);
+
+    if (await this.adminRepository.emailExists(input.email)) {
+      throw new Error('An admin with this email already exists');
+    }
+
+    const temporaryPassword = input.password ? undefined : generateTemporaryPassword();
+    const admin = await this.adminRepository.create({
+      email: input.email,
+      firstName: input.firstName,
+      lastName: input.lastName,
+      role: input.role,
+      password: await hashPassword(input.password || temporaryPassword!)
+    });
+
+    logger.info('Admin invited', { adminId: admin.id, role: admin.role, invitedBy: actor.adminId });
+
+    const inviter = await this.adminRepository.findById(actor.adminId);
+    emailService.sendAdminInvitation({
+      email: admin.email,
+      firstName: admin.firstName || undefined,
+      invitedBy: inviter ? [inviter.firstName, inviter.lastName].filter(Boolean).join(' ') || inviter.email : 'K2A',
+      role: admin.role,
+      loginUrl: `${config.cors.frontendUrl}/login`
+    }).catch(() => undefined); // Logged by the email service; the account exists either way
+
+    return { admin, temporaryPassword };
+  }
+
+  async updateAdmin(id: string, input: UpdateAdminInput, actor: AdminActor): Promise<AdminResponse> {
+    const admin = await this.getManageableAdmin(id, actor);
+
+    if (input.role && input.role !== admin.role) {
+      if (id === actor.adminId) {
+        throw new Error('You cannot change your own role');
+      }
+      this.assertCanAssignRole(actor, input.role);
+    }
+
+    if (input.email && await this.adminRepository.emailExists(input.email, id)) {
+      throw new Error('An admin with this email already exists');
+    }
+
+    // A role change takes effect at the next sign-in, like a deactivation
+    if (input.role && input.role !== admin.role) {
+      return await this.adminRepository.updateAndRevokeSessions(id, input);
+    }
+
+    return await this.adminRepository.update(id, input);
+  }
+
+  // Block sign-in and revoke every refresh token; issued access tokens expire on their own
+  async deactivateAdmin(id: string, actor: AdminActor): Promise<AdminResponse> {
+    if (id === actor.adminId) {
+      throw new Error('You cannot deactivate your own account');
+    }
+
+    const admin = await this.getManageableAdmin(id, actor);
+    if (!admin.isActive) {
+      throw new Error('Admin is already deactivated');
+    }
+
+    const updated = await this.adminRepository.updateAndRevokeSessions(id, { isActive: false });
+    logger.info('Admin deactivated', { adminId: id, deactivatedBy: actor.adminId });
+
+    return updated;
+  }
+
+  async reactivateAdmin(id: string, actor: AdminActor): Promise<AdminResponse> {
+    const admin = await this.getManageableAdmin(id, actor);
+    if (admin.isActive) {
+      throw new Error('Admin is already active');
+    }
+
+    const updated = await this.adminRepository.update(id, { isActive: true });
+    logger.info('Admin reactivated', { adminId: id, reactivatedBy: actor.adminId });
+
+    return updated;
+  }
+
+  // Set a new password and sign the admin out everywhere
+  async resetPassword(id: string, password: string | undefined, actor: AdminActor): Promise<AdminCredentialsResult> {
+    await this.getManageableAdmin(id, actor);
+
+    const temporaryPassword = password ? undefined : generateTemporaryPassword();
+    const admin = await this.adminRepository.updateAndRevokeSessions(id, {
+      password: await hashPassword(password || temporaryPassword!)
+    }, 'PASSWORD_RESET');
+
+    logger.info('Admin password reset', { adminId: id, resetBy: actor.adminId });
+
+    return { admin, temporaryPassword };
+  }
+
+  // Lift a lockout before it expires; the lock escalation starts over
+  async unlockAdmin(id: string, actor: AdminActor): Promise<AdminResponse> {
+    const admin = await this.getManageableAdmin(id, actor);
+    if (!admin.lockedUntil || admin.lockedUntil <= new Date()) {
+      throw new Error('Admin account is not locked');
+    }
+
+    const updated = await this.adminRepository.update(id, {
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null
+    });
+    logger.info('Admin account unlocked', { adminId: id, unlockedBy: actor.adminId });
+
+    return updated;
+  }
+
+  async getLoginHistory(id: string, query: LoginHistoryQuery, actor: AdminActor): Promise<LoginHistoryResponse> {
+    await this.getManageableAdmin(id, actor);
+    return await this.loginAttemptService.getHistory(id, query);
+  }
+
+  // Owner accounts can only be managed by owners
+  private async getManageableAdmin(id: string, actor: AdminActor): Promise<AdminResponse> {
+    const admin = await this.adminRepository.findById(id);
+    if (!admin) {
+      throw new Error('Admin not found');
+    }
+
+    if (admin.role === 'OWNER' && actor.role !== 'OWNER') {
+      throw new Error('Only an owner can manage owner accounts');
+    }
+
+    return admin;
+  }
+
+  private assertCanAssignRole(actor: AdminActor, role: AdminRole): void {
+    if (role === 'OWNER' && actor.role !== 'OWNER') {
+      throw new Error('Only an owner can grant the owner role');
+    }
+  }
+}
+
+export const adminService = new AdminService(
+  new AdminRepository(prisma),
+  new LoginAttemptService(prisma, logger)
+);
@@ -0,0 +1,103 @@
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { ApiKeyRepository } from '../repositories/ApiKeyRepository';
+import {
+  ApiKeyContext,
+  ApiKeyCreatedResult,
+  ApiKeyQuery,
+  ApiKeyResponse
+} from '../types/apiKey';
+import { CreateApiKeyInput, UpdateApiKeyInput } from '../validators/apiKeyValidators';
+import { generateSecureToken, hashToken } from '../utils/token';
+import { logger } from '../utils/logger';
+
+const KEY_PREFIX = 'k2a_';
+const DISPLAYED_KEY_LENGTH = 12; // Characters kept in clear to tell keys apart
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export class ApiKeyService {
+  constructor(private apiKeyRepository: ApiKeyRepository) {}
+
+  async getApiKeys(query: ApiKeyQuery): Promise<ApiKeyResponse[]> {
+    return await this.apiKeyRepository.findAll(query);
+  }
+
+  async getApiKeyById(id: string): Promise<ApiKeyResponse | null> {
+    return await this.apiKeyRepository.findById(id);
+  }
+
+  // Generate a key; only its hash is stored, so the key is returned this once
+  async createApiKey(input: CreateApiKeyInput, adminId: string): Promise<ApiKeyCreatedResult> {
+    const key = `${KEY_PREFIX}${generateSecureToken(32)}`;
+
+    const apiKey = await this.apiKeyRepository.create({
+      name: input.name,
+      description: input.description,
+      keyPrefix: key.slice(0, DISPLAYED_KEY_LENGTH),
+      keyHash: hashToken(key),
+      scopes: input.scopes,
+      rateLimitPerMinute: input.rateLimitPerMinute || config.apiKeys.defaultRateLimitPerMinute,
+      expiresAt: input.expiresAt,
+      createdById: adminId
+    });
+
+    logger.info('API key created', { apiKeyId: apiKey.id, scopes: apiKey.scopes, createdBy: adminId });
+
+    return { apiKey, key };
+  }
+
+  async updateApiKey(id: string, input: UpdateApiKeyInput): Promise<ApiKeyResponse> {
+    const existing = await this.apiKeyRepository.findById(id);
+    if (!existing) {
+      throw new Error('API key not found');
+    }
+
+    if (existing.revokedAt) {
+      throw new Error('API key has been revoked');
+    }
+
+    return await this.apiKeyRepository.update(id, input);
+  }
+
+  // Revocation is final; partners get a new key instead
+  async revokeApiKey(id: string, adminId: string): Promise<ApiKeyResponse> {
+    const existing = await this.apiKeyRepository.findById(id);
+    if (!existing) {
+      throw new Error('API key not found');
+    }
+
+    if (existing.revokedAt) {
+      throw new Error('API key is already revoked');
+    }
+
+    const apiKey = await this.apiKeyRepository.update(id, { revokedAt: new Date() });
+    logger.info('API key revoked', { apiKeyId: id, revokedBy: adminId });
+
+    return apiKey;
+  }
+
+  // Resolve a key presented by a partner; null when unknown, revoked or expired
+  async authenticate(key: string, ipAddress?: string): Promise<ApiKeyContext | null> {
+    if (!key.startsWith(KEY_PREFIX)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findByHash(hashToken(key));
+    if (!apiKey || !apiKey.isActive) {
+      return null;
+    }
+
+    this.apiKeyRepository
+      .touch(apiKey.id, ipAddress, new Date(Date.now() - LAST_USED_RESOLUTION_MS))
+      .catch(error => logger.warn('Failed to record API key usage', { apiKeyId: apiKey.id, error }));
+
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      scopes: apiKey.scopes,
+      rateLimitPerMinute: apiKey.rateLimitPerMinute
+    };
+  }
+}
+
+export const apiKeyService = new ApiKeyService(new ApiKeyRepository(prisma));
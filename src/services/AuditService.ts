@@ -0,0 +1,62 @@
+import { AuditEntityType, PrismaClient } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AuditLogRepository } from '../repositories/AuditLogRepository';
+import {
+  AuditLogListResponse,
+  AuditLogQuery,
+  CreateAuditLogInput
+} from '../types/audit';
+import { logger } from '../utils/logger';
+
+export class AuditService {
+  constructor(
+    private auditLogRepository: AuditLogRepository,
+    private prisma: PrismaClient
+  ) {}
+
+  // Write an entry; a failure is logged but never fails the audited request
+  async record(input: CreateAuditLogInput): Promise<void> {
+    try {
+      await this.auditLogRepository.create(input);
+    } catch (error) {
+      logger.error('Failed to write audit log', {
+        action: input.action,
+        entityType: input.entityType,
+        entityId: input.entityId,
+        error: error instanceof Error ? error.message : error
+      });
+    }
+  }
+
+  async getLogs(query: AuditLogQuery): Promise<AuditLogListResponse> {
+    return await this.auditLogRepository.findAll(query);
+  }
+
+  async getEntityHistory(
+    entityType: AuditEntityType,
+    entityId: string,
+    query: AuditLogQuery = {}
+  ): Promise<AuditLogListResponse> {
+    return await this.auditLogRepository.findAll({ ...query, entityType, entityId });
+  }
+
+  // Current row of an audited entity, used for the before/after snapshots
+  async loadEntity(entityType: AuditEntityType, id: string): Promise<Record<string, unknown> | null> {
+    switch (entityType) {
+      case 'VEHICLE':
+        return await this.prisma.vehicle.findUnique({ where: { id } });
+      case 'CLIENT':
+        return await this.prisma.client.findUnique({ where: { id } });
+      case 'CONTRACT':
+        return await this.prisma.contract.findUnique({ where: { id } });
+      case 'RENT_REQUEST':
+        return await this.prisma.rentRequest.findUnique({ where: { id } });
+      case 'REVIEW':
+        return await this.prisma.review.findUnique({ where: { id } });
+      default:
+        return null;
+    }
+  }
+}
+
+export const auditService = new AuditService(new AuditLogRepository(prisma), prisma);
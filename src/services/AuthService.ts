@@ -2,29 +2,54 @@ import { Admin, PrismaClient } from '@prisma/client';
 import { Logger } from 'winston';
 import { 
   LoginRequest, 
+  LoginResult,
   AuthResponse, 
   AdminProfile, 
   TokenResponse,
-  CreateAdminRequest 
+  CreateAdminRequest,
+  TwoFactorVerifyRequest,
+  SessionContext,
+  SessionResponse,
+  LoginHistoryQuery,
+  LoginHistoryResponse
 } from '@/types/auth';
 import { hashPassword, comparePassword } from '@/utils/password';
-import { generateTokens, generateAccessToken } from '@/utils/jwt';
+import {
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken
+} from '@/utils/jwt';
 import { AuthError, BadRequestError, ForbiddenError } from '@/middleware/errorHandler';
+import { rbacService } from '@/services/RBACService';
+import { emailService } from '@/services/EmailService';
+import { TwoFactorService } from '@/services/TwoFactorService';
+import { SessionService } from '@/services/SessionService';
+import { LoginAttemptService } from '@/services/LoginAttemptService';
+import { generateSecureToken, hashToken } from '@/utils/token';
+import { config } from '@/config';
 
 /**
  * Authentication Service
  * Handles all authentication-related business logic
  */
 export class AuthService {
+  private twoFactorService: TwoFactorService;
+  private sessionService: SessionService;
+  private loginAttemptService: LoginAttemptService;
+
   constructor(
     private prisma: PrismaClient,
     private logger: Logger
-  ) {}
+  ) {
+    this.twoFactorService = new TwoFactorService(prisma, logger);
+    this.sessionService = new SessionService(prisma, logger);
+    this.loginAttemptService = new LoginAttemptService(prisma, logger);
+  }
 
   /**
    * Authenticate admin with email and password
+   * With two-factor enabled only a challenge token is returned; tokens come from verifyTwoFactorLogin
    */
-  async login(loginData: LoginRequest): Promise<AuthResponse> {
+  async login(loginData: LoginRequest, context: SessionContext = {}): Promise<LoginResult> {
     try {
       this.logger.info('Admin login attempt', { email: loginData.email });
 
@@ -35,6 +60,7 @@ export class AuthService {
 
       if (!admin) {
         this.logger.warn('Login failed: Admin not found', { email: loginData.email });
+        await this.loginAttemptService.recordFailure(loginData.email, 'UNKNOWN_EMAIL', context);
         throw new AuthError('Invalid credentials');
       }
 
@@ -43,9 +69,13 @@ export class AuthService {
           email: loginData.email,
           adminId: admin.id 
         });
+        await this.loginAttemptService.recordFailure(loginData.email, 'ACCOUNT_DEACTIVATED', context, admin);
         throw new AuthError('Account is deactivated');
       }
 
+      // A locked account is rejected before the password is even checked
+      await this.loginAttemptService.assertNotLocked(admin, context);
+
       // Verify password
       const isPasswordValid = await comparePassword(loginData.password, admin.password);
       if (!isPasswordValid) {
@@ -53,44 +83,32 @@ export class AuthService {
           email: loginData.email,
           adminId: admin.id 
         });
+        await this.loginAttemptService.recordFailure(loginData.email, 'INVALID_PASSWORD', context, admin);
         throw new AuthError('Invalid credentials');
       }
 
-      // Generate tokens
-      const tokens = await generateTokens({
-        id: admin.id,
-        email: admin.email,
-      });
+      // Counters are only cleared once the second factor is verified too
+      if (admin.twoFactorEnabled) {
+        this.logger.info('Admin password accepted, two-factor code required', { 
+          adminId: admin.id 
+        });
 
-      // Store refresh token in database
-      await this.prisma.refreshToken.create({
-        data: {
-          token: tokens.refreshToken,
-          adminId: admin.id,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
-      });
+        return {
+          twoFactorRequired: true,
+          challengeToken: await generateTwoFactorChallengeToken(admin.id),
+          expiresIn: config.twoFactor.challengeExpiresIn,
+        };
+      }
 
-      // Create admin profile response
-      const adminProfile: AdminProfile = {
-        id: admin.id,
-        email: admin.email,
-        firstName: admin.firstName || undefined,
-        lastName: admin.lastName || undefined,
-        isActive: admin.isActive,
-        createdAt: admin.createdAt,
-      };
+      const result = await this.createSession(admin, context);
+      await this.loginAttemptService.recordSuccess(admin, context);
 
       this.logger.info('Admin login successful', { 
         adminId: admin.id,
         email: admin.email 
       });
 
-      return {
-        admin: adminProfile,
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      };
+      return result;
     } catch (error) {
       this.logger.error('Login error:', error);
       throw error;
@@ -98,67 +116,95 @@ export class AuthService {
   }
 
   /**
-   * Refresh access token using refresh token
+   * Second login step: exchange the challenge token and a TOTP or recovery code for tokens
    */
-  async refreshToken(refreshToken: string): Promise<TokenResponse> {
+  async verifyTwoFactorLogin(request: TwoFactorVerifyRequest, context: SessionContext = {}): Promise<AuthResponse> {
     try {
-      this.logger.debug('Token refresh attempt');
+      let adminId: string;
+      try {
+        adminId = (await verifyTwoFactorChallengeToken(request.challengeToken)).adminId;
+      } catch (error) {
+        throw new AuthError('Login session expired, please sign in again');
+      }
 
-      // Find refresh token in database
-      const storedToken = await this.prisma.refreshToken.findUnique({
-        where: { token: refreshToken },
-        include: { admin: true },
+      const admin = await this.prisma.admin.findUnique({
+        where: { id: adminId },
       });
 
-      if (!storedToken) {
-        this.logger.warn('Token refresh failed: Refresh token not found');
-        throw new AuthError('Invalid refresh token');
+      if (!admin || !admin.isActive) {
+        this.logger.warn('Two-factor login failed: Admin not found or deactivated', { adminId });
+        throw new AuthError('Account is deactivated');
       }
 
-      if (storedToken.expiresAt < new Date()) {
-        this.logger.warn('Token refresh failed: Refresh token expired', {
-          adminId: storedToken.adminId,
-          expiresAt: storedToken.expiresAt,
-        });
-        
-        // Clean up expired token
-        await this.prisma.refreshToken.delete({
-          where: { id: storedToken.id },
-        });
-        
-        throw new AuthError('Refresh token expired');
+      if (!admin.twoFactorEnabled) {
+        throw new AuthError('Login session expired, please sign in again');
       }
 
-      if (!storedToken.admin.isActive) {
-        this.logger.warn('Token refresh failed: Admin account deactivated', {
-          adminId: storedToken.admin.id,
-        });
-        throw new AuthError('Account is deactivated');
+      await this.loginAttemptService.assertNotLocked(admin, context);
+
+      const verified = await this.twoFactorService.verifySecondFactor(admin, request.code, request.recoveryCode);
+      if (!verified) {
+        this.logger.warn('Two-factor login failed: Invalid code', { adminId });
+        await this.loginAttemptService.recordFailure(admin.email, 'INVALID_TWO_FACTOR', context, admin);
+        throw new AuthError('Invalid authentication code');
       }
 
-      // Generate new tokens
-      const tokens = await generateTokens({
-        id: storedToken.admin.id,
-        email: storedToken.admin.email,
-      });
+      const result = await this.createSession(admin, context);
+      await this.loginAttemptService.recordSuccess(admin, context);
 
-      // Update refresh token in database
-      await this.prisma.refreshToken.update({
-        where: { id: storedToken.id },
-        data: {
-          token: tokens.refreshToken,
-          expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
-        },
+      this.logger.info('Admin login successful', { 
+        adminId: admin.id,
+        email: admin.email,
+        twoFactor: true
       });
 
-      this.logger.info('Token refresh successful', {
-        adminId: storedToken.admin.id,
-      });
+      return result;
+    } catch (error) {
+      this.logger.error('Two-factor login error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open a session and issue access and refresh tokens for an authenticated admin
+   */
+  private async createSession(admin: Admin, context: SessionContext): Promise<AuthResponse> {
+    const tokens = await this.sessionService.startSession(admin, context);
+
+    return {
+      admin: this.toAdminProfile(admin),
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+    };
+  }
+
+  private toAdminProfile(admin: Admin): AdminProfile {
+    return {
+      id: admin.id,
+      email: admin.email,
+      firstName: admin.firstName || undefined,
+      lastName: admin.lastName || undefined,
+      role: admin.role,
+      permissions: rbacService.getPermissions(admin.role),
+      twoFactorEnabled: admin.twoFactorEnabled,
+      isActive: admin.isActive,
+      createdAt: admin.createdAt,
+    };
+  }
+
+  /**
+   * Refresh access token using refresh token
+   * The presented token is rotated: it cannot be used again
+   */
+  async refreshToken(refreshToken: string, context: SessionContext = {}): Promise<TokenResponse> {
+    try {
+      this.logger.debug('Token refresh attempt');
+
+      const tokens = await this.sessionService.rotate(refreshToken, context);
 
-      return {
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      };
+      this.logger.info('Token refresh successful');
+
+      return tokens;
     } catch (error) {
       this.logger.error('Token refresh error:', error);
       throw error;
@@ -166,21 +212,15 @@ export class AuthService {
   }
 
   /**
-   * Logout admin and invalidate refresh token
+   * Logout admin and end the session of the refresh token
    */
   async logout(adminId: string, refreshToken: string): Promise<void> {
     try {
       this.logger.info('Admin logout attempt', { adminId });
 
-      // Remove refresh token from database
-      const deletedToken = await this.prisma.refreshToken.deleteMany({
-        where: {
-          adminId,
-          token: refreshToken,
-        },
-      });
+      const ended = await this.sessionService.endSession(adminId, refreshToken);
 
-      if (deletedToken.count === 0) {
+      if (!ended) {
         this.logger.warn('Logout: Refresh token not found', { adminId });
         // Don't throw error, logout should be idempotent
       }
@@ -192,6 +232,147 @@ export class AuthService {
     }
   }
 
+  /**
+   * List the admin's active sessions
+   */
+  async getSessions(adminId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    return await this.sessionService.listSessions(adminId, currentSessionId);
+  }
+
+  /**
+   * Revoke one of the admin's sessions
+   */
+  async revokeSession(adminId: string, sessionId: string): Promise<void> {
+    await this.sessionService.revokeSession(adminId, sessionId);
+  }
+
+  /**
+   * Email a single-use password reset link
+   * Unknown or deactivated emails are ignored so the response never reveals which accounts exist
+   */
+  async requestPasswordReset(email: string, requestedIp?: string): Promise<void> {
+    try {
+      const admin = await this.prisma.admin.findUnique({
+        where: { email },
+      });
+
+      if (!admin || !admin.isActive) {
+        this.logger.warn('Password reset requested for unknown or inactive admin', { email, ip: requestedIp });
+        return;
+      }
+
+      const cooldownStart = new Date(Date.now() - config.passwordReset.resendCooldownSeconds * 1000);
+      const recentRequest = await this.prisma.passwordResetToken.findFirst({
+        where: {
+          adminId: admin.id,
+          usedAt: null,
+          createdAt: { gt: cooldownStart },
+        },
+      });
+
+      if (recentRequest) {
+        this.logger.warn('Password reset requested again during cooldown', { adminId: admin.id, ip: requestedIp });
+        return;
+      }
+
+      // Only the latest link stays valid
+      const token = generateSecureToken();
+      await this.prisma.$transaction([
+        this.prisma.passwordResetToken.deleteMany({
+          where: { adminId: admin.id, usedAt: null },
+        }),
+        this.prisma.passwordResetToken.create({
+          data: {
+            adminId: admin.id,
+            tokenHash: hashToken(token),
+            expiresAt: new Date(Date.now() + config.passwordReset.tokenTtlMinutes * 60 * 1000),
+            requestedIp,
+          },
+        }),
+      ]);
+
+      // A delivery failure is logged by the email service; the caller gets the same answer either way
+      const sent = await emailService.sendPasswordReset({
+        email: admin.email,
+        firstName: admin.firstName || undefined,
+        resetUrl: `${config.cors.frontendUrl}/reset-password?token=${encodeURIComponent(token)}`,
+        expiresInMinutes: config.passwordReset.tokenTtlMinutes,
+      }).then(() => true, () => false);
+
+      if (sent) {
+        this.logger.info('Password reset link sent', { adminId: admin.id });
+      }
+    } catch (error) {
+      this.logger.error('Password reset request error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The admin's own sign-in attempts, most recent first
+   */
+  async getLoginHistory(adminId: string, query: LoginHistoryQuery = {}): Promise<LoginHistoryResponse> {
+    return await this.loginAttemptService.getHistory(adminId, query);
+  }
+
+  /**
+   * Set a new password from a reset link and sign the admin out of every session
+   */
+  async resetPassword(token: string, password: string): Promise<void> {
+    try {
+      const storedToken = await this.prisma.passwordResetToken.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { admin: true },
+      });
+
+      if (!storedToken || storedToken.usedAt || storedToken.expiresAt < new Date()) {
+        this.logger.warn('Password reset failed: Invalid or expired token', {
+          adminId: storedToken?.adminId,
+        });
+        throw new BadRequestError('Invalid or expired reset link');
+      }
+
+      if (!storedToken.admin.isActive) {
+        this.logger.warn('Password reset failed: Admin account deactivated', {
+          adminId: storedToken.adminId,
+        });
+        throw new AuthError('Account is deactivated');
+      }
+
+      const hashedPassword = await hashPassword(password);
+
+      await this.prisma.$transaction(async (tx) => {
+        // Claiming the token in the same transaction makes it single-use under concurrent requests
+        const claimed = await tx.passwordResetToken.updateMany({
+          where: { id: storedToken.id, usedAt: null },
+          data: { usedAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          throw new BadRequestError('Invalid or expired reset link');
+        }
+
+        await tx.admin.update({
+          where: { id: storedToken.adminId },
+          // Proving ownership of the mailbox also lifts a lockout
+          data: {
+            password: hashedPassword,
+            failedLoginAttempts: 0,
+            lockoutCount: 0,
+            lockedUntil: null,
+          },
+        });
+
+        await this.sessionService.revokeAllSessions(storedToken.adminId, 'PASSWORD_RESET', tx);
+      });
+
+      this.logger.info('Password reset successful', { adminId: storedToken.adminId });
+    } catch (error) {
+      this.logger.error('Password reset error:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get admin profile by ID
    */
@@ -206,14 +387,7 @@ export class AuthService {
         throw new AuthError('Admin not found');
       }
 
-      return {
-        id: admin.id,
-        email: admin.email,
-        firstName: admin.firstName || undefined,
-        lastName: admin.lastName || undefined,
-        isActive: admin.isActive,
-        createdAt: admin.createdAt,
-      };
+      return this.toAdminProfile(admin);
     } catch (error) {
       this.logger.error('Get admin profile error:', error);
       throw error;
@@ -249,6 +423,7 @@ export class AuthService {
           firstName: adminData.firstName,
           lastName: adminData.lastName,
           password: hashedPassword,
+          ...(adminData.role && { role: adminData.role }),
         },
       });
 
@@ -265,19 +440,25 @@ export class AuthService {
   }
 
   /**
-   * Clean up expired refresh tokens
+   * Clean up expired refresh tokens and sessions, and expired or used password reset tokens
    */
-  async cleanupExpiredTokens(): Promise<void> {
+  async cleanupExpiredTokens(): Promise<number> {
     try {
-      const result = await this.prisma.refreshToken.deleteMany({
+      const { refreshTokens, sessions } = await this.sessionService.cleanupExpired();
+      const resetTokens = await this.prisma.passwordResetToken.deleteMany({
         where: {
-          expiresAt: {
-            lt: new Date(),
-          },
+          OR: [{ expiresAt: { lt: new Date() } }, { usedAt: { not: null } }],
         },
       });
+      const count = refreshTokens + resetTokens.count;
+
+      this.logger.info('Expired tokens cleaned up', {
+        refreshTokens,
+        sessions,
+        resetTokens: resetTokens.count,
+      });
 
-      this.logger.info('Expired tokens cleaned up', { count: result.count });
+      return count;
     } catch (error) {
       this.logger.error('Token cleanup error:', error);
       throw error;
@@ -1,5 +1,6 @@
 import { PrismaClient, Prisma } from '@prisma/client';
 import { logger } from '@/utils/logger';
+import { BLOCKING_MAINTENANCE_STATUSES } from '@/types/maintenance';
 
 /**
  * Unified Booking Conflict Detection Service
@@ -7,18 +8,20 @@ import { logger } from '@/utils/logger';
  * This service provides conflict detection that checks both:
  * 1. Contracts with status CONFIRMED or ACTIVE
  * 2. Rent Requests with status APPROVED or CONFIRMED
+ * 3. Maintenance records with status PLANNED or IN_PROGRESS
+ * 4. Blackout periods set by an admin
  * 
  * Used by both contract creation/confirmation and rent request approval workflows
  */
 
 export interface ConflictingBooking {
   id: string;
-  type: 'CONTRACT' | 'RENT_REQUEST';
-  identifier: string; // contractNumber or requestId
+  type: 'CONTRACT' | 'RENT_REQUEST' | 'MAINTENANCE' | 'BLACKOUT';
+  identifier: string; // contractNumber, requestId, maintenance type or blackout reason
   startDate: Date;
   endDate: Date;
   status: string;
-  client: {
+  client?: { // Not set for maintenance and blackouts
     nom: string;
     prenom: string;
   };
@@ -100,6 +103,17 @@ export class BookingConflictService {
           status: {
             in: ['APPROVED', 'CONFIRMED'] // Only these statuses block new bookings
           },
+          // A converted request only blocks while its contract is still pending;
+          // once confirmed the contract itself holds the booking
+          OR: [
+            { contractId: null },
+            {
+              contract: {
+                status: 'PENDING',
+                ...(excludeContractId && { id: { not: excludeContractId } })
+              }
+            }
+          ],
           // Date overlap detection: (startA <= endB) AND (endA >= startB)
           startDate: { lte: endDate },
           endDate: { gte: startDate }
@@ -114,6 +128,38 @@ export class BookingConflictService {
         }
       });
 
+      // Check for maintenance taking the vehicle out of the fleet
+      const conflictingMaintenance = await client.maintenanceRecord.findMany({
+        where: {
+          vehicleId,
+          status: { in: BLOCKING_MAINTENANCE_STATUSES },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate }
+        },
+        select: {
+          id: true,
+          type: true,
+          startDate: true,
+          endDate: true,
+          status: true
+        }
+      });
+
+      // Check for periods an admin has kept the vehicle out of rental
+      const conflictingBlackouts = await client.vehicleBlackout.findMany({
+        where: {
+          vehicleId,
+          startDate: { lte: endDate },
+          endDate: { gte: startDate }
+        },
+        select: {
+          id: true,
+          reason: true,
+          startDate: true,
+          endDate: true
+        }
+      });
+
       // Convert to unified format
       const conflictingBookings: ConflictingBooking[] = [
         // Add conflicting contracts
@@ -144,7 +190,11 @@ export class BookingConflictService {
               prenom: prenom || ''
             }
           };
-        })
+        }),
+        // Add maintenance windows
+        ...conflictingMaintenance.map(record => this.mapMaintenance(record)),
+        // Add blackout periods
+        ...conflictingBlackouts.map(blackout => this.mapBlackout(blackout))
       ];
 
       const isAvailable = conflictingBookings.length === 0;
@@ -176,22 +226,75 @@ export class BookingConflictService {
     }
   }
 
+  /**
+   * Vehicle filter matching the vehicles with nothing blocking [startDate, endDate]
+   * Applies the same rules as isVehicleAvailableForPeriod inside a single query,
+   * so catalog searches can paginate and count on it
+   */
+  buildAvailableVehicleFilter(startDate: Date, endDate: Date): Prisma.VehicleWhereInput {
+    // Date overlap detection: (startA <= endB) AND (endA >= startB)
+    const overlap = {
+      startDate: { lte: endDate },
+      endDate: { gte: startDate }
+    };
+
+    return {
+      contracts: {
+        none: {
+          status: { in: ['CONFIRMED', 'ACTIVE'] },
+          ...overlap
+        }
+      },
+      rentRequests: {
+        none: {
+          status: { in: ['APPROVED', 'CONFIRMED'] },
+          OR: [{ contractId: null }, { contract: { status: 'PENDING' } }],
+          ...overlap
+        }
+      },
+      maintenanceRecords: {
+        none: {
+          status: { in: BLOCKING_MAINTENANCE_STATUSES },
+          ...overlap
+        }
+      },
+      blackouts: {
+        none: overlap
+      }
+    };
+  }
+
   /**
    * Generate a user-friendly error message for booking conflicts
+   * Rent request endpoints answer in French, the contract API in English
    */
-  generateConflictErrorMessage(conflictingBookings: ConflictingBooking[]): string {
+  generateConflictErrorMessage(conflictingBookings: ConflictingBooking[], language: 'fr' | 'en' = 'fr'): string {
     if (conflictingBookings.length === 0) {
       return '';
     }
 
+    const labels = language === 'en'
+      ? { MAINTENANCE: 'Maintenance', BLACKOUT: 'Blackout', CONTRACT: 'Contract', RENT_REQUEST: 'Request' }
+      : { MAINTENANCE: 'Maintenance', BLACKOUT: 'Indisponibilité', CONTRACT: 'Contrat', RENT_REQUEST: 'Demande' };
+
     const conflictDetails = conflictingBookings
       .map(booking => {
-        const clientName = `${booking.client.nom} ${booking.client.prenom}`.trim();
-        const bookingType = booking.type === 'CONTRACT' ? 'Contrat' : 'Demande';
-        return `${bookingType} ${booking.identifier} (${clientName})`;
+        if (booking.type === 'MAINTENANCE') {
+          return `${labels.MAINTENANCE} ${booking.identifier}`;
+        }
+        if (booking.type === 'BLACKOUT') {
+          return `${labels.BLACKOUT} (${booking.identifier})`;
+        }
+
+        const clientName = `${booking.client?.nom || ''} ${booking.client?.prenom || ''}`.trim();
+        return `${labels[booking.type]} ${booking.identifier} (${clientName})`;
       })
       .join(', ');
 
+    if (language === 'en') {
+      return `Booking conflict: This vehicle is already reserved or unavailable for a portion of the selected dates. Conflicting bookings: ${conflictDetails}`;
+    }
+
     return `Conflit de réservation : Ce véhicule est déjà réservé ou a une demande approuvée pour une partie de la période sélectionnée. Réservations en conflit : ${conflictDetails}`;
   }
 
@@ -300,6 +403,7 @@ export class BookingConflictService {
         where: {
           vehicleId: { in: vehicleIds },
           status: { in: ['APPROVED', 'CONFIRMED'] },
+          OR: [{ contractId: null }, { contract: { status: 'PENDING' } }],
           // Broad date range to catch all potential conflicts
           startDate: { lte: maxEndDate },
           endDate: { gte: minStartDate }
@@ -315,14 +419,52 @@ export class BookingConflictService {
         }
       });
 
+      // Fetch all blocking maintenance in one query
+      const conflictingMaintenance = await this.prisma.maintenanceRecord.findMany({
+        where: {
+          vehicleId: { in: vehicleIds },
+          status: { in: BLOCKING_MAINTENANCE_STATUSES },
+          startDate: { lte: maxEndDate },
+          endDate: { gte: minStartDate }
+        },
+        select: {
+          id: true,
+          vehicleId: true,
+          type: true,
+          startDate: true,
+          endDate: true,
+          status: true
+        }
+      });
+
+      // Fetch all blackout periods in one query
+      const conflictingBlackouts = await this.prisma.vehicleBlackout.findMany({
+        where: {
+          vehicleId: { in: vehicleIds },
+          startDate: { lte: maxEndDate },
+          endDate: { gte: minStartDate }
+        },
+        select: {
+          id: true,
+          vehicleId: true,
+          reason: true,
+          startDate: true,
+          endDate: true
+        }
+      });
+
       logger.debug('Fetched conflicts in bulk', {
         conflictingContracts: conflictingContracts.length,
-        conflictingRequests: conflictingRequests.length
+        conflictingRequests: conflictingRequests.length,
+        conflictingMaintenance: conflictingMaintenance.length,
+        conflictingBlackouts: conflictingBlackouts.length
       });
 
       // Group conflicts by vehicle for efficient lookup
       const contractsByVehicle = new Map<string, typeof conflictingContracts>();
       const requestsByVehicle = new Map<string, typeof conflictingRequests>();
+      const maintenanceByVehicle = new Map<string, typeof conflictingMaintenance>();
+      const blackoutsByVehicle = new Map<string, typeof conflictingBlackouts>();
 
       conflictingContracts.forEach(contract => {
         if (!contractsByVehicle.has(contract.vehicleId)) {
@@ -338,10 +480,26 @@ export class BookingConflictService {
         requestsByVehicle.get(request.vehicleId)!.push(request);
       });
 
+      conflictingMaintenance.forEach(record => {
+        if (!maintenanceByVehicle.has(record.vehicleId)) {
+          maintenanceByVehicle.set(record.vehicleId, []);
+        }
+        maintenanceByVehicle.get(record.vehicleId)!.push(record);
+      });
+
+      conflictingBlackouts.forEach(blackout => {
+        if (!blackoutsByVehicle.has(blackout.vehicleId)) {
+          blackoutsByVehicle.set(blackout.vehicleId, []);
+        }
+        blackoutsByVehicle.get(blackout.vehicleId)!.push(blackout);
+      });
+
       // Check each pending request for conflicts in memory
       for (const request of pendingRequests) {
         const vehicleContracts = contractsByVehicle.get(request.vehicleId) || [];
         const vehicleRequests = requestsByVehicle.get(request.vehicleId) || [];
+        const vehicleMaintenance = maintenanceByVehicle.get(request.vehicleId) || [];
+        const vehicleBlackouts = blackoutsByVehicle.get(request.vehicleId) || [];
 
         const conflicts: ConflictingBooking[] = [];
 
@@ -380,6 +538,20 @@ export class BookingConflictService {
           }
         }
 
+        // Check maintenance conflicts
+        for (const record of vehicleMaintenance) {
+          if (this.datesOverlap(request.startDate, request.endDate, record.startDate, record.endDate)) {
+            conflicts.push(this.mapMaintenance(record));
+          }
+        }
+
+        // Check blackout conflicts
+        for (const blackout of vehicleBlackouts) {
+          if (this.datesOverlap(request.startDate, request.endDate, blackout.startDate, blackout.endDate)) {
+            conflicts.push(this.mapBlackout(blackout));
+          }
+        }
+
         result.set(request.id, {
           requestId: request.requestId,
           isApprovable: conflicts.length === 0,
@@ -421,6 +593,45 @@ export class BookingConflictService {
     }
   }
 
+  /**
+   * Helper method to convert a maintenance record to the unified format
+   */
+  private mapMaintenance(record: {
+    id: string;
+    type: string;
+    startDate: Date;
+    endDate: Date;
+    status: string;
+  }): ConflictingBooking {
+    return {
+      id: record.id,
+      type: 'MAINTENANCE',
+      identifier: record.type,
+      startDate: record.startDate,
+      endDate: record.endDate,
+      status: record.status
+    };
+  }
+
+  /**
+   * Helper method to convert a blackout period to the unified format
+   */
+  private mapBlackout(blackout: {
+    id: string;
+    reason: string;
+    startDate: Date;
+    endDate: Date;
+  }): ConflictingBooking {
+    return {
+      id: blackout.id,
+      type: 'BLACKOUT',
+      identifier: blackout.reason,
+      startDate: blackout.startDate,
+      endDate: blackout.endDate,
+      status: 'BLOCKED'
+    };
+  }
+
   /**
    * Helper method to check if two date ranges overlap
    * Two ranges overlap if: (startA <= endB) AND (endA >= startB)
@@ -0,0 +1,137 @@
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { BranchRepository } from '../repositories/BranchRepository';
+import { BranchOneWayFeeResponse, BranchQuery, BranchResponse, OneWayFeeQuote } from '../types/branch';
+import { CreateBranchInput, SetOneWayFeeInput, UpdateBranchInput } from '../validators/branchValidators';
+import { roundAmount } from '../utils/payment';
+import { logger } from '../utils/logger';
+
+export interface RentalBranches {
+  pickupBranch: BranchResponse | null;
+  dropoffBranch: BranchResponse | null;
+  oneWayFee: number;
+}
+
+export class BranchService {
+  constructor(private branchRepository: BranchRepository) {}
+
+  async getBranches(query: BranchQuery): Promise<BranchResponse[]> {
+    return await this.branchRepository.findAll(query);
+  }
+
+  async getBranchById(id: string): Promise<BranchResponse | null> {
+    return await this.branchRepository.findById(id);
+  }
+
+  async createBranch(input: CreateBranchInput): Promise<BranchResponse> {
+    if (await this.branchRepository.findByCode(input.code)) {
+      throw new Error(`Branch code ${input.code} is already in use`);
+    }
+
+    const branch = await this.branchRepository.create(input);
+    logger.info('Branch created', { branchId: branch.id, code: branch.code });
+
+    return branch;
+  }
+
+  async updateBranch(id: string, input: UpdateBranchInput): Promise<BranchResponse> {
+    const existing = await this.branchRepository.findById(id);
+    if (!existing) {
+      throw new Error('Branch not found');
+    }
+
+    if (input.code && input.code !== existing.code && await this.branchRepository.findByCode(input.code)) {
+      throw new Error(`Branch code ${input.code} is already in use`);
+    }
+
+    return await this.branchRepository.update(id, input);
+  }
+
+  // Branches used by contracts keep the rental history readable; deactivate them instead
+  async deleteBranch(id: string): Promise<boolean> {
+    const existing = await this.branchRepository.findById(id);
+    if (!existing) {
+      throw new Error('Branch not found');
+    }
+
+    if (await this.branchRepository.countContracts(id) > 0) {
+      throw new Error('Branch is used by contracts and cannot be deleted; deactivate it instead');
+    }
+
+    const deleted = await this.branchRepository.delete(id);
+    if (deleted) {
+      logger.info('Branch deleted', { branchId: id, code: existing.code });
+    }
+
+    return deleted;
+  }
+
+  async getOneWayFees(branchId?: string): Promise<BranchOneWayFeeResponse[]> {
+    return await this.branchRepository.findOneWayFees(branchId);
+  }
+
+  async setOneWayFee(input: SetOneWayFeeInput): Promise<BranchOneWayFeeResponse> {
+    const [fromBranch, toBranch] = await Promise.all([
+      this.branchRepository.findById(input.fromBranchId),
+      this.branchRepository.findById(input.toBranchId)
+    ]);
+    if (!fromBranch || !toBranch) {
+      throw new Error('Branch not found');
+    }
+
+    return await this.branchRepository.upsertOneWayFee({ ...input, amount: roundAmount(input.amount) });
+  }
+
+  async deleteOneWayFee(id: string): Promise<boolean> {
+    const deleted = await this.branchRepository.deleteOneWayFee(id);
+    if (!deleted) {
+      throw new Error('One-way fee not found');
+    }
+
+    return deleted;
+  }
+
+  // Fee for returning a vehicle at another branch; pairs without a fee use the configured default
+  async getOneWayFee(pickupBranchId: string, dropoffBranchId: string): Promise<OneWayFeeQuote> {
+    if (pickupBranchId === dropoffBranchId) {
+      return { pickupBranchId, dropoffBranchId, amount: 0, isDefault: false };
+    }
+
+    const fee = await this.branchRepository.findOneWayFee(pickupBranchId, dropoffBranchId);
+
+    return {
+      pickupBranchId,
+      dropoffBranchId,
+      amount: fee ? fee.amount : roundAmount(config.branches.defaultOneWayFee),
+      isDefault: !fee
+    };
+  }
+
+  // Check the branches chosen for a rental and price its one-way fee
+  // A rental without both branches is not one-way and has no fee
+  async resolveRentalBranches(pickupBranchId?: string | null, dropoffBranchId?: string | null): Promise<RentalBranches> {
+    const [pickupBranch, dropoffBranch] = await Promise.all([
+      pickupBranchId ? this.getActiveBranch(pickupBranchId, 'Pickup') : null,
+      dropoffBranchId ? this.getActiveBranch(dropoffBranchId, 'Drop-off') : null
+    ]);
+
+    const oneWayFee = pickupBranch && dropoffBranch
+      ? (await this.getOneWayFee(pickupBranch.id, dropoffBranch.id)).amount
+      : 0;
+
+    return { pickupBranch, dropoffBranch, oneWayFee };
+  }
+
+  private async getActiveBranch(id: string, label: string): Promise<BranchResponse> {
+    const branch = await this.branchRepository.findById(id);
+    if (!branch) {
+      throw new Error(`${label} branch not found`);
+    }
+    if (!branch.isActive) {
+      throw new Error(`${label} branch is not active`);
+    }
+    return branch;
+  }
+}
+
+export const branchService = new BranchService(new BranchRepository(prisma));
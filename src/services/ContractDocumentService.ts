@@ -0,0 +1,413 @@
+import PDFDocument from 'pdfkit';
+import fs from 'fs';
+import { RentalServiceType } from '@prisma/client';
+import { config } from '../config';
+import { ContractDocumentData, ContractDocumentLanguage } from '../types/contract';
+
+/**
+ * Contract Document Service
+ * Renders the printable rental agreement (PDF) for a contract, entirely in-process with PDFKit
+ */
+
+interface DocumentLabels {
+  title: string;
+  contractNumber: string;
+  issuedOn: string;
+  tenant: string;
+  lastName: string;
+  firstName: string;
+  birth: string;
+  nationality: string;
+  address: string;
+  phone: string;
+  email: string;
+  licenseNumber: string;
+  licenseDate: string;
+  vehicle: string;
+  makeModel: string;
+  year: string;
+  color: string;
+  licensePlate: string;
+  vin: string;
+  mileage: string;
+  rental: string;
+  startDate: string;
+  endDate: string;
+  duration: string;
+  serviceType: string;
+  pickupLocation: string;
+  dropoffLocation: string;
+  pricing: string;
+  item: string;
+  quantity: string;
+  unitPrice: string;
+  total: string;
+  rentalLine: string;
+  subtotal: string;
+  discount: string;
+  oneWayFee: string;
+  totalAmount: string;
+  paidAmount: string;
+  balance: string;
+  terms: string;
+  termsText: string[];
+  lessorSignature: string;
+  tenantSignature: string;
+  readAndApproved: string;
+  serviceTypes: Record<RentalServiceType, string>;
+}
+
+const LABELS: Record<ContractDocumentLanguage, DocumentLabels> = {
+  fr: {
+    title: 'CONTRAT DE LOCATION DE VÉHICULE',
+    contractNumber: 'Contrat N°',
+    issuedOn: 'Établi le',
+    tenant: 'Locataire',
+    lastName: 'Nom',
+    firstName: 'Prénom',
+    birth: 'Date et lieu de naissance',
+    nationality: 'Nationalité',
+    address: 'Adresse',
+    phone: 'Téléphone',
+    email: 'Email',
+    licenseNumber: 'N° de permis de conduire',
+    licenseDate: 'Date de délivrance du permis',
+    vehicle: 'Véhicule',
+    makeModel: 'Marque / Modèle',
+    year: 'Année',
+    color: 'Couleur',
+    licensePlate: 'Immatriculation',
+    vin: 'N° de châssis (VIN)',
+    mileage: 'Kilométrage',
+    rental: 'Location',
+    startDate: 'Date de départ',
+    endDate: 'Date de retour',
+    duration: 'Durée (jours)',
+    serviceType: 'Type de service',
+    pickupLocation: 'Lieu de prise en charge',
+    dropoffLocation: 'Lieu de restitution',
+    pricing: 'Tarification',
+    item: 'Désignation',
+    quantity: 'Qté',
+    unitPrice: 'Prix unitaire',
+    total: 'Total',
+    rentalLine: 'Location du véhicule (par jour)',
+    subtotal: 'Sous-total',
+    discount: 'Remise',
+    oneWayFee: 'Frais d\'aller simple (restitution dans une autre agence)',
+    totalAmount: 'Montant total',
+    paidAmount: 'Montant payé',
+    balance: 'Reste à payer',
+    terms: 'Conditions',
+    termsText: [
+      'Le locataire reconnaît avoir reçu le véhicule en bon état de marche et s\'engage à le restituer dans le même état, à la date et au lieu convenus.',
+      'Le locataire est responsable des infractions commises pendant la durée de la location ainsi que des dommages non couverts par l\'assurance.',
+      'Tout retard de restitution peut donner lieu à une facturation supplémentaire.',
+    ],
+    lessorSignature: 'Signature du loueur',
+    tenantSignature: 'Signature du locataire',
+    readAndApproved: '« Lu et approuvé »',
+    serviceTypes: {
+      INDIVIDUAL: 'Particulier',
+      EVENTS: 'Événements',
+      ENTERPRISE: 'Entreprise',
+    },
+  },
+  ar: {
+    title: 'عقد كراء سيارة',
+    contractNumber: 'رقم العقد',
+    issuedOn: 'حرر بتاريخ',
+    tenant: 'المستأجر',
+    lastName: 'اللقب',
+    firstName: 'الاسم',
+    birth: 'تاريخ ومكان الميلاد',
+    nationality: 'الجنسية',
+    address: 'العنوان',
+    phone: 'الهاتف',
+    email: 'البريد الإلكتروني',
+    licenseNumber: 'رقم رخصة السياقة',
+    licenseDate: 'تاريخ إصدار الرخصة',
+    vehicle: 'السيارة',
+    makeModel: 'العلامة / الطراز',
+    year: 'السنة',
+    color: 'اللون',
+    licensePlate: 'رقم التسجيل',
+    vin: 'رقم الهيكل',
+    mileage: 'عدد الكيلومترات',
+    rental: 'الكراء',
+    startDate: 'تاريخ الانطلاق',
+    endDate: 'تاريخ الإرجاع',
+    duration: 'المدة (أيام)',
+    serviceType: 'نوع الخدمة',
+    pickupLocation: 'مكان الاستلام',
+    dropoffLocation: 'مكان الإرجاع',
+    pricing: 'التسعيرة',
+    item: 'البيان',
+    quantity: 'الكمية',
+    unitPrice: 'سعر الوحدة',
+    total: 'المجموع',
+    rentalLine: 'كراء السيارة (لليوم)',
+    subtotal: 'المجموع الفرعي',
+    discount: 'التخفيض',
+    oneWayFee: 'رسوم الإرجاع في وكالة أخرى',
+    totalAmount: 'المبلغ الإجمالي',
+    paidAmount: 'المبلغ المدفوع',
+    balance: 'المبلغ المتبقي',
+    terms: 'الشروط',
+    termsText: [
+      'يقر المستأجر باستلام السيارة في حالة جيدة ويلتزم بإرجاعها في نفس الحالة وفي التاريخ والمكان المتفق عليهما.',
+      'يتحمل المستأجر مسؤولية المخالفات المرتكبة خلال مدة الكراء والأضرار غير المغطاة بالتأمين.',
+      'قد يترتب على أي تأخير في الإرجاع فوترة إضافية.',
+    ],
+    lessorSignature: 'إمضاء المؤجر',
+    tenantSignature: 'إمضاء المستأجر',
+    readAndApproved: 'قرئ وصودق عليه',
+    serviceTypes: {
+      INDIVIDUAL: 'أفراد',
+      EVENTS: 'مناسبات',
+      ENTERPRISE: 'مؤسسات',
+    },
+  },
+};
+
+const PAGE_MARGIN = 40;
+const LATIN_FONT = 'Helvetica';
+const LATIN_FONT_BOLD = 'Helvetica-Bold';
+const ARABIC_FONT = 'Arabic';
+
+export class ContractDocumentService {
+  /**
+   * Render the rental agreement PDF for a contract
+   */
+  async generateContractPdf(
+    contract: ContractDocumentData,
+    language: ContractDocumentLanguage = 'fr'
+  ): Promise<Buffer> {
+    const labels = LABELS[language];
+    const rtl = language === 'ar';
+
+    if (rtl && (!config.documents.arabicFontPath || !fs.existsSync(config.documents.arabicFontPath))) {
+      throw new Error('Arabic documents require CONTRACT_PDF_ARABIC_FONT to point to a font file with Arabic glyphs');
+    }
+
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: PAGE_MARGIN,
+      info: {
+        Title: `${labels.title} ${contract.contractNumber}`,
+        Author: config.documents.companyName,
+      },
+    });
+
+    if (rtl) {
+      doc.registerFont(ARABIC_FONT, config.documents.arabicFontPath);
+    }
+
+    const chunks: Buffer[] = [];
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+    });
+
+    const labelFont = rtl ? ARABIC_FONT : LATIN_FONT;
+    const headingFont = rtl ? ARABIC_FONT : LATIN_FONT_BOLD;
+    const pageWidth = doc.page.width - PAGE_MARGIN * 2;
+    const currency = config.documents.currency;
+
+    // Labels and values are drawn in separate cells so Arabic labels never mix with Latin values
+    const field = (label: string, value: string | number | null | undefined, valueFont: string = LATIN_FONT) => {
+      const y = doc.y;
+      const labelWidth = pageWidth * 0.4;
+      const valueWidth = pageWidth - labelWidth;
+      const text = value === null || value === undefined || value === '' ? '-' : String(value);
+
+      doc.font(labelFont).fontSize(8.5).fillColor('#555555')
+        .text(label, rtl ? PAGE_MARGIN + valueWidth : PAGE_MARGIN, y, { width: labelWidth, align: rtl ? 'right' : 'left' });
+      const labelBottom = doc.y;
+
+      doc.font(valueFont).fontSize(9.5).fillColor('#000000')
+        .text(text, rtl ? PAGE_MARGIN : PAGE_MARGIN + labelWidth, y, { width: valueWidth, align: rtl ? 'right' : 'left' });
+
+      doc.y = Math.max(doc.y, labelBottom) + 2;
+    };
+
+    const section = (title: string) => {
+      doc.moveDown(0.4);
+      const y = doc.y;
+      doc.rect(PAGE_MARGIN, y, pageWidth, 18).fill('#eeeeee');
+      doc.font(headingFont).fontSize(11).fillColor('#000000')
+        .text(title, PAGE_MARGIN + 6, y + 4, { width: pageWidth - 12, align: rtl ? 'right' : 'left' });
+      doc.y = y + 22;
+    };
+
+    // Header
+    doc.font(LATIN_FONT_BOLD).fontSize(14).text(config.documents.companyName, PAGE_MARGIN, PAGE_MARGIN, { width: pageWidth, align: 'center' });
+    const companyDetails = [config.documents.companyAddress, config.documents.companyPhone].filter(Boolean).join(' - ');
+    if (companyDetails) {
+      doc.font(LATIN_FONT).fontSize(9).text(companyDetails, { width: pageWidth, align: 'center' });
+    }
+    doc.moveDown(0.8);
+    doc.font(headingFont).fontSize(16).text(labels.title, { width: pageWidth, align: 'center' });
+    doc.moveDown(0.4);
+    field(labels.contractNumber, contract.contractNumber);
+    field(labels.issuedOn, this.formatDate(contract.createdAt));
+
+    // Tenant identity and driving license
+    const client = contract.client;
+    section(labels.tenant);
+    field(labels.lastName, client.nom);
+    field(labels.firstName, client.prenom);
+    field(labels.birth, [this.formatDate(client.dateNaissance), client.lieuNaissance].filter(Boolean).join(' - '));
+    field(labels.nationality, client.nationalite);
+    field(labels.address, client.adresse);
+    field(labels.phone, client.telephone);
+    field(labels.email, client.email);
+    field(labels.licenseNumber, client.numeroPermis);
+    field(labels.licenseDate, this.formatDate(client.datePermis));
+
+    // Vehicle
+    const vehicle = contract.vehicle;
+    section(labels.vehicle);
+    field(labels.makeModel, `${vehicle.make} ${vehicle.model}`);
+    field(labels.year, vehicle.year);
+    field(labels.color, vehicle.color);
+    field(labels.licensePlate, vehicle.licensePlate);
+    field(labels.vin, vehicle.vin);
+    field(labels.mileage, vehicle.mileage !== null && vehicle.mileage !== undefined ? `${vehicle.mileage} km` : null);
+
+    // Rental period
+    section(labels.rental);
+    field(labels.startDate, this.formatDate(contract.startDate));
+    field(labels.endDate, this.formatDate(contract.endDate));
+    field(labels.duration, contract.totalDays);
+    field(labels.serviceType, labels.serviceTypes[contract.serviceType], labelFont);
+    field(labels.pickupLocation, contract.pickupLocation);
+    field(labels.dropoffLocation, contract.dropoffLocation);
+
+    // Pricing table: rental line, accessories, then totals
+    section(labels.pricing);
+    const columns = rtl
+      ? [
+          { width: 0.2, align: 'left' as const },
+          { width: 0.2, align: 'left' as const },
+          { width: 0.1, align: 'center' as const },
+          { width: 0.5, align: 'right' as const },
+        ]
+      : [
+          { width: 0.5, align: 'left' as const },
+          { width: 0.1, align: 'center' as const },
+          { width: 0.2, align: 'right' as const },
+          { width: 0.2, align: 'right' as const },
+        ];
+
+    // Cells are given in reading order (item, quantity, unit price, total)
+    const tableRow = (cells: string[], options: { header?: boolean; itemFont?: string } = {}) => {
+      const ordered = rtl ? [...cells].reverse() : cells;
+      const itemIndex = rtl ? 3 : 0;
+      const y = doc.y;
+      let x = PAGE_MARGIN;
+      let bottom = y;
+
+      ordered.forEach((cell, index) => {
+        const width = pageWidth * columns[index].width;
+        const isLabel = options.header || index === itemIndex;
+        const font = isLabel ? (options.itemFont || (options.header ? headingFont : labelFont)) : LATIN_FONT;
+        doc.font(font).fontSize(9).fillColor('#000000')
+          .text(cell, x + 2, y, { width: width - 4, align: columns[index].align });
+        bottom = Math.max(bottom, doc.y);
+        x += width;
+      });
+
+      doc.y = bottom + 2;
+      doc.moveTo(PAGE_MARGIN, doc.y).lineTo(PAGE_MARGIN + pageWidth, doc.y).strokeColor('#cccccc').stroke();
+      doc.y += 3;
+    };
+
+    tableRow([labels.item, labels.quantity, labels.unitPrice, labels.total], { header: true });
+    tableRow([
+      labels.rentalLine,
+      `${contract.totalDays}`,
+      this.formatAmount(contract.dailyRate, currency),
+      this.formatAmount(contract.subtotal, currency),
+    ]);
+    contract.accessories.forEach(accessory => {
+      // Accessory names are free text entered by agents, so they use the Latin font
+      tableRow([
+        accessory.name,
+        `${accessory.quantity}`,
+        this.formatAmount(accessory.price, currency),
+        this.formatAmount(accessory.price * accessory.quantity, currency),
+      ], { itemFont: LATIN_FONT });
+    });
+
+    doc.moveDown(0.4);
+    const discount = contract.discountAmount || 0;
+    field(labels.subtotal, this.formatAmount(contract.subtotal + contract.accessoriesTotal, currency));
+    if (discount > 0) {
+      field(labels.discount, `- ${this.formatAmount(discount, currency)}`);
+    }
+    if (contract.oneWayFee > 0) {
+      field(labels.oneWayFee, this.formatAmount(contract.oneWayFee, currency));
+    }
+    field(labels.totalAmount, this.formatAmount(contract.totalAmount, currency), LATIN_FONT_BOLD);
+    field(labels.paidAmount, this.formatAmount(contract.paidAmount, currency));
+    field(labels.balance, this.formatAmount(Math.max(contract.totalAmount - contract.paidAmount, 0), currency));
+
+    // Terms
+    section(labels.terms);
+    labels.termsText.forEach(paragraph => {
+      doc.font(labelFont).fontSize(8).fillColor('#333333')
+        .text(paragraph, PAGE_MARGIN, doc.y, { width: pageWidth, align: rtl ? 'right' : 'justify' });
+      doc.moveDown(0.3);
+    });
+
+    // Signature area, kept together on one page
+    const signatureHeight = 90;
+    if (doc.y + signatureHeight + 30 > doc.page.height - PAGE_MARGIN) {
+      doc.addPage();
+    }
+    doc.moveDown(1);
+    const signatureY = doc.y;
+    const boxWidth = (pageWidth - 20) / 2;
+    const boxes = rtl
+      ? [labels.tenantSignature, labels.lessorSignature]
+      : [labels.lessorSignature, labels.tenantSignature];
+
+    boxes.forEach((title, index) => {
+      const x = PAGE_MARGIN + index * (boxWidth + 20);
+      doc.font(headingFont).fontSize(10).fillColor('#000000')
+        .text(title, x, signatureY, { width: boxWidth, align: 'center' });
+      doc.font(labelFont).fontSize(8).fillColor('#555555')
+        .text(labels.readAndApproved, x, signatureY + 14, { width: boxWidth, align: 'center' });
+      doc.rect(x, signatureY + 28, boxWidth, signatureHeight - 28).strokeColor('#999999').stroke();
+    });
+
+    doc.end();
+    return done;
+  }
+
+  /**
+   * Format date as DD/MM/YYYY
+   */
+  private formatDate(date: Date | string | null | undefined): string {
+    if (!date) return '';
+    const d = new Date(date);
+    if (isNaN(d.getTime())) return '';
+    const day = d.getDate().toString().padStart(2, '0');
+    const month = (d.getMonth() + 1).toString().padStart(2, '0');
+    return `${day}/${month}/${d.getFullYear()}`;
+  }
+
+  /**
+   * Format amount with space-separated thousands (standard PDF fonts lack the narrow no-break space used by Intl)
+   */
+  private formatAmount(amount: number, currency: string): string {
+    const [integer, decimals] = Math.abs(amount).toFixed(2).split('.');
+    const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+    return `${amount < 0 ? '-' : ''}${grouped},${decimals} ${currency}`;
+  }
+}
+
+// Export singleton instance
+export const contractDocumentService = new ContractDocumentService();
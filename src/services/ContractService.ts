@@ -9,22 +9,73 @@ import {
   VehicleAvailabilityResponse,
   VehicleCalendarResponse,
   ContractDashboardData,
-  BulkContractResult
+  BulkContractResult,
+  ContractDocumentLanguage,
+  ExtendContractInput,
+  ContractExtensionResponse,
+  ContractExtensionResult,
+  CompleteContractOptions
 } from '../types/contract';
 import { ContractRepository } from '../repositories/ContractRepository';
 import { VehicleRepository } from '../repositories/VehicleRepository';
 import { ClientRepository } from '../repositories/ClientRepository';
+import { PaymentRepository } from '../repositories/PaymentRepository';
+import {
+  CreatePaymentInput,
+  RefundPaymentInput,
+  VoidPaymentInput,
+  PaymentResponse,
+  PaymentLedgerResponse,
+  PAYMENT_METHODS
+} from '../types/payment';
+import { DepositRepository } from '../repositories/DepositRepository';
+import {
+  CollectDepositInput,
+  UpdateDepositInput,
+  ReleaseDepositInput,
+  ContractDepositResponse,
+  DEPOSIT_DEDUCTION_REASONS
+} from '../types/deposit';
+import { InspectionRepository } from '../repositories/InspectionRepository';
+import {
+  CreateInspectionInput,
+  ContractInspectionResponse,
+  ContractHandoverResponse,
+  DamageMark,
+  DAMAGE_TYPES
+} from '../types/inspection';
+import { compareInspections } from '../utils/inspection';
+import { imageService } from './ImageService';
+import { logger } from '../utils/logger';
 import * as XLSX from 'xlsx';
+import { contractDocumentService } from './ContractDocumentService';
+import { pricingService } from './PricingService';
+import { branchService } from './BranchService';
+import { BranchResponse } from '../types/branch';
+import { promoCodeService } from './PromoCodeService';
+import { countRentalDays } from '../utils/pricing';
+import { roundAmount } from '../utils/payment';
+import { calculateLateFee } from '../utils/lateFee';
+import { config } from '../config';
 
 export class ContractService {
   constructor(
     private contractRepository: ContractRepository,
     private vehicleRepository: VehicleRepository,
-    private clientRepository: ClientRepository
+    private clientRepository: ClientRepository,
+    private paymentRepository: PaymentRepository,
+    private depositRepository: DepositRepository,
+    private inspectionRepository: InspectionRepository
   ) {}
 
   // Create a new contract with atomic booking conflict detection
-  async createContract(input: CreateContractInput): Promise<ContractResponse> {
+  // Without a manual daily rate the contract is priced with the pricing rules
+  async createContract(
+    input: Omit<CreateContractInput, 'dailyRate' | 'subtotal' | 'promoCodeId' | 'promoDiscountAmount'> & {
+      dailyRate?: number;
+      promoCode?: string;
+    }
+  ): Promise<ContractResponse> {
     // Validate client exists and is active
     const client = await this.clientRepository.findById(input.clientId);
     if (!client) {
@@ -71,10 +122,50 @@ export class ContractService {
       throw new Error(`Vehicle does not support ${input.serviceType} service type`);
     }
 
+    let pricing: Pick<CreateContractInput, 'dailyRate' | 'subtotal'>;
+    if (input.dailyRate !== undefined) {
+      if (input.dailyRate < 0) {
+        throw new Error('Daily rate cannot be negative');
+      }
+      pricing = { dailyRate: input.dailyRate };
+    } else {
+      const quote = await pricingService.getQuote({
+        vehicleId: input.vehicleId,
+        startDate: start,
+        endDate: end,
+        serviceType: input.serviceType
+      });
+      pricing = { dailyRate: quote.dailyRate, subtotal: quote.subtotal };
+    }
+
+    // Returning the vehicle at another branch adds the one-way fee
+    const branches = await branchService.resolveRentalBranches(input.pickupBranchId, input.dropoffBranchId);
+
+    // Promo codes discount the rental days only; the code is recorded on the contract
+    const { promoCode: code, ...contractInput } = input;
+    const promoCode = code
+      ? await promoCodeService.evaluate({
+          code,
+          amount: pricing.subtotal ?? pricing.dailyRate * countRentalDays(start, end),
+          vehicleCategory: vehicle.category,
+          serviceType: input.serviceType,
+          clientId: input.clientId
+        })
+      : null;
+
     // Create the contract with atomic booking validation
     // This prevents race conditions by checking availability within the same transaction
-    const finalInput = {
-      ...input,
+    const finalInput: CreateContractInput = {
+      ...contractInput,
+      ...pricing,
+      ...(promoCode && {
+        discountAmount: roundAmount((input.discountAmount || 0) + promoCode.discountAmount),
+        promoCodeId: promoCode.id,
+        promoDiscountAmount: promoCode.discountAmount
+      }),
+      pickupLocation: input.pickupLocation || this.formatBranchLocation(branches.pickupBranch),
+      dropoffLocation: input.dropoffLocation || this.formatBranchLocation(branches.dropoffBranch),
+      oneWayFee: branches.oneWayFee,
       startDate: start,
       endDate: end
     };
@@ -89,7 +180,27 @@ export class ContractService {
 
   // Get contract by ID
   async getContractById(id: string): Promise<ContractResponse | null> {
-    return await this.contractRepository.findById(id);
+    const contract = await this.contractRepository.findById(id);
+    if (!contract) {
+      return null;
+    }
+
+    const handover = await this.getHandover(id);
+    return { ...contract, handover: handover.comparison };
+  }
+
+  // Render the printable rental agreement (PDF)
+  async generateContractDocument(
+    id: string,
+    language: ContractDocumentLanguage = 'fr'
+  ): Promise<{ contractNumber: string; buffer: Buffer } | null> {
+    const contract = await this.contractRepository.findByIdForDocument(id);
+    if (!contract) {
+      return null;
+    }
+
+    const buffer = await contractDocumentService.generateContractPdf(contract, language);
+    return { contractNumber: contract.contractNumber, buffer };
   }
 
   // Update contract
@@ -125,21 +236,63 @@ export class ContractService {
       );
       
       if (!validation.available) {
-        const conflictDetails = validation.conflictingContracts
-          .map(c => `${c.contractNumber} (${c.client.nom} ${c.client.prenom})`)
-          .join(', ');
-        throw new Error(`Booking conflict: Vehicle is not available for the selected dates. Conflicting contracts: ${conflictDetails}`);
+        throw new Error(validation.errorMessage);
+      }
+
+      if (input.endDate) {
+        await this.contractRepository.assertVehicleInsured(existingContract.vehicleId, end);
+      }
+    }
+
+    // Confirming through an update needs the same insurance cover as confirmContract;
+    // a new end date was already checked above
+    if (input.status === 'CONFIRMED' && existingContract.status !== 'CONFIRMED' && !input.endDate) {
+      await this.contractRepository.assertVehicleInsured(existingContract.vehicleId, existingContract.endDate);
+    }
+
+    if (input.status === 'COMPLETED' && existingContract.status !== 'COMPLETED') {
+      const deposit = await this.depositRepository.findByContractId(id);
+      if (deposit?.status === 'HELD') {
+        throw new Error('Security deposit is still held. Release it before completing the contract');
+      }
+    }
+
+    // Payment fields are derived from the payment ledger and cannot be set directly,
+    // nor can the one-way fee, which follows the branches
+    const { paidAmount, paymentStatus, oneWayFee, ...editableInput } = input as UpdateContractInput & {
+      paidAmount?: number;
+      paymentStatus?: string;
+    };
+    const contractInput: UpdateContractInput = { ...editableInput };
+
+    if (input.pickupBranchId !== undefined || input.dropoffBranchId !== undefined) {
+      const pickupBranchId = input.pickupBranchId !== undefined ? input.pickupBranchId : existingContract.pickupBranchId;
+      const dropoffBranchId = input.dropoffBranchId !== undefined ? input.dropoffBranchId : existingContract.dropoffBranchId;
+      const branches = await branchService.resolveRentalBranches(pickupBranchId, dropoffBranchId);
+
+      contractInput.oneWayFee = branches.oneWayFee;
+      if (input.pickupBranchId && !input.pickupLocation) {
+        contractInput.pickupLocation = this.formatBranchLocation(branches.pickupBranch);
+      }
+      if (input.dropoffBranchId && !input.dropoffLocation) {
+        contractInput.dropoffLocation = this.formatBranchLocation(branches.dropoffBranch);
       }
     }
 
     // Add admin ID to update if provided
-    const updateData = adminId ? { ...input, adminId } : input;
+    const updateData = adminId ? { ...contractInput, adminId } : contractInput;
     
     const updatedContract = await this.contractRepository.update(id, updateData);
     if (!updatedContract) {
       throw new Error('Failed to update contract');
     }
 
+    // A new total changes what is still due, so re-derive the payment status
+    if (updatedContract.totalAmount !== existingContract.totalAmount) {
+      await this.paymentRepository.syncContractTotals(id);
+      return (await this.contractRepository.findById(id))!;
+    }
+
     return updatedContract;
   }
 
@@ -218,7 +371,14 @@ export class ContractService {
   }
 
   // Complete contract
-  async completeContract(id: string, adminId?: string): Promise<ContractResponse> {
+  // A held deposit must be settled first unless the admin explicitly overrides;
+  // a return after the end date adds the configured late fee unless waived
+  async completeContract(
+    id: string,
+    adminId?: string,
+    overrideDeposit: boolean = false,
+    options: CompleteContractOptions = {}
+  ): Promise<ContractResponse> {
     const contract = await this.contractRepository.findById(id);
     if (!contract) {
       throw new Error('Contract not found');
@@ -228,8 +388,29 @@ export class ContractService {
       throw new Error('Only active contracts can be completed');
     }
 
+    const deposit = await this.depositRepository.findByContractId(id);
+    if (deposit?.status === 'HELD') {
+      if (!overrideDeposit) {
+        throw new Error('Security deposit is still held. Release it before completing the contract or override explicitly');
+      }
+      logger.warn('Contract completed with security deposit still held', { contractId: id, adminId });
+    }
+
+    const returnedAt = options.returnedAt || new Date();
+    if (isNaN(returnedAt.getTime()) || returnedAt > new Date()) {
+      throw new Error('Return date must be a valid date that is not in the future');
+    }
+
+    const lateFee = calculateLateFee(contract.endDate, returnedAt, contract.dailyRate, config.lateReturn);
+    if (lateFee.fee > 0 && options.waiveLateFee) {
+      logger.info('Late return fee waived', { contractId: id, adminId, lateMinutes: lateFee.lateMinutes, fee: lateFee.fee });
+    }
+    const lateFeeAmount = options.waiveLateFee ? 0 : lateFee.fee;
+
     const updatedContract = await this.contractRepository.update(id, {
       status: 'COMPLETED',
+      returnedAt,
+      ...(lateFeeAmount > 0 && { lateFeeAmount }),
       ...(adminId && { adminId })
     });
 
@@ -237,9 +418,54 @@ export class ContractService {
       throw new Error('Failed to complete contract');
     }
 
+    // The late fee raises the total, so re-derive the payment status
+    if (lateFeeAmount > 0) {
+      await this.paymentRepository.syncContractTotals(id);
+      return (await this.contractRepository.findById(id))!;
+    }
+
     return updatedContract;
   }
 
+  // Extend the rental period of a contract, pricing the additional days
+  async extendContract(input: ExtendContractInput): Promise<ContractExtensionResult> {
+    if (isNaN(input.endDate.getTime())) {
+      throw new Error('New end date must be a valid date');
+    }
+
+    if (input.dailyRate !== undefined && !(input.dailyRate > 0)) {
+      throw new Error('Daily rate must be greater than 0');
+    }
+
+    const result = await this.contractRepository.extendWithBookingValidation({
+      ...input,
+      reason: input.reason?.trim() || undefined
+    });
+
+    // A new total changes what is still due, so re-derive the payment status
+    await this.paymentRepository.syncContractTotals(input.contractId);
+    const contract = await this.contractRepository.findById(input.contractId);
+
+    logger.info('Contract extended', {
+      contractId: input.contractId,
+      adminId: input.adminId,
+      newEndDate: input.endDate,
+      additionalDays: result.extension.additionalDays
+    });
+
+    return { ...result, contract: contract || result.contract };
+  }
+
+  // Get the extension history of a contract
+  async getExtensions(contractId: string): Promise<ContractExtensionResponse[] | null> {
+    const contract = await this.contractRepository.findById(contractId);
+    if (!contract) {
+      return null;
+    }
+
+    return await this.contractRepository.findExtensions(contractId);
+  }
+
   // Update payment status
   async updatePayment(id: string, paidAmount: number, adminId?: string): Promise<ContractResponse> {
     const contract = await this.contractRepository.findById(id);
@@ -260,21 +486,23 @@ export class ContractService {
       throw new Error('Paid amount cannot exceed total amount');
     }
 
-    let paymentStatus: 'PENDING' | 'PARTIAL' | 'PAID';
-    if (paidAmount === 0) {
-      paymentStatus = 'PENDING';
-    } else if (paidAmount < contract.totalAmount) {
-      paymentStatus = 'PARTIAL';
-    } else {
-      paymentStatus = 'PAID';
+    // Kept for older clients: the difference is recorded as a cash entry in the ledger
+    const difference = Math.round((paidAmount - contract.paidAmount) * 100) / 100;
+    if (difference < 0) {
+      throw new Error('Paid amount cannot be reduced directly, void or refund a payment instead');
     }
 
-    const updatedContract = await this.contractRepository.update(id, {
-      paidAmount,
-      paymentStatus,
-      ...(adminId && { adminId })
-    });
+    if (difference > 0) {
+      await this.paymentRepository.create({
+        contractId: id,
+        adminId,
+        amount: difference,
+        method: 'CASH',
+        notes: 'Recorded through the paid amount update'
+      });
+    }
 
+    const updatedContract = await this.contractRepository.findById(id);
     if (!updatedContract) {
       throw new Error('Failed to update payment');
     }
@@ -282,6 +510,241 @@ export class ContractService {
     return updatedContract;
   }
 
+  // Get the payment ledger of a contract
+  async getPaymentLedger(id: string): Promise<PaymentLedgerResponse | null> {
+    return await this.paymentRepository.getLedger(id);
+  }
+
+  // Record a payment received for a contract
+  async addPayment(input: CreatePaymentInput): Promise<PaymentResponse> {
+    if (!(input.amount > 0)) {
+      throw new Error('Payment amount must be greater than 0');
+    }
+
+    if (!PAYMENT_METHODS.includes(input.method)) {
+      throw new Error(`Invalid payment method. Allowed values: ${PAYMENT_METHODS.join(', ')}`);
+    }
+
+    if (input.paidAt && (isNaN(input.paidAt.getTime()) || input.paidAt > new Date())) {
+      throw new Error('Payment date must be a valid date that is not in the future');
+    }
+
+    return await this.paymentRepository.create(input);
+  }
+
+  // Refund all or part of a payment
+  async refundPayment(input: RefundPaymentInput): Promise<PaymentResponse> {
+    if (input.amount !== undefined && !(input.amount > 0)) {
+      throw new Error('Refund amount must be greater than 0');
+    }
+
+    if (input.method && !PAYMENT_METHODS.includes(input.method)) {
+      throw new Error(`Invalid payment method. Allowed values: ${PAYMENT_METHODS.join(', ')}`);
+    }
+
+    return await this.paymentRepository.refund(input);
+  }
+
+  // Void a payment or refund recorded by mistake
+  async voidPayment(input: VoidPaymentInput): Promise<PaymentResponse> {
+    if (!input.reason || input.reason.trim().length === 0) {
+      throw new Error('A reason is required to void a payment');
+    }
+
+    return await this.paymentRepository.void({ ...input, reason: input.reason.trim() });
+  }
+
+  // Get the security deposit of a contract
+  async getDeposit(contractId: string): Promise<ContractDepositResponse | null> {
+    return await this.depositRepository.findByContractId(contractId);
+  }
+
+  // Record the security deposit collected for a contract
+  async collectDeposit(input: CollectDepositInput): Promise<ContractDepositResponse> {
+    const contract = await this.contractRepository.findById(input.contractId);
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    if (contract.status === 'COMPLETED' || contract.status === 'CANCELLED') {
+      throw new Error('Cannot collect a deposit for a completed or cancelled contract');
+    }
+
+    const existing = await this.depositRepository.findByContractId(input.contractId);
+    if (existing) {
+      throw new Error('A deposit has already been recorded for this contract');
+    }
+
+    if (!(input.amount > 0)) {
+      throw new Error('Deposit amount must be greater than 0');
+    }
+
+    if (!PAYMENT_METHODS.includes(input.method)) {
+      throw new Error(`Invalid payment method. Allowed values: ${PAYMENT_METHODS.join(', ')}`);
+    }
+
+    if (input.heldAt && (isNaN(input.heldAt.getTime()) || input.heldAt > new Date())) {
+      throw new Error('Deposit date must be a valid date that is not in the future');
+    }
+
+    return await this.depositRepository.create(input);
+  }
+
+  // Correct the details of a held deposit
+  async updateDeposit(contractId: string, input: UpdateDepositInput): Promise<ContractDepositResponse> {
+    const deposit = await this.depositRepository.findByContractId(contractId);
+    if (!deposit) {
+      throw new Error('No deposit recorded for this contract');
+    }
+
+    if (deposit.status !== 'HELD') {
+      throw new Error('Cannot update a deposit that has already been settled');
+    }
+
+    if (input.amount !== undefined && !(input.amount > 0)) {
+      throw new Error('Deposit amount must be greater than 0');
+    }
+
+    if (input.method && !PAYMENT_METHODS.includes(input.method)) {
+      throw new Error(`Invalid payment method. Allowed values: ${PAYMENT_METHODS.join(', ')}`);
+    }
+
+    return await this.depositRepository.update(contractId, input);
+  }
+
+  // Settle the deposit, returning it in full or retaining part of it
+  async releaseDeposit(input: ReleaseDepositInput): Promise<ContractDepositResponse> {
+    const contract = await this.contractRepository.findById(input.contractId);
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    for (const deduction of input.deductions) {
+      if (!DEPOSIT_DEDUCTION_REASONS.includes(deduction.reason)) {
+        throw new Error(`Invalid deduction reason. Allowed values: ${DEPOSIT_DEDUCTION_REASONS.join(', ')}`);
+      }
+      if (typeof deduction.amount !== 'number' || !(deduction.amount > 0)) {
+        throw new Error('Deduction amount must be greater than 0');
+      }
+    }
+
+    return await this.depositRepository.release(input);
+  }
+
+  // Get the check-out and check-in records of a contract with their difference
+  async getInspections(contractId: string): Promise<ContractHandoverResponse | null> {
+    const contract = await this.contractRepository.findById(contractId);
+    if (!contract) {
+      return null;
+    }
+
+    return await this.getHandover(contractId);
+  }
+
+  private async getHandover(contractId: string): Promise<ContractHandoverResponse> {
+    const inspections = (await this.inspectionRepository.findByContractId(contractId))
+      .map(inspection => this.withPhotoUrls(inspection));
+
+    const checkOut = inspections.find(inspection => inspection.type === 'CHECK_OUT') || null;
+    const checkIn = inspections.find(inspection => inspection.type === 'CHECK_IN') || null;
+
+    return {
+      checkOut,
+      checkIn,
+      comparison: checkOut && checkIn ? compareInspections(checkOut, checkIn) : null
+    };
+  }
+
+  // Record the vehicle condition at pickup (CHECK_OUT) or return (CHECK_IN)
+  async recordInspection(input: CreateInspectionInput): Promise<ContractInspectionResponse> {
+    const contract = await this.contractRepository.findById(input.contractId);
+    if (!contract) {
+      throw new Error('Contract not found');
+    }
+
+    if (input.type === 'CHECK_OUT' && !['CONFIRMED', 'ACTIVE'].includes(contract.status)) {
+      throw new Error('Check-out can only be recorded for confirmed or active contracts');
+    }
+
+    if (input.type === 'CHECK_IN' && !['ACTIVE', 'COMPLETED'].includes(contract.status)) {
+      throw new Error('Check-in can only be recorded for active or completed contracts');
+    }
+
+    const existing = await this.inspectionRepository.findByContractAndType(input.contractId, input.type);
+    if (existing) {
+      throw new Error(`A ${input.type === 'CHECK_OUT' ? 'check-out' : 'check-in'} inspection has already been recorded for this contract`);
+    }
+
+    if (!Number.isInteger(input.mileage) || input.mileage < 0) {
+      throw new Error('Mileage must be a positive whole number');
+    }
+
+    if (!Number.isInteger(input.fuelLevel) || input.fuelLevel < 0 || input.fuelLevel > 100) {
+      throw new Error('Fuel level must be a whole percentage between 0 and 100');
+    }
+
+    this.validateDamageMarks(input.damages);
+
+    if (input.inspectedAt && (isNaN(input.inspectedAt.getTime()) || input.inspectedAt > new Date())) {
+      throw new Error('Inspection date must be a valid date that is not in the future');
+    }
+
+    if (input.type === 'CHECK_IN') {
+      const checkOut = await this.inspectionRepository.findByContractAndType(input.contractId, 'CHECK_OUT');
+      if (checkOut && input.mileage < checkOut.mileage) {
+        throw new Error(`Check-in mileage cannot be lower than the check-out mileage of ${checkOut.mileage}`);
+      }
+    }
+
+    // Upload photos first; remove them again if the record cannot be saved
+    const photoPaths: string[] = [];
+    try {
+      for (const photo of input.photos) {
+        const { imagePath } = await imageService.uploadInspectionPhoto(input.contractId, input.type, photo);
+        photoPaths.push(imagePath);
+      }
+
+      const { photos, ...inspectionInput } = input;
+      const inspection = await this.inspectionRepository.create(inspectionInput, photoPaths, contract.vehicleId);
+      return this.withPhotoUrls(inspection);
+    } catch (error) {
+      await Promise.all(photoPaths.map(imagePath => imageService.deleteImage(imagePath).catch(() => undefined)));
+      throw error;
+    }
+  }
+
+  private validateDamageMarks(damages: DamageMark[]): void {
+    if (!Array.isArray(damages)) {
+      throw new Error('Damages must be an array');
+    }
+
+    for (const mark of damages) {
+      if (!mark || typeof mark.zone !== 'string' || mark.zone.trim().length === 0) {
+        throw new Error('Each damage mark requires a zone');
+      }
+      if (!DAMAGE_TYPES.includes(mark.type)) {
+        throw new Error(`Invalid damage type. Allowed values: ${DAMAGE_TYPES.join(', ')}`);
+      }
+      for (const coordinate of [mark.x, mark.y]) {
+        if (coordinate !== undefined && (typeof coordinate !== 'number' || coordinate < 0 || coordinate > 1)) {
+          throw new Error('Damage mark coordinates must be between 0 and 1');
+        }
+      }
+    }
+  }
+
+  private withPhotoUrls(inspection: ContractInspectionResponse): ContractInspectionResponse {
+    return {
+      ...inspection,
+      photos: inspection.photos.map(photo => ({
+        ...photo,
+        imageUrl: photo.imageUrl.startsWith('http')
+          ? photo.imageUrl
+          : imageService.generateImageUrl(photo.imageUrl)
+      }))
+    };
+  }
+
   // Check vehicle availability
   async checkVehicleAvailability(request: VehicleAvailabilityRequest): Promise<VehicleAvailabilityResponse> {
     // First check vehicle-level availability flag
@@ -360,6 +823,19 @@ export class ContractService {
       }
     });
 
+    // Completing in bulk cannot override a held deposit
+    if (status === 'COMPLETED' && errors.length === 0) {
+      const deposits = await Promise.all(
+        contractIds.map(id => this.depositRepository.findByContractId(id))
+      );
+
+      deposits.forEach((deposit, index) => {
+        if (deposit?.status === 'HELD') {
+          errors.push({ contractId: contractIds[index], error: 'Security deposit is still held' });
+        }
+      });
+    }
+
     if (errors.length > 0) {
       return {
         success: false,
@@ -409,7 +885,9 @@ export class ContractService {
   }
 
   // Auto-update contract statuses based on dates
-  async autoUpdateContractStatuses(): Promise<void> {
+  async autoUpdateContractStatuses(): Promise<{ activated: number; completed: number }> {
+    let activated = 0;
+    let completed = 0;
     const now = new Date();
     
     // Find confirmed contracts that should be active (start date has passed)
@@ -422,6 +900,7 @@ export class ContractService {
     for (const contract of contractsToActivate.contracts) {
       if (contract.startDate <= now) {
         await this.contractRepository.update(contract.id, { status: 'ACTIVE' });
+        activated++;
       }
     }
 
@@ -434,9 +913,18 @@ export class ContractService {
 
     for (const contract of contractsToComplete.contracts) {
       if (contract.endDate < now) {
+        // Contracts with a held deposit stay active until an admin settles it
+        const deposit = await this.depositRepository.findByContractId(contract.id);
+        if (deposit?.status === 'HELD') {
+          continue;
+        }
+
         await this.contractRepository.update(contract.id, { status: 'COMPLETED' });
+        completed++;
       }
     }
+
+    return { activated, completed };
   }
 
   // Helper method to validate status transitions
@@ -452,6 +940,11 @@ export class ContractService {
     return validTransitions[currentStatus]?.includes(newStatus) || false;
   }
 
+  // Address printed on the contract when a branch is chosen without a location
+  private formatBranchLocation(branch: BranchResponse | null): string | undefined {
+    return branch ? `${branch.name}, ${branch.address}, ${branch.city}` : undefined;
+  }
+
   // Get contracts by client
   async getContractsByClient(clientId: string, query?: Partial<ContractQuery>): Promise<ContractListResponse> {
     return await this.contractRepository.findAll({
@@ -0,0 +1,151 @@
+import * as Minio from 'minio';
+import { config } from '@/config';
+import { logger } from '@/utils/logger';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import * as https from 'https';
+
+/**
+ * Document Storage Service for private MinIO objects
+ * Scans of legal documents live in their own bucket without a public policy
+ * and are only reachable through short-lived presigned URLs
+ */
+export class DocumentStorageService {
+  private minioClient: Minio.Client;
+  private bucketName: string;
+  private bucketReady: Promise<void> | null = null;
+
+  constructor() {
+    this.bucketName = config.minio.documentsBucketName;
+
+    const httpsAgent = new https.Agent({
+      rejectUnauthorized: false, // Allow self-signed certificates
+    });
+
+    this.minioClient = new Minio.Client({
+      endPoint: config.minio.endpoint,
+      port: config.minio.port,
+      useSSL: config.minio.useSSL,
+      accessKey: config.minio.accessKey,
+      secretKey: config.minio.secretKey,
+      ...(config.minio.useSSL && {
+        agent: httpsAgent
+      })
+    });
+  }
+
+  /**
+   * Create the private bucket on first use; a failed attempt is retried on the next upload
+   */
+  private ensureBucket(): Promise<void> {
+    if (!this.bucketReady) {
+      this.bucketReady = (async () => {
+        const bucketExists = await this.minioClient.bucketExists(this.bucketName);
+        if (!bucketExists) {
+          await this.minioClient.makeBucket(this.bucketName, 'us-east-1');
+          logger.info(`MinIO private bucket '${this.bucketName}' created successfully`);
+        }
+      })().catch(error => {
+        this.bucketReady = null;
+        throw error;
+      });
+    }
+
+    return this.bucketReady;
+  }
+
+  /**
+   * Upload the scan of a vehicle document, stored as is
+   */
+  async uploadVehicleDocument(
+    vehicleId: string,
+    file: Express.Multer.File
+  ): Promise<{ filePath: string; fileName: string; fileMimeType: string }> {
+    try {
+      await this.ensureBucket();
+
+      const fileExtension = path.extname(file.originalname).toLowerCase();
+      const filePath = `vehicles/${vehicleId}/documents/${uuidv4()}${fileExtension}`;
+
+      await this.minioClient.putObject(
+        this.bucketName,
+        filePath,
+        file.buffer,
+        file.size,
+        {
+          'Content-Type': file.mimetype,
+          'x-amz-meta-vehicle-id': vehicleId,
+        }
+      );
+
+      logger.info(`Vehicle document uploaded successfully: ${filePath}`, {
+        vehicleId,
+        size: file.size,
+      });
+
+      return { filePath, fileName: file.originalname, fileMimeType: file.mimetype };
+    } catch (error) {
+      logger.error('Error uploading vehicle document to MinIO:', error);
+      throw new Error('Failed to upload document');
+    }
+  }
+
+  /**
+   * Short-lived link to download a private document
+   */
+  async generateDownloadUrl(filePath: string, fileName?: string | null): Promise<{ url: string; expiresAt: Date }> {
+    const expiry = config.vehicleDocuments.downloadUrlTtlSeconds;
+
+    try {
+      const url = await this.minioClient.presignedGetObject(
+        this.bucketName,
+        filePath,
+        expiry,
+        fileName ? { 'response-content-disposition': `inline; filename="${encodeURIComponent(fileName)}"` } : {}
+      );
+
+      return { url, expiresAt: new Date(Date.now() + expiry * 1000) };
+    } catch (error) {
+      logger.error('Error generating document download URL:', error);
+      throw new Error('Failed to generate download URL');
+    }
+  }
+
+  /**
+   * Delete a document; a missing object is not an error
+   */
+  async deleteDocument(filePath: string): Promise<void> {
+    try {
+      await this.minioClient.removeObject(this.bucketName, filePath);
+      logger.info(`Vehicle document deleted successfully: ${filePath}`);
+    } catch (error) {
+      logger.warn('Error deleting vehicle document from MinIO:', { filePath, error });
+    }
+  }
+
+  /**
+   * Validate document file (PDF or image scan)
+   */
+  validateDocumentFile(file: Express.Multer.File): { isValid: boolean; error?: string } {
+    const allowedMimeTypes = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+    if (!allowedMimeTypes.includes(file.mimetype)) {
+      return {
+        isValid: false,
+        error: 'Invalid file type. Only PDF, JPEG, PNG, and WebP files are allowed.',
+      };
+    }
+
+    const maxSize = 5 * 1024 * 1024; // 5MB
+    if (file.size > maxSize) {
+      return {
+        isValid: false,
+        error: 'File size too large. Maximum size is 5MB.',
+      };
+    }
+
+    return { isValid: true };
+  }
+}
+
+// Export singleton instance
+export const documentStorageService = new DocumentStorageService();
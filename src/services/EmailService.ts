@@ -25,6 +25,36 @@ export interface RentRequestEmailData {
   message?: string;
   adminNotes?: string;
   status?: string;
+  trackingUrl?: string; // Public page where the client follows the request
+}
+
+export interface AdminInvitationEmailData {
+  email: string;
+  firstName?: string;
+  invitedBy: string;
+  role: string;
+  loginUrl: string;
+}
+
+export interface PasswordResetEmailData {
+  email: string;
+  firstName?: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface CustomerMagicLinkEmailData {
+  email: string;
+  name?: string;
+  loginUrl: string;
+  expiresInMinutes: number;
+}
+
+export interface AccountLockedEmailData {
+  email: string;
+  firstName?: string;
+  lockedUntil: Date;
+  ipAddress?: string;
 }
 
 /**
@@ -76,6 +106,7 @@ export class EmailService {
           <li><strong>Numéro de demande :</strong> {{requestId}}</li>
         </ul>
         <p>Nous examinerons votre demande et vous contacterons sous 24 heures.</p>
+        {{#trackingUrl}}<p><a href="{{trackingUrl}}">Suivre ma demande</a> (vous pouvez aussi l'annuler tant qu'elle est en attente)</p>{{/trackingUrl}}
         <p>Cordialement,<br>L'équipe K2A Rental</p>
       `,
       'admin-notification': `
@@ -272,6 +303,127 @@ export class EmailService {
       throw error;
     }
   }
+
+  /**
+   * Tell a new admin their back-office account exists; credentials are shared separately
+   */
+  async sendAdminInvitation(data: AdminInvitationEmailData): Promise<void> {
+    try {
+      const html = `
+        <h1>Invitation à l'espace administrateur K2A</h1>
+        <p>Bonjour ${data.firstName || ''},</p>
+        <p>${data.invitedBy} vous a créé un compte administrateur (rôle : <strong>${data.role}</strong>).</p>
+        <p>Connectez-vous avec l'adresse <strong>${data.email}</strong> sur <a href="${data.loginUrl}">${data.loginUrl}</a>.
+        Votre mot de passe vous sera communiqué par la personne qui vous a invité,
+        ou choisissez-en un avec « Mot de passe oublié ».</p>
+        <p>Cordialement,<br>L'équipe K2A Rental</p>
+      `;
+
+      const result = await this.getTransporter().sendMail({
+        from: this.emailFrom,
+        to: data.email,
+        subject: 'Invitation à l\'espace administrateur K2A',
+        html,
+        text: `${data.invitedBy} vous a créé un compte administrateur K2A : ${data.loginUrl}`
+      });
+
+      logger.info('Admin invitation email sent', { email: data.email, messageId: result.messageId });
+    } catch (error) {
+      logger.error('Failed to send admin invitation email', { email: data.email, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a password reset link to an admin
+   */
+  async sendPasswordReset(data: PasswordResetEmailData): Promise<void> {
+    try {
+      const html = `
+        <h1>Réinitialisation du mot de passe</h1>
+        <p>Bonjour ${data.firstName || ''},</p>
+        <p>Une réinitialisation du mot de passe de votre compte administrateur K2A a été demandée.</p>
+        <p><a href="${data.resetUrl}">Choisir un nouveau mot de passe</a></p>
+        <p>Ce lien est valable ${data.expiresInMinutes} minutes et ne peut être utilisé qu'une seule fois.
+        Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.</p>
+        <p>Cordialement,<br>L'équipe K2A Rental</p>
+      `;
+
+      const result = await this.getTransporter().sendMail({
+        from: this.emailFrom,
+        to: data.email,
+        subject: 'Réinitialisation de votre mot de passe K2A',
+        html,
+        text: `Réinitialisez votre mot de passe K2A (lien valable ${data.expiresInMinutes} minutes) : ${data.resetUrl}`
+      });
+
+      logger.info('Password reset email sent', { email: data.email, messageId: result.messageId });
+    } catch (error) {
+      logger.error('Failed to send password reset email', { email: data.email, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Send a customer the link that signs them in to the portal
+   */
+  async sendCustomerMagicLink(data: CustomerMagicLinkEmailData): Promise<void> {
+    try {
+      const html = `
+        <h1>Connexion à votre espace client</h1>
+        <p>Bonjour ${data.name || ''},</p>
+        <p>Cliquez sur le lien ci-dessous pour accéder à vos demandes de location, vos contrats et vos paiements.</p>
+        <p><a href="${data.loginUrl}">Accéder à mon espace client</a></p>
+        <p>Ce lien est valable ${data.expiresInMinutes} minutes et ne peut être utilisé qu'une seule fois.
+        Si vous n'êtes pas à l'origine de cette demande, ignorez cet email.</p>
+        <p>Cordialement,<br>L'équipe K2A Rental</p>
+      `;
+
+      const result = await this.getTransporter().sendMail({
+        from: this.emailFrom,
+        to: data.email,
+        subject: 'Votre lien de connexion K2A',
+        html,
+        text: `Accédez à votre espace client K2A (lien valable ${data.expiresInMinutes} minutes) : ${data.loginUrl}`
+      });
+
+      logger.info('Customer magic link email sent', { email: data.email, messageId: result.messageId });
+    } catch (error) {
+      logger.error('Failed to send customer magic link email', { email: data.email, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Warn an admin that their account was locked after repeated failed sign-ins
+   */
+  async sendAccountLocked(data: AccountLockedEmailData): Promise<void> {
+    try {
+      const lockedUntil = data.lockedUntil.toLocaleString('fr-FR');
+      const html = `
+        <h1>Compte temporairement verrouillé</h1>
+        <p>Bonjour ${data.firstName || ''},</p>
+        <p>Après plusieurs tentatives de connexion échouées, votre compte administrateur K2A est verrouillé
+        jusqu'au <strong>${lockedUntil}</strong>.</p>
+        ${data.ipAddress ? `<p>Dernière tentative depuis l'adresse IP : ${data.ipAddress}</p>` : ''}
+        <p>Si ce n'était pas vous, réinitialisez votre mot de passe et prévenez un responsable.</p>
+        <p>Cordialement,<br>L'équipe K2A Rental</p>
+      `;
+
+      const result = await this.getTransporter().sendMail({
+        from: this.emailFrom,
+        to: data.email,
+        subject: 'Votre compte K2A est temporairement verrouillé',
+        html,
+        text: `Votre compte administrateur K2A est verrouillé jusqu'au ${lockedUntil} après plusieurs tentatives de connexion échouées.`
+      });
+
+      logger.info('Account locked email sent', { email: data.email, messageId: result.messageId });
+    } catch (error) {
+      logger.error('Failed to send account locked email', { email: data.email, error });
+      throw error;
+    }
+  }
 }
 
 // Singleton instance
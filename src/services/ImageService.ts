@@ -128,6 +128,49 @@ export class ImageService {
     }
   }
 
+  /**
+   * Upload a handover inspection photo for a contract
+   */
+  async uploadInspectionPhoto(
+    contractId: string,
+    inspectionType: string,
+    file: Express.Multer.File
+  ): Promise<{ imagePath: string; imageUrl: string }> {
+    try {
+      const fileExtension = path.extname(file.originalname);
+      const filename = `${uuidv4()}${fileExtension}`;
+      const imagePath = `inspections/${contractId}/${inspectionType.toLowerCase()}/${filename}`;
+
+      const processedImageBuffer = await this.processImage(file.buffer);
+
+      await this.minioClient.putObject(
+        this.bucketName,
+        imagePath,
+        processedImageBuffer,
+        processedImageBuffer.length,
+        {
+          'Content-Type': file.mimetype,
+          'x-amz-meta-contract-id': contractId,
+          'x-amz-meta-inspection-type': inspectionType,
+          'x-amz-meta-original-name': file.originalname,
+        }
+      );
+
+      const imageUrl = this.generateImageUrl(imagePath);
+
+      logger.info(`Inspection photo uploaded successfully: ${imagePath}`, {
+        contractId,
+        inspectionType,
+        size: processedImageBuffer.length,
+      });
+
+      return { imagePath, imageUrl };
+    } catch (error) {
+      logger.error('Error uploading inspection photo to MinIO:', error);
+      throw new Error('Failed to upload image');
+    }
+  }
+
   /**
    * Process image with Sharp (resize, optimize, convert to WebP)
    */
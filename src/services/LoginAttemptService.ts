@@ -0,0 +1,180 @@
+import { Admin, LoginFailureReason, Prisma, PrismaClient } from '@prisma/client';
+import { Logger } from 'winston';
+import {
+  LoginHistoryQuery,
+  LoginHistoryResponse,
+  SessionContext
+} from '@/types/auth';
+import { config } from '@/config';
+import { calculateLockMinutes } from '@/utils/loginLockout';
+import { emailService } from '@/services/EmailService';
+import { AuthError } from '@/middleware/errorHandler';
+
+// Failures that count towards a lockout; the others are only recorded
+const COUNTED_FAILURES: LoginFailureReason[] = ['INVALID_PASSWORD', 'INVALID_TWO_FACTOR'];
+
+/**
+ * Login Attempt Service
+ * Login history and per-account lockout after repeated failures
+ *
+ * Counters live on the admin row, so the lockout holds across IPs and server instances.
+ */
+export class LoginAttemptService {
+  constructor(
+    private prisma: PrismaClient,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Reject a sign-in on a locked account before any credential is checked
+   */
+  async assertNotLocked(admin: Admin, context: SessionContext = {}): Promise<void> {
+    if (!admin.lockedUntil || admin.lockedUntil <= new Date()) {
+      return;
+    }
+
+    await this.recordAttempt(admin.email, false, context, admin.id, 'ACCOUNT_LOCKED');
+    this.logger.warn('Login rejected: Account locked', {
+      adminId: admin.id,
+      lockedUntil: admin.lockedUntil,
+      ip: context.ipAddress,
+    });
+
+    throw new AuthError(`Account is locked until ${admin.lockedUntil.toISOString()}`, 423);
+  }
+
+  /**
+   * Record a failed attempt; wrong passwords and codes count towards a lockout
+   */
+  async recordFailure(
+    email: string,
+    reason: LoginFailureReason,
+    context: SessionContext = {},
+    admin?: Admin | null
+  ): Promise<void> {
+    await this.recordAttempt(email, false, context, admin?.id, reason);
+
+    if (!admin || !COUNTED_FAILURES.includes(reason)) {
+      return;
+    }
+
+    const policy = config.loginLockout;
+    const updated = await this.prisma.admin.update({
+      where: { id: admin.id },
+      data: { failedLoginAttempts: { increment: 1 } },
+    });
+
+    if (updated.failedLoginAttempts < policy.maxAttempts) {
+      return;
+    }
+
+    const lockoutNumber = updated.lockoutCount + 1;
+    const lockedUntil = new Date(Date.now() + calculateLockMinutes(lockoutNumber, policy) * 60 * 1000);
+
+    await this.prisma.admin.update({
+      where: { id: admin.id },
+      data: {
+        failedLoginAttempts: 0,
+        lockoutCount: lockoutNumber,
+        lockedUntil,
+      },
+    });
+
+    this.logger.warn('Admin account locked after failed sign-ins', {
+      adminId: admin.id,
+      lockoutNumber,
+      lockedUntil,
+      ip: context.ipAddress,
+    });
+
+    emailService.sendAccountLocked({
+      email: admin.email,
+      firstName: admin.firstName || undefined,
+      lockedUntil,
+      ipAddress: context.ipAddress,
+    }).catch(() => undefined); // Logged by the email service
+  }
+
+  /**
+   * Record a completed sign-in and clear the lockout counters
+   */
+  async recordSuccess(admin: Admin, context: SessionContext = {}): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.loginAttempt.create({
+        data: {
+          adminId: admin.id,
+          email: admin.email,
+          success: true,
+          ipAddress: context.ipAddress,
+          userAgent: context.userAgent,
+        },
+      }),
+      this.prisma.admin.update({
+        where: { id: admin.id },
+        data: {
+          failedLoginAttempts: 0,
+          lockoutCount: 0,
+          lockedUntil: null,
+          lastLoginAt: new Date(),
+        },
+      }),
+    ]);
+  }
+
+  /**
+   * Sign-in attempts of an admin, most recent first
+   */
+  async getHistory(adminId: string, query: LoginHistoryQuery = {}): Promise<LoginHistoryResponse> {
+    const page = query.page || 1;
+    const limit = query.limit || 20;
+    const where: Prisma.LoginAttemptWhereInput = {
+      adminId,
+      ...(query.success !== undefined && { success: query.success }),
+    };
+
+    const [attempts, total] = await Promise.all([
+      this.prisma.loginAttempt.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.loginAttempt.count({ where }),
+    ]);
+
+    return {
+      attempts: attempts.map(attempt => ({
+        id: attempt.id,
+        email: attempt.email,
+        success: attempt.success,
+        failureReason: attempt.failureReason,
+        ipAddress: attempt.ipAddress,
+        userAgent: attempt.userAgent,
+        createdAt: attempt.createdAt,
+      })),
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+    };
+  }
+
+  private async recordAttempt(
+    email: string,
+    success: boolean,
+    context: SessionContext,
+    adminId?: string,
+    failureReason?: LoginFailureReason
+  ): Promise<void> {
+    await this.prisma.loginAttempt.create({
+      data: {
+        adminId,
+        email,
+        success,
+        failureReason,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+}
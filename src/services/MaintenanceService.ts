@@ -0,0 +1,76 @@
+import { prisma } from '../config/database';
+import { MaintenanceRepository } from '../repositories/MaintenanceRepository';
+import {
+  MaintenanceListResponse,
+  MaintenanceQuery,
+  MaintenanceRecordResponse,
+  VALID_MAINTENANCE_TRANSITIONS
+} from '../types/maintenance';
+import { CreateMaintenanceInput, UpdateMaintenanceInput } from '../validators/maintenanceValidators';
+import { logger } from '../utils/logger';
+
+export class MaintenanceService {
+  constructor(private maintenanceRepository: MaintenanceRepository) {}
+
+  async getRecords(query: MaintenanceQuery): Promise<MaintenanceListResponse> {
+    return await this.maintenanceRepository.findAll(query);
+  }
+
+  async getRecordById(id: string): Promise<MaintenanceRecordResponse | null> {
+    return await this.maintenanceRepository.findById(id);
+  }
+
+  // Bookings already made over the period are kept; the admin reschedules one or the other
+  async createRecord(input: CreateMaintenanceInput, adminId?: string): Promise<MaintenanceRecordResponse> {
+    if (!await this.maintenanceRepository.vehicleExists(input.vehicleId)) {
+      throw new Error('Vehicle not found');
+    }
+
+    const record = await this.maintenanceRepository.create(input, adminId);
+    logger.info('Maintenance planned', { maintenanceId: record.id, vehicleId: record.vehicleId, type: record.type });
+
+    return record;
+  }
+
+  async updateRecord(id: string, input: UpdateMaintenanceInput): Promise<MaintenanceRecordResponse> {
+    const existing = await this.maintenanceRepository.findById(id);
+    if (!existing) {
+      throw new Error('Maintenance record not found');
+    }
+
+    if (input.status && input.status !== existing.status &&
+        !VALID_MAINTENANCE_TRANSITIONS[existing.status].includes(input.status)) {
+      throw new Error(`Cannot change maintenance status from ${existing.status} to ${input.status}`);
+    }
+
+    const startDate = input.startDate || existing.startDate;
+    const endDate = input.endDate || existing.endDate;
+    if (endDate < startDate) {
+      throw new Error('End date must be on or after the start date');
+    }
+
+    const completing = input.status === 'COMPLETED' && existing.status !== 'COMPLETED';
+
+    const record = await this.maintenanceRepository.update(id, {
+      ...input,
+      ...(completing && { completedAt: new Date() })
+    });
+
+    if (input.status && input.status !== existing.status) {
+      logger.info('Maintenance status changed', { maintenanceId: id, from: existing.status, to: input.status });
+    }
+
+    return record;
+  }
+
+  async deleteRecord(id: string): Promise<boolean> {
+    const existing = await this.maintenanceRepository.findById(id);
+    if (!existing) {
+      throw new Error('Maintenance record not found');
+    }
+
+    return await this.maintenanceRepository.delete(id);
+  }
+}
+
+export const maintenanceService = new MaintenanceService(new MaintenanceRepository(prisma));
@@ -0,0 +1,40 @@
+import { prisma } from '../config/database';
+import { OdometerRepository } from '../repositories/OdometerRepository';
+import { OdometerReadingResponse } from '../types/vehicle';
+import { CreateOdometerReadingInput, OdometerQueryInput } from '../validators/vehicleValidators';
+import { logger } from '../utils/logger';
+
+export class OdometerService {
+  constructor(private odometerRepository: OdometerRepository) {}
+
+  async getReadings(vehicleId: string, query: OdometerQueryInput): Promise<OdometerReadingResponse[]> {
+    await this.assertVehicleExists(vehicleId);
+    return await this.odometerRepository.findByVehicleId(vehicleId, query);
+  }
+
+  // Handover readings are logged by the contract inspections
+  async createReading(
+    vehicleId: string,
+    input: CreateOdometerReadingInput,
+    adminId?: string
+  ): Promise<OdometerReadingResponse> {
+    await this.assertVehicleExists(vehicleId);
+
+    if (input.readAt && input.readAt > new Date()) {
+      throw new Error('Reading date cannot be in the future');
+    }
+
+    const reading = await this.odometerRepository.createManual(vehicleId, input, adminId);
+    logger.info('Odometer reading logged', { readingId: reading.id, vehicleId, mileage: reading.mileage });
+
+    return reading;
+  }
+
+  private async assertVehicleExists(vehicleId: string): Promise<void> {
+    if (!await this.odometerRepository.vehicleExists(vehicleId)) {
+      throw new Error('Vehicle not found');
+    }
+  }
+}
+
+export const odometerService = new OdometerService(new OdometerRepository(prisma));
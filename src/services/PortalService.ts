@@ -0,0 +1,118 @@
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { PortalRepository } from '../repositories/PortalRepository';
+import { ContractRepository } from '../repositories/ContractRepository';
+import { ContractDocumentLanguage } from '../types/contract';
+import {
+  CustomerProfile,
+  PortalContractDetailResponse,
+  PortalContractResponse,
+  PortalLoginResponse,
+  PortalRentRequestResponse
+} from '../types/portal';
+import { contractDocumentService } from './ContractDocumentService';
+import { emailService } from './EmailService';
+import { generateSecureToken, hashToken } from '../utils/token';
+import { generateCustomerAccessToken } from '../utils/jwt';
+import { logger } from '../utils/logger';
+
+export class PortalService {
+  constructor(
+    private portalRepository: PortalRepository,
+    private contractRepository: ContractRepository
+  ) {}
+
+  // Email a sign-in link when the address is on file; the caller gets the same answer either way
+  async requestMagicLink(email: string, requestedIp?: string): Promise<void> {
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const customer = await this.portalRepository.findCustomer(normalizedEmail);
+    if (!customer) {
+      logger.warn('Portal sign-in link requested for unknown email', { email: normalizedEmail, ip: requestedIp });
+      return;
+    }
+
+    const cooldownStart = new Date(Date.now() - config.customerPortal.resendCooldownSeconds * 1000);
+    if (await this.portalRepository.findRecentLoginToken(normalizedEmail, cooldownStart)) {
+      logger.warn('Portal sign-in link requested again during cooldown', { email: normalizedEmail, ip: requestedIp });
+      return;
+    }
+
+    const token = generateSecureToken();
+    await this.portalRepository.replaceLoginToken({
+      email: normalizedEmail,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + config.customerPortal.magicLinkTtlMinutes * 60 * 1000),
+      requestedIp
+    });
+
+    emailService.sendCustomerMagicLink({
+      email: normalizedEmail,
+      name: customer.firstName || undefined,
+      loginUrl: `${config.cors.frontendUrl}/portal/login?token=${encodeURIComponent(token)}`,
+      expiresInMinutes: config.customerPortal.magicLinkTtlMinutes
+    }).catch(() => undefined); // Logged by the email service
+  }
+
+  // Exchange a magic link for a portal session
+  async verifyMagicLink(token: string): Promise<PortalLoginResponse> {
+    const email = await this.portalRepository.claimLoginToken(hashToken(token));
+    if (!email) {
+      throw new Error('Invalid or expired sign-in link');
+    }
+
+    const customer = await this.portalRepository.findCustomer(email);
+    if (!customer) {
+      throw new Error('Invalid or expired sign-in link');
+    }
+
+    logger.info('Customer signed in to the portal', { email });
+
+    return {
+      customer,
+      accessToken: await generateCustomerAccessToken(email),
+      expiresIn: config.customerPortal.sessionExpiresIn
+    };
+  }
+
+  async getProfile(email: string): Promise<CustomerProfile> {
+    return (await this.portalRepository.findCustomer(email)) || { email };
+  }
+
+  async getRentRequests(email: string): Promise<PortalRentRequestResponse[]> {
+    return await this.portalRepository.findRentRequests(email);
+  }
+
+  async getContracts(email: string): Promise<PortalContractResponse[]> {
+    return await this.portalRepository.findContracts(email);
+  }
+
+  async getContract(email: string, id: string): Promise<PortalContractDetailResponse | null> {
+    return await this.portalRepository.findContract(email, id);
+  }
+
+  // Same agreement PDF the agency prints, for the customer's own contracts only
+  async getContractDocument(
+    email: string,
+    id: string,
+    language: ContractDocumentLanguage = 'fr'
+  ): Promise<{ contractNumber: string; buffer: Buffer } | null> {
+    if (!await this.portalRepository.contractBelongsTo(email, id)) {
+      return null;
+    }
+
+    const contract = await this.contractRepository.findByIdForDocument(id);
+    if (!contract) {
+      return null;
+    }
+
+    const buffer = await contractDocumentService.generateContractPdf(contract, language);
+    return { contractNumber: contract.contractNumber, buffer };
+  }
+
+  async cleanupExpiredLoginTokens(): Promise<number> {
+    return await this.portalRepository.deleteExpiredLoginTokens();
+  }
+}
+
+export const portalService = new PortalService(new PortalRepository(prisma), new ContractRepository(prisma));
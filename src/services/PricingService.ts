@@ -0,0 +1,143 @@
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { PricingRepository } from '../repositories/PricingRepository';
+import { PriceQuote, PriceQuoteInput, PricingRuleQuery, PricingRuleResponse } from '../types/pricing';
+import { CreatePricingRuleInput, UpdatePricingRuleInput } from '../validators/pricingValidators';
+import { calculateDailyRates, countRentalDays } from '../utils/pricing';
+import { roundAmount } from '../utils/payment';
+import { promoCodeService } from './PromoCodeService';
+import { branchService } from './BranchService';
+
+export class PricingService {
+  constructor(private pricingRepository: PricingRepository) {}
+
+  // Price a rental from the vehicle price and the active pricing rules
+  async getQuote(input: PriceQuoteInput): Promise<PriceQuote> {
+    const vehicle = await this.pricingRepository.findVehicleForPricing(input.vehicleId);
+    if (!vehicle) {
+      throw new Error('Vehicle not found');
+    }
+
+    if (isNaN(input.startDate.getTime()) || isNaN(input.endDate.getTime())) {
+      throw new Error('Invalid date format');
+    }
+
+    const totalDays = countRentalDays(input.startDate, input.endDate);
+    if (totalDays <= 0) {
+      throw new Error('End date must be after start date');
+    }
+
+    const rules = await this.pricingRepository.findApplicableRules(vehicle.id, vehicle.category, input.serviceType);
+    const rates = calculateDailyRates({
+      basePrice: vehicle.pricePerDay,
+      vehicleId: vehicle.id,
+      category: vehicle.category,
+      serviceType: input.serviceType,
+      startDate: input.startDate,
+      totalDays,
+      rules
+    });
+
+    const accessoriesTotal = roundAmount(
+      input.accessories?.reduce((sum, acc) => sum + acc.price * acc.quantity, 0) || 0
+    );
+
+    // Promo codes discount the rental days only, accessories excluded
+    const promoCode = input.promoCode
+      ? await promoCodeService.evaluate({
+          code: input.promoCode,
+          amount: rates.subtotal,
+          vehicleCategory: vehicle.category,
+          serviceType: input.serviceType,
+          clientId: input.clientId,
+          clientEmail: input.clientEmail
+        })
+      : null;
+    const discountAmount = roundAmount((input.discountAmount || 0) + (promoCode?.discountAmount || 0));
+    const { oneWayFee } = await branchService.resolveRentalBranches(input.pickupBranchId, input.dropoffBranchId);
+
+    return {
+      vehicleId: vehicle.id,
+      serviceType: input.serviceType,
+      startDate: input.startDate,
+      endDate: input.endDate,
+      totalDays,
+      basePricePerDay: vehicle.pricePerDay,
+      dailyRate: rates.dailyRate,
+      days: rates.days,
+      appliedRules: rates.appliedRules,
+      subtotal: rates.subtotal,
+      accessoriesTotal,
+      discountAmount,
+      promoCode,
+      oneWayFee,
+      totalAmount: roundAmount(Math.max(rates.subtotal + accessoriesTotal - discountAmount, 0) + oneWayFee),
+      currency: config.documents.currency
+    };
+  }
+
+  async getRules(query: PricingRuleQuery): Promise<PricingRuleResponse[]> {
+    return await this.pricingRepository.findAll(query);
+  }
+
+  async getRuleById(id: string): Promise<PricingRuleResponse | null> {
+    return await this.pricingRepository.findById(id);
+  }
+
+  async createRule(input: CreatePricingRuleInput): Promise<PricingRuleResponse> {
+    await this.validateRule(input);
+    return await this.pricingRepository.create(input);
+  }
+
+  async updateRule(id: string, input: UpdatePricingRuleInput): Promise<PricingRuleResponse> {
+    const existing = await this.pricingRepository.findById(id);
+    if (!existing) {
+      throw new Error('Pricing rule not found');
+    }
+
+    await this.validateRule({ ...existing, ...input } as CreatePricingRuleInput);
+    return await this.pricingRepository.update(id, input);
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    const existing = await this.pricingRepository.findById(id);
+    if (!existing) {
+      throw new Error('Pricing rule not found');
+    }
+
+    return await this.pricingRepository.delete(id);
+  }
+
+  // Checks that the conditions required by each rule type are present
+  private async validateRule(rule: CreatePricingRuleInput): Promise<void> {
+    if (rule.type === 'SEASON') {
+      if (!rule.startDate || !rule.endDate) {
+        throw new Error('Season rules require a start date and an end date');
+      }
+      if (rule.endDate < rule.startDate) {
+        throw new Error('Season end date must be on or after the start date');
+      }
+    }
+
+    if (rule.type === 'DURATION' && !rule.minDays) {
+      throw new Error('Duration rules require a minimum number of days');
+    }
+
+    if (rule.adjustmentType === 'FIXED_RATE' && rule.value < 0) {
+      throw new Error('A fixed daily rate cannot be negative');
+    }
+
+    if (rule.adjustmentType === 'PERCENTAGE' && rule.value <= -100) {
+      throw new Error('A percentage adjustment must be greater than -100');
+    }
+
+    if (rule.vehicleId) {
+      const vehicle = await this.pricingRepository.findVehicleForPricing(rule.vehicleId);
+      if (!vehicle) {
+        throw new Error('Vehicle not found');
+      }
+    }
+  }
+}
+
+export const pricingService = new PricingService(new PricingRepository(prisma));
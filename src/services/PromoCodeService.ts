@@ -0,0 +1,139 @@
+import { prisma } from '../config/database';
+import { PromoCodeRepository } from '../repositories/PromoCodeRepository';
+import {
+  AppliedPromoCode,
+  PromoCodeEvaluationInput,
+  PromoCodeQuery,
+  PromoCodeRedemption,
+  PromoCodeReport,
+  PromoCodeReportQuery,
+  PromoCodeResponse
+} from '../types/promoCode';
+import { CreatePromoCodeInput, UpdatePromoCodeInput } from '../validators/promoCodeValidators';
+import { calculatePromoDiscount, normalizePromoCode } from '../utils/promoCode';
+
+export class PromoCodeService {
+  constructor(private promoCodeRepository: PromoCodeRepository) {}
+
+  // Check that a code applies to a rental and compute its discount
+  // Usage limits are checked again with a lock when the contract is created
+  async evaluate(input: PromoCodeEvaluationInput): Promise<AppliedPromoCode> {
+    const promoCode = await this.promoCodeRepository.findByCode(normalizePromoCode(input.code));
+    if (!promoCode || !promoCode.isActive) {
+      throw new Error('Invalid promo code');
+    }
+
+    const at = input.at || new Date();
+    if (promoCode.validFrom && at < promoCode.validFrom) {
+      throw new Error(`Promo code ${promoCode.code} is not valid yet`);
+    }
+    if (promoCode.validUntil && at > promoCode.validUntil) {
+      throw new Error(`Promo code ${promoCode.code} has expired`);
+    }
+
+    if (promoCode.categories.length > 0 && !promoCode.categories.includes(input.vehicleCategory)) {
+      throw new Error(`Promo code ${promoCode.code} does not apply to ${input.vehicleCategory} vehicles`);
+    }
+    if (promoCode.serviceTypes.length > 0 && !promoCode.serviceTypes.includes(input.serviceType)) {
+      throw new Error(`Promo code ${promoCode.code} does not apply to ${input.serviceType} rentals`);
+    }
+
+    if (promoCode.minAmount !== null && promoCode.minAmount !== undefined && input.amount < promoCode.minAmount) {
+      throw new Error(`Promo code ${promoCode.code} requires a minimum amount of ${promoCode.minAmount}`);
+    }
+
+    if (promoCode.maxUses !== null && promoCode.maxUses !== undefined && promoCode.redemptionCount >= promoCode.maxUses) {
+      throw new Error(`Promo code ${promoCode.code} has reached its usage limit`);
+    }
+
+    if (promoCode.maxUsesPerClient && (input.clientId || input.clientEmail)) {
+      const usedByClient = await this.promoCodeRepository.countRedemptions(promoCode.id, {
+        clientId: input.clientId,
+        clientEmail: input.clientEmail
+      });
+      if (usedByClient >= promoCode.maxUsesPerClient) {
+        throw new Error(`Promo code ${promoCode.code} has already been used the maximum number of times by this client`);
+      }
+    }
+
+    return {
+      id: promoCode.id,
+      code: promoCode.code,
+      discountAmount: calculatePromoDiscount(promoCode, input.amount)
+    };
+  }
+
+  async getPromoCodes(query: PromoCodeQuery): Promise<PromoCodeResponse[]> {
+    return await this.promoCodeRepository.findAll(query);
+  }
+
+  async getPromoCodeById(id: string): Promise<PromoCodeResponse | null> {
+    return await this.promoCodeRepository.findById(id);
+  }
+
+  async createPromoCode(input: CreatePromoCodeInput): Promise<PromoCodeResponse> {
+    const existing = await this.promoCodeRepository.findByCode(input.code);
+    if (existing) {
+      throw new Error('A promo code with this code already exists');
+    }
+
+    this.validatePromoCode(input);
+    return await this.promoCodeRepository.create(input);
+  }
+
+  async updatePromoCode(id: string, input: UpdatePromoCodeInput): Promise<PromoCodeResponse> {
+    const existing = await this.promoCodeRepository.findById(id);
+    if (!existing) {
+      throw new Error('Promo code not found');
+    }
+
+    if (input.code && input.code !== existing.code) {
+      const duplicate = await this.promoCodeRepository.findByCode(input.code);
+      if (duplicate) {
+        throw new Error('A promo code with this code already exists');
+      }
+    }
+
+    this.validatePromoCode({ ...existing, ...input } as CreatePromoCodeInput);
+    return await this.promoCodeRepository.update(id, input);
+  }
+
+  // Redeemed codes are kept for traceability and can only be deactivated
+  async deletePromoCode(id: string): Promise<boolean> {
+    const existing = await this.promoCodeRepository.findById(id);
+    if (!existing) {
+      throw new Error('Promo code not found');
+    }
+
+    if (existing.redemptionCount > 0) {
+      throw new Error('Promo code has already been redeemed, deactivate it instead');
+    }
+
+    return await this.promoCodeRepository.delete(id);
+  }
+
+  async getRedemptions(id: string): Promise<PromoCodeRedemption[] | null> {
+    const existing = await this.promoCodeRepository.findById(id);
+    if (!existing) {
+      return null;
+    }
+
+    return await this.promoCodeRepository.findRedemptions(id);
+  }
+
+  async getReport(query: PromoCodeReportQuery): Promise<PromoCodeReport> {
+    return await this.promoCodeRepository.getReport(query);
+  }
+
+  private validatePromoCode(input: CreatePromoCodeInput): void {
+    if (input.discountType === 'PERCENTAGE' && input.value > 100) {
+      throw new Error('A percentage discount cannot exceed 100');
+    }
+
+    if (input.validFrom && input.validUntil && input.validUntil < input.validFrom) {
+      throw new Error('Validity end date must be after the start date');
+    }
+  }
+}
+
+export const promoCodeService = new PromoCodeService(new PromoCodeRepository(prisma));
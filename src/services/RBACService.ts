@@ -0,0 +1,74 @@
+import { AdminRole } from '@prisma/client';
+import { PERMISSIONS, Permission, RoleResponse, RolePermissions } from '../types/rbac';
+
+// Permissions a manager does not get: destroying data for good
+const OWNER_ONLY_PERMISSIONS: Permission[] = ['vehicle:hardDelete', 'client:hardDelete'];
+
+const ROLE_PERMISSIONS: RolePermissions = {
+  OWNER: PERMISSIONS,
+  MANAGER: PERMISSIONS.filter(permission => !OWNER_ONLY_PERMISSIONS.includes(permission)),
+  AGENT: [
+    'maintenance:read',
+    'vehicleDocument:read',
+    'client:read',
+    'client:create',
+    'client:update',
+    'contract:read',
+    'contract:create',
+    'contract:update',
+    'payment:create',
+    'deposit:manage',
+    'rentRequest:read',
+    'rentRequest:update',
+    'rentRequest:convert',
+    'review:read',
+    'pricing:read',
+    'promoCode:read'
+  ],
+  ACCOUNTANT: [
+    'client:read',
+    'contract:read',
+    'payment:create',
+    'payment:refund',
+    'deposit:manage',
+    'rentRequest:read',
+    'pricing:read',
+    'promoCode:read',
+    'report:read',
+    'audit:read'
+  ]
+};
+
+const ROLE_DESCRIPTIONS: Record<AdminRole, string> = {
+  OWNER: 'Full access, including hard deletes and owner accounts',
+  MANAGER: 'Runs the agency: fleet, vehicle documents, branches and maintenance, clients, contracts, pricing, reports, staff accounts and partner API keys',
+  AGENT: 'Front desk: clients, rent requests, contracts and payments',
+  ACCOUNTANT: 'Payments, refunds, deposits, reports and the audit log'
+};
+
+export class RBACService {
+  constructor(private rolePermissions: RolePermissions = ROLE_PERMISSIONS) {}
+
+  getPermissions(role: AdminRole): Permission[] {
+    return [...(this.rolePermissions[role] || [])];
+  }
+
+  hasPermission(role: AdminRole | undefined, permission: Permission): boolean {
+    return Boolean(role && this.rolePermissions[role]?.includes(permission));
+  }
+
+  // True when the role grants every listed permission
+  hasAllPermissions(role: AdminRole | undefined, permissions: Permission[]): boolean {
+    return permissions.every(permission => this.hasPermission(role, permission));
+  }
+
+  getRoles(): RoleResponse[] {
+    return (Object.keys(this.rolePermissions) as AdminRole[]).map(role => ({
+      role,
+      description: ROLE_DESCRIPTIONS[role],
+      permissions: this.getPermissions(role)
+    }));
+  }
+}
+
+export const rbacService = new RBACService();
@@ -1,12 +1,18 @@
 import { rentRequestRepository } from '@/repositories/RentRequestRepository';
 import { emailService, RentRequestEmailData } from '@/services/EmailService';
 import { logger } from '@/utils/logger';
+import { generateRentRequestTrackingToken, verifyRentRequestTrackingToken } from '@/utils/jwt';
+import { config } from '@/config';
 import {
   CreateRentRequestData,
   UpdateRentRequestData,
+  ConvertRentRequestData,
+  RentRequestConversionResult,
   RentRequestFilters,
   RentRequestWithVehicle,
   RentRequestStatistics,
+  RentRequestTrackingResponse,
+  VehicleAvailability,
   VALID_STATUS_TRANSITIONS,
 } from '@/types/rentRequest';
 
@@ -52,6 +58,7 @@ export class RentRequestService {
 
       // Create the rent request
       const rentRequest = await rentRequestRepository.createRentRequest(data);
+      const trackingToken = generateRentRequestTrackingToken(rentRequest.id);
 
       // Prepare email data
       const emailData: RentRequestEmailData = {
@@ -67,6 +74,7 @@ export class RentRequestService {
         pricePerDay: Number(rentRequest.pricePerDay),
         currency: rentRequest.currency,
         message: rentRequest.message || undefined,
+        trackingUrl: this.getTrackingUrl(trackingToken),
       };
 
       // Send emails asynchronously (don't block the response)
@@ -82,7 +90,7 @@ export class RentRequestService {
         clientEmail: data.clientEmail,
       });
 
-      return rentRequest;
+      return { ...rentRequest, trackingToken };
     } catch (error) {
       logger.error('Error in createRentRequest service:', { 
         error: error instanceof Error ? error.message : 'Unknown error', 
@@ -117,6 +125,39 @@ export class RentRequestService {
     }
   }
 
+  /**
+   * Get a rent request from its public tracking token
+   */
+  async getTrackedRentRequest(token: string): Promise<RentRequestTrackingResponse> {
+    const rentRequest = await rentRequestRepository.getRentRequestForTracking(this.resolveTrackingToken(token));
+
+    if (!rentRequest) {
+      throw new Error('Demande de location non trouvée');
+    }
+
+    return rentRequest;
+  }
+
+  /**
+   * Let the client withdraw a request that has not been reviewed yet
+   */
+  async cancelTrackedRentRequest(token: string): Promise<RentRequestTrackingResponse> {
+    const id = this.resolveTrackingToken(token);
+    const rentRequest = await rentRequestRepository.getRentRequestForTracking(id);
+
+    if (!rentRequest) {
+      throw new Error('Demande de location non trouvée');
+    }
+
+    if (!await rentRequestRepository.cancelPendingRentRequest(id)) {
+      throw new Error('Seules les demandes en attente peuvent être annulées');
+    }
+
+    logger.info('Rent request cancelled by the client', { requestId: rentRequest.requestId });
+
+    return (await rentRequestRepository.getRentRequestForTracking(id))!;
+  }
+
   /**
    * Get rent requests with filters and pagination
    */
@@ -232,6 +273,37 @@ export class RentRequestService {
     }
   }
 
+  /**
+   * Convert an approved rent request into a contract
+   * Client lookup/creation, contract creation and confirmation run in one transaction
+   */
+  async convertRentRequest(
+    id: string,
+    data: ConvertRentRequestData,
+    adminId?: string
+  ): Promise<RentRequestConversionResult> {
+    try {
+      logger.info('Converting rent request to contract', { id, adminId });
+
+      // The status is checked on the locked request inside the conversion transaction
+      const result = await rentRequestRepository.convertToContract(id, data, adminId);
+
+      logger.info('Rent request converted successfully', {
+        requestId: result.rentRequest.requestId,
+        contractId: result.contract.id,
+        clientCreated: result.clientCreated,
+      });
+
+      return result;
+    } catch (error) {
+      logger.error('Error in convertRentRequest service:', { id, error });
+      if (error instanceof Error) {
+        throw error;
+      }
+      throw new Error('Failed to convert rent request');
+    }
+  }
+
   /**
    * Delete rent request
    */
@@ -274,7 +346,7 @@ export class RentRequestService {
     vehicleId: string,
     startDate: Date,
     endDate: Date
-  ): Promise<{ isAvailable: boolean; conflictingRequests?: any[] }> {
+  ): Promise<VehicleAvailability> {
     try {
       const availability = await rentRequestRepository.checkVehicleAvailability(
         vehicleId,
@@ -313,6 +385,24 @@ export class RentRequestService {
    * Private helper methods
    */
 
+  /**
+   * Rent request id carried by a tracking token
+   */
+  private resolveTrackingToken(token: string): string {
+    try {
+      return verifyRentRequestTrackingToken(token).rentRequestId;
+    } catch (error) {
+      throw new Error('Demande de location non trouvée');
+    }
+  }
+
+  /**
+   * Public tracking page link sent to the client
+   */
+  private getTrackingUrl(token: string): string {
+    return `${config.cors.frontendUrl}/suivi-demande/${encodeURIComponent(token)}`;
+  }
+
   /**
    * Validate status transition
    */
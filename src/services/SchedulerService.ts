@@ -0,0 +1,229 @@
+import os from 'os';
+import { JobTrigger } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { SchedulerRepository } from '../repositories/SchedulerRepository';
+import {
+  JobRunListResponse,
+  JobRunQuery,
+  JobRunResponse,
+  ScheduledJobDefinition,
+  ScheduledJobResponse
+} from '../types/scheduler';
+import { getNextRunDate, parseCronExpression } from '../utils/cron';
+import { logger } from '../utils/logger';
+
+export class SchedulerService {
+  private jobs = new Map<string, ScheduledJobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private readonly instanceId = `${os.hostname()}:${process.pid}`;
+
+  constructor(private schedulerRepository: SchedulerRepository) {}
+
+  // Register a job; the cron expression is validated right away
+  register(job: ScheduledJobDefinition): void {
+    parseCronExpression(job.schedule);
+
+    if (this.jobs.has(job.name)) {
+      throw new Error(`Job ${job.name} is already registered`);
+    }
+
+    this.jobs.set(job.name, job);
+  }
+
+  // Persist the registered jobs and start checking for due runs
+  // When the scheduler is disabled jobs can still be triggered manually
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    for (const job of this.jobs.values()) {
+      await this.schedulerRepository.syncJob(job.name, job.schedule, getNextRunDate(job.schedule));
+    }
+
+    if (!config.scheduler.enabled) {
+      logger.info('Scheduler disabled, jobs only run when triggered manually');
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => logger.error('Scheduler tick failed', { error }));
+    }, config.scheduler.tickIntervalMs);
+
+    logger.info('Scheduler started', {
+      instanceId: this.instanceId,
+      jobs: Array.from(this.jobs.keys())
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logger.info('Scheduler stopped', { instanceId: this.instanceId });
+    }
+  }
+
+  async getJobs(): Promise<ScheduledJobResponse[]> {
+    const records = await this.schedulerRepository.findAll();
+    const now = new Date();
+
+    return Array.from(this.jobs.values()).map(job => {
+      const record = records.find(entry => entry.name === job.name);
+
+      return {
+        name: job.name,
+        description: job.description,
+        schedule: job.schedule,
+        isPaused: record?.isPaused ?? false,
+        isRunning: Boolean(record?.lockedUntil && record.lockedUntil > now),
+        nextRunAt: record?.isPaused ? null : record?.nextRunAt,
+        lastRunAt: record?.lastRunAt,
+        lastRun: record?.lastRun
+      };
+    });
+  }
+
+  async getJobRuns(name: string, query: JobRunQuery): Promise<JobRunListResponse> {
+    this.getDefinition(name);
+    return await this.schedulerRepository.findRuns(name, query);
+  }
+
+  // Run a job now, whatever its schedule or paused state
+  async triggerJob(name: string, adminId?: string): Promise<JobRunResponse> {
+    const job = this.getDefinition(name);
+    const lockedUntil = new Date(Date.now() + this.getLockTtl(job));
+
+    const acquired = await this.schedulerRepository.acquireLock(name, this.instanceId, lockedUntil);
+    if (!acquired) {
+      throw new Error(`Job ${name} is already running`);
+    }
+
+    return await this.execute(job, 'MANUAL', adminId);
+  }
+
+  async pauseJob(name: string): Promise<ScheduledJobResponse> {
+    this.getDefinition(name);
+    await this.schedulerRepository.setPaused(name, true);
+    logger.info('Scheduled job paused', { name });
+
+    return (await this.getJobs()).find(job => job.name === name)!;
+  }
+
+  // Resuming skips the occurrences missed while paused
+  async resumeJob(name: string): Promise<ScheduledJobResponse> {
+    const job = this.getDefinition(name);
+    await this.schedulerRepository.setPaused(name, false, getNextRunDate(job.schedule));
+    logger.info('Scheduled job resumed', { name });
+
+    return (await this.getJobs()).find(entry => entry.name === name)!;
+  }
+
+  // Run every job that is due; the database lock decides which instance gets it
+  private async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      const now = new Date();
+
+      for (const job of this.jobs.values()) {
+        try {
+          const acquired = await this.schedulerRepository.acquireLock(
+            job.name,
+            this.instanceId,
+            new Date(now.getTime() + this.getLockTtl(job)),
+            { now, nextRunAt: getNextRunDate(job.schedule, now) }
+          );
+
+          if (acquired) {
+            await this.execute(job, 'SCHEDULE');
+          }
+        } catch (error) {
+          logger.error('Failed to run scheduled job', { name: job.name, error });
+        }
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Run a job whose lock is held by this instance and record the outcome
+  // The lock is renewed while the handler runs so no other instance takes the job over
+  private async execute(job: ScheduledJobDefinition, trigger: JobTrigger, adminId?: string): Promise<JobRunResponse> {
+    const startedAt = new Date();
+    const lockTtlMs = this.getLockTtl(job);
+    const heartbeat = setInterval(() => {
+      this.schedulerRepository.renewLock(job.name, this.instanceId, new Date(Date.now() + lockTtlMs))
+        .then(renewed => {
+          if (!renewed) {
+            logger.warn('Scheduled job lock was taken over by another instance', { name: job.name });
+          }
+        })
+        .catch(error => logger.error('Failed to renew scheduled job lock', { name: job.name, error }));
+    }, Math.max(Math.floor(lockTtlMs / 3), 1000));
+
+    try {
+      const interrupted = await this.schedulerRepository.failInterruptedRuns(
+        job.name,
+        new Date(startedAt.getTime() - lockTtlMs)
+      );
+      if (interrupted > 0) {
+        logger.warn('Marked interrupted job runs as failed', { name: job.name, count: interrupted });
+      }
+
+      const run = await this.schedulerRepository.createRun({
+        jobName: job.name,
+        trigger,
+        instanceId: this.instanceId,
+        triggeredBy: adminId,
+        startedAt
+      });
+
+      let result: unknown;
+      let error: string | undefined;
+      try {
+        result = await job.handler();
+      } catch (jobError) {
+        error = jobError instanceof Error ? jobError.message : String(jobError);
+      }
+
+      const finishedAt = new Date();
+      const finished = await this.schedulerRepository.finishRun(run.id, {
+        finishedAt,
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        result,
+        error
+      });
+
+      if (error) {
+        logger.error('Scheduled job failed', { name: job.name, trigger, error });
+      } else {
+        logger.info('Scheduled job completed', { name: job.name, trigger, durationMs: finished.durationMs });
+      }
+
+      return finished;
+    } finally {
+      clearInterval(heartbeat);
+      await this.schedulerRepository.releaseLock(job.name, this.instanceId, startedAt);
+    }
+  }
+
+  private getLockTtl(job: ScheduledJobDefinition): number {
+    return job.lockTtlMs || config.scheduler.lockTtlMs;
+  }
+
+  private getDefinition(name: string): ScheduledJobDefinition {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`Job ${name} not found`);
+    }
+    return job;
+  }
+}
+
+export const schedulerService = new SchedulerService(new SchedulerRepository(prisma));
@@ -0,0 +1,200 @@
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { ServiceIntervalRepository, UsageContract } from '../repositories/ServiceIntervalRepository';
+import {
+  ServiceForecastEntry,
+  ServiceForecastQuery,
+  ServiceForecastResponse,
+  ServiceIntervalQuery,
+  ServiceIntervalResponse,
+  VehicleUsageResponse
+} from '../types/serviceInterval';
+import {
+  CreateServiceIntervalInput,
+  MarkServicedInput,
+  UpdateServiceIntervalInput
+} from '../validators/serviceIntervalValidators';
+import { forecastServiceInterval } from '../utils/serviceForecast';
+import { logger } from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATUS_ORDER = { OVERDUE: 0, DUE_SOON: 1, OK: 2, UNKNOWN: 3 };
+
+export class ServiceIntervalService {
+  constructor(private serviceIntervalRepository: ServiceIntervalRepository) {}
+
+  async getIntervals(query: ServiceIntervalQuery): Promise<ServiceIntervalResponse[]> {
+    return await this.serviceIntervalRepository.findAll(query);
+  }
+
+  async getIntervalById(id: string): Promise<ServiceIntervalResponse | null> {
+    return await this.serviceIntervalRepository.findById(id);
+  }
+
+  async createInterval(input: CreateServiceIntervalInput): Promise<ServiceIntervalResponse> {
+    const mileage = await this.serviceIntervalRepository.findVehicleMileage(input.vehicleId);
+    if (mileage === null) {
+      throw new Error('Vehicle not found');
+    }
+
+    this.assertLastService(input.lastServiceMileage, input.lastServiceDate, mileage);
+
+    const interval = await this.serviceIntervalRepository.create(input);
+    logger.info('Service interval created', { intervalId: interval.id, vehicleId: interval.vehicleId, name: interval.name });
+
+    return interval;
+  }
+
+  async updateInterval(id: string, input: UpdateServiceIntervalInput): Promise<ServiceIntervalResponse> {
+    const existing = await this.serviceIntervalRepository.findById(id);
+    if (!existing) {
+      throw new Error('Service interval not found');
+    }
+
+    const intervalKm = input.intervalKm !== undefined ? input.intervalKm : existing.intervalKm;
+    const intervalMonths = input.intervalMonths !== undefined ? input.intervalMonths : existing.intervalMonths;
+    if (!intervalKm && !intervalMonths) {
+      throw new Error('A distance or a time interval is required');
+    }
+
+    this.assertLastService(input.lastServiceMileage, input.lastServiceDate, existing.vehicle?.mileage);
+
+    return await this.serviceIntervalRepository.update(id, input);
+  }
+
+  // Restart the interval from a service done at the given mileage and date
+  async markServiced(id: string, input: MarkServicedInput): Promise<ServiceIntervalResponse> {
+    const existing = await this.serviceIntervalRepository.findById(id);
+    if (!existing) {
+      throw new Error('Service interval not found');
+    }
+
+    const currentMileage = existing.vehicle?.mileage ?? 0;
+    const lastServiceMileage = input.mileage ?? currentMileage;
+    const lastServiceDate = input.date || new Date();
+    this.assertLastService(lastServiceMileage, lastServiceDate, currentMileage);
+
+    const interval = await this.serviceIntervalRepository.update(id, { lastServiceMileage, lastServiceDate });
+    logger.info('Service interval serviced', { intervalId: id, vehicleId: existing.vehicleId, lastServiceMileage });
+
+    return interval;
+  }
+
+  async deleteInterval(id: string): Promise<boolean> {
+    const existing = await this.serviceIntervalRepository.findById(id);
+    if (!existing) {
+      throw new Error('Service interval not found');
+    }
+
+    return await this.serviceIntervalRepository.delete(id);
+  }
+
+  // Predict when each active interval falls due from the vehicle's km per rental day
+  // Most urgent first
+  async getForecast(query: ServiceForecastQuery, now: Date = new Date()): Promise<ServiceForecastResponse> {
+    const { lookbackDays, dueSoonKm, dueSoonDays } = config.serviceForecast;
+    const intervals = await this.serviceIntervalRepository.findForForecast(query.vehicleId);
+    const usageByVehicle = await this.getVehicleUsage(
+      [...new Set(intervals.map(interval => interval.vehicleId))],
+      lookbackDays,
+      now
+    );
+
+    let forecasts: ServiceForecastEntry[] = intervals.map(interval => {
+      const currentMileage = interval.vehicle?.mileage ?? 0;
+      const usage = usageByVehicle.get(interval.vehicleId)!;
+      const forecast = forecastServiceInterval(
+        {
+          intervalKm: interval.intervalKm,
+          intervalMonths: interval.intervalMonths,
+          lastServiceMileage: interval.lastServiceMileage ?? 0,
+          lastServiceDate: interval.lastServiceDate || interval.createdAt
+        },
+        currentMileage,
+        usage,
+        { dueSoonKm, dueSoonDays },
+        now
+      );
+
+      return { interval, currentMileage, usage, ...forecast };
+    });
+
+    if (query.status) {
+      forecasts = forecasts.filter(entry => entry.status === query.status);
+    }
+
+    forecasts.sort((a, b) =>
+      STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+      (a.dueDate?.getTime() ?? Infinity) - (b.dueDate?.getTime() ?? Infinity)
+    );
+
+    return { generatedAt: now, lookbackDays, forecasts };
+  }
+
+  // Distance driven per rental over the lookback window, measured between the
+  // check-out and check-in readings, and the share of days the vehicle was rented
+  private async getVehicleUsage(
+    vehicleIds: string[],
+    lookbackDays: number,
+    now: Date
+  ): Promise<Map<string, VehicleUsageResponse>> {
+    const since = new Date(now.getTime() - lookbackDays * DAY_MS);
+    const [contracts, creationDates] = await Promise.all([
+      this.serviceIntervalRepository.findUsageContracts(vehicleIds, since, now),
+      this.serviceIntervalRepository.findVehicleCreationDates(vehicleIds)
+    ]);
+
+    const usageByVehicle = new Map<string, VehicleUsageResponse>();
+    for (const vehicleId of vehicleIds) {
+      const observedFrom = Math.max(since.getTime(), creationDates.get(vehicleId)?.getTime() ?? since.getTime());
+      usageByVehicle.set(vehicleId, {
+        measuredRentals: 0,
+        measuredRentalDays: 0,
+        measuredDistanceKm: 0,
+        rentalDays: 0,
+        observedDays: Math.max(Math.ceil((now.getTime() - observedFrom) / DAY_MS), 1)
+      });
+    }
+
+    for (const contract of contracts) {
+      const usage = usageByVehicle.get(contract.vehicleId)!;
+      usage.rentalDays += this.daysWithin(contract, since, now);
+
+      const checkOut = contract.odometerReadings.find(reading => reading.source === 'CHECK_OUT');
+      const checkIn = contract.odometerReadings.find(reading => reading.source === 'CHECK_IN');
+      if (checkOut && checkIn && checkIn.mileage >= checkOut.mileage) {
+        usage.measuredRentals += 1;
+        usage.measuredRentalDays += Math.max(
+          Math.ceil((checkIn.readAt.getTime() - checkOut.readAt.getTime()) / DAY_MS),
+          1
+        );
+        usage.measuredDistanceKm += checkIn.mileage - checkOut.mileage;
+      }
+    }
+
+    for (const usage of usageByVehicle.values()) {
+      usage.rentalDays = Math.min(usage.rentalDays, usage.observedDays);
+    }
+
+    return usageByVehicle;
+  }
+
+  // Rental days falling within [since, until]
+  private daysWithin(contract: UsageContract, since: Date, until: Date): number {
+    const start = Math.max(contract.startDate.getTime(), since.getTime());
+    const end = Math.min(contract.endDate.getTime(), until.getTime());
+    return end > start ? Math.ceil((end - start) / DAY_MS) : 0;
+  }
+
+  private assertLastService(mileage?: number | null, date?: Date | null, currentMileage?: number): void {
+    if (mileage != null && currentMileage !== undefined && mileage > currentMileage) {
+      throw new Error(`Last service mileage cannot exceed the vehicle mileage (${currentMileage} km)`);
+    }
+    if (date && date > new Date()) {
+      throw new Error('Last service date cannot be in the future');
+    }
+  }
+}
+
+export const serviceIntervalService = new ServiceIntervalService(new ServiceIntervalRepository(prisma));
@@ -0,0 +1,273 @@
+import { Admin, Prisma, PrismaClient, SessionRevokeReason } from '@prisma/client';
+import { Logger } from 'winston';
+import { SessionContext, SessionResponse, TokenResponse } from '@/types/auth';
+import { generateTokens } from '@/utils/jwt';
+import { AuthError } from '@/middleware/errorHandler';
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+type SessionClient = Pick<PrismaClient, 'authSession' | 'refreshToken'>;
+
+/**
+ * Session Service
+ * Sign-in sessions and their rotating refresh tokens
+ *
+ * Every refresh exchanges the presented token for a new one in the same session.
+ * Exchanged tokens are kept until they expire: if one is presented again it has leaked,
+ * so the whole session is revoked.
+ */
+export class SessionService {
+  constructor(
+    private prisma: PrismaClient,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Open a session for an authenticated admin and issue its first token pair
+   */
+  async startSession(admin: Admin, context: SessionContext = {}): Promise<TokenResponse> {
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+    const session = await this.prisma.authSession.create({
+      data: {
+        adminId: admin.id,
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt,
+      },
+    });
+
+    const tokens = await generateTokens(admin, session.id);
+    await this.prisma.refreshToken.create({
+      data: {
+        token: tokens.refreshToken,
+        adminId: admin.id,
+        sessionId: session.id,
+        expiresAt,
+      },
+    });
+
+    return tokens;
+  }
+
+  /**
+   * Exchange a refresh token for a new pair in the same session
+   */
+  async rotate(refreshToken: string, context: SessionContext = {}): Promise<TokenResponse> {
+    const storedToken = await this.prisma.refreshToken.findUnique({
+      where: { token: refreshToken },
+      include: { admin: true, session: true },
+    });
+
+    if (!storedToken) {
+      this.logger.warn('Token refresh failed: Refresh token not found');
+      throw new AuthError('Invalid refresh token');
+    }
+
+    if (storedToken.rotatedAt) {
+      await this.handleReuse(storedToken.adminId, storedToken.sessionId);
+      throw new AuthError('Refresh token reuse detected, please sign in again');
+    }
+
+    if (storedToken.session?.revokedAt) {
+      this.logger.warn('Token refresh failed: Session revoked', {
+        adminId: storedToken.adminId,
+        sessionId: storedToken.sessionId,
+      });
+      throw new AuthError('Session has been revoked');
+    }
+
+    if (storedToken.expiresAt < new Date()) {
+      this.logger.warn('Token refresh failed: Refresh token expired', {
+        adminId: storedToken.adminId,
+        expiresAt: storedToken.expiresAt,
+      });
+
+      // Clean up expired token
+      await this.prisma.refreshToken.delete({
+        where: { id: storedToken.id },
+      });
+
+      throw new AuthError('Refresh token expired');
+    }
+
+    if (!storedToken.admin.isActive) {
+      this.logger.warn('Token refresh failed: Admin account deactivated', {
+        adminId: storedToken.admin.id,
+      });
+      throw new AuthError('Account is deactivated');
+    }
+
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+
+    return await this.prisma.$transaction(async (tx) => {
+      // Tokens issued before sessions existed get a session on their first refresh
+      const sessionId = storedToken.sessionId || (await tx.authSession.create({
+        data: {
+          adminId: storedToken.adminId,
+          userAgent: context.userAgent,
+          ipAddress: context.ipAddress,
+          expiresAt,
+        },
+      })).id;
+
+      // Claim the token; a concurrent refresh with the same token finds it already rotated
+      const claimed = await tx.refreshToken.updateMany({
+        where: { id: storedToken.id, rotatedAt: null },
+        data: { rotatedAt: new Date(), sessionId },
+      });
+
+      if (claimed.count === 0) {
+        throw new AuthError('Invalid refresh token');
+      }
+
+      const tokens = await generateTokens(storedToken.admin, sessionId);
+
+      await tx.refreshToken.create({
+        data: {
+          token: tokens.refreshToken,
+          adminId: storedToken.adminId,
+          sessionId,
+          expiresAt,
+        },
+      });
+
+      await tx.authSession.update({
+        where: { id: sessionId },
+        data: {
+          lastUsedAt: new Date(),
+          expiresAt,
+          ...(context.userAgent && { userAgent: context.userAgent }),
+          ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        },
+      });
+
+      return tokens;
+    });
+  }
+
+  /**
+   * End the session a refresh token belongs to (logout)
+   * Returns false when the token is unknown, so logout stays idempotent
+   */
+  async endSession(adminId: string, refreshToken: string): Promise<boolean> {
+    const storedToken = await this.prisma.refreshToken.findFirst({
+      where: { adminId, token: refreshToken },
+    });
+
+    if (!storedToken) {
+      return false;
+    }
+
+    if (storedToken.sessionId) {
+      await this.revoke(this.prisma, { id: storedToken.sessionId }, 'LOGOUT');
+    } else {
+      await this.prisma.refreshToken.delete({ where: { id: storedToken.id } });
+    }
+
+    return true;
+  }
+
+  /**
+   * Sessions of an admin that can still be refreshed
+   */
+  async listSessions(adminId: string, currentSessionId?: string): Promise<SessionResponse[]> {
+    const sessions = await this.prisma.authSession.findMany({
+      where: {
+        adminId,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+
+    return sessions.map(session => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Revoke one of the admin's own sessions, e.g. on a lost device
+   * Access tokens already issued for it stay valid until they expire (15 minutes by default)
+   */
+  async revokeSession(adminId: string, sessionId: string): Promise<void> {
+    const session = await this.prisma.authSession.findFirst({
+      where: { id: sessionId, adminId, revokedAt: null },
+    });
+
+    if (!session) {
+      throw new AuthError('Session not found', 404);
+    }
+
+    await this.revoke(this.prisma, { id: sessionId }, 'REVOKED_BY_ADMIN');
+    this.logger.info('Session revoked', { adminId, sessionId });
+  }
+
+  /**
+   * Revoke every session of an admin (password change, deactivation, role change)
+   */
+  async revokeAllSessions(
+    adminId: string,
+    reason: SessionRevokeReason,
+    client: SessionClient = this.prisma
+  ): Promise<void> {
+    await this.revoke(client, { adminId }, reason);
+    await client.refreshToken.deleteMany({ where: { adminId } });
+  }
+
+  /**
+   * Delete expired refresh tokens and sessions that can no longer be refreshed
+   */
+  async cleanupExpired(): Promise<{ refreshTokens: number; sessions: number }> {
+    const now = new Date();
+    const [refreshTokens, sessions] = await this.prisma.$transaction([
+      this.prisma.refreshToken.deleteMany({
+        where: { expiresAt: { lt: now } },
+      }),
+      this.prisma.authSession.deleteMany({
+        where: { expiresAt: { lt: now } },
+      }),
+    ]);
+
+    return { refreshTokens: refreshTokens.count, sessions: sessions.count };
+  }
+
+  // A rotated token came back: whoever holds the session's tokens cannot be trusted
+  private async handleReuse(adminId: string, sessionId: string | null): Promise<void> {
+    this.logger.warn('Refresh token reuse detected, revoking session', { adminId, sessionId });
+
+    if (sessionId) {
+      await this.revoke(this.prisma, { id: sessionId }, 'TOKEN_REUSE');
+    }
+  }
+
+  // Mark sessions revoked and drop their live refresh tokens; rotated ones go with them
+  private async revoke(
+    client: SessionClient,
+    where: Prisma.AuthSessionWhereInput,
+    reason: SessionRevokeReason
+  ): Promise<void> {
+    const sessions = await client.authSession.findMany({
+      where: { ...where, revokedAt: null },
+      select: { id: true },
+    });
+    const ids = sessions.map(session => session.id);
+
+    if (ids.length === 0) {
+      return;
+    }
+
+    await client.authSession.updateMany({
+      where: { id: { in: ids } },
+      data: { revokedAt: new Date(), revokedReason: reason },
+    });
+    await client.refreshToken.deleteMany({
+      where: { sessionId: { in: ids } },
+    });
+  }
+}
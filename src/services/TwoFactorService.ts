@@ -0,0 +1,220 @@
+import { Admin, PrismaClient } from '@prisma/client';
+import { Logger } from 'winston';
+import { RecoveryCodesResponse, TwoFactorSetupResponse } from '@/types/auth';
+import { config } from '@/config';
+import { comparePassword } from '@/utils/password';
+import { hashToken } from '@/utils/token';
+import { decryptValue, encryptValue } from '@/utils/encryption';
+import {
+  buildTotpUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  verifyTotpCode
+} from '@/utils/totp';
+import { AuthError, BadRequestError } from '@/middleware/errorHandler';
+
+/**
+ * Two-Factor Authentication Service
+ * TOTP enrollment, recovery codes and second-factor checks for admins
+ */
+export class TwoFactorService {
+  constructor(
+    private prisma: PrismaClient,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Start enrollment: store a new secret and return it for the authenticator app
+   * 2FA is only enabled once a code from that app is confirmed
+   */
+  async setup(adminId: string): Promise<TwoFactorSetupResponse> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.prisma.admin.update({
+      where: { id: adminId },
+      data: {
+        twoFactorSecret: encryptValue(secret, config.twoFactor.encryptionKey),
+        twoFactorLastStep: null,
+      },
+    });
+
+    this.logger.info('Two-factor enrollment started', { adminId });
+
+    return {
+      secret,
+      otpauthUri: buildTotpUri(secret, admin.email, config.twoFactor.issuer),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a first code and issue recovery codes
+   */
+  async enable(adminId: string, code: string): Promise<RecoveryCodesResponse> {
+    const admin = await this.getAdmin(adminId);
+
+    if (admin.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is already enabled');
+    }
+    if (!admin.twoFactorSecret) {
+      throw new BadRequestError('Start two-factor setup first');
+    }
+
+    if (!(await this.consumeTotpCode(admin, code))) {
+      throw new BadRequestError('Invalid authentication code');
+    }
+
+    const recoveryCodes = await this.prisma.$transaction(async (tx) => {
+      await tx.admin.update({
+        where: { id: adminId },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorEnabledAt: new Date(),
+        },
+      });
+
+      return await this.replaceRecoveryCodes(tx, adminId);
+    });
+
+    this.logger.info('Two-factor authentication enabled', { adminId });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Turn 2FA off; requires the password and a current code or recovery code
+   */
+  async disable(adminId: string, password: string, code?: string, recoveryCode?: string): Promise<void> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is not enabled');
+    }
+
+    if (!(await comparePassword(password, admin.password))) {
+      throw new AuthError('Invalid password');
+    }
+
+    if (!(await this.verifySecondFactor(admin, code, recoveryCode))) {
+      throw new AuthError('Invalid authentication code');
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.adminRecoveryCode.deleteMany({ where: { adminId } }),
+      this.prisma.admin.update({
+        where: { id: adminId },
+        data: {
+          twoFactorEnabled: false,
+          twoFactorSecret: null,
+          twoFactorLastStep: null,
+          twoFactorEnabledAt: null,
+        },
+      }),
+    ]);
+
+    this.logger.info('Two-factor authentication disabled', { adminId });
+  }
+
+  /**
+   * Replace all recovery codes; requires a current TOTP code
+   */
+  async regenerateRecoveryCodes(adminId: string, code: string): Promise<RecoveryCodesResponse> {
+    const admin = await this.getAdmin(adminId);
+
+    if (!admin.twoFactorEnabled) {
+      throw new BadRequestError('Two-factor authentication is not enabled');
+    }
+
+    if (!(await this.consumeTotpCode(admin, code))) {
+      throw new AuthError('Invalid authentication code');
+    }
+
+    const recoveryCodes = await this.prisma.$transaction(tx => this.replaceRecoveryCodes(tx, adminId));
+    this.logger.info('Recovery codes regenerated', { adminId });
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Check a TOTP code or, failing that, a recovery code; either is consumed on success
+   */
+  async verifySecondFactor(admin: Admin, code?: string, recoveryCode?: string): Promise<boolean> {
+    if (code) {
+      return await this.consumeTotpCode(admin, code);
+    }
+
+    if (recoveryCode) {
+      const used = await this.prisma.adminRecoveryCode.updateMany({
+        where: {
+          adminId: admin.id,
+          codeHash: hashToken(normalizeRecoveryCode(recoveryCode)),
+          usedAt: null,
+        },
+        data: { usedAt: new Date() },
+      });
+
+      if (used.count === 1) {
+        this.logger.warn('Recovery code used', { adminId: admin.id });
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  // Accept a code at most once: the matched time step must be newer than the last accepted one
+  private async consumeTotpCode(admin: Admin, code: string): Promise<boolean> {
+    if (!admin.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotpCode(decryptValue(admin.twoFactorSecret, config.twoFactor.encryptionKey), code);
+    if (step === null) {
+      return false;
+    }
+
+    const claimed = await this.prisma.admin.updateMany({
+      where: {
+        id: admin.id,
+        OR: [{ twoFactorLastStep: null }, { twoFactorLastStep: { lt: step } }],
+      },
+      data: { twoFactorLastStep: step },
+    });
+
+    return claimed.count === 1;
+  }
+
+  private async replaceRecoveryCodes(
+    tx: Pick<PrismaClient, 'adminRecoveryCode'>,
+    adminId: string
+  ): Promise<string[]> {
+    const codes = generateRecoveryCodes(config.twoFactor.recoveryCodeCount);
+
+    await tx.adminRecoveryCode.deleteMany({ where: { adminId } });
+    await tx.adminRecoveryCode.createMany({
+      data: codes.map(code => ({
+        adminId,
+        codeHash: hashToken(normalizeRecoveryCode(code)),
+      })),
+    });
+
+    return codes;
+  }
+
+  private async getAdmin(adminId: string): Promise<Admin> {
+    const admin = await this.prisma.admin.findUnique({
+      where: { id: adminId },
+    });
+
+    if (!admin) {
+      throw new AuthError('Admin not found');
+    }
+
+    return admin;
+  }
+}
@@ -0,0 +1,68 @@
+import { prisma } from '../config/database';
+import { VehicleBlackoutRepository } from '../repositories/VehicleBlackoutRepository';
+import { VehicleBlackoutResponse } from '../types/vehicle';
+import {
+  CreateVehicleBlackoutInput,
+  UpdateVehicleBlackoutInput,
+  VehicleBlackoutQueryInput
+} from '../validators/vehicleValidators';
+import { logger } from '../utils/logger';
+
+export class VehicleBlackoutService {
+  constructor(private vehicleBlackoutRepository: VehicleBlackoutRepository) {}
+
+  async getBlackouts(vehicleId: string, query: VehicleBlackoutQueryInput): Promise<VehicleBlackoutResponse[]> {
+    await this.assertVehicleExists(vehicleId);
+    return await this.vehicleBlackoutRepository.findByVehicleId(vehicleId, query);
+  }
+
+  async getBlackoutById(vehicleId: string, id: string): Promise<VehicleBlackoutResponse> {
+    const blackout = await this.vehicleBlackoutRepository.findById(id);
+    if (!blackout || blackout.vehicleId !== vehicleId) {
+      throw new Error('Vehicle blackout not found');
+    }
+
+    return blackout;
+  }
+
+  // Bookings already made over the period are kept; the admin decides what to do with them
+  async createBlackout(
+    vehicleId: string,
+    input: CreateVehicleBlackoutInput,
+    adminId?: string
+  ): Promise<VehicleBlackoutResponse> {
+    await this.assertVehicleExists(vehicleId);
+
+    const blackout = await this.vehicleBlackoutRepository.create(vehicleId, input, adminId);
+    logger.info('Vehicle blackout created', { blackoutId: blackout.id, vehicleId, createdBy: adminId });
+
+    return blackout;
+  }
+
+  async updateBlackout(
+    vehicleId: string,
+    id: string,
+    input: UpdateVehicleBlackoutInput
+  ): Promise<VehicleBlackoutResponse> {
+    const existing = await this.getBlackoutById(vehicleId, id);
+
+    if ((input.endDate || existing.endDate) < (input.startDate || existing.startDate)) {
+      throw new Error('End date must be on or after the start date');
+    }
+
+    return await this.vehicleBlackoutRepository.update(id, input);
+  }
+
+  async deleteBlackout(vehicleId: string, id: string): Promise<boolean> {
+    await this.getBlackoutById(vehicleId, id);
+    return await this.vehicleBlackoutRepository.delete(id);
+  }
+
+  private async assertVehicleExists(vehicleId: string): Promise<void> {
+    if (!await this.vehicleBlackoutRepository.vehicleExists(vehicleId)) {
+      throw new Error('Vehicle not found');
+    }
+  }
+}
+
+export const vehicleBlackoutService = new VehicleBlackoutService(new VehicleBlackoutRepository(prisma));
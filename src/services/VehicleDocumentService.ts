@@ -0,0 +1,127 @@
+import { VehicleDocumentType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { config } from '../config';
+import { VehicleDocumentRepository } from '../repositories/VehicleDocumentRepository';
+import {
+  ExpiringVehicleDocumentsResponse,
+  VehicleDocumentFileResponse,
+  VehicleDocumentListResponse,
+  VehicleDocumentQuery,
+  VehicleDocumentResponse
+} from '../types/vehicleDocument';
+import { CreateVehicleDocumentInput, UpdateVehicleDocumentInput } from '../validators/vehicleDocumentValidators';
+import { documentStorageService } from './DocumentStorageService';
+import { logger } from '../utils/logger';
+
+export class VehicleDocumentService {
+  constructor(private vehicleDocumentRepository: VehicleDocumentRepository) {}
+
+  async getDocuments(query: VehicleDocumentQuery): Promise<VehicleDocumentListResponse> {
+    return await this.vehicleDocumentRepository.findAll(query);
+  }
+
+  async getDocumentById(id: string): Promise<VehicleDocumentResponse | null> {
+    return await this.vehicleDocumentRepository.findById(id);
+  }
+
+  // Documents to renew within the next days, overdue ones included
+  async getExpiringDocuments(
+    days: number = config.vehicleDocuments.expiringWithinDays,
+    type?: VehicleDocumentType
+  ): Promise<ExpiringVehicleDocumentsResponse> {
+    const until = new Date();
+    until.setDate(until.getDate() + days);
+    until.setHours(23, 59, 59, 999);
+
+    const documents = await this.vehicleDocumentRepository.findExpiring(until, type);
+    return { days, until, documents };
+  }
+
+  async createDocument(
+    input: CreateVehicleDocumentInput,
+    file?: Express.Multer.File,
+    adminId?: string
+  ): Promise<VehicleDocumentResponse> {
+    if (!await this.vehicleDocumentRepository.vehicleExists(input.vehicleId)) {
+      throw new Error('Vehicle not found');
+    }
+
+    const storedFile = file
+      ? await documentStorageService.uploadVehicleDocument(input.vehicleId, file)
+      : undefined;
+
+    const document = await this.vehicleDocumentRepository.create(input, storedFile, adminId);
+    logger.info('Vehicle document added', {
+      documentId: document.id,
+      vehicleId: document.vehicleId,
+      type: document.type,
+      expiryDate: document.expiryDate
+    });
+
+    return document;
+  }
+
+  // A new scan replaces the stored one
+  async updateDocument(
+    id: string,
+    input: UpdateVehicleDocumentInput,
+    file?: Express.Multer.File
+  ): Promise<VehicleDocumentResponse> {
+    const existing = await this.vehicleDocumentRepository.findById(id);
+    if (!existing) {
+      throw new Error('Vehicle document not found');
+    }
+
+    const issueDate = input.issueDate !== undefined ? input.issueDate : existing.issueDate;
+    const expiryDate = input.expiryDate || existing.expiryDate;
+    if (issueDate && expiryDate < issueDate) {
+      throw new Error('Expiry date must be on or after the issue date');
+    }
+
+    const previousFile = file ? await this.vehicleDocumentRepository.findFile(id) : null;
+    const storedFile = file
+      ? await documentStorageService.uploadVehicleDocument(existing.vehicleId, file)
+      : undefined;
+
+    const document = await this.vehicleDocumentRepository.update(id, input, storedFile);
+
+    if (previousFile?.filePath) {
+      await documentStorageService.deleteDocument(previousFile.filePath);
+    }
+
+    return document;
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    const storedFile = await this.vehicleDocumentRepository.findFile(id);
+    if (!storedFile) {
+      throw new Error('Vehicle document not found');
+    }
+
+    const deleted = await this.vehicleDocumentRepository.delete(id);
+    if (deleted && storedFile.filePath) {
+      await documentStorageService.deleteDocument(storedFile.filePath);
+    }
+
+    return deleted;
+  }
+
+  async getDocumentFile(id: string): Promise<VehicleDocumentFileResponse> {
+    const storedFile = await this.vehicleDocumentRepository.findFile(id);
+    if (!storedFile) {
+      throw new Error('Vehicle document not found');
+    }
+    if (!storedFile.filePath) {
+      throw new Error('Document file not found');
+    }
+
+    const link = await documentStorageService.generateDownloadUrl(storedFile.filePath, storedFile.fileName);
+    return {
+      ...link,
+      fileName: storedFile.fileName,
+      fileMimeType: storedFile.fileMimeType
+    };
+  }
+}
+
+export const vehicleDocumentService = new VehicleDocumentService(new VehicleDocumentRepository(prisma));
@@ -1,14 +1,18 @@
 import { VehicleRepository } from '../repositories/VehicleRepository';
+import { BranchRepository } from '../repositories/BranchRepository';
 import { VehicleQuery, CreateVehicleRequest, UpdateVehicleRequest, VehicleWithImages, VehicleStats, VehicleAccessoryRequest } from '../types/vehicle';
 import { PaginatedResponse } from '../types/api';
 import { VehicleCategory, RentalServiceType, PrismaClient } from '@prisma/client';
 import { imageService } from '@/services/ImageService';
+import { bookingConflictService } from '@/services/BookingConflictService';
 
 export class VehicleService {
   private vehicleRepository: VehicleRepository;
+  private branchRepository: BranchRepository;
 
   constructor(private prisma: PrismaClient) {
     this.vehicleRepository = new VehicleRepository(prisma);
+    this.branchRepository = new BranchRepository(prisma);
   }
 
   async getAllVehicles(query: VehicleQuery): Promise<PaginatedResponse<VehicleWithImages>> {
@@ -50,6 +54,10 @@ export class VehicleService {
       this.validateAccessories(data.accessories);
     }
 
+    if (data.currentBranchId) {
+      await this.assertBranchExists(data.currentBranchId);
+    }
+
     return this.vehicleRepository.create(data);
   }
 
@@ -87,6 +95,10 @@ export class VehicleService {
       this.validateAccessories(data.accessories);
     }
 
+    if (data.currentBranchId) {
+      await this.assertBranchExists(data.currentBranchId);
+    }
+
     return this.vehicleRepository.update(id, data);
   }
 
@@ -164,7 +176,7 @@ export class VehicleService {
     vehicleId: string,
     startDate: Date,
     endDate: Date
-  ): Promise<{ available: boolean; vehicle?: VehicleWithImages }> {
+  ): Promise<{ available: boolean; vehicle?: VehicleWithImages; blockedPeriods?: { startDate: Date; endDate: Date }[] }> {
     const vehicle = await this.vehicleRepository.findById(vehicleId);
     if (!vehicle) {
       throw new Error('Vehicle not found');
@@ -174,8 +186,16 @@ export class VehicleService {
       return { available: false, vehicle };
     }
 
-    // TODO: Implement booking availability check when booking system is ready
-    // For now, return true if vehicle is generally available
+    // Same rules as bookings; who or what holds the vehicle is internal, only the dates are returned
+    const result = await bookingConflictService.isVehicleAvailableForPeriod(vehicleId, startDate, endDate);
+    if (!result.available) {
+      return {
+        available: false,
+        vehicle,
+        blockedPeriods: result.conflictingBookings.map(booking => ({ startDate: booking.startDate, endDate: booking.endDate }))
+      };
+    }
+
     return { available: true, vehicle };
   }
 
@@ -431,6 +451,16 @@ export class VehicleService {
     }));
   }
 
+  /**
+   * Check that the branch a vehicle is assigned to exists
+   * @private
+   */
+  private async assertBranchExists(branchId: string): Promise<void> {
+    if (!await this.branchRepository.findById(branchId)) {
+      throw new Error('Branch not found');
+    }
+  }
+
   /**
    * Validate vehicle accessories data
    * @private
@@ -0,0 +1,47 @@
+import { AdminRole } from '@prisma/client';
+import { Permission } from './rbac';
+
+// The admin performing a management action, as found in the access token
+export interface AdminActor {
+  adminId: string;
+  role: AdminRole;
+}
+
+export interface AdminQuery {
+  page?: number;
+  limit?: number;
+  search?: string;
+  role?: AdminRole;
+  isActive?: boolean;
+}
+
+// Response interfaces
+export interface AdminResponse {
+  id: string;
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+  role: AdminRole;
+  permissions: Permission[];
+  isActive: boolean;
+  activeSessions: number;
+  failedLoginAttempts: number;
+  lockedUntil?: Date | null;
+  lastLoginAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AdminListResponse {
+  admins: AdminResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// Returned when the password was generated by the server; it is shown only once
+export interface AdminCredentialsResult {
+  admin: AdminResponse;
+  temporaryPassword?: string;
+}
@@ -0,0 +1,56 @@
+/**
+ * API Key Types
+ * Keys let partner systems call the public API; scopes are named <resource>:<action>
+ */
+
+export const API_KEY_SCOPES = [
+  'vehicles:read',
+  'availability:read',
+  'rentRequests:create',
+  'rentRequests:read'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// The key a request was authenticated with, set on the request by authenticateApiKey
+export interface ApiKeyContext {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+}
+
+export interface ApiKeyQuery {
+  search?: string;
+  isActive?: boolean;
+}
+
+// Response interfaces
+export interface ApiKeyResponse {
+  id: string;
+  name: string;
+  description?: string | null;
+  keyPrefix: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute: number;
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  lastUsedIp?: string | null;
+  revokedAt?: Date | null;
+  isActive: boolean; // Not revoked and not expired
+  rentRequestCount: number;
+  createdBy?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Returned when a key is created; the key itself is shown only once
+export interface ApiKeyCreatedResult {
+  apiKey: ApiKeyResponse;
+  key: string;
+}
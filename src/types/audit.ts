@@ -0,0 +1,58 @@
+import { AuditEntityType } from '@prisma/client';
+
+// Changed fields of an entity, values as stored (JSON-serialized)
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Internal input interfaces
+export interface CreateAuditLogInput {
+  adminId?: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown> | null;
+  method: string;
+  path: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface AuditLogQuery {
+  page?: number;
+  limit?: number;
+  adminId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Response interfaces
+export interface AuditLogResponse {
+  id: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown> | null;
+  method: string;
+  path: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  admin?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
+
+export interface AuditLogListResponse {
+  logs: AuditLogResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -1,3 +1,6 @@
+import { AdminRole, LoginFailureReason } from '@prisma/client';
+import { Permission } from './rbac';
+
 /**
  * Authentication Types
  * Types related to admin authentication and JWT tokens
@@ -15,6 +18,9 @@ export interface AdminProfile {
   email: string;
   firstName?: string;
   lastName?: string;
+  role: AdminRole;
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
   isActive: boolean;
   createdAt: Date;
 }
@@ -26,14 +32,51 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+// Login response when two-factor authentication is enabled
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string; // Exchanged with a TOTP or recovery code at /auth/2fa/verify
+  expiresIn: string;
+}
+
+export type LoginResult = AuthResponse | TwoFactorChallengeResponse;
+
+// Second login step payload; exactly one of code or recoveryCode
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
+}
+
+// TOTP enrollment data shown once as a QR code
+export interface TwoFactorSetupResponse {
+  secret: string; // Base32, for manual entry
+  otpauthUri: string; // Content of the QR code
+}
+
+// One-time recovery codes, shown once
+export interface RecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
 // JWT payload structure
 export interface JwtPayload {
   adminId: string;
   email: string;
+  role: AdminRole;
+  sessionId?: string; // Sign-in session the token belongs to
   iat?: number; // Issued at
   exp?: number; // Expires at
 }
 
+// Two-factor challenge token payload
+export interface TwoFactorChallengePayload {
+  adminId: string;
+  purpose: 'two-factor';
+  iat?: number;
+  exp?: number;
+}
+
 // Refresh token request payload
 export interface RefreshTokenRequest {
   refreshToken: string;
@@ -45,10 +88,64 @@ export interface TokenResponse {
   refreshToken: string;
 }
 
+// Forgot password request payload
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+// Password reset request payload
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+}
+
+// Client details recorded on the sign-in session
+export interface SessionContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+// Active sign-in session as listed to its admin
+export interface SessionResponse {
+  id: string;
+  userAgent?: string | null;
+  ipAddress?: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // Session of the access token making the request
+}
+
+// Sign-in attempt as shown in the login history
+export interface LoginAttemptResponse {
+  id: string;
+  email: string;
+  success: boolean;
+  failureReason?: LoginFailureReason | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  createdAt: Date;
+}
+
+export interface LoginHistoryQuery {
+  page?: number;
+  limit?: number;
+  success?: boolean;
+}
+
+export interface LoginHistoryResponse {
+  attempts: LoginAttemptResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
 // Admin creation request (for seeding/setup)
 export interface CreateAdminRequest {
   email: string;
   firstName?: string;
   lastName?: string;
   password: string;
+  role?: AdminRole;
 }
@@ -0,0 +1,65 @@
+/**
+ * Branch Types
+ * Agencies where vehicles are picked up and returned; a rental can end at another branch for a one-way fee
+ */
+
+// Branch fields shown on contracts, vehicles and fees
+export const BRANCH_SUMMARY_SELECT = {
+  id: true,
+  code: true,
+  name: true,
+  address: true,
+  city: true
+} as const;
+
+export interface BranchOpeningHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  open: string; // HH:MM
+  close: string; // HH:MM
+}
+
+export interface BranchQuery {
+  city?: string;
+  search?: string;
+  isActive?: boolean;
+}
+
+// Response interfaces
+export interface BranchSummary {
+  id: string;
+  code: string;
+  name: string;
+  address: string;
+  city: string;
+}
+
+export interface BranchResponse extends BranchSummary {
+  postalCode?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  phone?: string | null;
+  email?: string | null;
+  openingHours: BranchOpeningHours[]; // Days not listed are closed
+  isActive: boolean;
+  vehicleCount?: number; // Active vehicles currently at the branch
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface BranchOneWayFeeResponse {
+  id: string;
+  fromBranchId: string;
+  toBranchId: string;
+  amount: number;
+  fromBranch?: BranchSummary;
+  toBranch?: BranchSummary;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OneWayFeeQuote {
+  pickupBranchId: string;
+  dropoffBranchId: string;
+  amount: number;
+  isDefault: boolean; // No fee configured for the pair, the default one-way fee applies
+}
@@ -1,5 +1,7 @@
-import { ContractStatus, PaymentStatus, RentalServiceType } from '@prisma/client';
+import { ContractStatus, MaintenanceStatus, MaintenanceType, PaymentStatus, RentalServiceType } from '@prisma/client';
 import { BaseQuery } from './index';
+import { HandoverComparison } from './inspection';
+import { BranchSummary } from './branch';
 
 // Query interface for filtering and pagination
 export interface ContractQuery extends BaseQuery {
@@ -24,11 +26,14 @@ export interface CreateContractRequest {
   startDate: string;
   endDate: string;
   serviceType: RentalServiceType;
-  dailyRate: number;
+  dailyRate?: number; // Manual override; omitted means the pricing rules quote the rental
   discountAmount?: number;
+  promoCode?: string;
   notes?: string;
-  pickupLocation?: string;
+  pickupLocation?: string; // Defaults to the pickup branch address
   dropoffLocation?: string;
+  pickupBranchId?: string;
+  dropoffBranchId?: string; // A different branch than the pickup one adds the one-way fee
   accessories?: CreateContractAccessoryRequest[];
 }
 
@@ -38,10 +43,21 @@ export interface CreateContractAccessoryRequest {
   quantity?: number;
 }
 
+// paidAmount and paymentStatus are derived from the payment ledger (see types/payment)
 export interface UpdateContractRequest extends Partial<CreateContractRequest> {
   status?: ContractStatus;
-  paymentStatus?: PaymentStatus;
-  paidAmount?: number;
+}
+
+export interface ExtendContractRequest {
+  endDate: string; // New end date, after the current one
+  dailyRate?: number; // Rate for the additional days, defaults to the contract's daily rate
+  reason?: string;
+}
+
+export interface CompleteContractRequest {
+  overrideDeposit?: boolean;
+  returnedAt?: string; // ISO date string, defaults to now
+  waiveLateFee?: boolean;
 }
 
 // Response interfaces
@@ -72,6 +88,13 @@ export interface ContractResponse {
   subtotal: number;
   discountAmount?: number | null;
   totalAmount: number;
+  promoCode?: {
+    id: string;
+    code: string;
+  } | null;
+  promoDiscountAmount?: number | null;
+  lateFeeAmount: number; // Included in totalAmount
+  oneWayFee: number; // Included in totalAmount
   
   // Payment
   paymentStatus: PaymentStatus;
@@ -81,6 +104,11 @@ export interface ContractResponse {
   notes?: string | null;
   pickupLocation?: string | null;
   dropoffLocation?: string | null;
+  pickupBranchId?: string | null;
+  dropoffBranchId?: string | null;
+  pickupBranch?: BranchSummary | null;
+  dropoffBranch?: BranchSummary | null;
+  returnedAt?: Date | null;
   
   // Relations
   client: {
@@ -105,11 +133,31 @@ export interface ContractResponse {
     email: string;
   } | null;
   accessories: ContractAccessoryResponse[];
+  handover?: HandoverComparison | null; // Pickup vs return difference, set when reading a single contract
   
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Contract enriched with the client identity and vehicle details printed on the rental agreement
+export interface ContractDocumentData extends Omit<ContractResponse, 'client' | 'vehicle'> {
+  client: ContractResponse['client'] & {
+    dateNaissance: Date;
+    lieuNaissance?: string | null;
+    nationalite?: string | null;
+    adresse: string;
+    numeroPermis?: string | null;
+    datePermis: Date;
+  };
+  vehicle: ContractResponse['vehicle'] & {
+    color: string;
+    vin?: string | null;
+    mileage?: number | null;
+  };
+}
+
+export type ContractDocumentLanguage = 'fr' | 'ar';
+
 export interface ContractListResponse {
   contracts: ContractResponse[];
   total: number;
@@ -161,10 +209,16 @@ export interface CreateContractInput {
   endDate: Date;
   serviceType: RentalServiceType;
   dailyRate: number;
-  discountAmount?: number;
+  subtotal?: number; // Sum of the quoted per-day rates, defaults to dailyRate * totalDays
+  discountAmount?: number; // Total discount, promo code included
+  promoCodeId?: string;
+  promoDiscountAmount?: number;
   notes?: string;
   pickupLocation?: string;
   dropoffLocation?: string;
+  pickupBranchId?: string;
+  dropoffBranchId?: string;
+  oneWayFee?: number;
   accessories?: CreateContractAccessoryInput[];
 }
 
@@ -176,18 +230,57 @@ export interface CreateContractAccessoryInput {
 
 export interface UpdateContractInput {
   status?: ContractStatus;
-  paymentStatus?: PaymentStatus;
-  paidAmount?: number;
   startDate?: Date;
   endDate?: Date;
   dailyRate?: number;
   discountAmount?: number;
+  lateFeeAmount?: number;
+  returnedAt?: Date;
   notes?: string;
   pickupLocation?: string;
   dropoffLocation?: string;
+  pickupBranchId?: string | null;
+  dropoffBranchId?: string | null;
+  oneWayFee?: number;
   accessories?: CreateContractAccessoryInput[];
 }
 
+export interface ExtendContractInput {
+  contractId: string;
+  adminId?: string;
+  endDate: Date;
+  dailyRate?: number;
+  reason?: string;
+}
+
+export interface CompleteContractOptions {
+  returnedAt?: Date;
+  waiveLateFee?: boolean;
+}
+
+export interface ContractExtensionResponse {
+  id: string;
+  contractId: string;
+  previousEndDate: Date;
+  newEndDate: Date;
+  additionalDays: number;
+  dailyRate: number;
+  additionalAmount: number;
+  reason?: string | null;
+  admin?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
+
+export interface ContractExtensionResult {
+  contract: ContractResponse;
+  extension: ContractExtensionResponse;
+}
+
 // Calendar and availability interfaces
 export interface VehicleAvailabilityRequest {
   vehicleId: string;
@@ -205,6 +298,11 @@ export interface VehicleAvailabilityResponse {
     endDate: Date;
     status: ContractStatus;
   }>;
+  // Approved requests, maintenance and blackouts overlapping the period, dates only
+  blockedPeriods?: Array<{
+    startDate: Date;
+    endDate: Date;
+  }>;
   // Optional fields added to indicate vehicle-level availability
   vehicleUnavailable?: boolean;
   vehicle?: any;
@@ -222,6 +320,17 @@ export interface VehicleCalendarDay {
       prenom: string;
     };
   }>;
+  maintenance: Array<{
+    id: string;
+    type: MaintenanceType;
+    status: MaintenanceStatus;
+    garage?: string | null;
+  }>;
+  blackouts: Array<{ // The reason is only shown on the vehicle's blackout list
+    id: string;
+    startDate: Date;
+    endDate: Date;
+  }>;
 }
 
 export interface VehicleCalendarResponse {
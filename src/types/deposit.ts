@@ -0,0 +1,89 @@
+import { DepositDeductionReason, DepositStatus, PaymentMethod } from '@prisma/client';
+
+// Request interfaces
+export interface CollectDepositRequest {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  heldAt?: string; // ISO date string, defaults to now
+}
+
+export interface UpdateDepositRequest {
+  amount?: number;
+  method?: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface DepositDeductionRequest {
+  reason: DepositDeductionReason;
+  amount: number;
+  notes?: string;
+}
+
+export interface ReleaseDepositRequest {
+  deductions?: DepositDeductionRequest[]; // Empty means the deposit is returned in full
+  notes?: string;
+}
+
+// Internal input interfaces
+export interface CollectDepositInput {
+  contractId: string;
+  adminId?: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  heldAt?: Date;
+}
+
+export interface UpdateDepositInput {
+  amount?: number;
+  method?: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface ReleaseDepositInput {
+  contractId: string;
+  adminId?: string;
+  deductions: DepositDeductionRequest[];
+  notes?: string;
+}
+
+// Response interfaces
+export interface DepositDeductionResponse {
+  id: string;
+  reason: DepositDeductionReason;
+  amount: number;
+  notes?: string | null;
+  createdAt: Date;
+}
+
+export interface ContractDepositResponse {
+  id: string;
+  contractId: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  status: DepositStatus;
+  heldAt: Date;
+  notes?: string | null;
+  releasedAt?: Date | null;
+  releasedBy?: string | null;
+  retainedAmount: number;
+  returnedAmount: number; // Amount handed back to the client at settlement
+  releaseNotes?: string | null;
+  deductions: DepositDeductionResponse[];
+  admin?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const DEPOSIT_DEDUCTION_REASONS: DepositDeductionReason[] = ['DAMAGE', 'FUEL', 'LATE_RETURN', 'OTHER'];
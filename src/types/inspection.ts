@@ -0,0 +1,76 @@
+import { InspectionType } from '@prisma/client';
+
+export type DamageType = 'SCRATCH' | 'DENT' | 'CRACK' | 'BROKEN' | 'MISSING' | 'OTHER';
+
+// A damage mark placed on the car diagram
+export interface DamageMark {
+  zone: string; // Diagram zone, e.g. FRONT_BUMPER, REAR_LEFT_DOOR
+  type: DamageType;
+  x?: number; // Position on the diagram, 0-1 from the left
+  y?: number; // Position on the diagram, 0-1 from the top
+  notes?: string;
+}
+
+// Request interfaces (multipart form: scalar fields arrive as strings, damages as a JSON string)
+export interface CreateInspectionRequest {
+  mileage: number | string;
+  fuelLevel: number | string;
+  damages?: DamageMark[] | string;
+  notes?: string;
+  inspectedAt?: string;
+}
+
+// Internal input interfaces
+export interface CreateInspectionInput {
+  contractId: string;
+  type: InspectionType;
+  adminId?: string;
+  mileage: number;
+  fuelLevel: number;
+  damages: DamageMark[];
+  notes?: string;
+  inspectedAt?: Date;
+  photos: Express.Multer.File[];
+}
+
+// Response interfaces
+export interface InspectionPhotoResponse {
+  id: string;
+  imageUrl: string;
+  caption?: string | null;
+  createdAt: Date;
+}
+
+export interface ContractInspectionResponse {
+  id: string;
+  contractId: string;
+  type: InspectionType;
+  mileage: number;
+  fuelLevel: number;
+  damages: DamageMark[];
+  notes?: string | null;
+  inspectedAt: Date;
+  photos: InspectionPhotoResponse[];
+  admin?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
+
+// Difference between the pickup and return records
+export interface HandoverComparison {
+  distanceDriven: number; // km
+  fuelDifference: number; // Percentage points, negative when returned with less fuel
+  newDamages: DamageMark[]; // Marks present at return but not at pickup
+}
+
+export interface ContractHandoverResponse {
+  checkOut: ContractInspectionResponse | null;
+  checkIn: ContractInspectionResponse | null;
+  comparison: HandoverComparison | null; // Available once both records exist
+}
+
+export const DAMAGE_TYPES: DamageType[] = ['SCRATCH', 'DENT', 'CRACK', 'BROKEN', 'MISSING', 'OTHER'];
@@ -0,0 +1,62 @@
+import { MaintenanceStatus, MaintenanceType } from '@prisma/client';
+
+/**
+ * Maintenance Types
+ * A maintenance record takes a vehicle out of the fleet between its planned dates
+ */
+
+// Statuses whose dates block bookings
+export const BLOCKING_MAINTENANCE_STATUSES: MaintenanceStatus[] = ['PLANNED', 'IN_PROGRESS'];
+
+export const VALID_MAINTENANCE_TRANSITIONS: Record<MaintenanceStatus, MaintenanceStatus[]> = {
+  PLANNED: ['IN_PROGRESS', 'COMPLETED', 'CANCELLED'],
+  IN_PROGRESS: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: []
+};
+
+export interface MaintenanceQuery {
+  vehicleId?: string;
+  type?: MaintenanceType;
+  status?: MaintenanceStatus;
+  from?: Date; // Records overlapping [from, to]
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+// Response interfaces
+export interface MaintenanceRecordResponse {
+  id: string;
+  vehicleId: string;
+  type: MaintenanceType;
+  status: MaintenanceStatus;
+  startDate: Date;
+  endDate: Date;
+  garage?: string | null;
+  cost?: number | null;
+  description?: string | null;
+  completedAt?: Date | null;
+  vehicle?: {
+    id: string;
+    make: string;
+    model: string;
+    licensePlate: string;
+  };
+  createdBy?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MaintenanceListResponse {
+  records: MaintenanceRecordResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
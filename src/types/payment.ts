@@ -0,0 +1,85 @@
+import { PaymentMethod, PaymentStatus, PaymentType } from '@prisma/client';
+
+// Request interfaces
+export interface CreatePaymentRequest {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  paidAt?: string; // ISO date string, defaults to now
+}
+
+export interface RefundPaymentRequest {
+  amount?: number; // Defaults to the remaining refundable amount of the payment
+  method?: PaymentMethod; // Defaults to the method of the original payment
+  reference?: string;
+  notes?: string;
+}
+
+export interface VoidPaymentRequest {
+  reason: string;
+}
+
+// Internal input interfaces
+export interface CreatePaymentInput {
+  contractId: string;
+  adminId?: string;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string;
+  notes?: string;
+  paidAt?: Date;
+}
+
+export interface RefundPaymentInput {
+  contractId: string;
+  paymentId: string;
+  adminId?: string;
+  amount?: number;
+  method?: PaymentMethod;
+  reference?: string;
+  notes?: string;
+}
+
+export interface VoidPaymentInput {
+  contractId: string;
+  paymentId: string;
+  adminId?: string;
+  reason: string;
+}
+
+// Response interfaces
+export interface PaymentResponse {
+  id: string;
+  contractId: string;
+  type: PaymentType;
+  amount: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  notes?: string | null;
+  paidAt: Date;
+  refundOfId?: string | null;
+  voidedAt?: Date | null;
+  voidedBy?: string | null;
+  voidReason?: string | null;
+  admin?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
+
+export interface PaymentLedgerResponse {
+  contractId: string;
+  contractNumber: string;
+  totalAmount: number;
+  paidAmount: number; // Payments minus refunds, voided entries excluded
+  refundedAmount: number;
+  balance: number; // Amount still due
+  paymentStatus: PaymentStatus;
+  payments: PaymentResponse[];
+}
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'CIB', 'EDAHABIA', 'BANK_TRANSFER', 'CHEQUE'];
@@ -0,0 +1,84 @@
+import { ContractStatus, PaymentMethod, PaymentStatus, PaymentType, RentRequestStatus, DepositStatus } from '@prisma/client';
+
+/**
+ * Customer Portal Types
+ * A customer is identified by the email they verified through a magic link
+ */
+
+export interface CustomerJwtPayload {
+  email: string;
+  purpose: 'customer';
+  iat?: number;
+  exp?: number;
+}
+
+export interface CustomerProfile {
+  email: string;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+export interface PortalLoginResponse {
+  customer: CustomerProfile;
+  accessToken: string;
+  expiresIn: string;
+}
+
+// Response interfaces
+export interface PortalVehicleSummary {
+  make: string;
+  model: string;
+  year: number;
+}
+
+export interface PortalRentRequestResponse {
+  id: string;
+  requestId: string;
+  status: RentRequestStatus;
+  vehicle: PortalVehicleSummary;
+  startDate: Date;
+  endDate: Date;
+  estimatedTotal?: number | null;
+  promoDiscountAmount?: number | null;
+  currency: string;
+  contractNumber?: string | null; // Once the request was converted
+  createdAt: Date;
+}
+
+export interface PortalContractResponse {
+  id: string;
+  contractNumber: string;
+  status: ContractStatus;
+  vehicle: PortalVehicleSummary;
+  startDate: Date;
+  endDate: Date;
+  totalDays: number;
+  totalAmount: number;
+  lateFeeAmount: number; // Included in totalAmount
+  oneWayFee: number; // Included in totalAmount
+  paidAmount: number;
+  balance: number; // Amount still due
+  paymentStatus: PaymentStatus;
+  pickupLocation?: string | null;
+  dropoffLocation?: string | null;
+  createdAt: Date;
+}
+
+export interface PortalPaymentResponse {
+  id: string;
+  type: PaymentType;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: Date;
+}
+
+export interface PortalContractDetailResponse extends PortalContractResponse {
+  accessories: Array<{ name: string; price: number; quantity: number }>;
+  payments: PortalPaymentResponse[]; // Voided entries are left out
+  deposit?: {
+    amount: number;
+    status: DepositStatus;
+    retainedAmount: number;
+    releasedAt?: Date | null;
+  } | null;
+}
@@ -0,0 +1,104 @@
+import { PriceAdjustmentType, PricingRuleType, RentalServiceType, VehicleCategory } from '@prisma/client';
+import { AppliedPromoCode } from './promoCode';
+
+// Request interfaces
+export interface PriceQuoteRequest {
+  vehicleId: string;
+  startDate: string;
+  endDate: string;
+  serviceType?: RentalServiceType; // Defaults to INDIVIDUAL
+  discountAmount?: number;
+  promoCode?: string;
+  clientEmail?: string; // Lets per-client promo code limits be checked
+  pickupBranchId?: string;
+  dropoffBranchId?: string; // A different branch than the pickup one adds the one-way fee
+  accessories?: {
+    name: string;
+    price: number;
+    quantity?: number;
+  }[];
+}
+
+// Internal input interfaces
+export interface PriceQuoteInput {
+  vehicleId: string;
+  startDate: Date;
+  endDate: Date;
+  serviceType: RentalServiceType;
+  discountAmount?: number;
+  promoCode?: string;
+  clientId?: string;
+  clientEmail?: string;
+  pickupBranchId?: string;
+  dropoffBranchId?: string;
+  accessories?: {
+    name: string;
+    price: number;
+    quantity: number;
+  }[];
+}
+
+export interface PricingRuleQuery {
+  type?: PricingRuleType;
+  vehicleId?: string;
+  category?: VehicleCategory;
+  isActive?: boolean;
+}
+
+// Response interfaces
+export interface PricingRuleResponse {
+  id: string;
+  name: string;
+  description?: string | null;
+  type: PricingRuleType;
+  adjustmentType: PriceAdjustmentType;
+  value: number;
+  vehicleId?: string | null;
+  category?: VehicleCategory | null;
+  serviceType?: RentalServiceType | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  minDays?: number | null;
+  weekendDays: number[];
+  priority: number;
+  isActive: boolean;
+  vehicle?: {
+    id: string;
+    make: string;
+    model: string;
+    licensePlate: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AppliedPricingRule {
+  id: string;
+  name: string;
+  type: PricingRuleType;
+}
+
+export interface PriceQuoteDay {
+  date: string; // YYYY-MM-DD
+  rate: number;
+  rules: string[]; // Ids of the SEASON/WEEKEND rules applied on that day
+}
+
+export interface PriceQuote {
+  vehicleId: string;
+  serviceType: RentalServiceType;
+  startDate: Date;
+  endDate: Date;
+  totalDays: number;
+  basePricePerDay: number; // Vehicle.pricePerDay
+  dailyRate: number; // Average daily rate over the rental
+  days: PriceQuoteDay[];
+  appliedRules: AppliedPricingRule[];
+  subtotal: number;
+  accessoriesTotal: number;
+  discountAmount: number; // Manual discount plus promo code discount
+  promoCode: AppliedPromoCode | null;
+  oneWayFee: number;
+  totalAmount: number;
+  currency: string;
+}
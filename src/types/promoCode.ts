@@ -0,0 +1,86 @@
+import { PromoDiscountType, RentalServiceType, VehicleCategory } from '@prisma/client';
+
+// Internal input interfaces
+export interface PromoCodeEvaluationInput {
+  code: string;
+  amount: number; // Rental subtotal the discount applies to (accessories excluded)
+  vehicleCategory: VehicleCategory;
+  serviceType: RentalServiceType;
+  clientId?: string; // Per-client limits are counted on the client's contracts
+  clientEmail?: string; // Used when the client record does not exist yet (public rent requests)
+  at?: Date; // Date the validity window is checked against, defaults to now
+}
+
+export interface PromoCodeQuery {
+  search?: string;
+  isActive?: boolean;
+}
+
+export interface PromoCodeReportQuery {
+  from?: Date;
+  to?: Date;
+}
+
+// Response interfaces
+export interface PromoCodeResponse {
+  id: string;
+  code: string;
+  description?: string | null;
+  discountType: PromoDiscountType;
+  value: number;
+  maxDiscount?: number | null;
+  minAmount?: number | null;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
+  maxUses?: number | null;
+  maxUsesPerClient?: number | null;
+  categories: VehicleCategory[];
+  serviceTypes: RentalServiceType[];
+  isActive: boolean;
+  redemptionCount: number; // Contracts (not cancelled) created with this code
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AppliedPromoCode {
+  id: string;
+  code: string;
+  discountAmount: number;
+}
+
+export interface PromoCodeRedemption {
+  contractId: string;
+  contractNumber: string;
+  status: string;
+  client: {
+    id: string;
+    nom: string;
+    prenom: string;
+  };
+  subtotal: number;
+  discountAmount: number; // Granted by the promo code
+  totalAmount: number;
+  createdAt: Date;
+}
+
+export interface PromoCodeReportEntry {
+  promoCodeId: string;
+  code: string;
+  redemptions: number;
+  uniqueClients: number;
+  discountTotal: number; // Revenue given up through the code
+  revenue: number; // Total amount of the contracts after discount
+  grossRevenue: number; // What the same contracts would have cost without the code
+}
+
+export interface PromoCodeReport {
+  from?: Date;
+  to?: Date;
+  totals: {
+    redemptions: number;
+    discountTotal: number;
+    revenue: number;
+    grossRevenue: number;
+  };
+  codes: PromoCodeReportEntry[];
+}
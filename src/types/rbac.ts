@@ -0,0 +1,56 @@
+import { AdminRole } from '@prisma/client';
+
+/**
+ * Role-Based Access Control Types
+ * Permissions are named <resource>:<action> and granted to admins through their role
+ */
+
+export const PERMISSIONS = [
+  'vehicle:create',
+  'vehicle:update',
+  'vehicle:delete',
+  'vehicle:hardDelete',
+  'maintenance:read',
+  'maintenance:manage',
+  'vehicleDocument:read',
+  'vehicleDocument:manage',
+  'branch:manage',
+  'client:read',
+  'client:create',
+  'client:update',
+  'client:delete',
+  'client:hardDelete',
+  'contract:read',
+  'contract:create',
+  'contract:update',
+  'contract:delete',
+  'payment:create',
+  'payment:refund',
+  'deposit:manage',
+  'rentRequest:read',
+  'rentRequest:update',
+  'rentRequest:convert',
+  'rentRequest:delete',
+  'review:read',
+  'review:moderate',
+  'pricing:read',
+  'pricing:manage',
+  'promoCode:read',
+  'promoCode:manage',
+  'report:read',
+  'scheduler:manage',
+  'audit:read',
+  'admin:manage',
+  'apiKey:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export type RolePermissions = Record<AdminRole, readonly Permission[]>;
+
+// Response interfaces
+export interface RoleResponse {
+  role: AdminRole;
+  description: string;
+  permissions: Permission[];
+}
@@ -3,6 +3,9 @@
  * TypeScript interfaces and types for the rent request system
  */
 
+import { RentalServiceType } from '@prisma/client';
+import { ContractResponse } from './contract';
+
 // Rent Request Status enum (matching Prisma schema)
 export enum RentRequestStatus {
   PENDING = 'PENDING',
@@ -10,7 +13,8 @@ export enum RentRequestStatus {
   APPROVED = 'APPROVED',
   REJECTED = 'REJECTED',
   CONTACTED = 'CONTACTED',
-  CONFIRMED = 'CONFIRMED'
+  CONFIRMED = 'CONFIRMED',
+  CANCELLED = 'CANCELLED'
 }
 
 export interface CreateRentRequestData {
@@ -21,6 +25,8 @@ export interface CreateRentRequestData {
   endDate: Date;
   message?: string;
   vehicleId: string;
+  promoCode?: string;
+  apiKeyId?: string; // Set when submitted by a partner system
 }
 
 export interface UpdateRentRequestData {
@@ -29,10 +35,31 @@ export interface UpdateRentRequestData {
   reviewedBy?: string;
 }
 
+export interface ConvertRentRequestData {
+  serviceType: RentalServiceType;
+  discountAmount?: number;
+  promoCode?: string; // Replaces the code entered with the request, if any
+  notes?: string;
+  pickupLocation?: string;
+  dropoffLocation?: string;
+  // Only required when no existing client matches the request's email or phone
+  dateNaissance?: Date;
+  adresse?: string;
+  datePermis?: Date;
+  numeroPermis?: string;
+}
+
+export interface RentRequestConversionResult {
+  rentRequest: RentRequestWithVehicle;
+  contract: ContractResponse;
+  clientCreated: boolean;
+}
+
 export interface RentRequestFilters {
   status?: RentRequestStatus;
   clientEmail?: string;
   vehicleId?: string;
+  apiKeyId?: string;
   startDate?: Date;
   endDate?: Date;
   limit?: number;
@@ -55,24 +82,31 @@ export interface RentRequestWithVehicle {
   vehicleModel: string;
   vehicleYear: number;
   pricePerDay: number | string;
+  estimatedTotal?: number | null; // Quoted total for the requested dates
+  promoCodeId?: string | null;
+  promoDiscountAmount?: number | null;
+  apiKeyId?: string | null;
   currency: string;
   status: RentRequestStatus;
   reviewedAt?: Date;
   reviewedBy?: string;
   adminNotes?: string;
+  contractId?: string | null;
   createdAt: Date;
   updatedAt: Date;
+  // Returned once at creation, for the public tracking link
+  trackingToken?: string;
   // Computed field for proactive UI - indicates if request can be approved
   isApprovable?: boolean;
   // Optional field for debugging/admin interface showing conflict details
   conflictingBookings?: Array<{
     id: string;
-    type: 'CONTRACT' | 'RENT_REQUEST';
+    type: 'CONTRACT' | 'RENT_REQUEST' | 'MAINTENANCE' | 'BLACKOUT';
     identifier: string;
     startDate: Date;
     endDate: Date;
     status: string;
-    client: {
+    client?: {
       nom: string;
       prenom: string;
     };
@@ -103,6 +137,56 @@ export interface RentRequestWithVehicle {
   }>;
 }
 
+// Public tracking page, reached with the signed token from the confirmation email
+export interface RentRequestTrackingPayload {
+  rentRequestId: string;
+  purpose: 'rent-request-tracking';
+  iat?: number;
+}
+
+export interface RentRequestTrackingResponse {
+  requestId: string;
+  status: RentRequestStatus;
+  statusLabel: string;
+  canCancel: boolean; // Only pending requests can be cancelled by the client
+  clientName: string;
+  startDate: Date;
+  endDate: Date;
+  vehicle: {
+    make: string;
+    model: string;
+    year: number;
+    imageUrl?: string;
+  };
+  estimatedTotal?: number | null;
+  currency: string;
+  statusHistory: Array<{
+    oldStatus?: RentRequestStatus | null;
+    newStatus: RentRequestStatus;
+    changedAt: Date;
+  }>;
+  createdAt: Date;
+}
+
+// What a partner API key sees of the requests it submitted: no client, admin or conflict data
+export interface PartnerRentRequestResponse {
+  id: string;
+  requestId: string;
+  status: RentRequestStatus;
+  startDate: Date;
+  endDate: Date;
+  vehicle: {
+    id: string;
+    make: string;
+    model: string;
+    year: number;
+  };
+  estimatedTotal?: number | null;
+  promoDiscountAmount?: number | null;
+  currency: string;
+  createdAt: Date;
+}
+
 export interface RentRequestStatistics {
   totalRequests: number;
   pendingRequests: number;
@@ -111,6 +195,7 @@ export interface RentRequestStatistics {
   contactedRequests: number;
   reviewedRequests: number;
   confirmedRequests: number;
+  cancelledRequests: number;
   monthlyStats: Array<{
     month: string;
     year: number;
@@ -128,11 +213,9 @@ export interface RentRequestStatistics {
 
 export interface VehicleAvailability {
   isAvailable: boolean;
-  conflictingRequests?: Array<{
-    requestId: string;
+  blockedPeriods?: Array<{ // Bookings, maintenance and blackouts; only the dates are disclosed
     startDate: Date;
     endDate: Date;
-    status: RentRequestStatus;
   }>;
 }
 
@@ -169,6 +252,7 @@ export const VALID_STATUS_TRANSITIONS: Record<RentRequestStatus, RentRequestStat
   [RentRequestStatus.REJECTED]: [RentRequestStatus.PENDING, RentRequestStatus.REVIEWED],
   [RentRequestStatus.CONTACTED]: [RentRequestStatus.CONFIRMED, RentRequestStatus.APPROVED, RentRequestStatus.REJECTED],
   [RentRequestStatus.CONFIRMED]: [], // Final status - no transitions allowed
+  [RentRequestStatus.CANCELLED]: [], // Final status - set by the client only
 };
 
 // Status display names for UI
@@ -179,6 +263,7 @@ export const STATUS_DISPLAY_NAMES: Record<RentRequestStatus, string> = {
   [RentRequestStatus.REJECTED]: 'Rejetée',
   [RentRequestStatus.CONTACTED]: 'Client contacté',
   [RentRequestStatus.CONFIRMED]: 'Confirmée',
+  [RentRequestStatus.CANCELLED]: 'Annulée par le client',
 };
 
 // Business constants
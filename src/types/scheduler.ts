@@ -0,0 +1,62 @@
+import { JobRunStatus, JobTrigger } from '@prisma/client';
+
+// A recurring job registered with the scheduler
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  schedule: string; // Cron expression, server local time
+  lockTtlMs?: number; // How long a run may hold the lock, defaults to the scheduler setting
+  handler: () => Promise<unknown>; // The resolved value is stored as the run result
+}
+
+export interface JobRunQuery {
+  page?: number;
+  limit?: number;
+  status?: JobRunStatus;
+}
+
+// Persisted state of a job
+export interface ScheduledJobRecord {
+  name: string;
+  schedule: string;
+  isPaused: boolean;
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lockedBy?: string | null;
+  lockedUntil?: Date | null;
+  lastRun?: JobRunResponse | null;
+}
+
+// Response interfaces
+export interface JobRunResponse {
+  id: string;
+  jobName: string;
+  trigger: JobTrigger;
+  status: JobRunStatus;
+  instanceId: string;
+  triggeredBy?: string | null;
+  startedAt: Date;
+  finishedAt?: Date | null;
+  durationMs?: number | null;
+  result?: unknown;
+  error?: string | null;
+}
+
+export interface ScheduledJobResponse {
+  name: string;
+  description: string;
+  schedule: string;
+  isPaused: boolean;
+  isRunning: boolean; // Some instance currently holds the lock
+  nextRunAt?: Date | null;
+  lastRunAt?: Date | null;
+  lastRun?: JobRunResponse | null;
+}
+
+export interface JobRunListResponse {
+  runs: JobRunResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,61 @@
+import { MaintenanceType } from '@prisma/client';
+import { ServiceForecast, ServiceForecastStatus } from '../utils/serviceForecast';
+
+/**
+ * Service Interval Types
+ * A service interval falls due every intervalKm or intervalMonths, whichever comes first
+ */
+
+export interface ServiceIntervalQuery {
+  vehicleId?: string;
+  isActive?: boolean;
+}
+
+export interface ServiceForecastQuery {
+  vehicleId?: string;
+  status?: ServiceForecastStatus;
+}
+
+// Response interfaces
+export interface ServiceIntervalResponse {
+  id: string;
+  vehicleId: string;
+  name: string;
+  maintenanceType: MaintenanceType;
+  intervalKm?: number | null;
+  intervalMonths?: number | null;
+  lastServiceMileage?: number | null;
+  lastServiceDate?: Date | null;
+  isActive: boolean;
+  notes?: string | null;
+  vehicle?: {
+    id: string;
+    make: string;
+    model: string;
+    licensePlate: string;
+    mileage: number;
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Usage of a vehicle over the lookback window
+export interface VehicleUsageResponse {
+  measuredRentals: number; // Rentals with a check-out and a check-in reading
+  measuredRentalDays: number;
+  measuredDistanceKm: number;
+  rentalDays: number;
+  observedDays: number;
+}
+
+export interface ServiceForecastEntry extends ServiceForecast {
+  interval: ServiceIntervalResponse;
+  currentMileage: number;
+  usage: VehicleUsageResponse;
+}
+
+export interface ServiceForecastResponse {
+  generatedAt: Date;
+  lookbackDays: number;
+  forecasts: ServiceForecastEntry[];
+}
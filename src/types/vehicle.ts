@@ -1,5 +1,6 @@
-import { VehicleCategory, FuelType, Transmission, RentalServiceType } from '@prisma/client';
+import { VehicleCategory, FuelType, Transmission, RentalServiceType, OdometerSource } from '@prisma/client';
 import { BaseQuery } from './index';
+import { BranchSummary } from './branch';
 
 export interface VehicleQuery extends BaseQuery {
   category?: VehicleCategory;
@@ -8,6 +9,7 @@ export interface VehicleQuery extends BaseQuery {
   minPrice?: number;
   maxPrice?: number;
   location?: string;
+  branchId?: string; // Vehicles currently at the branch
   startDate?: Date;
   endDate?: Date;
   seats?: number;
@@ -50,6 +52,7 @@ export interface CreateVehicleRequest {
   category: VehicleCategory;
   pricePerDay: number;
   location: string;
+  currentBranchId?: string | null;
   description?: string;
   features?: string[];
   
@@ -103,6 +106,8 @@ export interface VehicleWithImages {
   pricePerDay: number;
   availability: boolean;
   location: string;
+  currentBranchId?: string | null;
+  currentBranch?: BranchSummary | null;
   description?: string;
   features: string[];
   
@@ -145,6 +150,40 @@ export interface UploadImageRequest {
   isPrimary?: boolean;
 }
 
+// Period an admin keeps the vehicle out of rental
+export interface VehicleBlackoutResponse {
+  id: string;
+  vehicleId: string;
+  startDate: Date;
+  endDate: Date;
+  reason: string;
+  createdBy?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface OdometerReadingResponse {
+  id: string;
+  vehicleId: string;
+  mileage: number;
+  readAt: Date;
+  source: OdometerSource;
+  contractId?: string | null;
+  notes?: string | null;
+  createdBy?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
+
 export interface VehicleStats {
   totalVehicles: number;
   availableVehicles: number;
@@ -0,0 +1,65 @@
+import { VehicleDocumentType } from '@prisma/client';
+
+/**
+ * Vehicle Document Types
+ * Legal papers with an expiry date; contracts cannot run past the vehicle's insurance
+ */
+
+export interface VehicleDocumentQuery {
+  vehicleId?: string;
+  type?: VehicleDocumentType;
+  page?: number;
+  limit?: number;
+}
+
+// Response interfaces
+export interface VehicleDocumentResponse {
+  id: string;
+  vehicleId: string;
+  type: VehicleDocumentType;
+  number?: string | null;
+  issuer?: string | null;
+  issueDate?: Date | null;
+  expiryDate: Date;
+  isExpired: boolean;
+  daysUntilExpiry: number; // Negative once expired
+  hasFile: boolean;
+  fileName?: string | null;
+  fileMimeType?: string | null;
+  notes?: string | null;
+  vehicle?: {
+    id: string;
+    make: string;
+    model: string;
+    licensePlate: string;
+  };
+  createdBy?: {
+    id: string;
+    firstName?: string | null;
+    lastName?: string | null;
+    email: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface VehicleDocumentListResponse {
+  documents: VehicleDocumentResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ExpiringVehicleDocumentsResponse {
+  days: number;
+  until: Date;
+  documents: VehicleDocumentResponse[]; // Latest document of each vehicle and type, soonest expiry first
+}
+
+export interface VehicleDocumentFileResponse {
+  url: string; // Presigned, short-lived
+  expiresAt: Date;
+  fileName?: string | null;
+  fileMimeType?: string | null;
+}
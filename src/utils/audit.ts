@@ -0,0 +1,61 @@
+import { AuditChanges } from '../types/audit';
+
+/**
+ * Audit trail utilities
+ */
+
+// Bookkeeping columns that change on every write
+const IGNORED_FIELDS = ['updatedAt'];
+
+const METHOD_ACTIONS: Record<string, string> = {
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete'
+};
+
+/**
+ * Action name of a route: its literal segments joined with dots, plus the
+ * HTTP verb when the route ends on the resource itself
+ * e.g. POST / -> create, DELETE /:id -> delete, PUT /:id/complete -> complete,
+ * PUT /:id/payments/:paymentId/void -> payments.void, DELETE /:id/images/:imageId -> images.delete
+ */
+export const describeAuditAction = (method: string, routePath: string): string => {
+  const segments = routePath.split('/').filter(Boolean);
+  const literals = segments.filter(segment => !segment.startsWith(':'));
+  const endsOnResource = segments.length === 0 || segments[segments.length - 1].startsWith(':');
+
+  if (!endsOnResource) {
+    return literals.join('.');
+  }
+
+  const verb = METHOD_ACTIONS[method.toUpperCase()] || method.toLowerCase();
+  return [...literals, verb].join('.');
+};
+
+/**
+ * Shallow diff of two snapshots of a row; a missing snapshot counts as all fields null
+ */
+export const diffAuditStates = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditChanges => {
+  const normalize = (state: Record<string, unknown> | null) =>
+    state ? JSON.parse(JSON.stringify(state)) as Record<string, unknown> : {};
+
+  const from = normalize(before);
+  const to = normalize(after);
+  const changes: AuditChanges = {};
+
+  for (const field of new Set([...Object.keys(from), ...Object.keys(to)])) {
+    if (IGNORED_FIELDS.includes(field)) continue;
+
+    const previous = from[field] ?? null;
+    const next = to[field] ?? null;
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes[field] = { from: previous, to: next };
+    }
+  }
+
+  return changes;
+};
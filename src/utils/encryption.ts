@@ -0,0 +1,36 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+/**
+ * Symmetric Encryption Utility Functions
+ * AES-256-GCM for secrets that must be read back (e.g. TOTP secrets)
+ */
+
+const ALGORITHM = 'aes-256-gcm';
+
+const deriveKey = (key: string): Buffer => createHash('sha256').update(key).digest();
+
+/**
+ * Encrypt a value; the output is iv:authTag:ciphertext in base64
+ */
+export const encryptValue = (plaintext: string, key: string): string => {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, deriveKey(key), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64')).join(':');
+};
+
+/**
+ * Decrypt a value produced by encryptValue
+ */
+export const decryptValue = (encrypted: string, key: string): string => {
+  const [iv, authTag, ciphertext] = encrypted.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error('Invalid encrypted value');
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, deriveKey(key), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+};
@@ -0,0 +1,25 @@
+import { DamageMark, HandoverComparison } from '../types/inspection';
+
+/**
+ * Handover inspection utilities
+ * Compares the vehicle condition recorded at pickup with the one recorded at return
+ */
+
+const damageKey = (mark: DamageMark): string => `${mark.zone.trim().toUpperCase()}:${mark.type}`;
+
+/**
+ * Compute distance driven, fuel difference and damages that appeared during the rental
+ * A damage counts as new when no mark of the same type was recorded on the same zone at pickup
+ */
+export const compareInspections = (
+  checkOut: { mileage: number; fuelLevel: number; damages: DamageMark[] },
+  checkIn: { mileage: number; fuelLevel: number; damages: DamageMark[] }
+): HandoverComparison => {
+  const existing = new Set(checkOut.damages.map(damageKey));
+
+  return {
+    distanceDriven: checkIn.mileage - checkOut.mileage,
+    fuelDifference: checkIn.fuelLevel - checkOut.fuelLevel,
+    newDamages: checkIn.damages.filter(mark => !existing.has(damageKey(mark)))
+  };
+};
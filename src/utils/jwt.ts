@@ -1,6 +1,10 @@
 import jwt from 'jsonwebtoken';
+import { createHmac, randomUUID } from 'crypto';
+import { AdminRole } from '@prisma/client';
 import { config } from '@/config';
-import { JwtPayload } from '@/types/auth';
+import { JwtPayload, TwoFactorChallengePayload } from '@/types/auth';
+import { CustomerJwtPayload } from '@/types/portal';
+import { RentRequestTrackingPayload } from '@/types/rentRequest';
 
 /**
  * JWT Utility Functions
@@ -9,11 +13,17 @@ import { JwtPayload } from '@/types/auth';
 
 /**
  * Generate both access and refresh tokens for an admin
+ * Each refresh token gets a unique id so tokens rotated within the same second differ
  */
-export const generateTokens = async (admin: { id: string; email: string }): Promise<{ accessToken: string; refreshToken: string }> => {
+export const generateTokens = async (
+  admin: { id: string; email: string; role: AdminRole },
+  sessionId?: string
+): Promise<{ accessToken: string; refreshToken: string }> => {
   const payload: JwtPayload = {
     adminId: admin.id,
     email: admin.email,
+    role: admin.role,
+    ...(sessionId && { sessionId }),
   };
 
   // @ts-ignore - JWT typing issue with expiresIn
@@ -27,7 +37,7 @@ export const generateTokens = async (admin: { id: string; email: string }): Prom
   const refreshToken = jwt.sign(
     payload,
     config.jwt.refreshSecret,
-    { expiresIn: config.jwt.refreshTokenExpiresIn }
+    { expiresIn: config.jwt.refreshTokenExpiresIn, jwtid: randomUUID() }
   ) as string;
 
   return { accessToken, refreshToken };
@@ -60,10 +70,11 @@ export const verifyRefreshToken = async (token: string): Promise<JwtPayload> =>
 /**
  * Generate access token only (for refresh endpoint)
  */
-export const generateAccessToken = async (admin: { id: string; email: string }): Promise<string> => {
+export const generateAccessToken = async (admin: { id: string; email: string; role: AdminRole }): Promise<string> => {
   const payload: JwtPayload = {
     adminId: admin.id,
     email: admin.email,
+    role: admin.role,
   };
 
   // @ts-ignore - JWT typing issue with expiresIn
@@ -74,6 +85,109 @@ export const generateAccessToken = async (admin: { id: string; email: string }):
   ) as string;
 };
 
+// Challenge tokens use their own key so they can never pass as access tokens
+const getChallengeSecret = (): string =>
+  createHmac('sha256', config.jwt.secret).update('two-factor-challenge').digest('hex');
+
+/**
+ * Generate the short-lived token returned by login when a TOTP code is still required
+ */
+export const generateTwoFactorChallengeToken = async (adminId: string): Promise<string> => {
+  const payload: TwoFactorChallengePayload = {
+    adminId,
+    purpose: 'two-factor',
+  };
+
+  // @ts-ignore - JWT typing issue with expiresIn
+  return jwt.sign(
+    payload,
+    getChallengeSecret(),
+    { expiresIn: config.twoFactor.challengeExpiresIn }
+  ) as string;
+};
+
+/**
+ * Verify two-factor challenge token
+ */
+export const verifyTwoFactorChallengeToken = async (token: string): Promise<TwoFactorChallengePayload> => {
+  try {
+    const decoded = jwt.verify(token, getChallengeSecret()) as TwoFactorChallengePayload;
+    if (decoded.purpose !== 'two-factor') {
+      throw new Error('Wrong token purpose');
+    }
+    return decoded;
+  } catch (error) {
+    throw new Error('Invalid two-factor challenge token');
+  }
+};
+
+// Customer tokens use their own key so they can never pass as admin tokens
+const getCustomerSecret = (): string =>
+  createHmac('sha256', config.jwt.secret).update('customer-portal').digest('hex');
+
+/**
+ * Generate the access token of a customer signed in through a magic link
+ */
+export const generateCustomerAccessToken = async (email: string): Promise<string> => {
+  const payload: CustomerJwtPayload = {
+    email,
+    purpose: 'customer',
+  };
+
+  // @ts-ignore - JWT typing issue with expiresIn
+  return jwt.sign(
+    payload,
+    getCustomerSecret(),
+    { expiresIn: config.customerPortal.sessionExpiresIn }
+  ) as string;
+};
+
+/**
+ * Verify customer access token
+ */
+export const verifyCustomerAccessToken = async (token: string): Promise<CustomerJwtPayload> => {
+  try {
+    const decoded = jwt.verify(token, getCustomerSecret()) as CustomerJwtPayload;
+    if (decoded.purpose !== 'customer') {
+      throw new Error('Wrong token purpose');
+    }
+    return decoded;
+  } catch (error) {
+    throw new Error('Invalid customer access token');
+  }
+};
+
+// Tracking tokens use their own key; they carry no expiry so the emailed link keeps working
+const getTrackingSecret = (): string =>
+  createHmac('sha256', config.jwt.secret).update('rent-request-tracking').digest('hex');
+
+/**
+ * Generate the token of a rent request's public tracking link
+ */
+export const generateRentRequestTrackingToken = (rentRequestId: string): string => {
+  const payload: RentRequestTrackingPayload = {
+    rentRequestId,
+    purpose: 'rent-request-tracking',
+  };
+
+  return jwt.sign(payload, getTrackingSecret());
+};
+
+/**
+ * Verify rent request tracking token
+ */
+export const verifyRentRequestTrackingToken = (token: string): RentRequestTrackingPayload => {
+  try {
+    const decoded = jwt.verify(token, getTrackingSecret()) as RentRequestTrackingPayload;
+    if (decoded.purpose !== 'rent-request-tracking') {
+      throw new Error('Wrong token purpose');
+    }
+    return decoded;
+  } catch (error) {
+    throw new Error('Invalid tracking token');
+  }
+};
+
 /**
  * Extract token from Authorization header
  */
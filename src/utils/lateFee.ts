@@ -0,0 +1,55 @@
+import { roundAmount } from './payment';
+
+/**
+ * Late return utilities
+ */
+
+export interface LateFeePolicy {
+  mode: 'HOURLY' | 'DAILY' | 'NONE';
+  gracePeriodMinutes: number;
+  hourlyFee: number;
+  dailyFee: number; // 0 charges the contract's daily rate
+}
+
+export interface LateFeeResult {
+  lateMinutes: number; // Minutes past the end date, grace period included
+  chargedUnits: number; // Hours or days charged, depending on the mode
+  fee: number;
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Fee for a vehicle returned after the contract end date
+ * Every started hour or day past the grace period is charged; in hourly mode
+ * each day of lateness never costs more than the daily fee
+ */
+export const calculateLateFee = (
+  endDate: Date,
+  returnedAt: Date,
+  dailyRate: number,
+  policy: LateFeePolicy
+): LateFeeResult => {
+  const lateMinutes = Math.floor((returnedAt.getTime() - new Date(endDate).getTime()) / 60000);
+
+  if (policy.mode === 'NONE' || !(lateMinutes > policy.gracePeriodMinutes)) {
+    return { lateMinutes: Math.max(lateMinutes || 0, 0), chargedUnits: 0, fee: 0 };
+  }
+
+  const dailyFee = policy.dailyFee > 0 ? policy.dailyFee : dailyRate;
+
+  if (policy.mode === 'DAILY') {
+    const days = Math.ceil(lateMinutes / MINUTES_PER_DAY);
+    return { lateMinutes, chargedUnits: days, fee: roundAmount(days * dailyFee) };
+  }
+
+  const fullDays = Math.floor(lateMinutes / MINUTES_PER_DAY);
+  const remainingHours = Math.ceil((lateMinutes % MINUTES_PER_DAY) / 60);
+  const fee = fullDays * Math.min(24 * policy.hourlyFee, dailyFee) + Math.min(remainingHours * policy.hourlyFee, dailyFee);
+
+  return {
+    lateMinutes,
+    chargedUnits: fullDays * 24 + remainingHours,
+    fee: roundAmount(fee)
+  };
+};
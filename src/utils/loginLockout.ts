@@ -0,0 +1,18 @@
+/**
+ * Login lockout utilities
+ */
+
+export interface LoginLockoutPolicy {
+  maxAttempts: number;
+  baseLockMinutes: number;
+  maxLockMinutes: number;
+}
+
+/**
+ * Lock duration in minutes for the nth lockout since the last successful login
+ * The first lockout lasts the base duration and each further one doubles it, up to the maximum
+ */
+export const calculateLockMinutes = (lockoutNumber: number, policy: LoginLockoutPolicy): number => {
+  const exponent = Math.max(0, lockoutNumber - 1);
+  return Math.min(policy.baseLockMinutes * 2 ** exponent, policy.maxLockMinutes);
+};
@@ -1,4 +1,5 @@
 import bcrypt from 'bcryptjs';
+import { randomInt } from 'crypto';
 
 /**
  * Password Utility Functions
@@ -72,8 +73,21 @@ export const generateRandomPassword = (length = 12): string => {
   let password = '';
   
   for (let i = 0; i < length; i++) {
-    password += charset.charAt(Math.floor(Math.random() * charset.length));
+    password += charset.charAt(randomInt(charset.length));
   }
   
   return password;
 };
+
+/**
+ * Generate a random password that passes the strength rules
+ */
+export const generateTemporaryPassword = (length = 16): string => {
+  let password = generateRandomPassword(length);
+
+  while (!validatePasswordStrength(password).isValid) {
+    password = generateRandomPassword(length);
+  }
+
+  return password;
+};
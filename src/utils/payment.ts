@@ -0,0 +1,54 @@
+import { PaymentStatus, PaymentType } from '@prisma/client';
+
+/**
+ * Payment ledger utilities
+ * Derives a contract's paid amount and payment status from its ledger entries
+ */
+
+export interface LedgerEntry {
+  type: PaymentType;
+  amount: number;
+  voidedAt?: Date | null;
+}
+
+export interface LedgerTotals {
+  paidAmount: number;
+  refundedAmount: number;
+  paymentStatus: PaymentStatus;
+}
+
+/**
+ * Round to cents to avoid floating point drift when summing Decimal amounts
+ */
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Compute paid/refunded totals and the resulting payment status
+ * Voided entries are ignored; REFUNDED means money was received and everything was given back
+ */
+export const calculateLedgerTotals = (entries: LedgerEntry[], totalAmount: number): LedgerTotals => {
+  const active = entries.filter(entry => !entry.voidedAt);
+
+  const received = active
+    .filter(entry => entry.type === 'PAYMENT')
+    .reduce((sum, entry) => sum + entry.amount, 0);
+  const refundedAmount = roundAmount(active
+    .filter(entry => entry.type === 'REFUND')
+    .reduce((sum, entry) => sum + entry.amount, 0));
+  const paidAmount = roundAmount(received - refundedAmount);
+
+  let paymentStatus: PaymentStatus;
+  if (paidAmount <= 0) {
+    paymentStatus = refundedAmount > 0 ? 'REFUNDED' : 'PENDING';
+  } else if (paidAmount < totalAmount) {
+    paymentStatus = 'PARTIAL';
+  } else {
+    paymentStatus = 'PAID';
+  }
+
+  return {
+    paidAmount: Math.max(paidAmount, 0),
+    refundedAmount,
+    paymentStatus
+  };
+};
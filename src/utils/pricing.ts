@@ -0,0 +1,142 @@
+import { PriceAdjustmentType, PricingRuleType, RentalServiceType, VehicleCategory } from '@prisma/client';
+import { AppliedPricingRule, PriceQuoteDay } from '../types/pricing';
+import { roundAmount } from './payment';
+
+/**
+ * Pricing engine
+ * Turns a vehicle's flat price into per-day rates using the active pricing rules:
+ * BASE_RATE and DURATION rules adjust the rate for the whole rental,
+ * SEASON and WEEKEND rules are then applied day by day.
+ * When several rules of a type match, the most specific scope wins
+ * (vehicle, then category, then all vehicles; service type specific first), then the highest priority.
+ */
+
+export interface PricingRuleDefinition {
+  id: string;
+  name: string;
+  type: PricingRuleType;
+  adjustmentType: PriceAdjustmentType;
+  value: number;
+  vehicleId?: string | null;
+  category?: VehicleCategory | null;
+  serviceType?: RentalServiceType | null;
+  startDate?: Date | null;
+  endDate?: Date | null;
+  minDays?: number | null;
+  weekendDays: number[];
+  priority: number;
+}
+
+export interface DailyRatesInput {
+  basePrice: number;
+  vehicleId: string;
+  category: VehicleCategory;
+  serviceType: RentalServiceType;
+  startDate: Date;
+  totalDays: number;
+  rules: PricingRuleDefinition[];
+}
+
+export interface DailyRatesResult {
+  days: PriceQuoteDay[];
+  appliedRules: AppliedPricingRule[];
+  subtotal: number;
+  dailyRate: number;
+}
+
+const DAY_IN_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Number of billed days, same rule as the contract totals
+ */
+export const countRentalDays = (startDate: Date, endDate: Date): number =>
+  Math.ceil((endDate.getTime() - startDate.getTime()) / DAY_IN_MS);
+
+const toDateKey = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const applyAdjustment = (rate: number, rule: PricingRuleDefinition): number =>
+  rule.adjustmentType === 'FIXED_RATE' ? rule.value : rate * (1 + rule.value / 100);
+
+const specificity = (rule: PricingRuleDefinition): number =>
+  (rule.vehicleId ? 4 : rule.category ? 2 : 0) + (rule.serviceType ? 1 : 0);
+
+const pickRule = (rules: PricingRuleDefinition[]): PricingRuleDefinition | undefined =>
+  [...rules].sort((a, b) => specificity(b) - specificity(a) || b.priority - a.priority)[0];
+
+/**
+ * Compute the rate of every billed day and the resulting subtotal
+ */
+export const calculateDailyRates = (input: DailyRatesInput): DailyRatesResult => {
+  const matching = input.rules.filter(rule =>
+    (!rule.vehicleId || rule.vehicleId === input.vehicleId) &&
+    (!rule.category || rule.category === input.category) &&
+    (!rule.serviceType || rule.serviceType === input.serviceType)
+  );
+  const ofType = (type: PricingRuleType) => matching.filter(rule => rule.type === type);
+  const applied = new Map<string, AppliedPricingRule>();
+  const markApplied = (rule: PricingRuleDefinition) =>
+    applied.set(rule.id, { id: rule.id, name: rule.name, type: rule.type });
+
+  let rentalRate = input.basePrice;
+
+  const baseRule = pickRule(ofType('BASE_RATE'));
+  if (baseRule) {
+    rentalRate = applyAdjustment(rentalRate, baseRule);
+    markApplied(baseRule);
+  }
+
+  // Longest tier reached wins among rules of the same scope
+  const durationRule = [...ofType('DURATION')]
+    .filter(rule => (rule.minDays ?? 0) <= input.totalDays)
+    .sort((a, b) =>
+      specificity(b) - specificity(a) ||
+      (b.minDays ?? 0) - (a.minDays ?? 0) ||
+      b.priority - a.priority
+    )[0];
+  if (durationRule) {
+    rentalRate = applyAdjustment(rentalRate, durationRule);
+    markApplied(durationRule);
+  }
+
+  const seasons = ofType('SEASON');
+  const weekendRule = pickRule(ofType('WEEKEND'));
+  const days: PriceQuoteDay[] = [];
+
+  for (let i = 0; i < input.totalDays; i++) {
+    const date = new Date(input.startDate.getFullYear(), input.startDate.getMonth(), input.startDate.getDate() + i);
+    const dateKey = toDateKey(date);
+    const dayRules: string[] = [];
+    let rate = rentalRate;
+
+    const seasonRule = pickRule(seasons.filter(rule =>
+      rule.startDate && rule.endDate &&
+      toDateKey(rule.startDate) <= dateKey && dateKey <= toDateKey(rule.endDate)
+    ));
+    if (seasonRule) {
+      rate = applyAdjustment(rate, seasonRule);
+      dayRules.push(seasonRule.id);
+      markApplied(seasonRule);
+    }
+
+    if (weekendRule && weekendRule.weekendDays.includes(date.getDay())) {
+      rate = applyAdjustment(rate, weekendRule);
+      dayRules.push(weekendRule.id);
+      markApplied(weekendRule);
+    }
+
+    days.push({ date: dateKey, rate: roundAmount(Math.max(rate, 0)), rules: dayRules });
+  }
+
+  const subtotal = roundAmount(days.reduce((sum, day) => sum + day.rate, 0));
+
+  return {
+    days,
+    appliedRules: Array.from(applied.values()),
+    subtotal,
+    dailyRate: input.totalDays > 0 ? roundAmount(subtotal / input.totalDays) : roundAmount(rentalRate)
+  };
+};
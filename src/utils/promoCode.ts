@@ -0,0 +1,27 @@
+import { PromoDiscountType } from '@prisma/client';
+import { roundAmount } from './payment';
+
+/**
+ * Promo code utilities
+ */
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+/**
+ * Discount granted by a code on an amount
+ * Percentage codes are capped by maxDiscount; no code can discount more than the amount itself
+ */
+export const calculatePromoDiscount = (
+  promo: { discountType: PromoDiscountType; value: number; maxDiscount?: number | null },
+  amount: number
+): number => {
+  let discount = promo.discountType === 'PERCENTAGE'
+    ? amount * promo.value / 100
+    : promo.value;
+
+  if (promo.discountType === 'PERCENTAGE' && promo.maxDiscount != null) {
+    discount = Math.min(discount, promo.maxDiscount);
+  }
+
+  return roundAmount(Math.min(Math.max(discount, 0), amount));
+};
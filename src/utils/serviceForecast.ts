@@ -0,0 +1,127 @@
+/**
+ * Service interval forecasting utilities
+ */
+
+export interface VehicleUsage {
+  measuredRentalDays: number; // Rental days of the rentals with a check-out and check-in reading
+  measuredDistanceKm: number; // Km driven over those rentals
+  rentalDays: number; // All rental days in the observed period
+  observedDays: number; // Length of the observed period
+}
+
+export interface ServiceIntervalSchedule {
+  intervalKm?: number | null;
+  intervalMonths?: number | null;
+  lastServiceMileage: number;
+  lastServiceDate: Date;
+}
+
+export interface ServiceForecastThresholds {
+  dueSoonKm: number;
+  dueSoonDays: number;
+}
+
+export type ServiceForecastStatus = 'OVERDUE' | 'DUE_SOON' | 'OK' | 'UNKNOWN';
+
+export interface ServiceForecast {
+  kmPerRentalDay: number | null; // Average distance per rental day
+  kmPerDay: number | null; // Average distance per calendar day, idle days included
+  dueMileage: number | null;
+  remainingKm: number | null;
+  rentalDaysUntilDue: number | null;
+  dueDateByMileage: Date | null; // When the distance is expected to be reached
+  dueDateByTime: Date | null;
+  dueDate: Date | null; // Whichever comes first
+  dueBy: 'MILEAGE' | 'TIME' | null;
+  status: ServiceForecastStatus;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  // Keep month ends on the last day of shorter months
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+};
+
+/**
+ * Predict when a service interval falls due
+ * The distance is projected from the km driven per rental day, scaled by how often
+ * the vehicle is rented; the time limit is counted from the last service
+ */
+export const forecastServiceInterval = (
+  schedule: ServiceIntervalSchedule,
+  currentMileage: number,
+  usage: VehicleUsage,
+  thresholds: ServiceForecastThresholds,
+  now: Date = new Date()
+): ServiceForecast => {
+  const kmPerRentalDay = usage.measuredRentalDays > 0
+    ? Math.round((usage.measuredDistanceKm / usage.measuredRentalDays) * 10) / 10
+    : null;
+  const utilization = usage.observedDays > 0 ? Math.min(usage.rentalDays / usage.observedDays, 1) : 0;
+  const kmPerDay = kmPerRentalDay !== null ? Math.round(kmPerRentalDay * utilization * 10) / 10 : null;
+
+  const dueMileage = schedule.intervalKm ? schedule.lastServiceMileage + schedule.intervalKm : null;
+  const remainingKm = dueMileage !== null ? dueMileage - currentMileage : null;
+
+  let rentalDaysUntilDue: number | null = null;
+  let dueDateByMileage: Date | null = null;
+  if (remainingKm !== null) {
+    if (remainingKm <= 0) {
+      rentalDaysUntilDue = 0;
+      dueDateByMileage = new Date(now);
+    } else {
+      if (kmPerRentalDay) {
+        rentalDaysUntilDue = Math.ceil(remainingKm / kmPerRentalDay);
+      }
+      if (kmPerDay) {
+        dueDateByMileage = new Date(now.getTime() + Math.ceil(remainingKm / kmPerDay) * DAY_MS);
+      }
+    }
+  }
+
+  const dueDateByTime = schedule.intervalMonths
+    ? addMonths(schedule.lastServiceDate, schedule.intervalMonths)
+    : null;
+
+  let dueDate: Date | null = null;
+  let dueBy: ServiceForecast['dueBy'] = null;
+  if (dueDateByMileage && (!dueDateByTime || dueDateByMileage <= dueDateByTime)) {
+    dueDate = dueDateByMileage;
+    dueBy = 'MILEAGE';
+  } else if (dueDateByTime) {
+    dueDate = dueDateByTime;
+    dueBy = 'TIME';
+  }
+
+  let status: ServiceForecastStatus;
+  if ((remainingKm !== null && remainingKm <= 0) || (dueDateByTime && dueDateByTime <= now)) {
+    status = 'OVERDUE';
+  } else if (
+    (remainingKm !== null && remainingKm <= thresholds.dueSoonKm) ||
+    (dueDate && dueDate.getTime() - now.getTime() <= thresholds.dueSoonDays * DAY_MS)
+  ) {
+    status = 'DUE_SOON';
+  } else {
+    status = dueDate || remainingKm !== null ? 'OK' : 'UNKNOWN';
+  }
+
+  return {
+    kmPerRentalDay,
+    kmPerDay,
+    dueMileage,
+    remainingKm,
+    rentalDaysUntilDue,
+    dueDateByMileage,
+    dueDateByTime,
+    dueDate,
+    dueBy,
+    status
+  };
+};
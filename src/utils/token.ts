@@ -0,0 +1,20 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * Opaque Token Utility Functions
+ * Random tokens handed out by email or link; only their hash is stored
+ */
+
+/**
+ * Generate a URL-safe random token
+ */
+export const generateSecureToken = (bytes = 32): string => {
+  return randomBytes(bytes).toString('base64url');
+};
+
+/**
+ * SHA-256 hash of a token, as stored in the database
+ */
+export const hashToken = (token: string): string => {
+  return createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { AdminRole } from '@prisma/client';
+
+const passwordField = z.string()
+  .min(8, 'Password must be at least 8 characters')
+  .max(255, 'Password must not exceed 255 characters')
+  .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/,
+         'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character');
+
+const adminFields = {
+  email: z.string()
+    .email('Invalid email format')
+    .max(255, 'Email must not exceed 255 characters'),
+  firstName: z.string().min(1, 'First name is required').max(100, 'First name must not exceed 100 characters').optional(),
+  lastName: z.string().min(1, 'Last name is required').max(100, 'Last name must not exceed 100 characters').optional(),
+  role: z.nativeEnum(AdminRole),
+};
+
+// Without a password a temporary one is generated and returned once
+export const inviteAdminSchema = z.object({
+  ...adminFields,
+  password: passwordField.optional(),
+});
+
+export const updateAdminSchema = z.object(adminFields).partial();
+
+export const resetAdminPasswordSchema = z.object({
+  password: passwordField.optional(),
+});
+
+export const adminQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  search: z.string().optional(),
+  role: z.nativeEnum(AdminRole).optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export type InviteAdminInput = z.infer<typeof inviteAdminSchema>;
+export type UpdateAdminInput = z.infer<typeof updateAdminSchema>;
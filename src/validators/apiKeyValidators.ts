@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { API_KEY_SCOPES } from '../types/apiKey';
+
+const apiKeyFields = {
+  name: z.string().min(1, 'Name is required').max(100, 'Name must not exceed 100 characters'),
+  description: z.string().max(1000).optional().nullable(),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'At least one scope is required')
+    .transform(scopes => Array.from(new Set(scopes))),
+  rateLimitPerMinute: z.number().int().min(1).max(10000).optional(),
+  expiresAt: z.coerce.date().optional().nullable(),
+};
+
+export const createApiKeySchema = z.object(apiKeyFields).refine(
+  data => !data.expiresAt || data.expiresAt > new Date(),
+  { message: 'Expiry date must be in the future', path: ['expiresAt'] }
+);
+
+export const updateApiKeySchema = z.object(apiKeyFields).partial();
+
+export const apiKeyQuerySchema = z.object({
+  search: z.string().optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
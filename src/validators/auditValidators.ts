@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { AuditEntityType } from '@prisma/client';
+
+// Accepts CONTRACT, contract or rent-request style values
+const entityTypeSchema = z.string()
+  .transform(value => value.toUpperCase().replace(/-/g, '_'))
+  .pipe(z.nativeEnum(AuditEntityType));
+
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  adminId: z.string().optional(),
+  entityType: entityTypeSchema.optional(),
+  entityId: z.string().optional(),
+  action: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export const auditEntityParamsSchema = z.object({
+  entityType: entityTypeSchema,
+  entityId: z.string().min(1),
+});
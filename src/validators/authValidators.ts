@@ -54,6 +54,70 @@ export const createAdminSchema = z.object({
            'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'),
 });
 
+/**
+ * Forgot password validation
+ */
+export const forgotPasswordSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .max(255, 'Email must not exceed 255 characters'),
+});
+
+/**
+ * Password reset validation (token from the emailed link)
+ */
+export const resetPasswordSchema = z.object({
+  token: z.string()
+    .min(1, 'Reset token is required')
+    .max(255, 'Reset token must not exceed 255 characters'),
+
+  password: z.string()
+    .min(8, 'Password must be at least 8 characters')
+    .max(255, 'Password must not exceed 255 characters')
+    .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, 
+           'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'),
+});
+
+const totpCodeField = z.string()
+  .regex(/^\d{6}$/, 'Authentication code must be 6 digits');
+
+const recoveryCodeField = z.string()
+  .min(10, 'Invalid recovery code')
+  .max(20, 'Invalid recovery code');
+
+/**
+ * Second login step validation: a TOTP code or a recovery code
+ */
+export const twoFactorVerifySchema = z.object({
+  challengeToken: z.string()
+    .min(1, 'Challenge token is required'),
+  code: totpCodeField.optional(),
+  recoveryCode: recoveryCodeField.optional(),
+}).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+  message: 'Provide either an authentication code or a recovery code',
+  path: ['code'],
+});
+
+/**
+ * Two-factor enrollment confirmation and recovery code regeneration
+ */
+export const twoFactorCodeSchema = z.object({
+  code: totpCodeField,
+});
+
+/**
+ * Two-factor deactivation validation
+ */
+export const twoFactorDisableSchema = z.object({
+  password: z.string()
+    .min(1, 'Password is required'),
+  code: totpCodeField.optional(),
+  recoveryCode: recoveryCodeField.optional(),
+}).refine(data => Boolean(data.code) !== Boolean(data.recoveryCode), {
+  message: 'Provide either an authentication code or a recovery code',
+  path: ['code'],
+});
+
 /**
  * Change password validation
  */
@@ -67,3 +131,12 @@ export const changePasswordSchema = z.object({
     .regex(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, 
            'Password must contain at least one uppercase letter, one lowercase letter, one number, and one special character'),
 });
+
+/**
+ * Login history query validation
+ */
+export const loginHistoryQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  success: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
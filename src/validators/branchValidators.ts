@@ -0,0 +1,62 @@
+import { z } from 'zod';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format');
+
+const openingHoursSchema = z.array(
+  z.object({
+    day: z.number().int().min(0, 'Day must be between 0 (Sunday) and 6').max(6, 'Day must be between 0 (Sunday) and 6'),
+    open: timeSchema,
+    close: timeSchema,
+  }).refine(hours => hours.close > hours.open, {
+    message: 'Closing time must be after opening time',
+    path: ['close']
+  })
+);
+
+const branchFields = {
+  code: z.string()
+    .trim()
+    .min(2, 'Code must be at least 2 characters')
+    .max(30, 'Code must be 30 characters or less')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, dashes and underscores')
+    .transform(value => value.toUpperCase()),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  address: z.string().trim().min(1, 'Address is required').max(300, 'Address must be 300 characters or less'),
+  city: z.string().trim().min(1, 'City is required').max(100, 'City must be 100 characters or less'),
+  postalCode: z.string().trim().max(20, 'Postal code must be 20 characters or less').optional().nullable(),
+  latitude: z.number().min(-90, 'Invalid latitude').max(90, 'Invalid latitude').optional().nullable(),
+  longitude: z.number().min(-180, 'Invalid longitude').max(180, 'Invalid longitude').optional().nullable(),
+  phone: z.string().trim().max(30, 'Phone must be 30 characters or less').optional().nullable(),
+  email: z.string().email('Invalid email').optional().nullable(),
+  openingHours: openingHoursSchema.optional().nullable(),
+  isActive: z.boolean().optional(),
+};
+
+export const createBranchSchema = z.object(branchFields);
+
+export const updateBranchSchema = z.object(branchFields).partial();
+
+export const branchQuerySchema = z.object({
+  city: z.string().optional(),
+  search: z.string().optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const setOneWayFeeSchema = z.object({
+  fromBranchId: z.string().min(1, 'Pickup branch ID is required'),
+  toBranchId: z.string().min(1, 'Drop-off branch ID is required'),
+  amount: z.number().min(0, 'Amount cannot be negative'),
+}).refine(data => data.fromBranchId !== data.toBranchId, {
+  message: 'A one-way fee needs two different branches',
+  path: ['toBranchId']
+});
+
+export const oneWayFeeQuoteSchema = z.object({
+  pickupBranchId: z.string().min(1, 'Pickup branch ID is required'),
+  dropoffBranchId: z.string().min(1, 'Drop-off branch ID is required'),
+});
+
+export type CreateBranchInput = z.infer<typeof createBranchSchema>;
+export type UpdateBranchInput = z.infer<typeof updateBranchSchema>;
+export type BranchQueryInput = z.infer<typeof branchQuerySchema>;
+export type SetOneWayFeeInput = z.infer<typeof setOneWayFeeSchema>;
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { MaintenanceStatus, MaintenanceType } from '@prisma/client';
+
+const maintenanceFields = {
+  vehicleId: z.string().min(1, 'Vehicle ID is required'),
+  type: z.nativeEnum(MaintenanceType),
+  startDate: z.coerce.date({ invalid_type_error: 'Invalid start date' }),
+  endDate: z.coerce.date({ invalid_type_error: 'Invalid end date' }),
+  garage: z.string().max(200, 'Garage must be 200 characters or less').optional().nullable(),
+  cost: z.number().min(0, 'Cost cannot be negative').optional().nullable(),
+  description: z.string().max(2000, 'Description must be 2000 characters or less').optional().nullable(),
+};
+
+export const createMaintenanceSchema = z.object(maintenanceFields).refine(
+  data => data.endDate >= data.startDate,
+  { message: 'End date must be on or after the start date', path: ['endDate'] }
+);
+
+// The vehicle of a record cannot be changed; status changes go through the transitions
+export const updateMaintenanceSchema = z.object(maintenanceFields).omit({ vehicleId: true }).partial().extend({
+  status: z.nativeEnum(MaintenanceStatus).optional(),
+});
+
+export const maintenanceQuerySchema = z.object({
+  vehicleId: z.string().optional(),
+  type: z.nativeEnum(MaintenanceType).optional(),
+  status: z.nativeEnum(MaintenanceStatus).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export type CreateMaintenanceInput = z.infer<typeof createMaintenanceSchema>;
+export type UpdateMaintenanceInput = z.infer<typeof updateMaintenanceSchema>;
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+export const requestMagicLinkSchema = z.object({
+  email: z.string()
+    .email('Invalid email format')
+    .max(255, 'Email must not exceed 255 characters'),
+});
+
+export const verifyMagicLinkSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+});
+
+export const portalDocumentQuerySchema = z.object({
+  lang: z.enum(['fr', 'ar']).default('fr'),
+  download: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
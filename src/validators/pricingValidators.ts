@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { PriceAdjustmentType, PricingRuleType, RentalServiceType, VehicleCategory } from '@prisma/client';
+
+const pricingRuleFields = {
+  name: z.string().min(1, 'Rule name is required').max(100, 'Rule name must be 100 characters or less'),
+  description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+  type: z.nativeEnum(PricingRuleType),
+  adjustmentType: z.nativeEnum(PriceAdjustmentType),
+  value: z.number(),
+
+  // Scope
+  vehicleId: z.string().min(1).nullable().optional(),
+  category: z.nativeEnum(VehicleCategory).nullable().optional(),
+  serviceType: z.nativeEnum(RentalServiceType).nullable().optional(),
+
+  // Conditions
+  startDate: z.coerce.date().nullable().optional(),
+  endDate: z.coerce.date().nullable().optional(),
+  minDays: z.number().int().min(1, 'Minimum days must be at least 1').nullable().optional(),
+  weekendDays: z.array(z.number().int().min(0).max(6)).min(1, 'At least one weekend day is required').optional(),
+
+  priority: z.number().int().optional(),
+  isActive: z.boolean().optional(),
+};
+
+export const createPricingRuleSchema = z.object(pricingRuleFields);
+
+export const updatePricingRuleSchema = z.object(pricingRuleFields).partial();
+
+export const pricingRuleQuerySchema = z.object({
+  type: z.nativeEnum(PricingRuleType).optional(),
+  vehicleId: z.string().optional(),
+  category: z.nativeEnum(VehicleCategory).optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const priceQuoteSchema = z.object({
+  vehicleId: z.string().min(1, 'Vehicle ID is required'),
+  startDate: z.coerce.date({ invalid_type_error: 'Invalid start date' }),
+  endDate: z.coerce.date({ invalid_type_error: 'Invalid end date' }),
+  serviceType: z.nativeEnum(RentalServiceType).optional().default(RentalServiceType.INDIVIDUAL),
+  discountAmount: z.number().min(0, 'Discount cannot be negative').optional(),
+  promoCode: z.string().trim().min(1).optional(),
+  clientEmail: z.string().email('Invalid email').optional(),
+  pickupBranchId: z.string().min(1).optional(),
+  dropoffBranchId: z.string().min(1).optional(),
+  accessories: z.array(z.object({
+    name: z.string().min(1, 'Accessory name is required'),
+    price: z.number().min(0, 'Accessory price cannot be negative'),
+    quantity: z.number().int().min(1).optional().default(1),
+  })).optional(),
+});
+
+export type CreatePricingRuleInput = z.infer<typeof createPricingRuleSchema>;
+export type UpdatePricingRuleInput = z.infer<typeof updatePricingRuleSchema>;
+export type PricingRuleQueryInput = z.infer<typeof pricingRuleQuerySchema>;
+export type PriceQuoteInputData = z.infer<typeof priceQuoteSchema>;
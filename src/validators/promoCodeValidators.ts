@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { PromoDiscountType, RentalServiceType, VehicleCategory } from '@prisma/client';
+import { normalizePromoCode } from '../utils/promoCode';
+
+const promoCodeFields = {
+  code: z.string()
+    .min(3, 'Code must be at least 3 characters')
+    .max(50, 'Code must be 50 characters or less')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Code can only contain letters, numbers, dashes and underscores')
+    .transform(normalizePromoCode),
+  description: z.string().max(500, 'Description must be 500 characters or less').optional(),
+  discountType: z.nativeEnum(PromoDiscountType),
+  value: z.number().positive('Value must be greater than 0'),
+  maxDiscount: z.number().positive('Maximum discount must be greater than 0').nullable().optional(),
+  minAmount: z.number().min(0, 'Minimum amount cannot be negative').nullable().optional(),
+
+  validFrom: z.coerce.date().nullable().optional(),
+  validUntil: z.coerce.date().nullable().optional(),
+  maxUses: z.number().int().min(1, 'Maximum uses must be at least 1').nullable().optional(),
+  maxUsesPerClient: z.number().int().min(1, 'Maximum uses per client must be at least 1').nullable().optional(),
+
+  categories: z.array(z.nativeEnum(VehicleCategory)).optional(),
+  serviceTypes: z.array(z.nativeEnum(RentalServiceType)).optional(),
+
+  isActive: z.boolean().optional(),
+};
+
+export const createPromoCodeSchema = z.object(promoCodeFields);
+
+export const updatePromoCodeSchema = z.object(promoCodeFields).partial();
+
+export const promoCodeQuerySchema = z.object({
+  search: z.string().optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const promoCodeReportQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+export type CreatePromoCodeInput = z.infer<typeof createPromoCodeSchema>;
+export type UpdatePromoCodeInput = z.infer<typeof updatePromoCodeSchema>;
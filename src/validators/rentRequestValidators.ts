@@ -59,6 +59,10 @@ export const createRentRequestSchema = Joi.object({
   vehicleId: Joi.string().required().messages({
     'any.required': 'L\'identifiant du véhicule est obligatoire',
   }),
+
+  promoCode: Joi.string().trim().max(50).allow('').optional().messages({
+    'string.max': 'Le code promo ne peut pas dépasser 50 caractères',
+  }),
 }).custom((value, helpers) => {
   // Custom validation for rental duration
   const { startDate, endDate } = value;
@@ -109,6 +113,50 @@ export const updateRentRequestSchema = Joi.object({
   'object.min': 'Au moins un champ doit être fourni pour la mise à jour',
 });
 
+/**
+ * Validation for converting a rent request into a contract (admin only)
+ */
+export const convertRentRequestSchema = Joi.object({
+  serviceType: Joi.string()
+    .valid('INDIVIDUAL', 'EVENTS', 'ENTERPRISE')
+    .default('INDIVIDUAL')
+    .messages({
+      'any.only': 'Type de service invalide. Les valeurs autorisées sont: INDIVIDUAL, EVENTS, ENTERPRISE',
+    }),
+
+  discountAmount: Joi.number().min(0).optional().messages({
+    'number.min': 'La remise ne peut pas être négative',
+  }),
+
+  promoCode: Joi.string().trim().max(50).optional().messages({
+    'string.max': 'Le code promo ne peut pas dépasser 50 caractères',
+  }),
+
+  notes: Joi.string().max(2000).trim().allow('').optional().messages({
+    'string.max': 'Les notes ne peuvent pas dépasser 2000 caractères',
+  }),
+
+  pickupLocation: Joi.string().max(255).trim().optional(),
+
+  dropoffLocation: Joi.string().max(255).trim().optional(),
+
+  // Client details, only used when no existing client matches the request
+  dateNaissance: Joi.date().iso().max('now').optional().messages({
+    'date.max': 'La date de naissance doit être dans le passé',
+  }),
+
+  adresse: Joi.string().min(10).max(500).trim().optional().messages({
+    'string.min': 'L\'adresse doit contenir au moins 10 caractères',
+    'string.max': 'L\'adresse ne peut pas dépasser 500 caractères',
+  }),
+
+  datePermis: Joi.date().iso().max('now').optional().messages({
+    'date.max': 'La date du permis doit être dans le passé',
+  }),
+
+  numeroPermis: Joi.string().max(50).trim().optional(),
+});
+
 /**
  * Validation for rent request query filters
  */
@@ -244,5 +292,6 @@ export const validateSchema = (schema: Joi.ObjectSchema) => {
 // Pre-configured validation functions
 export const validateCreateRentRequest = validateSchema(createRentRequestWithBusinessRulesSchema);
 export const validateUpdateRentRequest = validateSchema(updateRentRequestSchema);
+export const validateConvertRentRequest = validateSchema(convertRentRequestSchema);
 export const validateRentRequestFilters = validateSchema(rentRequestFiltersSchema);
 export const validateRentRequestId = validateSchema(rentRequestIdSchema);
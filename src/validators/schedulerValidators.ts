@@ -0,0 +1,8 @@
+import { z } from 'zod';
+import { JobRunStatus } from '@prisma/client';
+
+export const jobRunQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.nativeEnum(JobRunStatus).optional(),
+});
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { MaintenanceType } from '@prisma/client';
+
+const serviceIntervalFields = {
+  vehicleId: z.string().min(1, 'Vehicle ID is required'),
+  name: z.string().trim().min(1, 'Name is required').max(100, 'Name must be 100 characters or less'),
+  maintenanceType: z.nativeEnum(MaintenanceType).optional(),
+  intervalKm: z.number().int().min(1, 'Interval must be at least 1 km').optional().nullable(),
+  intervalMonths: z.number().int().min(1, 'Interval must be at least 1 month').max(120, 'Interval must be 120 months or less').optional().nullable(),
+  lastServiceMileage: z.number().int().min(0, 'Mileage cannot be negative').optional().nullable(),
+  lastServiceDate: z.coerce.date({ invalid_type_error: 'Invalid last service date' }).optional().nullable(),
+  isActive: z.boolean().optional(),
+  notes: z.string().max(1000, 'Notes must be 1000 characters or less').optional().nullable(),
+};
+
+export const createServiceIntervalSchema = z.object(serviceIntervalFields).refine(
+  data => Boolean(data.intervalKm || data.intervalMonths),
+  { message: 'A distance or a time interval is required', path: ['intervalKm'] }
+);
+
+// The vehicle of an interval cannot be changed
+export const updateServiceIntervalSchema = z.object(serviceIntervalFields).omit({ vehicleId: true }).partial();
+
+// Both default to the vehicle's current mileage and today
+export const markServicedSchema = z.object({
+  mileage: z.number().int().min(0, 'Mileage cannot be negative').optional(),
+  date: z.coerce.date({ invalid_type_error: 'Invalid service date' }).optional(),
+});
+
+export const serviceIntervalQuerySchema = z.object({
+  vehicleId: z.string().optional(),
+  isActive: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+});
+
+export const serviceForecastQuerySchema = z.object({
+  vehicleId: z.string().optional(),
+  status: z.enum(['OVERDUE', 'DUE_SOON', 'OK', 'UNKNOWN']).optional(),
+});
+
+export type CreateServiceIntervalInput = z.infer<typeof createServiceIntervalSchema>;
+export type UpdateServiceIntervalInput = z.infer<typeof updateServiceIntervalSchema>;
+export type MarkServicedInput = z.infer<typeof markServicedSchema>;
@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { VehicleDocumentType } from '@prisma/client';
+
+// Fields arrive as multipart form values when a scan is attached, hence the coercions
+const vehicleDocumentFields = {
+  vehicleId: z.string().min(1, 'Vehicle ID is required'),
+  type: z.nativeEnum(VehicleDocumentType),
+  number: z.string().trim().max(100, 'Number must be 100 characters or less').optional().nullable(),
+  issuer: z.string().trim().max(200, 'Issuer must be 200 characters or less').optional().nullable(),
+  issueDate: z.coerce.date({ invalid_type_error: 'Invalid issue date' }).optional().nullable(),
+  expiryDate: z.coerce.date({ invalid_type_error: 'Invalid expiry date' }),
+  notes: z.string().max(2000, 'Notes must be 2000 characters or less').optional().nullable(),
+};
+
+export const createVehicleDocumentSchema = z.object(vehicleDocumentFields).refine(
+  data => !data.issueDate || data.expiryDate >= data.issueDate,
+  { message: 'Expiry date must be on or after the issue date', path: ['expiryDate'] }
+);
+
+// The vehicle of a document cannot be changed
+export const updateVehicleDocumentSchema = z.object(vehicleDocumentFields).omit({ vehicleId: true }).partial();
+
+export const vehicleDocumentQuerySchema = z.object({
+  vehicleId: z.string().optional(),
+  type: z.nativeEnum(VehicleDocumentType).optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+});
+
+export const expiringVehicleDocumentsQuerySchema = z.object({
+  days: z.coerce.number().int().min(0, 'Days cannot be negative').max(365, 'Days cannot exceed 365').optional(),
+  type: z.nativeEnum(VehicleDocumentType).optional(),
+});
+
+export type CreateVehicleDocumentInput = z.infer<typeof createVehicleDocumentSchema>;
+export type UpdateVehicleDocumentInput = z.infer<typeof updateVehicleDocumentSchema>;
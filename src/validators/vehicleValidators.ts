@@ -30,6 +30,7 @@ export const createVehicleSchema = z.object({
   // Pricing and Location
   pricePerDay: z.number().min(0, 'Price per day cannot be negative'),
   location: z.string().min(1, 'Location is required').max(100, 'Location must be 100 characters or less'),
+  currentBranchId: z.string().min(1).optional(),
   
   // Optional Fields
   description: z.string().max(1000, 'Description must be 1000 characters or less').optional(),
@@ -73,6 +74,7 @@ export const updateVehicleSchema = z.object({
   // Pricing and Location
   pricePerDay: z.number().min(0, 'Price per day cannot be negative').optional(),
   location: z.string().min(1, 'Location is required').max(100, 'Location must be 100 characters or less').optional(),
+  currentBranchId: z.string().min(1).nullable().optional(),
   
   // Optional Fields
   description: z.string().max(1000, 'Description must be 1000 characters or less').optional(),
@@ -118,6 +120,7 @@ export const vehicleQuerySchema = z.object({
   minPrice: z.string().regex(/^\d+(\.\d+)?$/).transform(Number).optional(),
   maxPrice: z.string().regex(/^\d+(\.\d+)?$/).transform(Number).optional(),
   location: z.string().optional(),
+  branchId: z.string().optional(),
   seats: z.string().regex(/^\d+$/).transform(Number).optional(),
   available: z.string().transform(value => value === 'true').optional(),
   featured: z.string().transform(value => value === 'true').optional(),
@@ -180,6 +183,38 @@ export const updateImageSchema = z.object({
   isPrimary: z.boolean().optional(),
 });
 
+// Blackout period schemas
+const vehicleBlackoutFields = {
+  startDate: z.coerce.date({ invalid_type_error: 'Invalid start date' }),
+  endDate: z.coerce.date({ invalid_type_error: 'Invalid end date' }),
+  reason: z.string().trim().min(1, 'Reason is required').max(500, 'Reason must be 500 characters or less'),
+};
+
+export const createVehicleBlackoutSchema = z.object(vehicleBlackoutFields).refine(
+  data => data.endDate >= data.startDate,
+  { message: 'End date must be on or after the start date', path: ['endDate'] }
+);
+
+export const updateVehicleBlackoutSchema = z.object(vehicleBlackoutFields).partial();
+
+export const vehicleBlackoutQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Odometer log schemas
+export const createOdometerReadingSchema = z.object({
+  mileage: z.number().int().min(0, 'Mileage cannot be negative'),
+  readAt: z.coerce.date({ invalid_type_error: 'Invalid reading date' }).optional(),
+  notes: z.string().max(500, 'Notes must be 500 characters or less').optional().nullable(),
+});
+
+export const odometerQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
 export type VehicleAccessoryInput = z.infer<typeof vehicleAccessorySchema>;
 export type CreateVehicleInput = z.infer<typeof createVehicleSchema>;
 export type UpdateVehicleInput = z.infer<typeof updateVehicleSchema>;
@@ -193,3 +228,8 @@ export type BulkUpdateAvailabilityInput = z.infer<typeof bulkUpdateAvailabilityS
 export type BulkUpdateFeaturedInput = z.infer<typeof bulkUpdateFeaturedSchema>;
 export type UploadImageInput = z.infer<typeof uploadImageSchema>;
 export type UpdateImageInput = z.infer<typeof updateImageSchema>;
+export type CreateVehicleBlackoutInput = z.infer<typeof createVehicleBlackoutSchema>;
+export type UpdateVehicleBlackoutInput = z.infer<typeof updateVehicleBlackoutSchema>;
+export type VehicleBlackoutQueryInput = z.infer<typeof vehicleBlackoutQuerySchema>;
+export type CreateOdometerReadingInput = z.infer<typeof createOdometerReadingSchema>;
+export type OdometerQueryInput = z.infer<typeof odometerQuerySchema>;
@@ -160,6 +160,227 @@ async function runAuthTests() {
     });
   });
 
+  // Test 11b: Sessions list shows the current session
+  await runner.runTest('List sessions marks the current session', async () => {
+    const response = await runner.apiCall('GET', '/api/v1/auth/sessions', {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`
+      }
+    });
+
+    await runner.expect(response.success, true, 'Sessions should be listed');
+    await runner.expectToExist(
+      response.data.find((session: any) => session.current),
+      'The session of the access token should be marked current'
+    );
+  });
+
+  // Test 11c: A rotated refresh token cannot be used again
+  await runner.runTest('Reusing a rotated refresh token revokes the session', async () => {
+    const rotated = await runner.apiCall('POST', '/api/v1/auth/refresh', {
+      body: {
+        refreshToken: refreshToken
+      }
+    });
+
+    await runner.apiCall('POST', '/api/v1/auth/refresh', {
+      body: {
+        refreshToken: refreshToken
+      },
+      expectStatus: 401
+    });
+
+    // The newest token of the family is revoked with it
+    await runner.apiCall('POST', '/api/v1/auth/refresh', {
+      body: {
+        refreshToken: rotated.data.refreshToken
+      },
+      expectStatus: 401
+    });
+
+    accessToken = rotated.data.accessToken;
+  });
+
+  // Test 11d: Partner API keys only reach the routes and requests they are scoped to
+  const partnerKeys: Record<string, string> = {};
+  const partnerRequest = { id: '', vehicleId: '', startDate: '', endDate: '' };
+
+  await runner.runTest('Create partner API keys', async () => {
+    const keys = {
+      submitter: ['rentRequests:create', 'rentRequests:read'],
+      reader: ['rentRequests:read'],
+      catalog: ['vehicles:read']
+    };
+
+    for (const [name, scopes] of Object.entries(keys)) {
+      const response = await runner.apiCall('POST', '/api/v1/api-keys', {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`
+        },
+        body: {
+          name: `Test partner ${name} ${Date.now()}`,
+          scopes
+        },
+        expectStatus: 201
+      });
+
+      await runner.expectToExist(response.key, 'The key should be returned once on creation');
+      partnerKeys[name] = response.key;
+    }
+  });
+
+  await runner.runTest('API key cannot reach admin routes without authenticateApiKey', async () => {
+    await runner.apiCall('GET', '/api/v1/clients', {
+      headers: {
+        'X-API-Key': partnerKeys.submitter
+      },
+      expectStatus: 401
+    });
+
+    await runner.apiCall('GET', '/api/v1/api-keys', {
+      headers: {
+        'X-API-Key': partnerKeys.submitter
+      },
+      expectStatus: 401
+    });
+  });
+
+  await runner.runTest('API key without the required scope is rejected', async () => {
+    await runner.apiCall('GET', '/api/v1/rent-requests', {
+      headers: {
+        'X-API-Key': partnerKeys.catalog
+      },
+      expectStatus: 403
+    });
+
+    await runner.apiCall('POST', '/api/v1/rent-requests', {
+      headers: {
+        'X-API-Key': partnerKeys.reader
+      },
+      body: {},
+      expectStatus: 403
+    });
+  });
+
+  await runner.runTest('Partners only list the rent requests submitted with their key', async () => {
+    const vehicle = await runner.apiCall('POST', '/api/v1/vehicles', {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: {
+        make: 'TestMake',
+        model: 'PartnerModel',
+        year: 2023,
+        color: 'Blue',
+        licensePlate: `KEY${Date.now()}`,
+        mileage: 1000,
+        fuelType: 'GASOLINE',
+        transmission: 'MANUAL',
+        seats: 5,
+        doors: 4,
+        category: 'COMPACT',
+        pricePerDay: 40,
+        location: 'Test Location',
+        rentalServices: ['INDIVIDUAL']
+      },
+      expectStatus: 201
+    });
+
+    const startDate = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000);
+    const endDate = new Date(startDate.getTime() + 3 * 24 * 60 * 60 * 1000);
+    const created = await runner.apiCall('POST', '/api/v1/rent-requests', {
+      headers: {
+        'X-API-Key': partnerKeys.submitter
+      },
+      body: {
+        clientName: 'Partner Client',
+        clientEmail: generateRandomEmail(),
+        clientPhone: '+213555123456',
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        vehicleId: vehicle.data.id
+      },
+      expectStatus: 201
+    });
+    Object.assign(partnerRequest, {
+      id: created.data.id,
+      vehicleId: vehicle.data.id,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString()
+    });
+
+    const own = await runner.apiCall('GET', '/api/v1/rent-requests', {
+      headers: {
+        'X-API-Key': partnerKeys.submitter
+      }
+    });
+    await runner.expect(own.data.pagination.total, 1, 'The submitting partner should see only its request');
+    await runner.expect(own.data.requests[0].id, created.data.id, 'The listed request should be the one submitted');
+
+    const other = await runner.apiCall('GET', '/api/v1/rent-requests', {
+      headers: {
+        'X-API-Key': partnerKeys.reader
+      }
+    });
+    await runner.expect(other.data.pagination.total, 0, 'Another partner should not see the request');
+
+    await runner.apiCall('GET', `/api/v1/rent-requests/${created.data.id}`, {
+      headers: {
+        'X-API-Key': partnerKeys.reader
+      },
+      expectStatus: 404
+    });
+  });
+
+  await runner.runTest('Partners do not see other customers or admin data', async () => {
+    // Another customer asks for the same vehicle and dates, so the partner's request has conflicts
+    const otherEmail = generateRandomEmail();
+    await runner.apiCall('POST', '/api/v1/rent-requests', {
+      body: {
+        clientName: 'Autre Client',
+        clientEmail: otherEmail,
+        clientPhone: '+213555654321',
+        startDate: partnerRequest.startDate,
+        endDate: partnerRequest.endDate,
+        vehicleId: partnerRequest.vehicleId
+      },
+      expectStatus: 201
+    });
+
+    await runner.apiCall('PATCH', `/api/v1/rent-requests/${partnerRequest.id}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`
+      },
+      body: {
+        adminNotes: 'Note interne pour le test'
+      }
+    });
+
+    const list = await runner.apiCall('GET', '/api/v1/rent-requests', {
+      headers: {
+        'X-API-Key': partnerKeys.submitter
+      }
+    });
+    const single = await runner.apiCall('GET', `/api/v1/rent-requests/${partnerRequest.id}`, {
+      headers: {
+        'X-API-Key': partnerKeys.submitter
+      }
+    });
+
+    for (const request of [list.data.requests[0], single.data]) {
+      await runner.expect(request.id, partnerRequest.id, 'The partner should get its own request');
+      for (const field of ['conflictingBookings', 'adminNotes', 'reviewedBy', 'statusHistory', 'clientEmail', 'clientPhone']) {
+        await runner.expect(field in request, false, `The partner response should not include ${field}`);
+      }
+      await runner.expect(request.vehicle.licensePlate, undefined, 'The vehicle summary should not include the license plate');
+
+      const body = JSON.stringify(request);
+      for (const value of ['Autre Client', otherEmail, 'Note interne pour le test']) {
+        await runner.expect(body.includes(value), false, `The partner response should not contain ${value}`);
+      }
+    }
+  });
+
   // Test 12: Clean up expired tokens
   await runner.runTest('Clean up expired tokens', async () => {
     const response = await runner.apiCall('POST', '/api/v1/auth/cleanup', {
@@ -0,0 +1,184 @@
+import { TestRunner, waitForServer, generateRandomEmail } from './testUtils';
+
+/**
+ * Rent Request Tracking Test Suite
+ *
+ * The public tracking link only works with the signed token from the confirmation email,
+ * shows no admin data and lets the client cancel a request that is still pending
+ */
+
+async function runRentRequestTests() {
+  console.log('📨 Running Rent Request Tracking Tests...\n');
+
+  const runner = new TestRunner();
+
+  // Check if server is running
+  const serverReady = await waitForServer();
+  if (!serverReady) {
+    console.log('❌ Server is not running on http://localhost:5000');
+    console.log('Please start the server with: npm run dev');
+    process.exit(1);
+  }
+
+  console.log('✅ Server is ready\n');
+
+  let adminToken = '';
+  let vehicleId = '';
+  const pending = { id: '', trackingToken: '' };
+  const approved = { id: '', trackingToken: '' };
+
+  // Submit a public rent request and return its id and tracking token
+  const submitRentRequest = async (daysFromNow: number) => {
+    const startDate = new Date(Date.now() + daysFromNow * 24 * 60 * 60 * 1000);
+    const endDate = new Date(startDate.getTime() + 3 * 24 * 60 * 60 * 1000);
+
+    const response = await runner.apiCall('POST', '/api/v1/rent-requests', {
+      body: {
+        clientName: 'Suivi Client',
+        clientEmail: generateRandomEmail(),
+        clientPhone: '+213555123456',
+        startDate: startDate.toISOString(),
+        endDate: endDate.toISOString(),
+        vehicleId
+      },
+      expectStatus: 201
+    });
+
+    await runner.expectToExist(response.data.trackingToken, 'The tracking token should be returned on creation');
+    return { id: response.data.id, trackingToken: response.data.trackingToken };
+  };
+
+  // Test 1: Setup
+  await runner.runTest('Admin login and test vehicle', async () => {
+    const login = await runner.apiCall('POST', '/api/v1/auth/login', {
+      body: {
+        email: 'admin@k2a.com', // Adjust this to match your setup
+        password: 'admin123' // Adjust this to match your setup
+      }
+    });
+    adminToken = login.data.accessToken;
+
+    const vehicle = await runner.apiCall('POST', '/api/v1/vehicles', {
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        make: 'TestMake',
+        model: 'TrackingModel',
+        year: 2023,
+        color: 'Grey',
+        licensePlate: `TRACK${Date.now()}`,
+        mileage: 1000,
+        fuelType: 'GASOLINE',
+        transmission: 'MANUAL',
+        seats: 5,
+        doors: 4,
+        category: 'COMPACT',
+        pricePerDay: 40,
+        location: 'Test Location',
+        rentalServices: ['INDIVIDUAL']
+      },
+      expectStatus: 201
+    });
+    vehicleId = vehicle.data.id;
+  });
+
+  await runner.runTest('Submit rent requests to track', async () => {
+    Object.assign(pending, await submitRentRequest(10));
+    Object.assign(approved, await submitRentRequest(20));
+
+    await runner.apiCall('PATCH', `/api/v1/rent-requests/${approved.id}`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: { status: 'APPROVED' }
+    });
+  });
+
+  // Test 2: Only the signed token opens the tracking page
+  await runner.runTest('Garbage or tampered tracking token returns 404', async () => {
+    await runner.apiCall('GET', '/api/v1/rent-requests/track/not-a-token', {
+      expectStatus: 404
+    });
+
+    const token = pending.trackingToken;
+    const tampered = token.slice(0, -2) + (token.endsWith('AA') ? 'BB' : 'AA');
+    await runner.apiCall('GET', `/api/v1/rent-requests/track/${encodeURIComponent(tampered)}`, {
+      expectStatus: 404
+    });
+
+    await runner.apiCall('POST', `/api/v1/rent-requests/track/${encodeURIComponent(tampered)}/cancel`, {
+      expectStatus: 404
+    });
+  });
+
+  // Test 3: No admin data on the tracking page
+  await runner.runTest('Tracking response has no admin notes or reviewer data', async () => {
+    await runner.apiCall('PATCH', `/api/v1/rent-requests/${pending.id}`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` },
+      body: {
+        adminNotes: 'Note interne de suivi',
+        reviewedBy: 'Relecteur Interne'
+      }
+    });
+
+    const response = await runner.apiCall('GET', `/api/v1/rent-requests/track/${encodeURIComponent(pending.trackingToken)}`);
+
+    await runner.expect(response.data.status, 'PENDING', 'Should show the request status');
+    for (const field of ['adminNotes', 'reviewedBy', 'reviewedAt', 'clientEmail', 'clientPhone']) {
+      await runner.expect(field in response.data, false, `The tracking response should not include ${field}`);
+    }
+    for (const entry of response.data.statusHistory) {
+      await runner.expect('changedBy' in entry, false, 'The status history should not name the admin');
+      await runner.expect('notes' in entry, false, 'The status history should not include admin notes');
+    }
+
+    const body = JSON.stringify(response.data);
+    for (const value of ['Note interne de suivi', 'Relecteur Interne']) {
+      await runner.expect(body.includes(value), false, `The tracking response should not contain ${value}`);
+    }
+  });
+
+  // Test 4: Cancelling from the tracking link
+  await runner.runTest('Cancelling a pending request records the CANCELLED status', async () => {
+    const response = await runner.apiCall('POST', `/api/v1/rent-requests/track/${encodeURIComponent(pending.trackingToken)}/cancel`);
+    await runner.expect(response.data.status, 'CANCELLED', 'The request should be cancelled');
+
+    const rentRequest = await runner.apiCall('GET', `/api/v1/rent-requests/${pending.id}`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+    await runner.expect(rentRequest.data.status, 'CANCELLED', 'The stored status should be CANCELLED');
+    await runner.expectToExist(
+      rentRequest.data.statusHistory.find((entry: any) => entry.oldStatus === 'PENDING' && entry.newStatus === 'CANCELLED'),
+      'The status history should have the PENDING to CANCELLED change'
+    );
+  });
+
+  await runner.runTest('Cancelling a request that is no longer pending returns 409', async () => {
+    await runner.apiCall('POST', `/api/v1/rent-requests/track/${encodeURIComponent(approved.trackingToken)}/cancel`, {
+      expectStatus: 409
+    });
+
+    await runner.apiCall('POST', `/api/v1/rent-requests/track/${encodeURIComponent(pending.trackingToken)}/cancel`, {
+      expectStatus: 409
+    });
+
+    const rentRequest = await runner.apiCall('GET', `/api/v1/rent-requests/${approved.id}`, {
+      headers: { 'Authorization': `Bearer ${adminToken}` }
+    });
+    await runner.expect(rentRequest.data.status, 'APPROVED', 'The approved request should be left unchanged');
+  });
+
+  // Print results
+  runner.printSummary();
+
+  if (runner.hasFailures()) {
+    process.exit(1);
+  }
+}
+
+// Run tests if this file is executed directly
+if (require.main === module) {
+  runRentRequestTests().catch((error) => {
+    console.error('❌ Test runner failed:', error);
+    process.exit(1);
+  });
+}
+
+export { runRentRequestTests };
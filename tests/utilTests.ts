@@ -1,6 +1,19 @@
 import { TestRunner } from './testUtils';
-import { hashPassword, comparePassword } from '../src/utils/password';
+import { hashPassword, comparePassword, generateTemporaryPassword, validatePasswordStrength } from '../src/utils/password';
 import { generateTokens, verifyAccessToken } from '../src/utils/jwt';
+import { calculateLedgerTotals } from '../src/utils/payment';
+import { compareInspections } from '../src/utils/inspection';
+import { calculateDailyRates, PricingRuleDefinition } from '../src/utils/pricing';
+import { calculatePromoDiscount } from '../src/utils/promoCode';
+import { calculateLateFee } from '../src/utils/lateFee';
+import { getNextRunDate } from '../src/utils/cron';
+import { describeAuditAction, diffAuditStates } from '../src/utils/audit';
+import { RBACService } from '../src/services/RBACService';
+import { generateSecureToken, hashToken } from '../src/utils/token';
+import { encodeBase32, generateTotpCode, getTotpStep, verifyTotpCode, normalizeRecoveryCode, generateRecoveryCodes } from '../src/utils/totp';
+import { encryptValue, decryptValue } from '../src/utils/encryption';
+import { calculateLockMinutes } from '../src/utils/loginLockout';
+import { forecastServiceInterval } from '../src/utils/serviceForecast';
 
 async function runUtilTests() {
   console.log('🔧 Running Utility Tests...\n');
@@ -52,7 +65,8 @@ async function runUtilTests() {
   await runner.runTest('Generate tokens should work', async () => {
     const admin = {
       id: 'test-admin-id',
-      email: 'test@k2a.com'
+      email: 'test@k2a.com',
+      role: 'AGENT' as const
     };
     
     const tokens = await generateTokens(admin);
@@ -79,7 +93,8 @@ async function runUtilTests() {
   await runner.runTest('Verify access token should work', async () => {
     const admin = {
       id: 'test-admin-id',
-      email: 'test@k2a.com'
+      email: 'test@k2a.com',
+      role: 'AGENT' as const
     };
     
     const tokens = await generateTokens(admin);
@@ -89,6 +104,7 @@ async function runUtilTests() {
     await runner.expectToContain(decoded, 'email', 'Decoded token should contain email');
     await runner.expect(decoded.adminId, admin.id, 'Decoded adminId should match original');
     await runner.expect(decoded.email, admin.email, 'Decoded email should match original');
+    await runner.expect(decoded.role, admin.role, 'Decoded role should match original');
   });
 
   await runner.runTest('Verify invalid token should fail', async () => {
@@ -106,7 +122,8 @@ async function runUtilTests() {
   await runner.runTest('Generate different tokens each time', async () => {
     const admin = {
       id: 'test-admin-id',
-      email: 'test@k2a.com'
+      email: 'test@k2a.com',
+      role: 'AGENT' as const
     };
     
     const tokens1 = await generateTokens(admin);
@@ -145,6 +162,284 @@ async function runUtilTests() {
     await runner.expect(isMatch, false, 'Password comparison should be case sensitive');
   });
 
+  // Test payment ledger totals
+  await runner.runTest('Ledger totals ignore voided entries', async () => {
+    const totals = calculateLedgerTotals([
+      { type: 'PAYMENT', amount: 300 },
+      { type: 'PAYMENT', amount: 200, voidedAt: new Date() },
+      { type: 'REFUND', amount: 50 }
+    ], 1000);
+
+    await runner.expect(totals.paidAmount, 250, 'Paid amount should be payments minus refunds');
+    await runner.expect(totals.refundedAmount, 50, 'Refunded amount should be summed');
+    await runner.expect(totals.paymentStatus, 'PARTIAL', 'Status should be PARTIAL');
+  });
+
+  await runner.runTest('Ledger status follows paid amount', async () => {
+    const pending = calculateLedgerTotals([], 1000);
+    const paid = calculateLedgerTotals([{ type: 'PAYMENT', amount: 1000 }], 1000);
+    const refunded = calculateLedgerTotals([
+      { type: 'PAYMENT', amount: 1000 },
+      { type: 'REFUND', amount: 1000 }
+    ], 1000);
+
+    await runner.expect(pending.paymentStatus, 'PENDING', 'Empty ledger should be PENDING');
+    await runner.expect(paid.paymentStatus, 'PAID', 'Fully paid ledger should be PAID');
+    await runner.expect(refunded.paymentStatus, 'REFUNDED', 'Fully refunded ledger should be REFUNDED');
+  });
+
+  // Test handover inspection comparison
+  await runner.runTest('Inspection comparison reports distance, fuel and new damages', async () => {
+    const comparison = compareInspections(
+      { mileage: 42000, fuelLevel: 100, damages: [{ zone: 'FRONT_BUMPER', type: 'SCRATCH' }] },
+      {
+        mileage: 42350,
+        fuelLevel: 75,
+        damages: [
+          { zone: 'front_bumper', type: 'SCRATCH' },
+          { zone: 'REAR_LEFT_DOOR', type: 'DENT' }
+        ]
+      }
+    );
+
+    await runner.expect(comparison.distanceDriven, 350, 'Distance should be the mileage difference');
+    await runner.expect(comparison.fuelDifference, -25, 'Fuel difference should be negative when returned with less fuel');
+    await runner.expect(comparison.newDamages.length, 1, 'Only the damage missing at pickup should be new');
+    await runner.expect(comparison.newDamages[0].zone, 'REAR_LEFT_DOOR', 'New damage should be the rear left door dent');
+  });
+
+  // Test pricing engine
+  const pricingRules: PricingRuleDefinition[] = [
+    { id: 'weekend', name: 'Week-end', type: 'WEEKEND', adjustmentType: 'PERCENTAGE', value: 20, weekendDays: [5, 6], priority: 0 },
+    {
+      id: 'summer', name: 'Été', type: 'SEASON', adjustmentType: 'PERCENTAGE', value: 10, weekendDays: [5, 6], priority: 0,
+      startDate: new Date(2025, 6, 1), endDate: new Date(2025, 7, 31)
+    },
+    { id: 'weekly', name: 'Semaine', type: 'DURATION', adjustmentType: 'PERCENTAGE', value: -10, minDays: 7, weekendDays: [5, 6], priority: 0 },
+    {
+      id: 'enterprise', name: 'Entreprise', type: 'BASE_RATE', adjustmentType: 'FIXED_RATE', value: 4000, weekendDays: [5, 6], priority: 0,
+      serviceType: 'ENTERPRISE'
+    }
+  ];
+
+  await runner.runTest('Pricing applies season and weekend rules per day', async () => {
+    const result = calculateDailyRates({
+      basePrice: 5000,
+      vehicleId: 'vehicle-1',
+      category: 'SUV',
+      serviceType: 'INDIVIDUAL',
+      startDate: new Date(2025, 5, 30), // Monday, day before the season starts
+      totalDays: 5,
+      rules: pricingRules
+    });
+
+    await runner.expect(result.days.map(day => day.rate).join(','), '5000,5500,5500,5500,6600', 'Daily rates should include season and Friday uplift');
+    await runner.expect(result.subtotal, 28100, 'Subtotal should be the sum of daily rates');
+    await runner.expect(result.dailyRate, 5620, 'Daily rate should be the average');
+  });
+
+  await runner.runTest('Pricing applies duration tiers and service type rates', async () => {
+    const result = calculateDailyRates({
+      basePrice: 5000,
+      vehicleId: 'vehicle-1',
+      category: 'SUV',
+      serviceType: 'ENTERPRISE',
+      startDate: new Date(2025, 8, 15), // Monday, outside the season
+      totalDays: 7,
+      rules: pricingRules
+    });
+
+    await runner.expect(result.days[0].rate, 3600, 'Enterprise rate with the weekly discount should apply on weekdays');
+    await runner.expect(result.subtotal, 3600 * 5 + 4320 * 2, 'Weekend uplift should apply on Friday and Saturday');
+    await runner.expect(result.appliedRules.length, 3, 'Base rate, duration and weekend rules should be reported');
+  });
+
+  await runner.runTest('Promo discounts are capped and never exceed the amount', async () => {
+    await runner.expect(
+      calculatePromoDiscount({ discountType: 'PERCENTAGE', value: 10 }, 25000),
+      2500,
+      'Percentage codes should discount a share of the amount'
+    );
+    await runner.expect(
+      calculatePromoDiscount({ discountType: 'PERCENTAGE', value: 20, maxDiscount: 3000 }, 25000),
+      3000,
+      'Percentage codes should be capped by maxDiscount'
+    );
+    await runner.expect(
+      calculatePromoDiscount({ discountType: 'FIXED_AMOUNT', value: 5000 }, 4000),
+      4000,
+      'Fixed codes should not discount more than the amount'
+    );
+  });
+
+  await runner.runTest('Late fees are charged per started hour or day after the grace period', async () => {
+    const endDate = new Date(2025, 9, 10, 10, 0);
+    const policy = { gracePeriodMinutes: 60, hourlyFee: 500, dailyFee: 0 };
+
+    const onTime = calculateLateFee(endDate, new Date(2025, 9, 10, 10, 45), 4000, { ...policy, mode: 'HOURLY' });
+    await runner.expect(onTime.fee, 0, 'Returns within the grace period should not be charged');
+
+    const hourly = calculateLateFee(endDate, new Date(2025, 9, 10, 13, 20), 4000, { ...policy, mode: 'HOURLY' });
+    await runner.expect(hourly.fee, 2000, 'Every started hour should be charged');
+
+    const capped = calculateLateFee(endDate, new Date(2025, 9, 11, 9, 0), 4000, { ...policy, mode: 'HOURLY' });
+    await runner.expect(capped.fee, 4000, 'A day of lateness should not cost more than the daily rate');
+
+    const daily = calculateLateFee(endDate, new Date(2025, 9, 11, 13, 0), 4000, { ...policy, mode: 'DAILY' });
+    await runner.expect(daily.fee, 8000, 'Every started day should be charged at the daily rate');
+  });
+
+  await runner.runTest('Cron schedules find the next matching minute', async () => {
+    const from = new Date(2025, 9, 10, 10, 7, 30); // Friday
+
+    await runner.expect(
+      getNextRunDate('*/15 * * * *', from).getTime(),
+      new Date(2025, 9, 10, 10, 15).getTime(),
+      'Steps should match the next quarter hour'
+    );
+    await runner.expect(
+      getNextRunDate('30 3 * * *', from).getTime(),
+      new Date(2025, 9, 11, 3, 30).getTime(),
+      'A daily time already past should move to the next day'
+    );
+    await runner.expect(
+      getNextRunDate('0 9 * * 1-5', from).getTime(),
+      new Date(2025, 9, 13, 9, 0).getTime(),
+      'Weekday schedules should skip the weekend'
+    );
+  });
+
+  await runner.runTest('Audit actions are named after the route', async () => {
+    await runner.expect(describeAuditAction('POST', '/'), 'create', 'Posting to the collection should be a create');
+    await runner.expect(describeAuditAction('DELETE', '/:id'), 'delete', 'Deleting the resource should be a delete');
+    await runner.expect(describeAuditAction('PUT', '/:id/complete'), 'complete', 'Sub-routes should use their own name');
+    await runner.expect(
+      describeAuditAction('PUT', '/:id/payments/:paymentId/void'),
+      'payments.void',
+      'Nested literals should be joined with dots'
+    );
+  });
+
+  await runner.runTest('Audit diff keeps only changed fields', async () => {
+    const changes = diffAuditStates(
+      { status: 'PENDING', paidAmount: 0, notes: 'a', updatedAt: new Date(2025, 0, 1) },
+      { status: 'CONFIRMED', paidAmount: 0, notes: 'a', updatedAt: new Date(2025, 0, 2) }
+    );
+
+    await runner.expect(changes, { status: { from: 'PENDING', to: 'CONFIRMED' } }, 'Only the status should differ');
+    await runner.expect(
+      diffAuditStates(null, { id: 'x' }),
+      { id: { from: null, to: 'x' } },
+      'A missing snapshot should count as null fields'
+    );
+  });
+
+  await runner.runTest('Roles grant only their permissions', async () => {
+    const rbac = new RBACService();
+
+    await runner.expect(rbac.hasPermission('OWNER', 'client:hardDelete'), true, 'Owners should hard delete');
+    await runner.expect(rbac.hasPermission('MANAGER', 'client:hardDelete'), false, 'Managers should not hard delete');
+    await runner.expect(rbac.hasPermission('AGENT', 'payment:refund'), false, 'Agents should not refund');
+    await runner.expect(
+      rbac.hasAllPermissions('ACCOUNTANT', ['payment:refund', 'audit:read']),
+      true,
+      'Accountants should refund and read the audit log'
+    );
+    await runner.expect(rbac.hasPermission(undefined, 'contract:read'), false, 'A missing role should grant nothing');
+  });
+
+  await runner.runTest('Temporary passwords pass the strength rules', async () => {
+    for (let i = 0; i < 20; i++) {
+      const password = generateTemporaryPassword();
+      await runner.expect(password.length, 16, 'Temporary passwords should be 16 characters');
+      await runner.expect(validatePasswordStrength(password).isValid, true, `${password} should be strong`);
+    }
+  });
+
+  await runner.runTest('Secure tokens are URL safe and hashed deterministically', async () => {
+    const token = generateSecureToken();
+
+    await runner.expect(/^[A-Za-z0-9_-]{43}$/.test(token), true, 'A 32 byte token should be 43 URL-safe characters');
+    await runner.expect(hashToken(token), hashToken(token), 'Hashing should be deterministic');
+    await runner.expect(hashToken(token) === token, false, 'The hash should differ from the token');
+    await runner.expect(generateSecureToken() === token, false, 'Tokens should be random');
+  });
+
+  await runner.runTest('TOTP codes match the RFC 6238 test vectors', async () => {
+    const secret = encodeBase32(Buffer.from('12345678901234567890'));
+
+    await runner.expect(secret, 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', 'Base32 encoding should match the RFC secret');
+    await runner.expect(generateTotpCode(secret, getTotpStep(new Date(59 * 1000))), '287082', 'Code at T=59');
+    await runner.expect(generateTotpCode(secret, getTotpStep(new Date(1111111109 * 1000))), '081804', 'Code at T=1111111109');
+
+    const at = new Date(1111111109 * 1000);
+    const previous = generateTotpCode(secret, getTotpStep(at) - 1);
+    await runner.expect(verifyTotpCode(secret, previous, { at }), getTotpStep(at) - 1, 'One step of drift should be accepted');
+    await runner.expect(
+      verifyTotpCode(secret, generateTotpCode(secret, getTotpStep(at) - 3), { at }),
+      null,
+      'Codes outside the window should be rejected'
+    );
+  });
+
+  await runner.runTest('Recovery codes and encrypted secrets round-trip', async () => {
+    const codes = generateRecoveryCodes(5);
+
+    await runner.expect(codes.length, 5, 'Five codes should be generated');
+    await runner.expect(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/.test(codes[0]), true, 'Codes should be formatted XXXXX-XXXXX');
+    await runner.expect(
+      normalizeRecoveryCode(codes[0].toLowerCase().replace('-', ' ')),
+      normalizeRecoveryCode(codes[0]),
+      'Case and separators should not matter'
+    );
+
+    const encrypted = encryptValue('GEZDGNBVGY3TQOJQ', 'test-key');
+    await runner.expect(decryptValue(encrypted, 'test-key'), 'GEZDGNBVGY3TQOJQ', 'Decryption should restore the secret');
+  });
+
+  await runner.runTest('Login lockout duration grows with each lockout', async () => {
+    const policy = { maxAttempts: 5, baseLockMinutes: 15, maxLockMinutes: 120 };
+
+    await runner.expect(calculateLockMinutes(1, policy), 15, 'First lockout should last the base duration');
+    await runner.expect(calculateLockMinutes(3, policy), 60, 'Each lockout should double the previous one');
+    await runner.expect(calculateLockMinutes(10, policy), 120, 'Duration should be capped at the maximum');
+  });
+
+  await runner.runTest('Service forecasts project the km per rental day to the next due date', async () => {
+    const now = new Date(2025, 9, 10, 12, 0);
+    const usage = { measuredRentalDays: 10, measuredDistanceKm: 1200, rentalDays: 45, observedDays: 90 };
+    const thresholds = { dueSoonKm: 1000, dueSoonDays: 14 };
+    const schedule = {
+      intervalKm: 10000,
+      intervalMonths: 12,
+      lastServiceMileage: 20000,
+      lastServiceDate: new Date(2025, 2, 10)
+    };
+
+    const forecast = forecastServiceInterval(schedule, 27000, usage, thresholds, now);
+    await runner.expect(forecast.kmPerRentalDay, 120, 'Distance should be averaged per rental day');
+    await runner.expect(forecast.kmPerDay, 60, 'Idle days should slow the projection down');
+    await runner.expect(forecast.rentalDaysUntilDue, 25, 'Remaining km should be converted to rental days');
+    await runner.expect(forecast.dueBy, 'MILEAGE', 'The distance limit should be reached first');
+    await runner.expect(forecast.status, 'OK', 'A service 50 days away should not be flagged');
+
+    const soon = forecastServiceInterval(schedule, 29500, usage, thresholds, now);
+    await runner.expect(soon.status, 'DUE_SOON', 'A service within the km threshold should be due soon');
+
+    const late = forecastServiceInterval({ ...schedule, intervalMonths: 6 }, 27000, usage, thresholds, now);
+    await runner.expect(late.dueBy, 'TIME', 'The time limit should win when it comes first');
+    await runner.expect(late.status, 'OVERDUE', 'A time limit in the past should be overdue');
+
+    const monthEnd = forecastServiceInterval(
+      { intervalMonths: 1, lastServiceMileage: 0, lastServiceDate: new Date(2025, 0, 31) },
+      0,
+      usage,
+      thresholds,
+      now
+    );
+    await runner.expect(monthEnd.dueDateByTime?.getDate(), 28, 'Month ends should fall back to the last day of shorter months');
+  });
+
   // Print results
   runner.printSummary();
   
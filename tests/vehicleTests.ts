@@ -484,6 +484,105 @@ async function runVehicleTests() {
       await runner.expectToExist(response.data, 'Should have availability data');
     });
 
+    await runner.runTest('GET /api/v1/vehicles with dates - Leave out booked and blocked vehicles', async () => {
+      const headers = { 'Authorization': `Bearer ${runner.adminToken}` };
+      const startDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      const endDate = new Date(startDate.getTime() + 3 * 24 * 60 * 60 * 1000);
+      const period = { startDate: startDate.toISOString(), endDate: endDate.toISOString() };
+
+      const freeVehicleId = await runner.createTestVehicle();
+      const contractVehicleId = await runner.createTestVehicle();
+      const requestVehicleId = await runner.createTestVehicle();
+      const maintenanceVehicleId = await runner.createTestVehicle();
+      const blackoutVehicleId = await runner.createTestVehicle();
+
+      // Confirmed contract over the period
+      await runner.apiCall('POST', '/api/v1/vehicle-documents', {
+        headers,
+        body: {
+          vehicleId: contractVehicleId,
+          type: 'INSURANCE',
+          expiryDate: new Date(endDate.getTime() + 365 * 24 * 60 * 60 * 1000).toISOString()
+        },
+        expectStatus: 201
+      });
+      const client = await runner.apiCall('POST', '/api/v1/clients', {
+        headers,
+        body: {
+          nom: 'Test',
+          prenom: 'Catalogue',
+          dateNaissance: '1990-01-01',
+          telephone: '+213555123456',
+          email: generateRandomEmail(),
+          adresse: '1 rue des Tests, Alger',
+          datePermis: '2010-01-01'
+        },
+        expectStatus: 201
+      });
+      const contract = await runner.apiCall('POST', '/api/v1/contracts', {
+        headers,
+        body: {
+          clientId: client.data.id,
+          vehicleId: contractVehicleId,
+          serviceType: 'INDIVIDUAL',
+          dailyRate: 50,
+          ...period
+        },
+        expectStatus: 201
+      });
+      await runner.apiCall('PUT', `/api/v1/contracts/${contract.data.id}/confirm`, { headers });
+
+      // Approved rent request over the period
+      const rentRequest = await runner.apiCall('POST', '/api/v1/rent-requests', {
+        body: {
+          clientName: 'Catalogue Client',
+          clientEmail: generateRandomEmail(),
+          clientPhone: '+213555123456',
+          vehicleId: requestVehicleId,
+          ...period
+        },
+        expectStatus: 201
+      });
+      await runner.apiCall('PATCH', `/api/v1/rent-requests/${rentRequest.data.id}`, {
+        headers,
+        body: { status: 'APPROVED' }
+      });
+
+      // Planned maintenance and blackout overlapping the period
+      await runner.apiCall('POST', '/api/v1/maintenance', {
+        headers,
+        body: { vehicleId: maintenanceVehicleId, type: 'SERVICE', ...period },
+        expectStatus: 201
+      });
+      await runner.apiCall('POST', `/api/v1/vehicles/${blackoutVehicleId}/blackouts`, {
+        headers,
+        body: { reason: 'Catalogue test', ...period },
+        expectStatus: 201
+      });
+
+      // Walk every page so the total can be compared with the vehicles actually listed
+      const listedIds: string[] = [];
+      let total = 0;
+      let page = 1;
+      let totalPages = 1;
+      do {
+        const response = await runner.apiCall('GET',
+          `/api/v1/vehicles?startDate=${period.startDate}&endDate=${period.endDate}&page=${page}&limit=50`
+        );
+        listedIds.push(...response.data.data.map((vehicle: any) => vehicle.id));
+        total = response.data.pagination.total;
+        totalPages = response.data.pagination.totalPages;
+        page++;
+      } while (page <= totalPages);
+
+      await runner.expect(listedIds.includes(freeVehicleId), true, 'Should list the free vehicle');
+      await runner.expect(listedIds.includes(contractVehicleId), false, 'Should leave out the vehicle with a confirmed contract');
+      await runner.expect(listedIds.includes(requestVehicleId), false, 'Should leave out the vehicle with an approved request');
+      await runner.expect(listedIds.includes(maintenanceVehicleId), false, 'Should leave out the vehicle in planned maintenance');
+      await runner.expect(listedIds.includes(blackoutVehicleId), false, 'Should leave out the vehicle with a blackout');
+      await runner.expect(total, listedIds.length, 'Pagination total should count only the listed vehicles');
+    });
+
     // ==============================================
     // SECTION 8: ERROR HANDLING AND VALIDATION
     // ==============================================